@@ -0,0 +1,39 @@
+/**
+ * Lints one or more exported .cmf.json files, after migrating any legacy
+ * ones to the current schema.
+ *
+ *   npm run lint:meld -- public/examples/*.cmf.json
+ *
+ * Exits non-zero if any file fails schema validation or has lint errors.
+ */
+import { readFileSync } from 'fs'
+import { migrateMeld, parseMeld, lintMeld, formatLintFinding } from '@/lib/cmf'
+
+const files = process.argv.slice(2)
+if (files.length === 0) {
+  console.error('Usage: lint-meld <file.cmf.json> [...]')
+  process.exit(2)
+}
+
+let failed = false
+
+for (const file of files) {
+  // Legacy melds are upgraded first, as the player and editor do
+  const { meld, applied } = migrateMeld(JSON.parse(readFileSync(file, 'utf8')))
+  if (applied.length > 0) console.log(`${file}: migrated (${applied.join(', ')})`)
+
+  const parsed = parseMeld(meld)
+  if (!parsed.ok) {
+    failed = true
+    console.log(`${file}: schema validation failed`)
+    parsed.errors.forEach((error) => console.log(`  ${error}`))
+    continue
+  }
+
+  const { findings, errorCount, warningCount } = lintMeld(parsed.data)
+  console.log(`${file}: ${errorCount} error(s), ${warningCount} warning(s)`)
+  findings.forEach((finding) => console.log(`  ${formatLintFinding(finding)}`))
+  if (errorCount > 0) failed = true
+}
+
+process.exit(failed ? 1 : 0)
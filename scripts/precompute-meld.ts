@@ -0,0 +1,54 @@
+/**
+ * Bakes engine evaluations into a .cmf.json file's precomputed array.
+ *
+ *   npm run precompute:meld -- lesson.cmf.json --depth 20 --lines 3 --engine /usr/local/bin/stockfish
+ *
+ * The engine is any UCI binary, `stockfish` on the PATH by default. The file
+ * is rewritten after each position, so an interrupted run resumes where it
+ * stopped; positions already evaluated at the depth are skipped.
+ */
+import { readFileSync, writeFileSync } from 'fs'
+import { parseArgs } from 'util'
+import { migrateMeld, parseMeld } from '@/lib/cmf'
+import { precomputeEvaluations } from '@/lib/engine'
+import { createProcessEngine } from '@/lib/engine/process'
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    depth: { type: 'string', default: '18' },
+    lines: { type: 'string', default: '3' },
+    engine: { type: 'string', default: 'stockfish' }
+  }
+})
+
+const [file] = positionals
+const depth = Number(values.depth)
+const bestMoves = Number(values.lines)
+if (!file || !Number.isInteger(depth) || depth < 1 || !Number.isInteger(bestMoves)) {
+  console.error('Usage: precompute-meld <file.cmf.json> [--depth 18] [--lines 3] [--engine stockfish]')
+  process.exit(2)
+}
+
+const parsed = parseMeld(migrateMeld(JSON.parse(readFileSync(file, 'utf8'))).meld)
+if (!parsed.ok) {
+  console.error(`${file}: schema validation failed`)
+  parsed.errors.forEach((error) => console.error(`  ${error}`))
+  process.exit(1)
+}
+
+const meld = parsed.data
+const engine = createProcessEngine(values.engine!)
+
+precomputeEvaluations(meld, engine, {
+  depth,
+  bestMoves,
+  onEntry: (precomputed) => writeFileSync(file, JSON.stringify({ ...meld, precomputed }, null, 2) + '\n'),
+  onProgress: ({ done, total, fen, skipped }) => console.log(`[${done}/${total}] ${skipped ? 'skipped' : 'evaluated'} ${fen}`)
+})
+  .then(() => console.log(`${file}: evaluations at depth ${depth} are up to date`))
+  .catch((error) => {
+    console.error(`${file}: ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+  })
+  .finally(() => engine.dispose())
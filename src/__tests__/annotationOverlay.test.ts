@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import {
+  annotationsToArrows,
+  annotationsToOverlayArrows,
+  annotationsToSquareMarks,
+  annotationsToSquareStyles,
+  getColorValue,
+  nextArrowNumber,
+  nextGlyph,
+  nextLabel,
+  type Annotation
+} from '@/lib/annotations'
+
+const threat: Annotation = { id: 't', type: 'arrow', from: 'd8', to: 'h4', color: 'red', style: 'dashed' }
+const plan: Annotation = { id: 'p', type: 'arrow', from: 'g1', to: 'f3', color: '#123456', number: 2 }
+const glyph: Annotation = { id: 'g', type: 'glyph', square: 'f7', glyph: '??', color: '#ef4444' }
+const label: Annotation = { id: 'l', type: 'label', square: 'e5', text: 'A', color: 'yellow', opacity: 0.5 }
+
+describe('annotation overlay', () => {
+  it('leaves dashed arrows to the overlay and numbers numbered ones', () => {
+    expect(annotationsToArrows([threat, plan]).map((arrow) => arrow.startSquare)).toEqual(['g1'])
+    expect(annotationsToOverlayArrows([threat, plan])).toEqual([
+      { from: { x: 3.5, y: 0.5 }, to: { x: 7.5, y: 4.5 }, color: '#ef4444', dashed: true },
+      { from: { x: 6.5, y: 7.5 }, to: { x: 5.5, y: 5.5 }, color: '#123456', dashed: false, number: 2 }
+    ])
+  })
+
+  it('places glyphs and labels on their squares from either side', () => {
+    expect(annotationsToSquareMarks([glyph, label])).toEqual([
+      { square: 'f7', x: 5, y: 1, kind: 'glyph', text: '??', color: '#ef4444' },
+      { square: 'e5', x: 4, y: 3, kind: 'label', text: 'A', color: '#eab30880' }
+    ])
+    expect(annotationsToSquareMarks([glyph], 'black')[0]).toMatchObject({ x: 2, y: 6 })
+    expect(annotationsToSquareStyles([glyph, label])).toEqual({})
+  })
+
+  it('passes custom colors through', () => {
+    expect(getColorValue('#12345680')).toBe('#12345680')
+    expect(getColorValue('blue')).toBe('#3b82f6')
+  })
+
+  it('picks the next glyph, label and arrow number', () => {
+    expect(nextGlyph()).toBe('!!')
+    expect(nextGlyph('!?')).toBe('?!')
+    expect(nextGlyph('??')).toBeNull()
+    expect(nextLabel([label, { ...label, id: 'l2', text: 'C' }])).toBe('B')
+    expect(nextArrowNumber([threat, plan])).toBe(3)
+  })
+})
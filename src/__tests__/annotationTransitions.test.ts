@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import {
+  annotationOpacity,
+  updateAnnotationTransitions,
+  withOpacity,
+  type Annotation,
+  type AnnotationTransition
+} from '@/lib/annotations'
+
+const arrow: Annotation = { id: 'a', type: 'arrow', from: 'e2', to: 'e4', color: 'green' }
+const circle: Annotation = { id: 'c', type: 'circle', square: 'e5', color: 'red' }
+
+describe('annotation transitions', () => {
+  it('fades new annotations in and removed ones out', () => {
+    const shown = updateAnnotationTransitions([], [arrow, circle], 0, 200)
+    const hidden = updateAnnotationTransitions(shown, [{ ...arrow, id: 'same-arrow' }], 300, 200)
+
+    expect(shown.map((t) => annotationOpacity(t, 100, 200))).toEqual([0.5, 0.5])
+    expect(hidden.map((t) => [t.annotation.type, annotationOpacity(t, 350, 200)])).toEqual([
+      ['arrow', 1],
+      ['circle', 0.75]
+    ])
+    expect(updateAnnotationTransitions(hidden, [arrow], 500, 200).map((t) => t.annotation.type)).toEqual(['arrow'])
+  })
+
+  it('keeps the same transitions when nothing changed', () => {
+    const transitions = updateAnnotationTransitions([], [arrow], 0, 200)
+
+    expect(updateAnnotationTransitions(transitions, [{ ...arrow }], 1000, 200)).toBe(transitions)
+  })
+
+  it('fades an annotation back in from where it was when it reappears', () => {
+    const fadingOut: AnnotationTransition[] = [{ annotation: circle, shownAt: 0, hiddenAt: 1000 }]
+
+    const [revived] = updateAnnotationTransitions(fadingOut, [circle], 1050, 200)
+
+    expect(annotationOpacity(revived, 1050, 200)).toBeCloseTo(0.75)
+    expect(annotationOpacity(revived, 1100, 200)).toBe(1)
+  })
+
+  it('adds an alpha channel for partly faded colors', () => {
+    expect(withOpacity('#22c55e')).toBe('#22c55e')
+    expect(withOpacity('#22c55e', 0.25)).toBe('#22c55e40')
+    expect(withOpacity('#22c55e', 0)).toBe('#22c55e00')
+  })
+})
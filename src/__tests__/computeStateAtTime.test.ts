@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { buildMoveIndex, computeStateAtTime, type MeldV0_0_1 } from '@/lib/renderer'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+function createMeld(events: MeldV0_0_1['events']): MeldV0_0_1 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'clear-test',
+      title: 'Clear Test',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: START_FEN,
+      durationMs: 1000
+    },
+    rootNodeId: START_FEN,
+    nodes: { [START_FEN]: { fen: START_FEN, children: [], parents: [] } },
+    events
+  }
+}
+
+describe('computeStateAtTime', () => {
+  const annotations: MeldV0_0_1['events'] = [
+    { id: 'plan', t: 100, type: 'annotate', fen: START_FEN, arrows: [{ from: 'e2', to: 'e4', color: 'green' }] },
+    { id: 'target', t: 100, type: 'annotate', fen: START_FEN, circles: [{ square: 'e5', color: 'red' }] }
+  ]
+
+  function annotationsAt(meld: MeldV0_0_1, timeMs: number) {
+    return computeStateAtTime(meld, buildMoveIndex(meld), timeMs).activeAnnotations
+  }
+
+  it('removes only the annotations of the annotate events a clear targets', () => {
+    const meld = createMeld([...annotations, { t: 200, type: 'clear', fen: START_FEN, targets: ['plan'] }])
+
+    expect(annotationsAt(meld, 150)).toHaveLength(2)
+    expect(annotationsAt(meld, 200)).toEqual([{ type: 'circle', square: 'e5', color: 'red' }])
+  })
+
+  it('removes every annotation when a clear has no targets', () => {
+    const meld = createMeld([...annotations, { t: 200, type: 'clear', fen: START_FEN }])
+
+    expect(annotationsAt(meld, 200)).toEqual([])
+  })
+
+  it('removes annotations when their duration, until event or next move ends them', () => {
+    const meld = createMeld([
+      { t: 100, type: 'annotate', fen: START_FEN, arrows: [{ from: 'e2', to: 'e4', color: 'green' }], durationMs: 300 },
+      { t: 100, type: 'annotate', fen: START_FEN, circles: [{ square: 'e5', color: 'red' }], until: 'reveal' },
+      { t: 100, type: 'annotate', fen: START_FEN, highlights: [{ square: 'd4', color: 'blue' }], untilNextMove: true },
+      { id: 'reveal', t: 250, type: 'text', text: 'Now look at d4', fen: START_FEN },
+      { t: 350, type: 'move', from: 'e2', to: 'e4', fen: START_FEN, legalPolicy: 'strict', color: 'w' }
+    ])
+
+    expect(annotationsAt(meld, 249)).toHaveLength(3)
+    expect(annotationsAt(meld, 250).map((a) => a.type)).toEqual(['arrow', 'highlight'])
+    expect(annotationsAt(meld, 350).map((a) => a.type)).toEqual(['arrow'])
+    expect(annotationsAt(meld, 400)).toEqual([])
+  })
+  it('adds dashed and numbered arrows, glyphs and labels', () => {
+    const meld = createMeld([
+      {
+        t: 100,
+        type: 'annotate',
+        fen: START_FEN,
+        arrows: [
+          { from: 'd8', to: 'h4', color: '#ef444480', style: 'dashed' },
+          { from: 'g1', to: 'f3', color: 'green', style: 'solid', number: 1 }
+        ],
+        glyphs: [{ square: 'f7', glyph: '?!' }],
+        labels: [{ square: 'e5', text: 'A' }]
+      }
+    ])
+
+    expect(annotationsAt(meld, 100)).toEqual([
+      { type: 'arrow', from: 'd8', to: 'h4', color: '#ef444480', style: 'dashed' },
+      { type: 'arrow', from: 'g1', to: 'f3', color: 'green', number: 1 },
+      { type: 'glyph', square: 'f7', glyph: '?!' },
+      { type: 'label', square: 'e5', text: 'A', color: 'yellow' }
+    ])
+  })
+})
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest'
+import { readFileSync } from 'fs'
+import {
+  parseCourse,
+  assertCourse,
+  chapterTitle,
+  isCourseDocument,
+  courseFromMeld,
+  loadChapterMeld,
+  isChapterUnlocked,
+  completeChapter,
+  nextChapter,
+  courseCompletion,
+  EMPTY_COURSE_PROGRESS,
+  type ChessmeldMeldFormatCMFV001
+} from '@/lib/cmf'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+function createMeld(id: string, title: string): ChessmeldMeldFormatCMFV001 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id,
+      title,
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: START_FEN,
+      durationMs: 1000,
+      tags: ['opening']
+    },
+    rootNodeId: START_FEN,
+    nodes: { [START_FEN]: { fen: START_FEN, children: [], parents: [] } },
+    events: [{ t: 0, type: 'text', text: title, fen: START_FEN }]
+  }
+}
+
+function createCourse() {
+  return {
+    schema: 'cmf-course.v0.0.1',
+    id: 'e4-course',
+    title: '1. e4 for beginners',
+    chapters: [
+      { meld: createMeld('basics', 'Basics') },
+      { id: 'italian', title: 'The Italian', meldUrl: 'italian.cmf.json', prerequisites: ['basics'] },
+      { id: 'scotch', meldUrl: 'https://cdn.example.com/scotch.meld', prerequisites: ['basics'] },
+      { id: 'review', meldUrl: '/melds/review.cmf.json', prerequisites: ['italian', 'scotch'] }
+    ]
+  }
+}
+
+describe('parseCourse', () => {
+  it('fills in chapter ids and titles from embedded melds', () => {
+    const course = assertCourse(createCourse())
+
+    expect(course.chapters.map((c) => [c.id, c.title, c.prerequisites])).toEqual([
+      ['basics', 'Basics', []],
+      ['italian', 'The Italian', ['basics']],
+      ['scotch', 'Chapter 3', ['basics']],
+      ['review', 'Chapter 4', ['italian', 'scotch']]
+    ])
+    expect(isCourseDocument(createCourse())).toBe(true)
+    expect(isCourseDocument(createMeld('basics', 'Basics'))).toBe(false)
+  })
+
+  it('migrates legacy embedded melds', () => {
+    const legacy = {
+      ...createMeld('legacy', 'Legacy'),
+      events: [{ t: 0, type: 'annotate', fen: START_FEN, arrows: [['e2', 'e4']] }]
+    }
+    const course = assertCourse({ ...createCourse(), chapters: [{ meld: legacy }] })
+
+    expect(course.chapters[0].meld!.events[0]).toMatchObject({ arrows: [{ from: 'e2', to: 'e4', color: 'yellow' }] })
+  })
+
+  it('reports chapters without exactly one meld source, or without an id', () => {
+    const result = parseCourse({
+      ...createCourse(),
+      chapters: [{ id: 'both', meld: createMeld('both', 'Both'), meldUrl: 'both.cmf.json' }, { meldUrl: 'anon.cmf.json' }]
+    })
+
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.errors).toEqual([
+      'chapters.0: A chapter needs exactly one of meld or meldUrl.',
+      'chapters.1.id: A chapter that references its meld by URL needs an id.'
+    ])
+  })
+
+  it('reports duplicate ids and unknown or later prerequisites', () => {
+    const result = parseCourse({
+      ...createCourse(),
+      chapters: [
+        { id: 'a', meldUrl: 'a.cmf.json', prerequisites: ['b'] },
+        { id: 'b', meldUrl: 'b.cmf.json', prerequisites: ['missing'] },
+        { id: 'b', meldUrl: 'c.cmf.json' }
+      ]
+    })
+
+    expect(!result.ok && result.errors).toEqual([
+      'chapters.2.id: Duplicate chapter id "b".',
+      'chapters.0.prerequisites.0: Prerequisite "b" must come before the chapter that requires it.',
+      'chapters.1.prerequisites.0: Unknown prerequisite "missing".'
+    ])
+  })
+
+  it('parses the example course', () => {
+    const json = JSON.parse(readFileSync('public/examples/openings.course.json', 'utf8'))
+
+    expect(parseCourse(json).ok).toBe(true)
+  })
+})
+
+describe('loadChapterMeld', () => {
+  const course = assertCourse(createCourse())
+
+  it('resolves meldUrls against the course URL', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async () => new Response(JSON.stringify(createMeld('italian', 'Italian'))))
+
+    const meld = await loadChapterMeld(course.chapters[1], '/examples/e4.course.json', fetchMock)
+    await loadChapterMeld(course.chapters[3], 'https://example.com/courses/e4.course.json', fetchMock)
+
+    expect(meld.meta.id).toBe('italian')
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      '/examples/italian.cmf.json',
+      'https://example.com/melds/review.cmf.json'
+    ])
+  })
+
+  it('returns embedded melds without fetching', async () => {
+    const fetchMock = vi.fn()
+
+    expect((await loadChapterMeld(course.chapters[0], '/e4.course.json', fetchMock)).meta.id).toBe('basics')
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('titles chapters from their loaded meld when the course gives no title', () => {
+    expect(chapterTitle(course.chapters[1], createMeld('italian', 'Italian'))).toBe('The Italian')
+    expect(chapterTitle(course.chapters[2], createMeld('scotch', 'The Scotch'))).toBe('The Scotch')
+  })
+
+  it('throws when the chapter cannot be fetched', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async () => new Response('', { status: 404, statusText: 'Not Found' }))
+
+    await expect(loadChapterMeld(course.chapters[1], '/e4.course.json', fetchMock)).rejects.toThrow(
+      'Failed to load chapter "italian": 404 Not Found'
+    )
+  })
+})
+
+describe('course progress', () => {
+  const course = assertCourse(createCourse())
+  const [basics, italian, scotch, review] = course.chapters
+
+  it('unlocks chapters once their prerequisites are complete', () => {
+    const progress = completeChapter(completeChapter(EMPTY_COURSE_PROGRESS, 'basics'), 'italian')
+
+    expect([basics, italian, scotch, review].map((c) => isChapterUnlocked(c, EMPTY_COURSE_PROGRESS))).toEqual([
+      true,
+      false,
+      false,
+      false
+    ])
+    expect([scotch, review].map((c) => isChapterUnlocked(c, progress))).toEqual([true, false])
+    expect(completeChapter(progress, 'basics')).toBe(progress)
+  })
+
+  it('suggests the next unlocked chapter still to do', () => {
+    const progress = completeChapter(completeChapter(EMPTY_COURSE_PROGRESS, 'basics'), 'scotch')
+
+    expect(nextChapter(course, progress, 'basics')?.id).toBe('italian')
+    expect(nextChapter(course, completeChapter(progress, 'italian'), 'italian')?.id).toBe('review')
+    expect(nextChapter(course, progress, 'scotch')).toBeUndefined()
+    expect(courseCompletion(course, progress)).toBe(0.5)
+  })
+
+  it('wraps a single meld as a one-chapter course', () => {
+    const course = courseFromMeld(createMeld('solo', 'Solo'))
+
+    expect(course).toMatchObject({ id: 'solo', title: 'Solo', tags: ['opening'] })
+    expect(course.chapters).toEqual([{ id: 'solo', title: 'Solo', meld: expect.any(Object), prerequisites: [] }])
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_POSITION } from 'chess.js'
+import type { ChessmeldMeldFormatCMFV001, QuizResult } from '@/lib/cmf'
+import {
+  DAY_MS,
+  drillCardsFromMeld,
+  drillQueue,
+  newDrillSchedule,
+  reviewDrillSchedule,
+  reviewQualityOf,
+  type DrillCard
+} from '@/lib/drill'
+import { applyMove, positionKey } from '@/lib/variants'
+
+const E4 = applyMove(DEFAULT_POSITION, 'e4').after
+const D4 = applyMove(DEFAULT_POSITION, 'd4').after
+const E5 = applyMove(E4, 'e5').after
+const NF3 = applyMove(E5, 'Nf3').after
+const NOW = Date.UTC(2025, 0, 1)
+
+function createMeld(): ChessmeldMeldFormatCMFV001 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'open-games',
+      title: 'Open Games',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: DEFAULT_POSITION,
+      durationMs: 1000
+    },
+    rootNodeId: DEFAULT_POSITION,
+    nodes: {
+      [DEFAULT_POSITION]: { fen: DEFAULT_POSITION, children: [{ move: 'e4', fen: E4 }, { move: 'd4', fen: D4 }], parents: [] },
+      [E4]: { fen: E4, children: [{ move: 'e5', fen: E5 }], parents: [{ fen: DEFAULT_POSITION, move: 'e4' }] },
+      [D4]: { fen: D4, children: [], parents: [{ fen: DEFAULT_POSITION, move: 'd4' }] },
+      [E5]: { fen: E5, children: [{ move: 'Nf3', fen: NF3 }], parents: [{ fen: E4, move: 'e5' }] },
+      [NF3]: { fen: NF3, children: [], parents: [{ fen: E5, move: 'Nf3' }] }
+    },
+    events: []
+  }
+}
+
+function createCard(fen: string, meldId = 'other'): DrillCard {
+  return { id: positionKey(fen), fen, variant: 'standard', answers: [{ move: 'Nf3' }], meldId, meldTitle: meldId }
+}
+
+describe('drillCardsFromMeld', () => {
+  it('asks for the mainline moves of the chosen side, with variations for partial credit', () => {
+    const cards = drillCardsFromMeld(createMeld(), 'w')
+
+    expect(cards.map((card) => [card.fen, card.answers])).toEqual([
+      [DEFAULT_POSITION, [{ move: 'e4' }, { move: 'd4', credit: 0.5 }]],
+      [E5, [{ move: 'Nf3' }]]
+    ])
+    expect(cards[0]).toMatchObject({ id: positionKey(DEFAULT_POSITION), meldId: 'open-games', meldTitle: 'Open Games' })
+  })
+
+  it('uses the answers of pause points for the chosen side', () => {
+    const meld = createMeld()
+    meld.events.push(
+      { t: 100, type: 'pausepoint', id: 'sicilian', fen: E4, prompt: 'Reply to 1.e4', answers: [{ move: 'c5' }], hints: ['Take d4'] },
+      { t: 200, type: 'pausepoint', id: 'no-answers', fen: E5, prompt: 'Think' }
+    )
+
+    expect(drillCardsFromMeld(meld, 'b')).toEqual([
+      expect.objectContaining({ fen: E4, answers: [{ move: 'c5' }], prompt: 'Reply to 1.e4', hints: ['Take d4'] })
+    ])
+    expect(drillCardsFromMeld(meld, 'w').map((card) => card.fen)).toEqual([DEFAULT_POSITION, E5])
+  })
+})
+
+describe('drillQueue', () => {
+  it('puts overdue cards from any meld before new cards, leaving out cards not yet due', () => {
+    const cards = drillCardsFromMeld(createMeld(), 'w')
+    const records = [
+      { card: createCard(D4.replace(' b ', ' w ')), schedule: { ...newDrillSchedule(NOW - DAY_MS), repetitions: 1 } },
+      { card: cards[1], schedule: { ...newDrillSchedule(NOW), dueAt: NOW + DAY_MS } },
+      { card: createCard(E4), schedule: newDrillSchedule(NOW - 2 * DAY_MS) }
+    ]
+
+    expect(drillQueue(cards, records, 'w', NOW).map((record) => record.card.fen)).toEqual([
+      D4.replace(' b ', ' w '),
+      DEFAULT_POSITION
+    ])
+  })
+})
+
+describe('reviewDrillSchedule', () => {
+  it('stretches the interval after each pass', () => {
+    const first = reviewDrillSchedule(newDrillSchedule(NOW), 5, NOW)
+    const second = reviewDrillSchedule(first, 4, NOW)
+    const third = reviewDrillSchedule(second, 4, NOW)
+
+    expect([first.intervalDays, second.intervalDays, third.intervalDays]).toEqual([1, 6, 16])
+    expect(first).toMatchObject({ repetitions: 1, ease: 2.6, dueAt: NOW + DAY_MS, reviewedAt: NOW })
+  })
+
+  it('starts over after a fail, without letting the ease drop below 1.3', () => {
+    const schedule = { repetitions: 4, intervalDays: 30, ease: 1.4, dueAt: NOW }
+
+    expect(reviewDrillSchedule(schedule, 1, NOW)).toEqual({
+      repetitions: 0,
+      intervalDays: 1,
+      ease: 1.3,
+      dueAt: NOW + DAY_MS,
+      reviewedAt: NOW
+    })
+  })
+})
+
+describe('reviewQualityOf', () => {
+  const attempt = (credit: number) => ({ credit }) as QuizResult
+
+  it('grades by the first attempt, and whether a later one earned credit', () => {
+    expect(reviewQualityOf([attempt(1)])).toBe(5)
+    expect(reviewQualityOf([attempt(0.5)])).toBe(4)
+    expect(reviewQualityOf([attempt(0), attempt(1)])).toBe(3)
+    expect(reviewQualityOf([attempt(0)])).toBe(1)
+    expect(reviewQualityOf([])).toBe(0)
+  })
+})
@@ -0,0 +1,267 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_POSITION } from 'chess.js'
+import type { ChessmeldMeldFormatCMFV001 } from '@/lib/cmf'
+import {
+  createPrecomputedEngine,
+  createUciEngine,
+  formatScore,
+  isAbortError,
+  parseUciInfo,
+  precomputeEvaluations,
+  precomputedEvaluation,
+  pvToSan,
+  whiteShare,
+  type EngineProvider,
+  type UciTransport
+} from '@/lib/engine'
+import { createProcessEngine } from '@/lib/engine/process'
+
+const E4_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+
+// A UCI engine that answers every search with the same two lines
+const FAKE_ENGINE = `
+const rl = require('readline').createInterface({ input: process.stdin })
+rl.on('line', (line) => {
+  if (line === 'uci') console.log('id name Fake\\nuciok')
+  else if (line === 'isready') console.log('readyok')
+  else if (line.startsWith('go')) {
+    console.log('info depth 1 seldepth 1 multipv 1 score cp 30 nodes 20 pv e2e4')
+    console.log('info depth 1 seldepth 1 multipv 2 score cp 20 nodes 20 pv d2d4 d7d5')
+    console.log('bestmove e2e4')
+  }
+  else if (line === 'quit') process.exit(0)
+})
+`
+
+// A transport whose engine only answers searches when told to
+function createFakeTransport() {
+  const sent: string[] = []
+  const transport: UciTransport = {
+    onLine: null,
+    onError: null,
+    send: (command) => {
+      sent.push(command)
+      if (command === 'uci') queueMicrotask(() => transport.onLine?.('uciok'))
+      if (command === 'isready') queueMicrotask(() => transport.onLine?.('readyok'))
+      if (command === 'stop') queueMicrotask(() => transport.onLine?.('bestmove e7e5'))
+    },
+    close: () => {}
+  }
+  const reply = (line: string) => transport.onLine?.(line)
+  return { transport, sent, reply }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+function createMeld(): ChessmeldMeldFormatCMFV001 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'engine-test',
+      title: 'Engine Test',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: DEFAULT_POSITION,
+      durationMs: 1000,
+      engineHints: true
+    },
+    rootNodeId: DEFAULT_POSITION,
+    nodes: { [DEFAULT_POSITION]: { fen: DEFAULT_POSITION, children: [], parents: [] } },
+    events: [],
+    precomputed: [{ fen: E4_FEN.replace(' 0 1', ' 0 5'), depth: 20, cp: 25, best: ['c5', 'e7e5', 'Ke2'] }]
+  }
+}
+
+describe('parseUciInfo', () => {
+  it('reads lines with a principal variation, with scores from White\'s point of view', () => {
+    const line = 'info depth 12 seldepth 18 multipv 2 score cp 35 nodes 1000 pv e7e5 g1f3'
+
+    expect(parseUciInfo(line, true)).toEqual({ rank: 2, depth: 12, cp: 35, pv: ['e7e5', 'g1f3'] })
+    expect(parseUciInfo(line, false)).toEqual({ rank: 2, depth: 12, cp: -35, pv: ['e7e5', 'g1f3'] })
+    expect(parseUciInfo('info depth 5 score mate -2 pv h7h8', true)).toEqual({ rank: 1, depth: 5, mate: -2, pv: ['h7h8'] })
+  })
+
+  it('ignores bounds and lines without a variation', () => {
+    expect(parseUciInfo('info depth 9 score cp 40 lowerbound pv e2e4', true)).toBeNull()
+    expect(parseUciInfo('info depth 9 currmove e2e4 currmovenumber 1', true)).toBeNull()
+    expect(parseUciInfo('bestmove e2e4', true)).toBeNull()
+  })
+})
+
+describe('createUciEngine', () => {
+  it('sets up the search and reports lines as they arrive', async () => {
+    const { transport, sent, reply } = createFakeTransport()
+    const engine = createUciEngine(transport)
+    const updates: number[] = []
+
+    const result = engine.analyze(E4_FEN, { depth: 10, multiPv: 2, onUpdate: (evaluation) => updates.push(evaluation.lines.length) })
+    await flush()
+    reply('info depth 10 multipv 1 score cp -30 pv e7e5')
+    reply('info depth 10 multipv 2 score cp -20 pv c7c5')
+    reply('bestmove e7e5')
+
+    expect(await result).toEqual({
+      fen: E4_FEN,
+      depth: 10,
+      lines: [
+        { rank: 1, depth: 10, cp: 30, pv: ['e7e5'] },
+        { rank: 2, depth: 10, cp: 20, pv: ['c7c5'] }
+      ]
+    })
+    expect(updates).toEqual([1, 2])
+    expect(sent).toEqual(['uci', 'setoption name MultiPV value 2', 'isready', `position fen ${E4_FEN}`, 'go depth 10'])
+  })
+
+  it('stops an aborted search before starting the next', async () => {
+    const { transport, sent, reply } = createFakeTransport()
+    const engine = createUciEngine(transport)
+    const controller = new AbortController()
+
+    const first = engine.analyze(E4_FEN, { signal: controller.signal })
+    const second = engine.analyze(DEFAULT_POSITION, { movetimeMs: 100 })
+    await flush()
+    controller.abort()
+    await expect(first).rejects.toSatisfy(isAbortError)
+
+    await flush()
+    reply('info depth 3 score cp 20 pv e2e4')
+    reply('bestmove e2e4')
+    expect((await second).lines).toEqual([{ rank: 1, depth: 3, cp: 20, pv: ['e2e4'] }])
+    expect(sent).toEqual([
+      'uci',
+      'isready',
+      `position fen ${E4_FEN}`,
+      'go depth 18',
+      'stop',
+      'isready',
+      `position fen ${DEFAULT_POSITION}`,
+      'go movetime 100'
+    ])
+  })
+
+  it('rejects searches once the engine fails', async () => {
+    const { transport } = createFakeTransport()
+    const engine = createUciEngine(transport)
+    transport.onError?.(new Error('Could not load'))
+
+    await expect(engine.analyze(DEFAULT_POSITION)).rejects.toThrow('Could not load')
+  })
+
+  it('runs a UCI binary in a child process', async () => {
+    const engine = createProcessEngine(process.execPath, ['-e', FAKE_ENGINE])
+    try {
+      const evaluation = await engine.analyze(DEFAULT_POSITION, { multiPv: 2 })
+
+      expect(evaluation.lines.map((line) => [line.cp, pvToSan(DEFAULT_POSITION, line.pv)])).toEqual([
+        [30, ['e4']],
+        [20, ['d4', 'd5']]
+      ])
+    } finally {
+      engine.dispose()
+    }
+  })
+})
+
+describe('precomputed evaluations', () => {
+  it('match positions by position key, one line per best move', () => {
+    expect(precomputedEvaluation(createMeld(), E4_FEN)).toEqual({
+      fen: E4_FEN,
+      depth: 20,
+      lines: [
+        { rank: 1, depth: 20, cp: 25, pv: ['c7c5'] },
+        { rank: 2, depth: 20, pv: ['e7e5'] }
+      ]
+    })
+    expect(precomputedEvaluation(createMeld(), DEFAULT_POSITION)).toBeNull()
+  })
+
+  it('answer through the provider interface', async () => {
+    const engine = createPrecomputedEngine(createMeld())
+
+    expect((await engine.analyze(E4_FEN)).lines).toHaveLength(1)
+    await expect(engine.analyze(DEFAULT_POSITION)).rejects.toThrow('No precomputed evaluation')
+  })
+})
+
+describe('precomputeEvaluations', () => {
+  // Answers every position with a score of +0.10 and two best moves
+  function createStubEngine(analysed: string[]): EngineProvider {
+    return {
+      analyze: async (fen, options = {}) => {
+        analysed.push(fen)
+        const black = fen.split(' ')[1] === 'b'
+        return {
+          fen,
+          depth: options.depth ?? 18,
+          lines: [
+            { rank: 1, depth: options.depth ?? 18, cp: 10, pv: [black ? 'c7c5' : 'g1f3'] },
+            { rank: 2, depth: options.depth ?? 18, cp: 5, pv: [black ? 'e7e5' : 'd2d4'] }
+          ].slice(0, options.multiPv)
+        }
+      },
+      dispose: () => {}
+    }
+  }
+
+  function createTwoNodeMeld() {
+    const meld = createMeld()
+    meld.nodes[DEFAULT_POSITION].children = [{ move: 'e4', fen: E4_FEN }]
+    meld.nodes[E4_FEN] = { fen: E4_FEN, children: [], parents: [{ fen: DEFAULT_POSITION, move: 'e4' }] }
+    return meld
+  }
+
+  it('evaluates each node, skipping ones already evaluated deep enough', async () => {
+    const analysed: string[] = []
+    const saved: number[] = []
+
+    const precomputed = await precomputeEvaluations(createTwoNodeMeld(), createStubEngine(analysed), {
+      depth: 12,
+      bestMoves: 2,
+      onEntry: (entries) => saved.push(entries.length)
+    })
+
+    expect(analysed).toEqual([DEFAULT_POSITION])
+    expect(saved).toEqual([2])
+    expect(precomputed).toEqual([
+      createMeld().precomputed![0],
+      { fen: DEFAULT_POSITION, depth: 12, cp: 10, best: ['Nf3', 'd4'] }
+    ])
+  })
+
+  it('replaces entries shallower than the depth', async () => {
+    const analysed: string[] = []
+
+    const precomputed = await precomputeEvaluations(createTwoNodeMeld(), createStubEngine(analysed), { depth: 24, bestMoves: 1 })
+
+    expect(analysed).toEqual([DEFAULT_POSITION, E4_FEN])
+    expect(precomputed).toEqual([
+      { fen: E4_FEN, depth: 24, cp: 10, best: ['c5'] },
+      { fen: DEFAULT_POSITION, depth: 24, cp: 10, best: ['Nf3'] }
+    ])
+  })
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(precomputeEvaluations(createTwoNodeMeld(), createStubEngine([]), { signal: controller.signal })).rejects.toSatisfy(isAbortError)
+  })
+})
+
+describe('formatting', () => {
+  it('formats scores and eval bar shares', () => {
+    expect([formatScore({ cp: 35 }), formatScore({ cp: -120 }), formatScore({ mate: -3 }), formatScore({})]).toEqual([
+      '+0.35',
+      '-1.20',
+      '#-3',
+      ''
+    ])
+    expect(whiteShare({ cp: 0 })).toBe(0.5)
+    expect(whiteShare({ cp: 300 })).toBeGreaterThan(0.75)
+    expect([whiteShare({ mate: 2 }), whiteShare({ mate: -2 })]).toEqual([1, 0])
+  })
+
+  it('stops a variation at its first illegal move', () => {
+    expect(pvToSan(DEFAULT_POSITION, ['g1f3', 'g8f6', 'e1e8'])).toEqual(['Nf3', 'Nf6'])
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest'
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import { initialState, undoableGraphStudioReducer, type GraphStudioAction, type GraphStudioState } from '@/hooks/useGraphStudio'
+
+function fenAfter(moves: string) {
+  const chess = new Chess()
+  for (const move of moves.split(' ')) chess.move(move)
+  return chess.fen()
+}
+
+const E4 = fenAfter('e4')
+const E4_E5 = fenAfter('e4 e5')
+const E4_C5 = fenAfter('e4 c5')
+
+function startSession(): GraphStudioState {
+  return undoableGraphStudioReducer(initialState, {
+    type: 'INIT_SESSION',
+    session: {
+      id: 'history-test',
+      title: '',
+      author: '',
+      startingFen: DEFAULT_POSITION,
+      nodes: { [DEFAULT_POSITION]: { fen: DEFAULT_POSITION, children: [], parents: [], moveNumber: 0 } },
+      rootNodeId: DEFAULT_POSITION,
+      currentNodeId: DEFAULT_POSITION,
+      currentPath: { nodeIds: [DEFAULT_POSITION], moves: [] },
+      events: [],
+      duration: 0
+    }
+  })
+}
+
+function move(san: string, fen: string, parentFen: string, timestamp: number, type: 'ADD_MOVE' | 'ADD_VARIATION' = 'ADD_MOVE'): GraphStudioAction {
+  return { type, parentFen, move: { san, fen, timestamp, color: fen.split(' ')[1] === 'w' ? 'b' : 'w' } }
+}
+
+function run(state: GraphStudioState, ...actions: GraphStudioAction[]) {
+  return actions.reduce(undoableGraphStudioReducer, state)
+}
+
+describe('undoableGraphStudioReducer', () => {
+  it('undoes and redoes moves and variations one at a time', () => {
+    const played = run(
+      startSession(),
+      move('e4', E4, DEFAULT_POSITION, 1000),
+      move('e5', E4_E5, E4, 2000),
+      move('c5', E4_C5, E4, 3000, 'ADD_VARIATION')
+    )
+    expect(played.session.nodes[E4].children.map((child: { move: string }) => child.move)).toEqual(['e5', 'c5'])
+
+    const undone = run(played, { type: 'UNDO' }, { type: 'UNDO' })
+    expect(Object.keys(undone.session.nodes)).toEqual([DEFAULT_POSITION, E4])
+    expect(undone.session.nodes[E4].children).toEqual([])
+    expect(undone.session.events).toHaveLength(1)
+    expect(undone.session.currentNodeId).toBe(E4)
+
+    const redone = run(undone, { type: 'REDO' }, { type: 'REDO' })
+    expect(redone.session).toEqual(played.session)
+    expect(redone.history.future).toEqual([])
+  })
+
+  it('brings back a removed subtree with its events', () => {
+    const played = run(
+      startSession(),
+      move('e4', E4, DEFAULT_POSITION, 1000),
+      move('e5', E4_E5, E4, 2000),
+      move('c5', E4_C5, E4, 3000, 'ADD_VARIATION')
+    )
+    const removed = undoableGraphStudioReducer(played, { type: 'REMOVE_NODE', fen: E4 })
+    expect(removed.session.nodes[E4_E5]).toBeUndefined()
+    expect(removed.session.currentNodeId).toBe(DEFAULT_POSITION)
+
+    const restored = undoableGraphStudioReducer(removed, { type: 'UNDO' })
+    expect(restored.session).toEqual(played.session)
+    expect(restored.session.nodes[E4_C5]).toBeDefined()
+  })
+
+  it('skips navigation, and clears the redo stack on a new edit', () => {
+    const played = run(startSession(), move('e4', E4, DEFAULT_POSITION, 1000), move('e5', E4_E5, E4, 2000))
+    const navigated = undoableGraphStudioReducer(played, { type: 'NAVIGATE_TO_NODE', fen: E4 })
+    expect(navigated.history.past).toHaveLength(2)
+
+    const undone = undoableGraphStudioReducer(navigated, { type: 'UNDO' })
+    expect(undone.session.nodes[E4_E5]).toBeUndefined()
+    expect(undone.history.future).toHaveLength(1)
+
+    const branched = undoableGraphStudioReducer(undone, move('c5', E4_C5, E4, 3000))
+    expect(branched.history.future).toEqual([])
+    expect(undoableGraphStudioReducer(branched, { type: 'REDO' })).toBe(branched)
+  })
+
+  it('records a navigate event to the restored position when given the recording time', () => {
+    const played = run(startSession(), move('e4', E4, DEFAULT_POSITION, 1000), move('e5', E4_E5, E4, 2000))
+
+    const undone = undoableGraphStudioReducer(played, { type: 'UNDO', timestamp: 2500 })
+    expect(undone.session.events.map((event: { type: string }) => event.type)).toEqual(['move', 'navigate'])
+    expect(undone.session.events[1]).toMatchObject({ t: 2500, type: 'navigate', fen: E4, navigationType: 'to_node' })
+
+    const redone = undoableGraphStudioReducer(undone, { type: 'REDO', timestamp: 3000 })
+    expect(redone.session.events.at(-1)).toMatchObject({ t: 3000, type: 'navigate', fen: E4_E5 })
+  })
+
+  it('keeps the audio, evaluations and recorded navigation and text when undoing', () => {
+    const audioBlob = new Blob(['audio'])
+    const precomputed = [{ fen: E4, depth: 12, cp: 30 }]
+    const played = run(
+      startSession(),
+      move('e4', E4, DEFAULT_POSITION, 1000),
+      move('e5', E4_E5, E4, 2000),
+      { type: 'NAVIGATE_TO_NODE', fen: E4, timestamp: 2500 },
+      { type: 'ADD_TEXT_EVENTS', textEvents: [{ t: 2600, type: 'text', text: 'Black has options' }] },
+      { type: 'SET_AUDIO_BLOB', blob: audioBlob },
+      { type: 'SET_PRECOMPUTED', precomputed }
+    )
+
+    const undone = undoableGraphStudioReducer(played, { type: 'UNDO' })
+    expect(undone.session.nodes[E4_E5]).toBeUndefined()
+    expect(undone.session.audioBlob).toBe(audioBlob)
+    expect(undone.session.precomputed).toBe(precomputed)
+    expect(undone.session.events.map((event: { type: string }) => event.type)).toEqual(['move', 'navigate', 'text'])
+  })
+
+  it('starts a new session with an empty history', () => {
+    const played = run(startSession(), move('e4', E4, DEFAULT_POSITION, 1000))
+
+    expect(run(played, { type: 'INIT_SESSION', session: startSession().session }).history).toEqual({ past: [], future: [] })
+    expect(undoableGraphStudioReducer(startSession(), { type: 'UNDO' })).toEqual(startSession())
+  })
+})
+
+describe('graphStudioReducer moves', () => {
+  it('joins a transposition once, however often it is played', () => {
+    const viaNf3 = fenAfter('Nf3 e5 e4')
+    const played = run(
+      startSession(),
+      move('e4', E4, DEFAULT_POSITION, 1000),
+      move('e5', E4_E5, E4, 2000),
+      move('Nf3', fenAfter('e4 e5 Nf3'), E4_E5, 3000),
+      move('Nf3', fenAfter('Nf3'), DEFAULT_POSITION, 4000, 'ADD_VARIATION'),
+      move('e5', fenAfter('Nf3 e5'), fenAfter('Nf3'), 5000),
+      move('e4', viaNf3, fenAfter('Nf3 e5'), 6000),
+      move('e4', viaNf3, fenAfter('Nf3 e5'), 7000)
+    )
+    const joined = fenAfter('e4 e5 Nf3')
+
+    expect(played.session.nodes[viaNf3]).toBeUndefined()
+    expect(played.session.nodes[fenAfter('Nf3 e5')].children).toHaveLength(1)
+    expect(played.session.nodes[joined].parents).toHaveLength(2)
+    expect(played.session.events.filter((event: { fen: string }) => event.fen === joined)).toHaveLength(3)
+  })
+
+  it('keeps a repeated position apart from the node it repeats', () => {
+    const fens = ['Nf3', 'Nf3 Nf6', 'Nf3 Nf6 Ng1', 'Nf3 Nf6 Ng1 Ng8'].map(fenAfter)
+    const played = run(
+      startSession(),
+      move('Nf3', fens[0], DEFAULT_POSITION, 1000),
+      move('Nf6', fens[1], fens[0], 2000),
+      move('Ng1', fens[2], fens[1], 3000),
+      move('Ng8', fens[3], fens[2], 4000)
+    )
+
+    expect(Object.keys(played.session.nodes)).toHaveLength(5)
+    expect(played.session.nodes[DEFAULT_POSITION].parents).toEqual([])
+  })
+})
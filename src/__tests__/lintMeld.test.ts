@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import { lintMeld, type ChessmeldMeldFormatCMFV001 } from '@/lib/cmf'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+const E4_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+const D4_FEN = 'rnbqkbnr/pppppppp/8/8/3P4/8/PPP1PPPP/RNBQKBNR b KQkq - 0 1'
+
+function createMeld(): ChessmeldMeldFormatCMFV001 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'lint-test',
+      title: 'Lint Test',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: START_FEN,
+      durationMs: 1000
+    },
+    rootNodeId: START_FEN,
+    nodes: {
+      [START_FEN]: { fen: START_FEN, children: [{ move: 'e4', fen: E4_FEN }], parents: [] },
+      [E4_FEN]: { fen: E4_FEN, children: [], parents: [{ fen: START_FEN, move: 'e4' }] }
+    },
+    events: [
+      { t: 100, type: 'move', from: 'e2', to: 'e4', legalPolicy: 'strict', color: 'w', fen: E4_FEN },
+      { t: 200, type: 'pausepoint', id: 'p1', fen: E4_FEN }
+    ]
+  }
+}
+
+function rules(meld: ChessmeldMeldFormatCMFV001) {
+  return lintMeld(meld).findings.map((f) => [f.rule, f.path])
+}
+
+describe('lintMeld', () => {
+  it('reports nothing for a consistent meld', () => {
+    expect(lintMeld(createMeld())).toEqual({ findings: [], errorCount: 0, warningCount: 0 })
+  })
+
+  it('flags children without a matching parent reference', () => {
+    const meld = createMeld()
+    meld.nodes[E4_FEN].parents = []
+
+    expect(rules(meld)).toEqual([['asymmetric-child', `$.nodes["${START_FEN}"].children[0]`]])
+  })
+
+  it('flags parents without a matching child reference', () => {
+    const meld = createMeld()
+    meld.nodes[START_FEN].children = []
+
+    expect(rules(meld)).toEqual([
+      ['asymmetric-parent', `$.nodes["${E4_FEN}"].parents[0]`],
+      ['unreachable-node', `$.nodes["${E4_FEN}"]`]
+    ])
+  })
+
+  it('flags a child fen that does not match replaying its move', () => {
+    const meld = createMeld()
+    meld.nodes[START_FEN].children = [{ move: 'd4', fen: E4_FEN }]
+    meld.nodes[E4_FEN].parents = [{ fen: START_FEN, move: 'd4' }]
+
+    const [finding] = lintMeld(meld).findings
+    expect(finding.rule).toBe('child-fen-mismatch')
+    expect(finding.suggestion).toContain(D4_FEN)
+  })
+
+  it('flags move events whose fen disagrees with from/to', () => {
+    const meld = createMeld()
+    meld.events[0] = { t: 100, type: 'move', from: 'd2', to: 'd4', legalPolicy: 'strict', color: 'w', fen: E4_FEN }
+
+    expect(rules(meld)).toEqual([['move-fen-mismatch', '$.events[0].fen']])
+  })
+
+  it('does not replay moves recorded under a relaxed legal policy', () => {
+    const meld = createMeld()
+    meld.events[0] = { t: 100, type: 'move', from: 'd2', to: 'd4', legalPolicy: 'none', color: 'w', fen: E4_FEN }
+
+    expect(rules(meld)).toEqual([])
+  })
+
+  it('flags events that refer to positions outside the graph', () => {
+    const meld = createMeld()
+    meld.events.push({ t: 300, type: 'text', text: 'Hello', fen: D4_FEN })
+
+    const [finding] = lintMeld(meld).findings
+    expect(finding).toMatchObject({ rule: 'event-fen-not-node', severity: 'warning', path: '$.events[2].fen' })
+  })
+
+  it('flags duplicate pause point ids', () => {
+    const meld = createMeld()
+    meld.events.push({ t: 300, type: 'pausepoint', id: 'p1', fen: E4_FEN })
+
+    expect(rules(meld)).toEqual([['duplicate-pausepoint-id', '$.events[2].id']])
+  })
+
+  it('flags quiz answers and refutation moves that are not legal', () => {
+    const meld = createMeld()
+    meld.events[1] = {
+      t: 200,
+      type: 'pausepoint',
+      id: 'p1',
+      fen: E4_FEN,
+      answers: [{ move: 'e5' }, { move: 'e4' }, { move: 'g8f6' }],
+      refutation: ['f6', 'd4', 'Ke7']
+    }
+
+    expect(rules(meld)).toEqual([
+      ['illegal-quiz-move', '$.events[1].answers[1].move'],
+      ['illegal-quiz-move', '$.events[1].refutation[2]']
+    ])
+  })
+
+  it('flags quiz answers that underpromote, which the board cannot play', () => {
+    const fen = '8/P6k/8/8/8/8/8/K7 w - - 0 1'
+    const meld = createMeld()
+    meld.events[1] = { t: 200, type: 'pausepoint', id: 'p1', fen, answers: [{ move: 'a8=Q' }, { move: 'a7a8n' }] }
+
+    expect(rules(meld)).toContainEqual(['illegal-quiz-move', '$.events[1].answers[1].move'])
+    expect(rules(meld)).not.toContainEqual(['illegal-quiz-move', '$.events[1].answers[0].move'])
+  })
+
+  it('flags events that share an id', () => {
+    const meld = createMeld()
+    meld.events[0].id = 'p1'
+
+    expect(rules(meld)).toEqual([['duplicate-event-id', '$.events[1].id']])
+  })
+
+  it('flags clear targets that are not annotate events', () => {
+    const meld = createMeld()
+    meld.events.push(
+      { id: 'arrows', t: 300, type: 'annotate', fen: E4_FEN, arrows: [{ from: 'e4', to: 'e5' }] },
+      { t: 400, type: 'clear', fen: E4_FEN, targets: ['arrows', 'p1', 'missing'] }
+    )
+
+    expect(lintMeld(meld).findings.map((f) => [f.rule, f.path, f.message])).toEqual([
+      ['dangling-event-ref', '$.events[3].targets[1]', 'Event "p1" is a pausepoint event, not an annotate event.'],
+      ['dangling-event-ref', '$.events[3].targets[2]', 'No event has the id "missing".']
+    ])
+  })
+
+  it('flags until references that are missing or play before the annotations', () => {
+    const meld = createMeld()
+    meld.events.push(
+      { t: 300, type: 'annotate', fen: E4_FEN, arrows: [{ from: 'e4', to: 'e5' }], until: 'p1' },
+      { t: 300, type: 'annotate', fen: E4_FEN, circles: [{ square: 'e5' }], until: 'missing' }
+    )
+
+    expect(lintMeld(meld).findings.map((f) => [f.rule, f.severity, f.path])).toEqual([
+      ['until-before-annotation', 'warning', '$.events[2].until'],
+      ['dangling-event-ref', 'error', '$.events[3].until']
+    ])
+  })
+
+  it('flags nodes holding the same position with different move counters', () => {
+    const meld = createMeld()
+    const e4Later = E4_FEN.replace('0 1', '2 3')
+    meld.nodes[e4Later] = { fen: e4Later, children: [], parents: [] }
+
+    expect(lintMeld(meld).findings).toContainEqual(
+      expect.objectContaining({ rule: 'duplicate-position', severity: 'warning', path: `$.nodes["${e4Later}"]` })
+    )
+  })
+})
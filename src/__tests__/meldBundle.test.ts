@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest'
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+import {
+  packMeldBundle,
+  unpackMeldBundle,
+  resolveBundleUrls,
+  revokeBundleUrls,
+  isMeldBundleName,
+  type ChessmeldMeldFormatCMFV001,
+  type WhisperXResponse
+} from '@/lib/cmf'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+const meld: ChessmeldMeldFormatCMFV001 = {
+  schema: 'cmf.v0.0.1',
+  meta: {
+    id: 'bundle-test',
+    title: 'Bundle Test',
+    author: 'Tester',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    startingFen: START_FEN,
+    durationMs: 1000,
+    transcriptUrl: './Bundle Test.transcript.json'
+  },
+  rootNodeId: START_FEN,
+  nodes: { [START_FEN]: { fen: START_FEN, children: [], parents: [] } },
+  events: [{ id: 'hello', t: 0, type: 'text', text: 'Hello', fen: START_FEN }]
+}
+
+const transcript: WhisperXResponse = {
+  segments: [{ start: 0, end: 1, text: 'Hello', words: [{ start: 0, end: 1, word: 'Hello', score: 0.9 }] }]
+} as WhisperXResponse
+
+const audio = new Blob([new Uint8Array([1, 2, 3, 4])], { type: 'audio/webm;codecs=opus' })
+
+describe('meld bundles', () => {
+  it('round-trips the meld, audio and transcript', async () => {
+    const bundle = await unpackMeldBundle(await packMeldBundle({ meld, audio, transcript }))
+
+    expect(bundle.meld.meta).toMatchObject({ audioUrl: 'audio.webm', transcriptUrl: 'transcript.json' })
+    expect(bundle.meld.events).toEqual(meld.events)
+    expect(bundle.transcript).toEqual(transcript)
+    expect(new Uint8Array(await bundle.audio!.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3, 4]))
+    expect(bundle.audio!.type).toBe('audio/webm;codecs=opus')
+    expect(bundle.manifest.files.map((f) => [f.path, f.size])).toEqual([
+      ['meld.cmf.json', expect.any(Number)],
+      ['audio.webm', 4],
+      ['transcript.json', expect.any(Number)]
+    ])
+  })
+
+  it('keeps external URLs for assets that are not packed', async () => {
+    const bundle = await unpackMeldBundle(await packMeldBundle({ meld }))
+
+    expect(bundle.manifest.files.map((f) => f.path)).toEqual(['meld.cmf.json'])
+    expect(bundle.meld.meta.transcriptUrl).toBe('./Bundle Test.transcript.json')
+    expect(bundle.audio).toBeUndefined()
+  })
+
+  it('rejects files that do not match their checksum', async () => {
+    const packed = await packMeldBundle({ meld, audio })
+    const entries = unzipSync(new Uint8Array(await packed.arrayBuffer()))
+    entries['audio.webm'] = new Uint8Array([9, 9, 9, 9])
+
+    await expect(unpackMeldBundle(zipSync(entries))).rejects.toThrow('checksum mismatch for audio.webm')
+  })
+
+  it('rejects manifests that point at files the archive lacks or does not list', async () => {
+    const packed = await packMeldBundle({ meld })
+    const entries = unzipSync(new Uint8Array(await packed.arrayBuffer()))
+    const manifest = JSON.parse(strFromU8(entries['manifest.json']))
+    const other = { ...manifest.files[0], path: 'other.cmf.json' }
+    entries['manifest.json'] = strToU8(JSON.stringify({ ...manifest, meld: other.path, files: [other] }))
+    await expect(unpackMeldBundle(zipSync(entries))).rejects.toThrow('missing other.cmf.json')
+
+    entries['manifest.json'] = strToU8(JSON.stringify({ ...manifest, files: [] }))
+    await expect(unpackMeldBundle(zipSync(entries))).rejects.toThrow('meld.cmf.json is not listed in manifest.json')
+  })
+
+  it('rejects manifests that are not JSON or lack their file list', async () => {
+    const packed = await packMeldBundle({ meld })
+    const entries = unzipSync(new Uint8Array(await packed.arrayBuffer()))
+    const manifest = JSON.parse(strFromU8(entries['manifest.json']))
+
+    entries['manifest.json'] = strToU8('{ not json')
+    await expect(unpackMeldBundle(zipSync(entries))).rejects.toThrow('Invalid meld bundle: manifest.json is not JSON')
+
+    entries['manifest.json'] = strToU8(JSON.stringify({ ...manifest, files: undefined }))
+    await expect(unpackMeldBundle(zipSync(entries))).rejects.toThrow('Invalid meld bundle: manifest.json files:')
+  })
+
+  it('rejects archives without a manifest', async () => {
+    const archive = zipSync({ 'meld.cmf.json': strToU8(JSON.stringify(meld)) })
+
+    await expect(unpackMeldBundle(archive)).rejects.toThrow('missing manifest.json')
+  })
+
+  it('resolves relative asset URLs to the packed assets', async () => {
+    const bundle = await unpackMeldBundle(await packMeldBundle({ meld, audio, transcript }))
+    const created: Blob[] = []
+    const resolved = resolveBundleUrls(bundle, (blob) => `blob:${created.push(blob)}`)
+
+    expect(resolved.meta).toMatchObject({ audioUrl: 'blob:1', transcriptUrl: 'blob:2' })
+    expect(JSON.parse(await created[1].text())).toEqual(transcript)
+  })
+
+  it('revokes only the object URLs of a resolved meld', () => {
+    const revoke = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+
+    revokeBundleUrls({ ...meld, meta: { ...meld.meta, audioUrl: 'blob:audio' } })
+    expect(revoke.mock.calls).toEqual([['blob:audio']])
+    revoke.mockRestore()
+  })
+
+  it('recognises bundle names', () => {
+    expect(isMeldBundleName('Lesson.MELD')).toBe(true)
+    expect(isMeldBundleName('/lessons/one.meld?v=2')).toBe(true)
+    expect(isMeldBundleName('one.cmf.json')).toBe(false)
+  })
+})
@@ -0,0 +1,298 @@
+import { describe, it, expect } from 'vitest'
+import { Chess } from 'chess.js'
+import { readFileSync, readdirSync } from 'fs'
+import path from 'path'
+import {
+  migrateMeld,
+  parseMeld,
+  lintMeld,
+  tracksToGraph,
+  annotationObjects,
+  moveCoordinates,
+  mergeTranspositions,
+  eventIds
+} from '@/lib/cmf'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+const E4_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+const E4_E5_FEN = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+const E4_C5_FEN = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+
+const EXAMPLES_DIR = path.join(__dirname, '../../public/examples')
+
+const meta = {
+  id: 'migrate-test',
+  title: 'Migrate Test',
+  author: 'Tester',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  startingFen: START_FEN,
+  durationMs: 1000
+}
+
+function createTracksMeld() {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta,
+    tracks: {
+      mainline: [
+        { t: 100, type: 'move', san: 'e4', comment: 'King pawn' },
+        { t: 200, type: 'annotate', arrows: [['e7', 'e5']], circles: ['e4'] },
+        { t: 300, type: 'branch.start', id: 'sicilian' },
+        { t: 500, type: 'branch.end', id: 'sicilian' },
+        { t: 600, type: 'move', san: 'e5' },
+        { t: 700, type: 'navigate', action: 'click', targetMoveIndex: -1 },
+        { t: 800, type: 'pausepoint', id: 'p1', prompt: 'What now?' }
+      ],
+      branches: {
+        sicilian: [{ t: 400, type: 'move', san: 'c5' }]
+      }
+    }
+  }
+}
+
+describe('migrateMeld', () => {
+  it('leaves current-format melds untouched', () => {
+    const raw = JSON.parse(readFileSync(path.join(EXAMPLES_DIR, 'test.cmf.json'), 'utf8'))
+    // The example predates event ids, which is all it lacks
+    const { meld: current, applied: upgraded } = migrateMeld(raw)
+    expect(upgraded).toEqual(['event-ids'])
+
+    const { meld, applied } = migrateMeld(current)
+
+    expect(applied).toEqual([])
+    expect(meld).toBe(current)
+  })
+
+  it('upgrades every example meld to a valid current meld', () => {
+    const files = readdirSync(EXAMPLES_DIR).filter((file) => file.endsWith('.cmf.json'))
+
+    for (const file of files) {
+      const raw = JSON.parse(readFileSync(path.join(EXAMPLES_DIR, file), 'utf8'))
+      const { meld, applied } = migrateMeld(raw)
+      const result = parseMeld(meld)
+
+      expect(result.ok, file).toBe(true)
+      // Replayed legacy files should also be internally consistent
+      if (result.ok && applied.includes('tracks-to-graph')) {
+        expect(lintMeld(result.data).errorCount, file).toBe(0)
+      }
+    }
+  })
+})
+
+describe('tracksToGraph', () => {
+  it('replays the mainline and branches into nodes and events', () => {
+    const doc = createTracksMeld()
+    const migrated = tracksToGraph.migrate(doc)
+
+    expect(tracksToGraph.appliesTo(doc)).toBe(true)
+    expect(migrated).not.toHaveProperty('tracks')
+    expect(migrated.rootNodeId).toBe(START_FEN)
+    expect(Object.keys(migrated.nodes as object).sort()).toEqual([E4_C5_FEN, E4_E5_FEN, E4_FEN, START_FEN].sort())
+    expect(migrated.events).toEqual([
+      {
+        t: 100, type: 'move', from: 'e2', to: 'e4', legalPolicy: 'strict', color: 'w',
+        moveNumber: 1, san: 'e4', comment: 'King pawn', fen: E4_FEN
+      },
+      {
+        t: 200, type: 'annotate', fen: E4_FEN,
+        arrows: [{ from: 'e7', to: 'e5', color: 'yellow' }],
+        circles: [{ square: 'e4', color: 'yellow' }]
+      },
+      {
+        t: 400, type: 'move', from: 'c7', to: 'c5', legalPolicy: 'strict', color: 'b',
+        moveNumber: 1, san: 'c5', fen: E4_C5_FEN
+      },
+      { t: 500, type: 'navigate', fen: E4_FEN, navigationType: 'to_node' },
+      {
+        t: 600, type: 'move', from: 'e7', to: 'e5', legalPolicy: 'strict', color: 'b',
+        moveNumber: 1, san: 'e5', fen: E4_E5_FEN
+      },
+      { t: 700, type: 'navigate', fen: START_FEN, navigationType: 'to_move_index', targetMoveIndex: 0 },
+      { t: 800, type: 'pausepoint', fen: START_FEN, id: 'p1', prompt: 'What now?' }
+    ])
+  })
+
+  it('does not mutate its input', () => {
+    const doc = createTracksMeld()
+    const before = JSON.stringify(doc)
+
+    tracksToGraph.migrate(doc)
+
+    expect(JSON.stringify(doc)).toBe(before)
+  })
+
+  it('throws on illegal moves', () => {
+    const doc = createTracksMeld()
+    doc.tracks.mainline[0].san = 'e5'
+
+    expect(() => tracksToGraph.migrate(doc)).toThrow('illegal move "e5" at t=100')
+  })
+})
+
+describe('annotationObjects', () => {
+  it('converts tuple arrows and string squares', () => {
+    const doc = {
+      events: [
+        { t: 100, type: 'annotate', fen: START_FEN, arrows: [['e2', 'e4'], { from: 'd2', to: 'd4', color: 'red' }], highlights: ['d4'] }
+      ]
+    }
+
+    expect(annotationObjects.appliesTo(doc)).toBe(true)
+    expect(annotationObjects.migrate(doc).events).toEqual([
+      {
+        t: 100,
+        type: 'annotate',
+        fen: START_FEN,
+        arrows: [{ from: 'e2', to: 'e4', color: 'yellow' }, { from: 'd2', to: 'd4', color: 'red' }],
+        highlights: [{ square: 'd4', color: 'yellow' }]
+      }
+    ])
+  })
+
+  it('does not apply to object annotations', () => {
+    const doc = { events: [{ t: 100, type: 'annotate', fen: START_FEN, circles: [{ square: 'e4', color: 'red' }] }] }
+
+    expect(annotationObjects.appliesTo(doc)).toBe(false)
+  })
+})
+
+describe('moveCoordinates', () => {
+  it('fills in SAN-only moves in chronological order, keeping array order', () => {
+    const doc = {
+      meta,
+      events: [
+        { t: 300, type: 'move', san: 'c5', fen: E4_C5_FEN },
+        { t: 100, type: 'move', san: 'e4', fen: E4_FEN },
+        { t: 200, type: 'navigate', fen: E4_FEN, navigationType: 'to_node' }
+      ]
+    }
+
+    expect(moveCoordinates.appliesTo(doc)).toBe(true)
+    const migrated = moveCoordinates.migrate(doc)
+    expect(migrated.events).toMatchObject([
+      { t: 300, from: 'c7', to: 'c5', color: 'b', legalPolicy: 'strict', fen: E4_C5_FEN },
+      { t: 100, from: 'e2', to: 'e4', color: 'w', legalPolicy: 'strict', fen: E4_FEN },
+      { t: 200, type: 'navigate' }
+    ])
+  })
+
+  it('falls back to the graph parent when the timeline position does not allow the move', () => {
+    const doc = {
+      meta,
+      nodes: {
+        [E4_E5_FEN]: { fen: E4_E5_FEN, parents: [{ fen: E4_FEN, move: 'e5' }] }
+      },
+      events: [{ t: 100, type: 'move', san: 'e5', fen: E4_E5_FEN }]
+    }
+
+    expect(moveCoordinates.migrate(doc).events).toMatchObject([
+      { from: 'e7', to: 'e5', color: 'b', fen: E4_E5_FEN }
+    ])
+  })
+})
+
+describe('mergeTranspositions', () => {
+  // 1. e4 e5 2. Nf3 and 1. Nf3 e5 2. e4 reach the same position, but the
+  // second resets the halfmove clock
+  function line(sans: string[]) {
+    const chess = new Chess()
+    return sans.map((san) => chess.move(san).after)
+  }
+  const [e4, e4e5, viaE4] = line(['e4', 'e5', 'Nf3'])
+  const [nf3, nf3e5, viaNf3] = line(['Nf3', 'e5', 'e4'])
+
+  function createDoc() {
+    const node = (fen: string, parent: [string, string] | null, children: [string, string][]) => ({
+      fen,
+      parents: parent ? [{ fen: parent[0], move: parent[1] }] : [],
+      children: children.map(([move, childFen]) => ({ move, fen: childFen }))
+    })
+    return {
+      schema: 'cmf.v0.0.1',
+      meta,
+      rootNodeId: START_FEN,
+      nodes: {
+        [START_FEN]: node(START_FEN, null, [['e4', e4], ['Nf3', nf3]]),
+        [e4]: node(e4, [START_FEN, 'e4'], [['e5', e4e5]]),
+        [e4e5]: node(e4e5, [e4, 'e5'], [['Nf3', viaE4]]),
+        [viaE4]: { ...node(viaE4, [e4e5, 'Nf3'], []), comment: 'Open game' },
+        [nf3]: node(nf3, [START_FEN, 'Nf3'], [['e5', nf3e5]]),
+        [nf3e5]: node(nf3e5, [nf3, 'e5'], [['e4', viaNf3]]),
+        [viaNf3]: { ...node(viaNf3, [nf3e5, 'e4'], []), comment: 'Reversed' }
+      },
+      events: [
+        { id: 'navigate-1', t: 100, type: 'navigate', fen: viaNf3, navigationType: 'to_node' },
+        { id: 'text-1', t: 200, type: 'text', text: 'Same position', fen: viaNf3 }
+      ]
+    }
+  }
+
+  it('merges nodes reached by different move orders into the first one', () => {
+    expect(viaE4).not.toBe(viaNf3)
+    const doc = createDoc()
+    expect(mergeTranspositions.appliesTo(doc)).toBe(true)
+
+    const migrated = mergeTranspositions.migrate(doc) as ReturnType<typeof createDoc>
+
+    expect(Object.keys(migrated.nodes)).not.toContain(viaNf3)
+    expect(migrated.nodes[viaE4]).toMatchObject({
+      comment: 'Open game Reversed',
+      parents: [{ fen: e4e5, move: 'Nf3' }, { fen: nf3e5, move: 'e4' }]
+    })
+    expect(migrated.nodes[nf3e5].children).toEqual([{ move: 'e4', fen: viaE4 }])
+    expect(migrated.events.map((e) => e.fen)).toEqual([viaE4, viaE4])
+    expect(mergeTranspositions.appliesTo(migrated)).toBe(false)
+  })
+
+  it('leaves a merged meld lint clean', () => {
+    const { meld, applied } = migrateMeld(createDoc())
+    const result = parseMeld(meld)
+
+    expect(applied).toEqual(['merge-transpositions'])
+    expect(result.ok && lintMeld(result.data).findings).toEqual([])
+  })
+
+  it('keeps a repeated position separate from the node it repeats', () => {
+    // 1. Nf3 Nf6 2. Ng1 Ng8 returns to the start, which merging would make a cycle
+    const fens = line(['Nf3', 'Nf6', 'Ng1', 'Ng8'])
+    const ids = [START_FEN, ...fens]
+    const sans = ['Nf3', 'Nf6', 'Ng1', 'Ng8']
+    const doc = {
+      schema: 'cmf.v0.0.1',
+      meta,
+      rootNodeId: START_FEN,
+      nodes: Object.fromEntries(ids.map((fen, i) => [fen, {
+        fen,
+        parents: i > 0 ? [{ fen: ids[i - 1], move: sans[i - 1] }] : [],
+        children: i < sans.length ? [{ move: sans[i], fen: ids[i + 1] }] : []
+      }])),
+      events: []
+    }
+
+    expect(mergeTranspositions.appliesTo(doc)).toBe(false)
+  })
+})
+
+describe('eventIds', () => {
+  it('gives events without an id a unique one per type', () => {
+    const doc = {
+      schema: 'cmf.v0.0.1',
+      meta,
+      events: [
+        { t: 0, type: 'text', text: 'Hello', fen: START_FEN },
+        { t: 0, type: 'text', text: 'Same millisecond', fen: START_FEN },
+        { t: 100, type: 'pausepoint', id: 'text-2', fen: START_FEN },
+        { t: 200, type: 'text', text: 'Later', fen: START_FEN },
+        { t: 300, type: 'clear', fen: START_FEN }
+      ]
+    }
+
+    expect(eventIds.appliesTo(doc)).toBe(true)
+    const migrated = eventIds.migrate(doc) as typeof doc
+
+    expect(migrated.events.map((e) => e.id)).toEqual(['text-1', 'text-3', 'text-2', 'text-4', 'clear-1'])
+    expect(eventIds.appliesTo(migrated)).toBe(false)
+    expect(doc.events[0]).not.toHaveProperty('id')
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import type { ChessmeldMeldFormatCMFV001, PrecomputedEval } from '@/lib/cmf'
+import { applyMoveQuality, classifyMoves, moveQualityComment } from '@/lib/engine'
+
+function fenAfter(fen: string, move: string) {
+  const chess = new Chess(fen)
+  chess.move(move)
+  return chess.fen()
+}
+
+const E4 = fenAfter(DEFAULT_POSITION, 'e4')
+const A4 = fenAfter(DEFAULT_POSITION, 'a4')
+const E4_G5 = fenAfter(E4, 'g5')
+const E4_F5 = fenAfter(E4, 'f5')
+
+// 1. e4 (1. a4) g5 (1... f5), with evaluations of every position
+function createMeld(precomputed: PrecomputedEval[]): ChessmeldMeldFormatCMFV001 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'move-quality-test',
+      title: 'Move Quality Test',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: DEFAULT_POSITION,
+      durationMs: 1000
+    },
+    rootNodeId: DEFAULT_POSITION,
+    nodes: {
+      [DEFAULT_POSITION]: { fen: DEFAULT_POSITION, children: [{ move: 'e4', fen: E4 }, { move: 'a4', fen: A4, nags: [1] }], parents: [] },
+      [E4]: { fen: E4, children: [{ move: 'g5', fen: E4_G5 }, { move: 'f5', fen: E4_F5, comment: 'Played in the game' }], parents: [{ fen: DEFAULT_POSITION, move: 'e4' }] },
+      [A4]: { fen: A4, children: [], parents: [{ fen: DEFAULT_POSITION, move: 'a4' }] },
+      [E4_G5]: { fen: E4_G5, children: [], parents: [{ fen: E4, move: 'g5' }] },
+      [E4_F5]: { fen: E4_F5, children: [], parents: [{ fen: E4, move: 'f5' }] }
+    },
+    events: [],
+    precomputed
+  }
+}
+
+const EVALUATIONS: PrecomputedEval[] = [
+  { fen: DEFAULT_POSITION, depth: 20, cp: 30, best: ['e2e4'] },
+  { fen: E4, depth: 20, cp: 30, best: ['c5'] },
+  { fen: A4, depth: 20, cp: -30 },
+  { fen: E4_G5, depth: 20, cp: 150 },
+  { fen: E4_F5, depth: 20, mate: 12 }
+]
+
+describe('classifyMoves', () => {
+  it('grades each move by the centipawns the mover loses', () => {
+    const qualities = classifyMoves(createMeld(EVALUATIONS)).map(({ move, quality, loss }) => ({ move, quality, loss }))
+
+    expect(qualities).toEqual([
+      { move: 'e4', quality: 'best', loss: 0 },
+      { move: 'a4', quality: 'inaccuracy', loss: 60 },
+      { move: 'g5', quality: 'mistake', loss: 120 },
+      { move: 'f5', quality: 'blunder', loss: 9958 }
+    ])
+  })
+
+  it('uses the given thresholds', () => {
+    const qualities = classifyMoves(createMeld(EVALUATIONS), { inaccuracy: 100, mistake: 200 }).map(({ quality }) => quality)
+
+    expect(qualities).toEqual(['best', 'good', 'inaccuracy', 'blunder'])
+  })
+
+  it('skips moves without evaluations either side, except mates', () => {
+    const meld = createMeld(EVALUATIONS.filter((entry) => entry.fen !== E4_G5))
+    expect(classifyMoves(meld).map(({ move }) => move)).toEqual(['e4', 'a4', 'f5'])
+
+    const foolsMate = fenAfter(fenAfter(fenAfter(DEFAULT_POSITION, 'f3'), 'e5'), 'g4')
+    const mated = fenAfter(foolsMate, 'Qh4#')
+    const mate = createMeld([{ fen: foolsMate, depth: 20, mate: -1, best: ['Qh4#'] }])
+    mate.nodes[foolsMate] = { fen: foolsMate, children: [{ move: 'Qh4#', fen: mated }], parents: [] }
+
+    expect(classifyMoves(mate)).toEqual([
+      { fen: foolsMate, move: 'Qh4#', childFen: mated, quality: 'best', loss: 0, bestMove: 'Qh4#' }
+    ])
+  })
+})
+
+describe('applyMoveQuality', () => {
+  it('replaces move assessments with quality glyphs and adds suggested comments', () => {
+    const meld = createMeld(EVALUATIONS)
+    const annotated = applyMoveQuality(meld, classifyMoves(meld), { comments: true })
+
+    expect(annotated.nodes[DEFAULT_POSITION].children).toEqual([
+      { move: 'e4', fen: E4 },
+      { move: 'a4', fen: A4, nags: [6], comment: 'Inaccuracy. e4 was best.' }
+    ])
+    expect(annotated.nodes[E4].children).toEqual([
+      { move: 'g5', fen: E4_G5, nags: [2], comment: 'Mistake. c5 was best.' },
+      { move: 'f5', fen: E4_F5, nags: [4], comment: 'Played in the game' }
+    ])
+    expect(meld.nodes[DEFAULT_POSITION].children?.[1].nags).toEqual([1])
+  })
+
+  it('leaves the meld alone when no move needs annotating', () => {
+    const meld = createMeld(EVALUATIONS)
+
+    expect(applyMoveQuality(meld, classifyMoves(meld), { qualities: ['good'] })).toBe(meld)
+  })
+})
+
+describe('moveQualityComment', () => {
+  it('names the best move for moves that lose ground', () => {
+    expect(moveQualityComment({ fen: E4, move: 'f5', childFen: E4_F5, quality: 'blunder', loss: 500, bestMove: 'c5' })).toBe('Blunder. c5 was best.')
+    expect(moveQualityComment({ fen: E4, move: 'c5', childFen: E4_F5, quality: 'best', loss: 0, bestMove: 'c5' })).toBe('Best move.')
+  })
+})
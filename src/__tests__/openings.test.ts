@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import type { ChessmeldMeldFormatCMFV001, PositionNode } from '@/lib/cmf'
+import { parseMeld } from '@/lib/cmf'
+import { OPENING_LINES, classifyOpenings, openingAt, openingOf, suggestOpeningTags } from '@/lib/openings'
+
+function fenAfter(moves: string) {
+  const chess = new Chess()
+  for (const move of moves.split(' ')) chess.move(move)
+  return chess.fen()
+}
+
+// A meld of the given lines, each a string of SAN moves
+function createMeld(...lines: string[]): ChessmeldMeldFormatCMFV001 {
+  const nodes: Record<string, PositionNode> = { [DEFAULT_POSITION]: { fen: DEFAULT_POSITION, children: [], parents: [] } }
+  for (const line of lines) {
+    const chess = new Chess()
+    for (const move of line.split(' ')) {
+      const parent = chess.fen()
+      chess.move(move)
+      const fen = chess.fen()
+      if (!nodes[parent].children!.some((child) => child.fen === fen)) nodes[parent].children!.push({ move, fen })
+      nodes[fen] ??= { fen, children: [], parents: [{ fen: parent, move }] }
+    }
+  }
+
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'openings-test',
+      title: 'Openings Test',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: DEFAULT_POSITION,
+      durationMs: 1000
+    },
+    rootNodeId: DEFAULT_POSITION,
+    nodes,
+    events: []
+  }
+}
+
+describe('openingOf', () => {
+  it('names positions in the table, whatever the move counters', () => {
+    expect(openingOf(fenAfter('e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6'))).toEqual({ eco: 'B90', name: 'Sicilian Defense: Najdorf Variation' })
+    expect(openingOf(fenAfter('e4 e5 Nf3 Nc6 Bc4').replace(/ \d+ \d+$/, ' 7 30'))).toEqual({ eco: 'C50', name: 'Italian Game' })
+  })
+
+  it('finds transpositions into a named position', () => {
+    expect(openingOf(fenAfter('Nf3 Nf6 c4 e6 d4 b6'))).toEqual({ eco: 'E12', name: 'Queen\'s Indian Defense' })
+  })
+
+  it('has no name for unknown positions or other variants', () => {
+    expect(openingOf(fenAfter('a3 h6'))).toBeNull()
+    expect(openingOf(fenAfter('e4'), 'chess960')).toBeNull()
+  })
+
+  it('has only legal lines and valid ECO codes in its table', () => {
+    for (const [eco, , moves] of OPENING_LINES) {
+      expect(eco).toMatch(/^[A-E]\d{2}$/)
+      expect(() => fenAfter(moves)).not.toThrow()
+    }
+  })
+})
+
+describe('classifyOpenings', () => {
+  it('names each node after its position or the position it was reached from', () => {
+    const meld = createMeld('e4 e5 Nf3 Nc6 Bb5 a6 Ba4 b5', 'e4 e5 Nf3 Nc6 Bc4')
+    const openings = classifyOpenings(meld)
+
+    expect(openings[DEFAULT_POSITION]).toBeUndefined()
+    expect(openings[fenAfter('e4 e5 Nf3 Nc6 Bb5 a6 Ba4')].name).toBe('Ruy Lopez: Morphy Defense')
+    expect(openings[fenAfter('e4 e5 Nf3 Nc6 Bb5 a6 Ba4 b5')].name).toBe('Ruy Lopez: Morphy Defense')
+    expect(openings[fenAfter('e4 e5 Nf3 Nc6 Bc4')].name).toBe('Italian Game')
+  })
+
+  it('prefers the opening an author set on a node', () => {
+    const meld = createMeld('e4 e5')
+    meld.nodes[fenAfter('e4 e5')].opening = { eco: 'C20', name: 'Open Game' }
+
+    expect(classifyOpenings(meld)[fenAfter('e4 e5')]).toEqual({ eco: 'C20', name: 'Open Game' })
+    expect(parseMeld(meld).ok).toBe(true)
+  })
+
+  it('finds the opening of positions shown by the player', () => {
+    const meld = createMeld('d4 d5 c4 e6 Nc3 Nf6 Bg5')
+    const openings = classifyOpenings(meld)
+
+    expect(openingAt(meld, openings, fenAfter('d4 d5 c4 e6 Nc3 Nf6 Bg5'))?.name).toBe('Queen\'s Gambit Declined')
+    expect(openingAt(meld, openings, fenAfter('d4 d5 c4 c6'))?.name).toBe('Slav Defense')
+  })
+})
+
+describe('suggestOpeningTags', () => {
+  it('suggests the main line\'s opening family and variation', () => {
+    expect(suggestOpeningTags(createMeld('e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3', 'e4 e6'))).toEqual(['sicilian-defense', 'najdorf-variation'])
+    expect(suggestOpeningTags(createMeld('d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3'))).toEqual(['kings-indian-defense', 'samisch-variation'])
+    expect(suggestOpeningTags(createMeld('a3'))).toEqual([])
+  })
+})
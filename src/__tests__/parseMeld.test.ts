@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { parseMeld } from '@/lib/cmf'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+const E4_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1'
+
+function loadExample(name: string): unknown {
+  const file = path.resolve(__dirname, '../../public/examples', name)
+  return JSON.parse(readFileSync(file, 'utf8'))
+}
+
+function createMeld(overrides: Record<string, unknown> = {}) {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'test',
+      title: 'Test',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: START_FEN,
+      durationMs: 1000,
+      audioUrl: '/audio/test.webm'
+    },
+    recordingDefaults: { legalPolicy: 'pieceLegal' },
+    rootNodeId: START_FEN,
+    nodes: {
+      [START_FEN]: { fen: START_FEN, children: [{ move: 'e4', fen: E4_FEN }], parents: [], moveNumber: 0 },
+      [E4_FEN]: { fen: E4_FEN, children: [], parents: [{ fen: START_FEN, move: 'e4' }], moveNumber: 1 }
+    },
+    events: [
+      { t: 0, type: 'setFen', fen: START_FEN },
+      { t: 0, type: 'beginSetupSequence', label: 'intro', colorFocus: 'w' },
+      { t: 100, type: 'move', from: 'e2', to: 'e4', san: 'e4', legalPolicy: 'strict', color: 'w', fen: E4_FEN },
+      { t: 200, type: 'annotate', fen: E4_FEN, arrows: [{ from: 'd2', to: 'd4', color: 'green' }], circles: [{ square: 'e4' }], highlights: [{ square: 'd5', color: 'red' }] },
+      { t: 300, type: 'text', fen: E4_FEN, text: 'Centre control' },
+      { t: 400, type: 'pausepoint', fen: E4_FEN, id: 'try-1', prompt: 'Your move' },
+      { t: 500, type: 'clear', fen: E4_FEN },
+      { t: 600, type: 'navigate', fen: START_FEN, navigationType: 'start' }
+    ],
+    ...overrides
+  }
+}
+
+describe('parseMeld', () => {
+  it('accepts every graph-format example meld', () => {
+    for (const name of [
+      'carlsen-best-opening-beginners-white.cmf.json',
+      'test.cmf.json',
+      'wayward-queen-attack.cmf.json'
+    ]) {
+      const result = parseMeld(loadExample(name))
+      expect(result.ok ? [] : result.errors).toEqual([])
+    }
+  })
+
+  it('accepts all eight event kinds and recordingDefaults', () => {
+    const result = parseMeld(createMeld())
+    expect(result.ok).toBe(true)
+  })
+
+  it('strips keys that are not part of the format', () => {
+    const meld = createMeld()
+    ;(meld.events[2] as Record<string, unknown>).nodeId = E4_FEN
+
+    const result = parseMeld(meld)
+    expect(result.ok && result.data.events[2]).not.toHaveProperty('nodeId')
+  })
+
+  it('rejects the legacy tracks layout', () => {
+    const result = parseMeld(loadExample('ruy-lopez.cmf.json'))
+    expect(result.ok).toBe(false)
+  })
+
+  it('rejects tuple arrows and bare-string circles', () => {
+    const result = parseMeld(createMeld({
+      events: [{ t: 0, type: 'annotate', fen: START_FEN, arrows: [['e2', 'e4']], circles: ['e4'] }]
+    }))
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.errors).toEqual([
+      'events.0.arrows.0: Expected object, received array',
+      'events.0.circles.0: Expected object, received string'
+    ])
+  })
+
+  it('accepts custom colors, glyphs and labels', () => {
+    const result = parseMeld(createMeld({
+      events: [{
+        t: 0,
+        type: 'annotate',
+        fen: START_FEN,
+        arrows: [{ from: 'd8', to: 'h4', color: '#ef444480', style: 'dashed', number: 2 }],
+        glyphs: [{ square: 'f7', glyph: '??', color: '#000000' }],
+        labels: [{ square: 'e5', text: 'A' }]
+      }]
+    }))
+    expect(result.ok ? [] : result.errors).toEqual([])
+  })
+
+  it('rejects malformed colors, glyphs and labels', () => {
+    const result = parseMeld(createMeld({
+      events: [{
+        t: 0,
+        type: 'annotate',
+        fen: START_FEN,
+        circles: [{ square: 'e4', color: '#abc' }],
+        glyphs: [{ square: 'f7', glyph: '!!!' }],
+        labels: [{ square: 'e5', text: 'Long' }]
+      }]
+    }))
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.errors.map((error) => error.split(':')[0])).toEqual([
+      'events.0.circles.0.color',
+      'events.0.glyphs.0.glyph',
+      'events.0.labels.0.text'
+    ])
+  })
+
+  it('accepts quiz pause points and rejects answer credit above 1', () => {
+    const quiz = {
+      t: 0,
+      type: 'pausepoint',
+      fen: E4_FEN,
+      id: 'quiz',
+      prompt: 'How should Black reply?',
+      answers: [{ move: 'e5', feedback: 'Classical.' }, { move: 'c7c5', credit: 0.5 }],
+      hints: ['Fight for the centre.'],
+      wrongFeedback: 'That leaves the centre to White.',
+      refutation: ['f6', 'Qh5+']
+    }
+    const result = parseMeld(createMeld({ events: [quiz] }))
+    expect(result.ok ? [] : result.errors).toEqual([])
+
+    const invalid = parseMeld(createMeld({ events: [{ ...quiz, answers: [{ move: 'e5', credit: 2 }] }] }))
+    expect(!invalid.ok && invalid.errors.map((error) => error.split(':')[0])).toEqual(['events.0.answers.0.credit'])
+  })
+
+  it('rejects a rootNodeId that is not in nodes', () => {
+    const result = parseMeld(createMeld({ rootNodeId: E4_FEN.replace('e3', '-') }))
+    expect(!result.ok && result.errors).toEqual(['rootNodeId: rootNodeId must reference an entry in nodes.'])
+  })
+
+  it('rejects move events without coordinates', () => {
+    const result = parseMeld(createMeld({
+      events: [{ t: 0, type: 'move', san: 'e4', fen: E4_FEN }]
+    }))
+    expect(result.ok).toBe(false)
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { meldToPgn, pgnToMeld, parsePgn } from '@/lib/pgn'
+import type { ChessmeldMeldFormatCMFV001 } from '@/lib/cmf'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+const E4_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+const D4_FEN = 'rnbqkbnr/pppppppp/8/8/3P4/8/PPP1PPPP/RNBQKBNR b KQkq - 0 1'
+const E4_E5_FEN = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+const E4_C5_FEN = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+
+function createMeld(): ChessmeldMeldFormatCMFV001 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'pgn-export',
+      title: 'Open "Games"',
+      author: 'Coach',
+      createdAt: '2025-03-04T10:00:00.000Z',
+      startingFen: START_FEN,
+      durationMs: 1000
+    },
+    rootNodeId: START_FEN,
+    nodes: {
+      [START_FEN]: {
+        fen: START_FEN,
+        comment: 'Intro',
+        children: [
+          { move: 'e4', fen: E4_FEN, comment: 'Best by test', nags: [1] },
+          { move: 'd4', fen: D4_FEN }
+        ]
+      },
+      [E4_FEN]: {
+        fen: E4_FEN,
+        children: [
+          { move: 'e5', fen: E4_E5_FEN },
+          { move: 'c5', fen: E4_C5_FEN }
+        ]
+      },
+      [D4_FEN]: { fen: D4_FEN },
+      [E4_E5_FEN]: { fen: E4_E5_FEN, comment: 'Symmetry' },
+      [E4_C5_FEN]: { fen: E4_C5_FEN }
+    },
+    events: [
+      { t: 100, type: 'annotate', fen: E4_FEN, arrows: [{ from: 'e7', to: 'e5', color: 'green' }], highlights: [{ square: 'e4' }] },
+      { t: 200, type: 'annotate', fen: E4_C5_FEN, circles: [{ square: 'c5', color: 'red' }] }
+    ]
+  }
+}
+
+describe('meldToPgn', () => {
+  it('writes the seven tag roster from meta', () => {
+    const pgn = meldToPgn(createMeld())
+
+    expect(pgn.split('\n\n')[0].split('\n')).toEqual([
+      '[Event "Open \\"Games\\""]',
+      '[Site "?"]',
+      '[Date "2025.03.04"]',
+      '[Round "?"]',
+      '[White "?"]',
+      '[Black "?"]',
+      '[Result "*"]',
+      '[Annotator "Coach"]'
+    ])
+  })
+
+  it('writes side lines as RAVs with comments, NAGs and board commands', () => {
+    const movetext = meldToPgn(createMeld()).split('\n\n')[1].replace(/\n/g, ' ').trim()
+
+    expect(movetext).toBe(
+      '{Intro} 1. e4 $1 {Best by test [%cal Ge7e5] [%csl Ye4]} (1. d4) 1... e5 {Symmetry} ' +
+        '(1... c5 {[%csl Rc5]}) *'
+    )
+  })
+
+  it('writes custom colors as the nearest PGN color', () => {
+    const meld = createMeld()
+    meld.events = [
+      { t: 100, type: 'annotate', fen: E4_FEN, arrows: [{ from: 'e7', to: 'e5', color: '#0000ff' }], circles: [{ square: 'e4', color: '#ff000080' }] }
+    ]
+
+    expect(meldToPgn(meld)).toContain('[%cal Be7e5] [%csl Re4]')
+  })
+
+  it('writes a FEN header for non-standard starting positions', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1'
+    const meld = createMeld()
+    meld.rootNodeId = fen
+    meld.nodes = { [fen]: { fen } }
+
+    expect(meldToPgn(meld)).toContain(`[SetUp "1"]\n[FEN "${fen}"]`)
+  })
+
+  it('stops a line at a position already written', () => {
+    const meld = pgnToMeld('1. e4 e5 2. Nf3 Nc6 (2... d6 3. d4) 3. d4 *')
+    const c6Fen = Object.values(meld.nodes).find((n) => n.parents?.[0]?.move === 'Nc6')!.fen
+    // Transpose 2... d6 into 2... Nc6 for the test
+    const d6Node = Object.values(meld.nodes).find((n) => n.parents?.[0]?.move === 'd6')!
+    meld.nodes[d6Node.parents![0].fen].children![1].fen = c6Fen
+
+    expect(meldToPgn(meld)).toContain('2. Nf3 Nc6 (2... d6) 3. d4 *')
+  })
+
+  it('round-trips through the PGN importer', () => {
+    const pgn = '{Start} 1. e4 $1 {Main [%cal Ge2e4]} (1. d4 d5 (1... Nf6 2. c4) 2. c4) 1... c5 2. Nf3 *'
+    const exported = meldToPgn(pgnToMeld(pgn))
+    const [original] = parsePgn(pgn)
+    const [roundTripped] = parsePgn(exported)
+
+    expect(roundTripped.comments).toEqual(original.comments)
+    expect(roundTripped.moves).toEqual(original.moves)
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { meldToPgn, parsePgn, parsePgnComment, pgnToMeld } from '@/lib/pgn'
+import { parseMeld, lintMeld } from '@/lib/cmf'
+import { buildMoveIndex } from '@/lib/renderer'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+const E4_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+const D4_FEN = 'rnbqkbnr/pppppppp/8/8/3P4/8/PPP1PPPP/RNBQKBNR b KQkq - 0 1'
+const E4_E5_FEN = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+
+const PGN = `[Event "Casual Game"]
+[Site "?"]
+[White "Alice"]
+[Black "Bob"]
+[Annotator "Coach"]
+[Result "*"]
+
+{A short opening lesson.} 1. e4! {Best by test. [%cal Ge2e4,Rd2d4] [%csl Ye4]}
+(1. d4 $5 {Also fine.}) 1... e5 2. Nf3 (2. Nc3 {The Vienna}) *`
+
+describe('parsePgn', () => {
+  it('parses headers, comments, NAGs and variations', () => {
+    const [game] = parsePgn(PGN)
+
+    expect(game.headers.White).toBe('Alice')
+    expect(game.comments).toEqual(['A short opening lesson.'])
+    expect(game.result).toBe('*')
+    expect(game.moves.map((m) => m.san)).toEqual(['e4', 'e5', 'Nf3'])
+    expect(game.moves[0].nags).toEqual([1])
+    expect(game.moves[0].variations).toEqual([
+      [{ san: 'd4', nags: [5], commentsBefore: [], commentsAfter: ['Also fine.'], variations: [] }]
+    ])
+  })
+
+  it('splits multiple games', () => {
+    const games = parsePgn('[Event "One"]\n\n1. e4 1-0\n\n[Event "Two"]\n\n1. d4 0-1\n')
+
+    expect(games.map((g) => [g.headers.Event, g.moves[0].san, g.result])).toEqual([
+      ['One', 'e4', '1-0'],
+      ['Two', 'd4', '0-1']
+    ])
+  })
+
+  it('rejects unbalanced variations', () => {
+    expect(() => parsePgn('1. e4 (1. d4 *')).toThrow('Unbalanced')
+  })
+})
+
+describe('parsePgnComment', () => {
+  it('extracts arrow and square commands from the text', () => {
+    expect(parsePgnComment('Watch out [%cal Rb8c6] here [%csl Gd5,Bf7] [%clk 0:05:00]')).toEqual({
+      text: 'Watch out here',
+      arrows: [{ from: 'b8', to: 'c6', color: 'red' }],
+      squares: [{ square: 'd5', color: 'green' }, { square: 'f7', color: 'blue' }]
+    })
+  })
+})
+
+describe('pgnToMeld', () => {
+  const meld = pgnToMeld(PGN, { id: 'pgn-test', createdAt: '2025-01-01T00:00:00.000Z', stepMs: 1000 })
+
+  it('produces a valid meld with no lint errors', () => {
+    expect(parseMeld(meld).ok).toBe(true)
+    expect(lintMeld(meld).findings).toEqual([])
+  })
+
+  it('builds nodes for the mainline and variations', () => {
+    expect(meld.meta).toMatchObject({ title: 'Alice vs Bob', author: 'Coach', startingFen: START_FEN })
+    expect(meld.rootNodeId).toBe(START_FEN)
+    expect(Object.keys(meld.nodes)).toHaveLength(6)
+    expect(meld.nodes[START_FEN].comment).toBe('A short opening lesson.')
+    expect(meld.nodes[START_FEN].children).toEqual([
+      { move: 'e4', fen: E4_FEN, comment: 'Best by test.', nags: [1] },
+      { move: 'd4', fen: D4_FEN, comment: 'Also fine.', nags: [5] }
+    ])
+    expect(meld.nodes[E4_E5_FEN].children?.map((c) => c.move)).toEqual(['Nf3', 'Nc3'])
+  })
+
+  it('lays out an evenly spaced timeline in PGN order', () => {
+    expect(meld.events.map((e) => [e.t, e.type])).toEqual([
+      [0, 'text'],
+      [1000, 'move'],
+      [2000, 'annotate'],
+      [3000, 'text'],
+      [4000, 'clear'],
+      [5000, 'navigate'],
+      [6000, 'move'],
+      [7000, 'text'],
+      [8000, 'navigate'],
+      [9000, 'move'],
+      [10000, 'move'],
+      [11000, 'navigate'],
+      [12000, 'move'],
+      [13000, 'text'],
+      [14000, 'navigate']
+    ])
+    expect(meld.events[2]).toMatchObject({
+      fen: E4_FEN,
+      arrows: [{ from: 'e2', to: 'e4', color: 'green' }, { from: 'd2', to: 'd4', color: 'red' }],
+      circles: [{ square: 'e4', color: 'yellow' }]
+    })
+    expect(meld.meta.durationMs).toBe(15000)
+  })
+
+  it('starts from the FEN header', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1'
+    const imported = pgnToMeld(`[SetUp "1"]\n[FEN "${fen}"]\n\n1. e4 *`)
+
+    expect(imported.rootNodeId).toBe(fen)
+    expect(imported.nodes[fen].children?.[0].move).toBe('e4')
+  })
+
+  it('keeps repeated positions as new nodes instead of looping back', () => {
+    const repeated = pgnToMeld('1. Nf3 Nf6 2. Ng1 Ng8 3. Nf3 Nf6 *')
+
+    expect(Object.keys(repeated.nodes)).toHaveLength(7)
+    expect(buildMoveIndex(repeated)).toHaveLength(7)
+    expect(meldToPgn(repeated)).toContain('1. Nf3 Nf6 2. Ng1 Ng8 3. Nf3 Nf6')
+  })
+
+  it('throws on illegal moves', () => {
+    expect(() => pgnToMeld('1. e5 *')).toThrow('Illegal move "e5"')
+  })
+})
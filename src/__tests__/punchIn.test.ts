@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import { spliceEventRange } from '@/lib/cmf'
+import { AudioPostProcessor } from '@/audioPostProcessor'
+import { initialState, undoableGraphStudioReducer, type GraphStudioAction, type GraphStudioState } from '@/hooks/useGraphStudio'
+
+function fenAfter(moves: string) {
+  const chess = new Chess()
+  for (const move of moves.split(' ')) chess.move(move)
+  return chess.fen()
+}
+
+const E4 = fenAfter('e4')
+const E4_E5 = fenAfter('e4 e5')
+const E4_E5_NF3 = fenAfter('e4 e5 Nf3')
+const D4 = fenAfter('d4')
+
+function move(san: string, fen: string, parentFen: string, timestamp: number): GraphStudioAction {
+  return { type: 'ADD_MOVE', parentFen, move: { san, fen, timestamp, color: fen.split(' ')[1] === 'w' ? 'b' : 'w' } }
+}
+
+function run(state: GraphStudioState, ...actions: GraphStudioAction[]) {
+  return actions.reduce(undoableGraphStudioReducer, state)
+}
+
+// 1. e4 at 1s, 1... e5 at 5s and 2. Nf3 at 9s, in a ten second recording
+function recordedSession(): GraphStudioState {
+  const started = undoableGraphStudioReducer(initialState, {
+    type: 'INIT_SESSION',
+    session: {
+      id: 'punch-in-test',
+      title: '',
+      author: '',
+      startingFen: DEFAULT_POSITION,
+      nodes: { [DEFAULT_POSITION]: { fen: DEFAULT_POSITION, children: [], parents: [], moveNumber: 0 } },
+      rootNodeId: DEFAULT_POSITION,
+      currentNodeId: DEFAULT_POSITION,
+      currentPath: { nodeIds: [DEFAULT_POSITION], moves: [] },
+      events: [],
+      duration: 10000
+    }
+  })
+  return run(started, move('e4', E4, DEFAULT_POSITION, 1000), move('e5', E4_E5, E4, 5000), move('Nf3', E4_E5_NF3, E4_E5, 9000))
+}
+
+describe('spliceEventRange', () => {
+  it('replaces the events in the range and shifts later ones by the change in length', () => {
+    const events = [
+      { id: 'a', t: 1000 },
+      { id: 'b', t: 4000 },
+      { id: 'c', t: 6000 },
+      { id: 'd', t: 8000 }
+    ]
+    const take = [{ id: 'x', t: 500 }]
+
+    expect(spliceEventRange(events, take, 4000, 6000, 3000)).toEqual([
+      { id: 'a', t: 1000 },
+      { id: 'x', t: 4500 },
+      { id: 'c', t: 7000 },
+      { id: 'd', t: 9000 }
+    ])
+  })
+
+  it('drops clear targets that were replaced, and clears left with none', () => {
+    const events = [
+      { id: 'arrow', t: 1000, type: 'annotate' },
+      { id: 'circle', t: 2000, type: 'annotate' },
+      { id: 'clear-some', t: 3000, type: 'clear', targets: ['arrow', 'circle'] },
+      { id: 'clear-circle', t: 4000, type: 'clear', targets: ['circle'] }
+    ]
+
+    expect(spliceEventRange(events, [], 1500, 2500, 1000)).toEqual([
+      { id: 'arrow', t: 1000, type: 'annotate' },
+      { id: 'clear-some', t: 3000, type: 'clear', targets: ['arrow'] }
+    ])
+  })
+
+  it('drops an until that pointed at a replaced event', () => {
+    const events = [
+      { id: 'arrow', t: 1000, type: 'annotate', until: 'move' },
+      { id: 'circle', t: 1500, type: 'annotate', until: 'later' },
+      { id: 'move', t: 2000, type: 'move' },
+      { id: 'later', t: 5000, type: 'move' }
+    ]
+
+    const spliced = spliceEventRange(events, [], 1800, 2500, 700)
+    expect(spliced.map((event) => event.id)).toEqual(['arrow', 'circle', 'later'])
+    expect(spliced[0].until).toBeUndefined()
+    expect(spliced[1]).toEqual({ id: 'circle', t: 1500, type: 'annotate', until: 'later' })
+  })
+})
+
+describe('punch-in', () => {
+  it('records the section again from the position at its start', () => {
+    const punching = undoableGraphStudioReducer(recordedSession(), { type: 'START_PUNCH_IN', start: 4000, end: 7000 })
+
+    expect(punching.session.currentNodeId).toBe(E4)
+    expect(punching.session.events).toEqual([])
+    expect(punching.punchIn).toMatchObject({ start: 4000, end: 7000 })
+    expect(punching.history).toEqual({ past: [], future: [] })
+  })
+
+  it('splices the new take in, returning to where later events carry on from', () => {
+    const audio = new Blob(['spliced'])
+    const state = run(
+      recordedSession(),
+      { type: 'START_PUNCH_IN', start: 4000, end: 7000 },
+      move('d4', D4, DEFAULT_POSITION, 0),
+      { type: 'FINISH_PUNCH_IN', durationMs: 5000, audioBlob: audio }
+    )
+
+    expect(state.punchIn).toBeNull()
+    expect(state.session.audioBlob).toBe(audio)
+    expect(state.session.duration).toBe(12000)
+    expect(state.session.events.map((event: { type: string; t: number; fen: string }) => [event.type, event.t, event.fen])).toEqual([
+      ['move', 1000, E4],
+      ['move', 4000, D4],
+      ['navigate', 9000, E4_E5],
+      ['move', 11000, E4_E5_NF3]
+    ])
+  })
+
+  it('restores the events when cancelled', () => {
+    const recorded = recordedSession()
+    const state = run(
+      recorded,
+      { type: 'START_PUNCH_IN', start: 4000, end: 7000 },
+      move('d4', D4, DEFAULT_POSITION, 0),
+      { type: 'CANCEL_PUNCH_IN' }
+    )
+
+    expect(state.punchIn).toBeNull()
+    expect(state.session.events).toBe(recorded.session.events)
+  })
+})
+
+describe('AudioPostProcessor', () => {
+  it('splices samples into each channel, clamping the range to the recording', () => {
+    const original = [new Float32Array([1, 2, 3, 4, 5]), new Float32Array([6, 7, 8, 9, 10])]
+    const take = [new Float32Array([0, 0, 0])]
+
+    expect(AudioPostProcessor.spliceChannels(original, take, 1, 3).map((samples) => Array.from(samples))).toEqual([
+      [1, 0, 0, 0, 4, 5],
+      [6, 0, 0, 0, 9, 10]
+    ])
+    expect(Array.from(AudioPostProcessor.spliceChannels(original, take, 4, 99)[0])).toEqual([1, 2, 3, 4, 0, 0, 0])
+  })
+
+  it('encodes samples as 16-bit PCM WAV', async () => {
+    const blob = AudioPostProcessor.encodeWav([new Float32Array([0, 1, -1])], 8000)
+    const view = new DataView(await blob.arrayBuffer())
+
+    expect(blob.type).toBe('audio/wav')
+    expect(blob.size).toBe(44 + 6)
+    expect(view.getUint32(24, true)).toBe(8000)
+    expect([view.getInt16(44, true), view.getInt16(46, true), view.getInt16(48, true)]).toEqual([0, 32767, -32768])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { bestQuizAnswer, gradeQuizAttempt, isQuiz, type PausePointEvent } from '@/lib/cmf'
+
+const E4_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+
+function createQuiz(overrides: Partial<PausePointEvent> = {}): PausePointEvent {
+  return {
+    t: 1000,
+    type: 'pausepoint',
+    id: 'quiz',
+    fen: E4_FEN,
+    prompt: 'How should Black reply?',
+    answers: [
+      { move: 'e5', feedback: 'Classical.' },
+      { move: 'c7c5', credit: 0.5, feedback: 'Also fine.' }
+    ],
+    wrongFeedback: 'That leaves the centre to White.',
+    refutation: ['f6', 'Qh5+', 'g6'],
+    ...overrides
+  }
+}
+
+describe('gradeQuizAttempt', () => {
+  it('gives full credit for the answer', () => {
+    const result = gradeQuizAttempt(createQuiz(), { from: 'e7', to: 'e5' })
+
+    expect(result).toMatchObject({ grade: 'correct', credit: 1, feedback: 'Classical.', refutation: [] })
+    expect(result.move.san).toBe('e5')
+  })
+
+  it('gives partial credit for an answer written in UCI', () => {
+    const result = gradeQuizAttempt(createQuiz(), 'c5')
+
+    expect(result).toMatchObject({ grade: 'partial', credit: 0.5, feedback: 'Also fine.', answer: { move: 'c7c5' } })
+  })
+
+  it('counts the best-credited answer the move matches', () => {
+    const quiz = createQuiz({ answers: [{ move: 'e7e5', credit: 0.25 }, { move: 'e5' }] })
+
+    expect(gradeQuizAttempt(quiz, 'e5')).toMatchObject({ grade: 'correct', credit: 1 })
+  })
+
+  it('shows the wrong-move feedback and the refutation line', () => {
+    const result = gradeQuizAttempt(createQuiz(), { from: 'f7', to: 'f6' })
+
+    expect(result).toMatchObject({ grade: 'incorrect', credit: 0, feedback: 'That leaves the centre to White.' })
+    expect(result.answer).toBeUndefined()
+    expect(result.refutation.map((move) => move.san)).toEqual(['Qh5+', 'g6'])
+  })
+
+  it('shows no refutation for other wrong moves', () => {
+    expect(gradeQuizAttempt(createQuiz(), 'a6').refutation).toEqual([])
+  })
+
+  it('throws for a move that is not legal', () => {
+    expect(() => gradeQuizAttempt(createQuiz(), 'e4')).toThrow('Illegal move')
+  })
+})
+
+describe('bestQuizAnswer', () => {
+  it('plays the best-credited legal answer', () => {
+    const quiz = createQuiz({ answers: [{ move: 'c5', credit: 0.5 }, { move: 'Ke7' }, { move: 'e5', credit: 0.75 }] })
+
+    expect(bestQuizAnswer(quiz)?.san).toBe('e5')
+  })
+
+  it('returns null without answers', () => {
+    const pausePoint = createQuiz({ answers: undefined })
+
+    expect(isQuiz(pausePoint)).toBe(false)
+    expect(bestQuizAnswer(pausePoint)).toBeNull()
+  })
+})
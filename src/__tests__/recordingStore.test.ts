@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { elapsedRecordingTime, useRecordingStore } from '@/stores/recordingStore'
+
+describe('recording store pause and resume', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    useRecordingStore.getState().reset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('leaves paused time out of the recording time', () => {
+    const store = useRecordingStore.getState()
+    store.startRecording()
+
+    vi.setSystemTime(5000)
+    store.pauseRecording()
+    expect(useRecordingStore.getState()).toMatchObject({ isRecording: true, isPaused: true, currentTime: 5000 })
+
+    vi.setSystemTime(65000)
+    expect(store.getElapsedTime()).toBe(5000)
+
+    store.resumeRecording()
+    vi.setSystemTime(67000)
+    expect(useRecordingStore.getState()).toMatchObject({ isPaused: false, pausedDuration: 60000 })
+    expect(store.getElapsedTime()).toBe(7000)
+  })
+
+  it('ignores pausing twice and resuming when not paused', () => {
+    const store = useRecordingStore.getState()
+    store.resumeRecording()
+    store.pauseRecording()
+    expect(useRecordingStore.getState().isPaused).toBe(false)
+
+    store.startRecording()
+    vi.setSystemTime(1000)
+    store.pauseRecording()
+    vi.setSystemTime(2000)
+    store.pauseRecording()
+    vi.setSystemTime(3000)
+    store.resumeRecording()
+
+    expect(useRecordingStore.getState().pausedDuration).toBe(2000)
+    expect(store.getElapsedTime(4000)).toBe(2000)
+  })
+
+  it('closes out a pause when recording stops', () => {
+    const store = useRecordingStore.getState()
+    store.startRecording()
+    vi.setSystemTime(1000)
+    store.pauseRecording()
+    vi.setSystemTime(4000)
+    store.stopRecording()
+
+    expect(useRecordingStore.getState()).toMatchObject({ isRecording: false, isPaused: false, pausedAt: null, pausedDuration: 3000 })
+  })
+})
+
+describe('elapsedRecordingTime', () => {
+  it('is zero before recording starts', () => {
+    expect(elapsedRecordingTime({ startTime: null, pausedAt: null, pausedDuration: 0 }, 1000)).toBe(0)
+  })
+})
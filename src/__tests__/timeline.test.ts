@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { readFileSync, readdirSync } from 'fs'
+import path from 'path'
+import { assertMeld, migrateMeld } from '@/lib/cmf'
+import { buildMoveIndex, compileTimeline, computeStateAtTime, type MeldV0_0_1 } from '@/lib/renderer'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+const EXAMPLES_DIR = path.join(__dirname, '../../public/examples')
+
+function loadExamples(): [string, MeldV0_0_1][] {
+  return readdirSync(EXAMPLES_DIR)
+    .filter((file) => file.endsWith('.cmf.json'))
+    .map((file) => [file, assertMeld(migrateMeld(JSON.parse(readFileSync(path.join(EXAMPLES_DIR, file), 'utf8'))).meld)])
+}
+
+// Every event boundary, either side of it, and the end of its pause window or duration
+function sampleTimes(meld: MeldV0_0_1): number[] {
+  const times = new Set([-1, 0, meld.meta.durationMs, meld.meta.durationMs + 1000])
+  for (const event of meld.events) {
+    const end = event.type === 'annotate' && event.durationMs ? [event.durationMs - 1, event.durationMs] : []
+    for (const offset of [-1, 0, 1, 500, 501, ...end]) times.add(event.t + offset)
+  }
+  return [...times].sort((a, b) => a - b)
+}
+
+describe('compileTimeline', () => {
+  beforeEach(() => {
+    // Some examples contain moves that do not replay; both implementations warn
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('matches computeStateAtTime for every example meld', () => {
+    for (const [file, meld] of loadExamples()) {
+      const moveIndex = buildMoveIndex(meld)
+      const timelines = [1, 3, 32].map((keyframeInterval) => compileTimeline(meld, { keyframeInterval }))
+
+      for (const t of sampleTimes(meld)) {
+        const expected = computeStateAtTime(meld, moveIndex, t)
+        for (const timeline of timelines) {
+          expect(timeline.stateAt(t), `${file} at ${t}ms`).toEqual(expected)
+        }
+      }
+    }
+  }, 30_000)
+
+  it('matches computeStateAtTime across keyframes with targeted clears, ending annotations and pause points', () => {
+    const meld: MeldV0_0_1 = {
+      schema: 'cmf.v0.0.1',
+      meta: {
+        id: 'timeline-test',
+        title: 'Timeline Test',
+        author: 'Tester',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        startingFen: START_FEN,
+        durationMs: 2000
+      },
+      rootNodeId: START_FEN,
+      nodes: { [START_FEN]: { fen: START_FEN, children: [], parents: [] } },
+      events: [
+        { id: 'move', t: 600, type: 'move', from: 'e2', to: 'e4', san: 'e4', fen: START_FEN, legalPolicy: 'strict', color: 'w' },
+        { id: 'a', t: 100, type: 'annotate', fen: START_FEN, arrows: [{ from: 'e2', to: 'e4', color: 'green' }] },
+        { id: 'b', t: 100, type: 'annotate', fen: START_FEN, circles: [{ square: 'e5', color: 'red' }] },
+        { id: 'pause', t: 200, type: 'pausepoint', fen: START_FEN, prompt: 'Where next?' },
+        { id: 'text', t: 300, type: 'text', text: 'Watch e5', fen: START_FEN },
+        { id: 'clear-a', t: 400, type: 'clear', fen: START_FEN, targets: ['a'] },
+        { id: 'c', t: 500, type: 'annotate', fen: START_FEN, highlights: [{ square: 'd4', color: 'blue' }] },
+        { id: 'brief', t: 150, type: 'annotate', fen: START_FEN, arrows: [{ from: 'g1', to: 'f3' }], durationMs: 200 },
+        { id: 'to-text', t: 200, type: 'annotate', fen: START_FEN, circles: [{ square: 'f7' }], until: 'text' },
+        { id: 'to-move', t: 250, type: 'annotate', fen: START_FEN, circles: [{ square: 'c4' }], untilNextMove: true },
+        { id: 'quiet', t: 650, type: 'pausepoint', fen: START_FEN },
+        { id: 'clear', t: 700, type: 'clear', fen: START_FEN }
+      ]
+    }
+    const moveIndex = buildMoveIndex(meld)
+
+    for (const keyframeInterval of [1, 2, 4]) {
+      const timeline = compileTimeline(meld, { keyframeInterval })
+      for (const t of sampleTimes(meld)) {
+        expect(timeline.stateAt(t), `${t}ms (interval ${keyframeInterval})`).toEqual(computeStateAtTime(meld, moveIndex, t))
+      }
+    }
+  })
+
+  it('counts the events at or before a time', () => {
+    const timeline = compileTimeline(loadExamples()[0][1])
+    const [first] = timeline.events
+
+    expect(timeline.eventCountAt(first.t - 1)).toBe(0)
+    expect(timeline.eventCountAt(Infinity)).toBe(timeline.events.length)
+    expect(timeline.events.map((event) => event.t)).toEqual([...timeline.events.map((event) => event.t)].sort((a, b) => a - b))
+  })
+
+  it('rejects a keyframe interval that is not a positive integer', () => {
+    const meld = loadExamples()[0][1]
+
+    expect(() => compileTimeline(meld, { keyframeInterval: 0 })).toThrow('keyframeInterval must be a positive integer')
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import type { ChessmeldMeldFormatCMFV001, Event } from '@/lib/cmf'
+import { moveOrderProblems, retimeEvents, snapToBoundary, timelineLane, waveformPeaks, wordBoundaries } from '@/lib/editor'
+
+function fenAfter(moves: string) {
+  const chess = new Chess()
+  for (const move of moves.split(' ')) chess.move(move)
+  return chess.fen()
+}
+
+const E4 = fenAfter('e4')
+const E4_E5 = fenAfter('e4 e5')
+
+// 1. e4 at 1s and 1... e5 at 3s, with a text event at 2s
+function createMeld(): ChessmeldMeldFormatCMFV001 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'timeline-editor-test',
+      title: 'Timeline Editor Test',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: DEFAULT_POSITION,
+      durationMs: 5000
+    },
+    rootNodeId: DEFAULT_POSITION,
+    nodes: {
+      [DEFAULT_POSITION]: { fen: DEFAULT_POSITION, children: [{ move: 'e4', fen: E4 }], parents: [] },
+      [E4]: { fen: E4, children: [{ move: 'e5', fen: E4_E5 }], parents: [{ fen: DEFAULT_POSITION, move: 'e4' }] },
+      [E4_E5]: { fen: E4_E5, children: [], parents: [{ fen: E4, move: 'e5' }] }
+    },
+    events: [
+      { id: 'e4', t: 1000, type: 'move', from: 'e2', to: 'e4', san: 'e4', fen: E4, legalPolicy: 'strict', color: 'w' },
+      { id: 'intro', t: 2000, type: 'text', text: 'The centre', fen: E4 },
+      { id: 'e5', t: 3000, type: 'move', from: 'e7', to: 'e5', san: 'e5', fen: E4_E5, legalPolicy: 'strict', color: 'b' }
+    ]
+  }
+}
+
+describe('retimeEvents', () => {
+  it('moves the selected events together', () => {
+    const events = retimeEvents(createMeld().events, new Set([1, 2]), 500, 5000)
+
+    expect(events.map((event) => event.t)).toEqual([1000, 2500, 3500])
+  })
+
+  it('keeps the selection within the recording, and their spacing', () => {
+    const meld = createMeld()
+
+    expect(retimeEvents(meld.events, new Set([0, 2]), -4000, 5000).map((event) => event.t)).toEqual([0, 2000, 2000])
+    expect(retimeEvents(meld.events, new Set([0, 2]), 4000, 5000).map((event) => event.t)).toEqual([3000, 2000, 5000])
+    expect(retimeEvents(meld.events, new Set(), 500, 5000)).toBe(meld.events)
+  })
+})
+
+describe('snapping to words', () => {
+  const boundaries = wordBoundaries([
+    { word: 'The', start: 1.2, end: 1.4, score: 1 },
+    { word: 'centre', start: 1.4, end: 2.05, score: 1 }
+  ])
+
+  it('collects word starts and ends in ms', () => {
+    expect(boundaries).toEqual([1200, 1400, 2050])
+  })
+
+  it('snaps to the nearest boundary within the threshold', () => {
+    expect(snapToBoundary(1350, boundaries, 100)).toBe(1400)
+    expect(snapToBoundary(1700, boundaries, 100)).toBe(1700)
+  })
+})
+
+describe('moveOrderProblems', () => {
+  it('finds moves that no longer follow from the moves before them', () => {
+    const meld = createMeld()
+    expect(moveOrderProblems(meld).size).toBe(0)
+
+    const events = retimeEvents(meld.events, new Set([2]), -2500, 5000)
+    // 1... e5 now comes first, and 1. e4 follows it
+    expect([...moveOrderProblems({ ...meld, events }).keys()].sort()).toEqual([0, 2])
+  })
+})
+
+describe('timelineLane', () => {
+  it('puts setup edits in a shared lane', () => {
+    expect(timelineLane(createMeld().events[1])).toBe('text')
+    expect(timelineLane({ t: 0, type: 'setFen', fen: DEFAULT_POSITION } as Event)).toBe('other')
+  })
+})
+
+describe('waveformPeaks', () => {
+  it('takes the loudest sample of each slice across channels', () => {
+    const peaks = waveformPeaks([new Float32Array([0.1, -0.5, 0.2, 0]), new Float32Array([0, 0, -0.9, 0.3])], 2)
+
+    expect(peaks.map((peak) => Number(peak.toFixed(2)))).toEqual([0.5, 0.9])
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest'
+import { whisperXToTextEvents } from '@/lib/cmf'
+import {
+  compileTimeline,
+  createInProcessTimelineWorker,
+  createTimelineWorkerClient,
+  createTimelineWorkerHost,
+  type MeldV0_0_1,
+  type TimelineWorkerResponse
+} from '@/lib/renderer'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+function createMeld(): MeldV0_0_1 {
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'worker-test',
+      title: 'Worker Test',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: START_FEN,
+      durationMs: 2000
+    },
+    rootNodeId: START_FEN,
+    nodes: { [START_FEN]: { fen: START_FEN, children: [], parents: [] } },
+    events: [
+      { id: 'intro', t: 500, type: 'text', text: 'Welcome', fen: START_FEN },
+      { id: 'plan', t: 100, type: 'annotate', fen: START_FEN, arrows: [{ from: 'e2', to: 'e4', color: 'green' }] },
+      { id: 'e4', t: 1000, type: 'move', from: 'e2', to: 'e4', san: 'e4', fen: START_FEN, legalPolicy: 'strict', color: 'w' }
+    ]
+  }
+}
+
+const transcript = whisperXToTextEvents({
+  segments: [
+    {
+      start: 0,
+      end: 1,
+      text: 'Play e4',
+      words: [
+        { start: 0, end: 0.4, word: 'Play' },
+        { start: 0.5, end: 1, word: 'e4' }
+      ]
+    }
+  ]
+})
+
+describe('timeline worker', () => {
+  it('answers snapshots with the compiled timeline state and transcript words', async () => {
+    const client = createTimelineWorkerClient(createInProcessTimelineWorker())
+    const meld = createMeld()
+
+    const events = await client.load(meld)
+    await client.loadTranscript(transcript)
+    const snapshot = await client.snapshotAt(1200)
+
+    expect(events.map((event) => event.id)).toEqual(['plan', 'intro', 'e4'])
+    expect(snapshot).toMatchObject({ timeMs: 1200, eventCount: 3, state: compileTimeline(meld).stateAt(1200) })
+    expect(snapshot.highlightedWords.map(({ word, isActive }) => [word.word, isActive])).toEqual([
+      ['Play', false],
+      ['e4', false]
+    ])
+    expect((await client.snapshotAt(700)).currentWord?.word.word).toBe('e4')
+  })
+
+  it('rejects an aborted request without computing it', async () => {
+    const client = createTimelineWorkerClient(createInProcessTimelineWorker())
+    await client.load(createMeld())
+    const controller = new AbortController()
+
+    const aborted = client.snapshotAt(100, controller.signal)
+    controller.abort()
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' })
+    await expect(client.snapshotAt(100, controller.signal)).rejects.toMatchObject({ name: 'AbortError' })
+    expect((await client.snapshotAt(600)).state.activeText).toBe('Welcome')
+  })
+
+  it('only computes the latest of queued snapshot requests', () => {
+    const tasks: (() => void)[] = []
+    const responses: TimelineWorkerResponse[] = []
+    const receive = createTimelineWorkerHost((response) => responses.push(response), (task) => tasks.push(task))
+
+    receive({ type: 'load', requestId: 1, meld: createMeld() })
+    receive({ type: 'snapshot', requestId: 2, timeMs: 100 })
+    receive({ type: 'snapshot', requestId: 3, timeMs: 600 })
+    receive({ type: 'snapshot', requestId: 4, timeMs: 1200 })
+    receive({ type: 'cancel', requestId: 4 })
+    tasks.forEach((task) => task())
+
+    expect(tasks).toHaveLength(1)
+    expect(responses.map(({ type, requestId }) => [type, requestId])).toEqual([
+      ['loaded', 1],
+      ['cancelled', 2],
+      ['snapshot', 3],
+      ['cancelled', 4]
+    ])
+  })
+
+  it('reports snapshot requests before a meld is loaded', async () => {
+    const client = createTimelineWorkerClient(createInProcessTimelineWorker())
+
+    await expect(client.snapshotAt(0)).rejects.toThrow('No meld has been loaded')
+  })
+
+  it('rejects pending requests and terminates the worker on dispose', async () => {
+    const worker = createInProcessTimelineWorker()
+    const terminate = vi.spyOn(worker, 'terminate')
+    const client = createTimelineWorkerClient(worker)
+
+    const loading = client.load(createMeld())
+    client.dispose()
+
+    await expect(loading).rejects.toMatchObject({ name: 'AbortError' })
+    expect(terminate).toHaveBeenCalled()
+  })
+})
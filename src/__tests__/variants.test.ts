@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import { applyMove, normalizeFen, parseCastlingRights, formatCastlingRights, positionKey } from '@/lib/variants'
+import { buildMoveIndex } from '@/lib/renderer'
+import { lintMeld, type ChessmeldMeldFormatCMFV001 } from '@/lib/cmf'
+import { meldToPgn, pgnToMeld } from '@/lib/pgn'
+import { LegalPolicyValidator } from '@/utils/legalPolicyValidator'
+
+// Kings on the c-file, rooks on the b- and g-files, pawns on their home squares
+const START_960 = '1rk3r1/pppppppp/8/8/8/8/PPPPPPPP/1RK3R1 w GBgb - 0 1'
+const AFTER_O_O = '1rk3r1/pppppppp/8/8/8/8/PPPPPPPP/1R3RK1 b kq - 1 1'
+const AFTER_O_O_O = '2kr2r1/pppppppp/8/8/8/8/PPPPPPPP/1R3RK1 w - - 2 2'
+
+describe('castling rights', () => {
+  it('reads X-FEN and Shredder-FEN as rook files', () => {
+    expect(parseCastlingRights('1rk3r1/pppppppp/8/8/8/8/PPPPPPPP/1RK3R1', 'GBgb')).toEqual({ w: [6, 1], b: [6, 1] })
+    expect(parseCastlingRights('1rk3r1/pppppppp/8/8/8/8/PPPPPPPP/1RK3R1', 'KQkq')).toEqual({ w: [6, 1], b: [6, 1] })
+    expect(parseCastlingRights('4k3/8/8/8/8/8/8/R1R1K3', 'C')).toEqual({ w: [2], b: [] })
+  })
+
+  it('writes X-FEN, with file letters only for inner rooks', () => {
+    expect(formatCastlingRights('1rk3r1/pppppppp/8/8/8/8/PPPPPPPP/1RK3R1', { w: [1, 6], b: [6] })).toBe('KQk')
+    expect(formatCastlingRights('4k3/8/8/8/8/8/8/R1R1K3', { w: [2], b: [] })).toBe('C')
+    expect(normalizeFen(START_960, 'chess960')).toBe('1rk3r1/pppppppp/8/8/8/8/PPPPPPPP/1RK3R1 w KQkq - 0 1')
+    expect(normalizeFen(DEFAULT_POSITION.replace('KQkq', 'HAha'), 'chess960')).toBe(DEFAULT_POSITION)
+  })
+})
+
+describe('applyMove', () => {
+  it('matches chess.js in standard chess', () => {
+    const move = applyMove(DEFAULT_POSITION, { from: 'e2', to: 'e4' })
+
+    expect(move.san).toBe('e4')
+    expect(move.after).toBe(new Chess(DEFAULT_POSITION).move('e4').after)
+  })
+
+  it('accepts UCI moves, with promotion', () => {
+    expect(applyMove(DEFAULT_POSITION, 'g1f3').san).toBe('Nf3')
+    expect(applyMove('8/P6k/8/8/8/8/8/K7 w - - 0 1', 'a7a8n').san).toBe('a8=N')
+  })
+
+  it('castles in chess960 by moving the king onto its rook', () => {
+    const move = applyMove(START_960, { from: 'c1', to: 'g1' }, 'chess960')
+
+    expect(move).toMatchObject({ from: 'c1', to: 'g1', san: 'O-O', color: 'w' })
+    expect(move.after).toBe(AFTER_O_O)
+  })
+
+  it('castles in chess960 from SAN, with the king staying put', () => {
+    const move = applyMove(AFTER_O_O, 'O-O-O', 'chess960')
+
+    expect(move).toMatchObject({ from: 'c8', to: 'b8' })
+    expect(move.after).toBe(AFTER_O_O_O)
+  })
+
+  it('castles in chess960 by moving the king to the g- or c-file', () => {
+    const fen = '4k3/8/8/8/8/8/8/R3K2R w AHah - 0 1'
+
+    expect(applyMove(fen, { from: 'e1', to: 'c1' }, 'chess960').after).toBe('4k3/8/8/8/8/8/8/2KR3R b - - 1 1')
+  })
+
+  it('drops the right of a rook that moves or is captured', () => {
+    const fen = '1rk3r1/pppppp1p/8/8/8/8/PPPPPP1P/1RK3R1 w GBgb - 0 1'
+
+    expect(applyMove(fen, { from: 'g1', to: 'g8' }, 'chess960').after).toBe(
+      '1rk3R1/pppppp1p/8/8/8/8/PPPPPP1P/1RK5 b Qq - 0 1'
+    )
+  })
+
+  it('rejects castling through an attacked square', () => {
+    const fen = '1rk3r1/pppp1ppp/8/8/4r3/8/PPPP1PPP/1RK3R1 w GBgb - 0 1'
+
+    expect(() => applyMove(fen, 'O-O', 'chess960')).toThrow('Illegal move "O-O"')
+    expect(() => applyMove(fen, 'O-O-O', 'chess960')).not.toThrow()
+  })
+
+  it('rejects castling without the right', () => {
+    expect(() => applyMove(AFTER_O_O_O, 'O-O', 'chess960')).toThrow('Illegal move')
+  })
+})
+
+describe('positionKey', () => {
+  it('ignores move counters and en passant squares that cannot be used', () => {
+    const chess = new Chess()
+    ;['e4', 'e5', 'Nf3'].forEach((san) => chess.move(san))
+    const transposed = new Chess()
+    ;['Nf3', 'e5', 'e4'].forEach((san) => transposed.move(san))
+
+    expect(positionKey(chess.fen())).toBe(positionKey(transposed.fen()))
+    expect(positionKey('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1')).toBe(
+      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq -'
+    )
+    expect(positionKey('rnbqkbnr/ppp1pppp/8/8/3pP3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 3')).toBe(
+      'rnbqkbnr/ppp1pppp/8/8/3pP3/8/PPPP1PPP/RNBQKBNR b KQkq e3'
+    )
+  })
+
+  it('tells positions apart by side to move and castling rights', () => {
+    expect(positionKey(DEFAULT_POSITION)).not.toBe(positionKey(DEFAULT_POSITION.replace(' w ', ' b ')))
+    expect(positionKey(DEFAULT_POSITION)).not.toBe(positionKey(DEFAULT_POSITION.replace('KQkq', 'Kkq')))
+  })
+})
+
+describe('chess960 melds', () => {
+  const meld: ChessmeldMeldFormatCMFV001 = {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: 'chess960',
+      title: 'Chess960',
+      author: 'Tester',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startingFen: START_960,
+      variant: 'chess960',
+      durationMs: 2000
+    },
+    rootNodeId: START_960,
+    nodes: {
+      [START_960]: { fen: START_960, children: [{ move: 'O-O', fen: AFTER_O_O }], parents: [] },
+      [AFTER_O_O]: { fen: AFTER_O_O, children: [], parents: [{ fen: START_960, move: 'O-O' }] }
+    },
+    events: [
+      { t: 1000, type: 'move', from: 'c1', to: 'g1', legalPolicy: 'strict', color: 'w', san: 'O-O', fen: AFTER_O_O }
+    ]
+  }
+
+  it('replays castling in the renderer and the linter', () => {
+    expect(buildMoveIndex(meld).map((entry) => entry.fen)).toEqual([
+      '1rk3r1/pppppppp/8/8/8/8/PPPPPPPP/1RK3R1 w KQkq - 0 1',
+      AFTER_O_O
+    ])
+    expect(lintMeld(meld).errorCount).toBe(0)
+  })
+
+  it('validates castling in strict mode', () => {
+    const validator = new LegalPolicyValidator(START_960, 'chess960')
+
+    expect(validator.validateMove('c1', 'g1', undefined, 'strict')).toEqual({ isValid: true, san: 'O-O' })
+    expect(validator.getBoardState().castling).toEqual({ white: '', black: 'KQ' })
+  })
+
+  it('round-trips through PGN with a Variant header', () => {
+    const pgn = meldToPgn(meld)
+    expect(pgn).toContain(`[Variant "Chess960"]\n[SetUp "1"]\n[FEN "${START_960}"]`)
+
+    const imported = pgnToMeld(pgn)
+    expect(imported.meta.variant).toBe('chess960')
+    expect(imported.events[0]).toMatchObject({ from: 'c1', to: 'g1', san: 'O-O', fen: AFTER_O_O })
+  })
+})
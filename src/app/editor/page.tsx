@@ -1,10 +1,24 @@
 'use client'
 
 import { useState, useRef, useCallback, useMemo, useEffect } from 'react'
-import { type ChessmeldMeldFormatCMFV001, type TextEvent } from '@/lib/cmf'
+import {
+  type ChessmeldMeldFormatCMFV001,
+  type Event,
+  type TextEvent,
+  eventKey,
+  isMeldBundleName,
+  migrateMeld,
+  parseMeld,
+  resolveBundleUrls,
+  revokeBundleUrls,
+  unpackMeldBundle
+} from '@/lib/cmf'
 import { Player } from '@/lib/player'
+import { TimelineEditor } from '@/components/TimelineEditor'
+import { pgnToMeld } from '@/lib/pgn'
 import { buildMoveIndex, computeStateAtTime } from '@/lib/renderer-core'
 import { Upload, Download, Edit3, Clock, X, Plus } from 'lucide-react'
+import { v4 as uuidv4 } from 'uuid'
 
 // Simple Button component
 const Button = ({ children, onClick, className = '', variant = 'default', size = 'default', ...props }: {
@@ -69,6 +83,9 @@ function PlayerWithTimeTracking({ meld, onTimeUpdate }: {
   )
 }
 
+// Events are matched by id, so that an event keeps its identity when retimed
+const isSameEvent = (a: Event, b: Event) => a === b || (a.id !== undefined && a.id === b.id)
+
 export default function EditorPage() {
   const [uploads, setUploads] = useState<FileUploads>({ audioFile: null, cmfFile: null })
   const [meld, setMeld] = useState<ChessmeldMeldFormatCMFV001 | null>(null)
@@ -80,6 +97,15 @@ export default function EditorPage() {
   const audioInputRef = useRef<HTMLInputElement>(null)
   const cmfInputRef = useRef<HTMLInputElement>(null)
 
+  // The open bundle's meld, whose audio and transcript object URLs are revoked
+  // when another file is opened or the editor closes
+  const bundleMeldRef = useRef<ChessmeldMeldFormatCMFV001 | null>(null)
+  const releaseBundle = useCallback(() => {
+    if (bundleMeldRef.current) revokeBundleUrls(bundleMeldRef.current)
+    bundleMeldRef.current = null
+  }, [])
+  useEffect(() => releaseBundle, [releaseBundle])
+
   // Handle audio file upload
   const handleAudioUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
@@ -100,11 +126,35 @@ export default function EditorPage() {
     if (!file) return
 
     setUploads(prev => ({ ...prev, cmfFile: file }))
+
+    // A .meld bundle carries its own audio and transcript
+    if (isMeldBundleName(file.name)) {
+      unpackMeldBundle(file)
+        .then((bundle) => {
+          releaseBundle()
+          bundleMeldRef.current = resolveBundleUrls(bundle)
+          setMeld(bundleMeldRef.current)
+        })
+        .catch((error) => {
+          console.error('Error opening meld bundle:', error)
+          alert(`Error opening meld bundle.\n${error instanceof Error ? error.message : ''}`)
+        })
+      return
+    }
+
     const reader = new FileReader()
     reader.onload = (e) => {
       try {
         const content = e.target?.result as string
-        const parsedMeld = JSON.parse(content) as ChessmeldMeldFormatCMFV001
+        // PGNs are imported as a meld with a synthetic timeline
+        const raw = file.name.toLowerCase().endsWith('.pgn') ? pgnToMeld(content) : migrateMeld(JSON.parse(content)).meld
+        const result = parseMeld(raw)
+        if (!result.ok) {
+          console.error('Invalid CMF file:', result.errors)
+          alert(`Invalid CMF file:\n${result.errors.slice(0, 10).join('\n')}`)
+          return
+        }
+        const parsedMeld = result.data
         
         // If we have an audio file, set its URL in the meld
         if (uploads.audioFile) {
@@ -112,14 +162,15 @@ export default function EditorPage() {
           parsedMeld.meta.audioUrl = audioUrl
         }
         
+        releaseBundle()
         setMeld(parsedMeld)
       } catch (error) {
         console.error('Error parsing CMF file:', error)
-        alert('Error parsing CMF file. Please check the file format.')
+        alert(`Error parsing CMF file. Please check the file format.\n${error instanceof Error ? error.message : ''}`)
       }
     }
     reader.readAsText(file)
-  }, [uploads.audioFile])
+  }, [uploads.audioFile, releaseBundle])
 
   // Get text events from meld
   const textEvents = useMemo(() => {
@@ -134,13 +185,18 @@ export default function EditorPage() {
     const updatedMeld = {
       ...meld,
       events: meld.events.map(e => 
-        e === event ? { ...e, t: newTimestamp } : e
+        isSameEvent(e, event) ? { ...e, t: newTimestamp } : e
       )
     }
     setMeld(updatedMeld)
     setEditingTimestamp(null)
   }, [meld])
 
+  // Replace the events retimed on the timeline
+  const updateEvents = useCallback((events: Event[]) => {
+    setMeld(prev => prev ? { ...prev, events } : null)
+  }, [])
+
   // Start editing a text event
   const startEditingTextEvent = useCallback((event: TextEvent) => {
     setEditingTextEvent(event)
@@ -154,7 +210,7 @@ export default function EditorPage() {
     const updatedMeld = {
       ...meld,
       events: meld.events.map(e => 
-        e === event ? { ...e, text: newText } : e
+        isSameEvent(e, event) ? { ...e, text: newText } : e
       )
     }
     setMeld(updatedMeld)
@@ -173,11 +229,12 @@ export default function EditorPage() {
     if (!meld) return
     
     // Find the index of the event to insert after
-    const eventIndex = meld.events.findIndex(e => e === afterEvent)
+    const eventIndex = meld.events.findIndex(e => isSameEvent(e, afterEvent))
     if (eventIndex === -1) return
     
     // Create new empty text event with timestamp slightly after the current event
     const newTextEvent: TextEvent = {
+      id: uuidv4(),
       t: afterEvent.t + 1000, // 1 second after
       type: 'text',
       fen: afterEvent.fen,
@@ -237,7 +294,7 @@ export default function EditorPage() {
           <div className="bg-white rounded-lg shadow-sm border p-8">
             <h2 className="text-xl font-semibold mb-4">Upload Files</h2>
             <p className="text-gray-600 mb-6">
-              Upload an audio file and its corresponding CMF JSON file to start editing timestamps.
+              Upload an audio file and its corresponding CMF JSON file to start editing timestamps. A PGN can be imported in place of the CMF file, and a .meld bundle needs no separate audio file.
             </p>
             
             <div className="space-y-4">
@@ -271,13 +328,13 @@ export default function EditorPage() {
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  CMF JSON File
+                  CMF JSON, PGN or .meld Bundle
                 </label>
                 <div className="flex items-center space-x-4">
                   <input
                     ref={cmfInputRef}
                     type="file"
-                    accept=".json"
+                    accept=".json,.pgn,.meld"
                     onChange={handleCMFUpload}
                     className="hidden"
                   />
@@ -342,7 +399,7 @@ export default function EditorPage() {
           <div className="space-y-3">
             {textEvents.map((event, index) => (
               <div
-                key={`${event.t}-${index}`}
+                key={eventKey(event, index)}
                 className={`p-3 rounded-lg border ${
                   currentTimeMs >= event.t && currentTimeMs < (textEvents[index + 1]?.t || Infinity)
                     ? 'bg-blue-50 border-blue-200' 
@@ -372,7 +429,7 @@ export default function EditorPage() {
                 </div>
                 
                 <div className="text-sm text-gray-800 relative">
-                  {editingTextEvent === event ? (
+                  {editingTextEvent && isSameEvent(editingTextEvent, event) ? (
                     <div className="space-y-2">
                       <textarea
                         value={editingText}
@@ -422,6 +479,14 @@ export default function EditorPage() {
         </div>
       </div>
 
+      {/* Timeline of every event under the waveform */}
+      <div className="bg-white border-t px-6 py-4">
+        <div className="max-w-7xl mx-auto">
+          <h3 className="text-lg font-semibold mb-2">Timeline</h3>
+          <TimelineEditor meld={meld} currentTimeMs={currentTimeMs} onEventsChange={updateEvents} />
+        </div>
+      </div>
+
       {/* Timestamp Editor Modal */}
       {editingTimestamp && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1,37 +1,69 @@
 'use client'
 
 import { useState, useEffect } from 'react';
-import { Player } from '@/lib/player/Player'; // Updated import path
-import type { MeldV0_0_1 } from '@/lib/renderer'; // Updated import path
+import { CoursePlayer } from '@/lib/player/CoursePlayer';
+import {
+  assertCourse,
+  assertMeld,
+  courseFromMeld,
+  isCourseDocument,
+  isMeldBundleName,
+  migrateMeld,
+  resolveBundleUrls,
+  revokeBundleUrls,
+  unpackMeldBundle,
+  type ChessmeldCourse,
+  type ChessmeldMeldFormatCMFV001
+} from '@/lib/cmf';
+
+const DEFAULT_COURSE_URL = '/examples/openings.course.json';
 
 export default function HomePage() {
-  const [meld, setMeld] = useState<MeldV0_0_1 | null>(null);
+  const [course, setCourse] = useState<{ course: ChessmeldCourse; url: string } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    let cancelled = false;
+    // A .meld bundle's audio and transcript get object URLs, ours to revoke
+    let bundleMeld: ChessmeldMeldFormatCMFV001 | null = null;
+
     const loadMeld = async () => {
       try {
-        const response = await fetch('/examples/carlsen-best-opening-beginners-white.cmf.json');
+        // ?course=<url> or ?meld=<url> loads a course, a .cmf.json file or a
+        // .meld bundle; a single meld plays as a one-chapter course
+        const params = new URLSearchParams(window.location.search);
+        const url = params.get('course') || params.get('meld') || DEFAULT_COURSE_URL;
+        const response = await fetch(url);
         if (!response.ok) {
           throw new Error(`Failed to load meld: ${response.status} ${response.statusText}`);
         }
-        const meldData: MeldV0_0_1 = await response.json();
-
-        const sortedMeldData = {
-          ...meldData,
-          events: [...meldData.events].sort((a, b) => a.t - b.t)
-        };
 
-        setMeld(sortedMeldData);
+        if (isMeldBundleName(url)) {
+          const bundle = await unpackMeldBundle(await response.blob());
+          if (cancelled) return;
+          bundleMeld = resolveBundleUrls(bundle);
+          setCourse({ course: courseFromMeld(bundleMeld), url });
+        } else {
+          const data = await response.json();
+          if (cancelled) return;
+          setCourse({
+            course: isCourseDocument(data) ? assertCourse(data) : courseFromMeld(assertMeld(migrateMeld(data).meld)),
+            url
+          });
+        }
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load meld');
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load meld');
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     loadMeld();
+    return () => {
+      cancelled = true;
+      if (bundleMeld) revokeBundleUrls(bundleMeld);
+    };
   }, []);
 
   if (loading) {
@@ -56,7 +88,7 @@ export default function HomePage() {
     );
   }
 
-  if (!meld) {
+  if (!course) {
     return (
       <div className="app">
         <div className="error">
@@ -69,7 +101,7 @@ export default function HomePage() {
 
   return (
     <div className="app">
-      <Player meld={meld} />
+      <CoursePlayer course={course.course} courseUrl={course.url} />
     </div>
   );
 }
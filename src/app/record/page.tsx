@@ -10,9 +10,17 @@ import { MetadataFormComponent } from '@/components/MetadataForm'
 import { FenInput } from '@/components/FenInput'
 import { BoardSetup } from '@/components/BoardSetup'
 import { LegalPolicyToggle } from '@/components/LegalPolicyToggle'
+import { PausePointPanel } from '@/components/PausePointPanel'
+import { PrecomputePanel } from '@/components/PrecomputePanel'
+import { PunchInPanel } from '@/components/PunchInPanel'
 import { v4 as uuidv4 } from 'uuid'
 import { useRecordingStore } from '@/stores/recordingStore'
 import type { StudioStep, LegacyMoveEvent, MetadataForm, LegalPolicy } from '@/types/graph-studio'
+import { packMeldBundle, type LintResult } from '@/lib/cmf'
+import { meldToPgn } from '@/lib/pgn'
+import { VARIANTS, type Variant } from '@/lib/variants'
+import { suggestOpeningTags } from '@/lib/openings'
+import { studioAutosaveService, type StudioAutosave } from '@/services/studioAutosave'
 
 export default function RecordGraphPageSimple() {
   const {
@@ -24,12 +32,11 @@ export default function RecordGraphPageSimple() {
     currentLegalPolicy,
     setCurrentStep,
     setSession,
+    setRecordingState,
     setMetadata,
     setLegalPolicy,
     addMove,
     addVariation,
-    addIntegrityWarning,
-    clearIntegrityWarnings,
     navigateToNode,
     navigateToMoveIndex,
     goBack,
@@ -37,6 +44,8 @@ export default function RecordGraphPageSimple() {
     goToStart,
     goToLatest,
     setAudioBlob,
+    setPrecomputed,
+    updateNode,
     setWhisperXData,
     addTextEvents,
     updateTextEvents,
@@ -46,23 +55,40 @@ export default function RecordGraphPageSimple() {
     getCurrentNode,
     getVariations,
     getAllPaths,
+    lintSession,
+    answeringPausePointId,
+    addPausePoint,
+    updatePausePoint,
+    removePausePoint,
+    setAnsweringPausePoint,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    punchIn,
+    startPunchIn,
+    finishPunchIn,
+    cancelPunchIn,
   } = useGraphStudio()
 
   // Use centralized recording time management
-  const { reset: resetRecording, currentTime, audioMode, setAudioMode, setInteractive } = useRecordingStore()
+  const { reset: resetRecording, currentTime, isRecording, isPaused, pausedDuration, audioMode, setAudioMode, setInteractive } = useRecordingStore()
 
   const [startingFen, setStartingFen] = useState('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')
+  const [variant, setVariant] = useState<Variant>('standard')
   const [showFenInput, setShowFenInput] = useState(false)
   const [setupMode, setSetupMode] = useState<'visual' | 'fen'>('visual')
   const [isRecordingComplete, setIsRecordingComplete] = useState(false)
   const [isMetadataComplete, setIsMetadataComplete] = useState(false)
+  // An autosave left by an earlier visit, until the user restores or discards it
+  const [pendingAutosave, setPendingAutosave] = useState<StudioAutosave | null>(null)
   
   // Refs for auto-scrolling
   const transcriptionRef = useRef<HTMLDivElement>(null)
   const metadataRef = useRef<HTMLDivElement>(null)
   const exportRef = useRef<HTMLDivElement>(null)
 
-  // Initialize session when starting or when startingFen changes
+  // Initialize session when starting or when startingFen or variant changes
   useEffect(() => {
     // If no session exists, create one
     if (!session) {
@@ -71,6 +97,7 @@ export default function RecordGraphPageSimple() {
         title: 'Untitled Lesson',
         author: 'Unknown',
         startingFen,
+        variant,
         nodes: {
           [startingFen]: {
             fen: startingFen,
@@ -89,13 +116,14 @@ export default function RecordGraphPageSimple() {
         }
       })
     } 
-    // If session exists but startingFen has changed, reset the session
-    else if (session.startingFen !== startingFen) {
+    // If session exists but startingFen or variant has changed, reset the session
+    else if (session.startingFen !== startingFen || session.variant !== variant) {
       setSession({
         id: uuidv4(),
         title: session.title || 'Untitled Lesson',
         author: session.author || 'Unknown',
         startingFen,
+        variant,
         nodes: {
           [startingFen]: {
             fen: startingFen,
@@ -114,7 +142,51 @@ export default function RecordGraphPageSimple() {
         }
       })
     }
-  }, [session, setSession, startingFen, currentLegalPolicy])
+  }, [session, setSession, startingFen, variant, currentLegalPolicy])
+
+  // Mirror the recorder's state, so the studio knows when recording is paused
+  useEffect(() => {
+    setRecordingState({ isRecording, isPaused, pausedDuration })
+  }, [isRecording, isPaused, pausedDuration, setRecordingState])
+
+  // Offer to restore whatever the last visit was working on
+  useEffect(() => {
+    studioAutosaveService.load()
+      .then((saved) => setPendingAutosave(saved))
+      .catch((error) => console.error('Failed to load autosave:', error))
+  }, [])
+
+  // Save the session once recording has begun, a second after each change.
+  // Nothing is saved while a restore is on offer, so it isn't overwritten, or
+  // while a section is re-recorded, when the session holds only the new take.
+  useEffect(() => {
+    if (!session || currentStep === 'setup' || pendingAutosave || punchIn) return
+
+    const timer = setTimeout(() => {
+      studioAutosaveService.saveSession(session, metadata)
+        .catch((error) => console.error('Autosave failed:', error))
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [session, metadata, currentStep, pendingAutosave, punchIn])
+
+  const handleRestoreAutosave = useCallback(() => {
+    if (!pendingAutosave) return
+
+    const { session: savedSession, metadata: savedMetadata, audioBlob } = pendingAutosave
+    // Match the setup so the session isn't replaced by a fresh one
+    setStartingFen(savedSession.startingFen)
+    setVariant(savedSession.variant ?? 'standard')
+    setSession(savedSession)
+    setMetadata(savedMetadata)
+    setIsRecordingComplete(audioBlob !== null)
+    setCurrentStep('review')
+    setPendingAutosave(null)
+  }, [pendingAutosave, setSession, setMetadata, setCurrentStep])
+
+  const handleDiscardAutosave = useCallback(() => {
+    setPendingAutosave(null)
+    studioAutosaveService.clear().catch((error) => console.error('Failed to clear autosave:', error))
+  }, [])
 
   // Auto-scroll to current step
   useEffect(() => {
@@ -145,16 +217,35 @@ export default function RecordGraphPageSimple() {
   const handleRecordingStart = useCallback(() => {
     // Don't start the recording timer here - let the AudioRecorder component handle it
     setCurrentStep('recording')
+    // A new recording replaces any earlier autosave
+    setPendingAutosave(null)
+    studioAutosaveService.clearAudio().catch((error) => console.error('Failed to clear saved audio:', error))
   }, [setCurrentStep])
 
+  const handleAudioChunk = useCallback((chunk: Blob) => {
+    studioAutosaveService.appendAudioChunk(chunk).catch((error) => console.error('Failed to save audio chunk:', error))
+  }, [])
+
   const handleRecordingStop = useCallback((blob: Blob) => {
     // The recording timer is already stopped by the AudioRecorder component
     setAudioBlob(blob)
     setIsRecordingComplete(true)
   }, [setAudioBlob])
 
+  const handlePunchInFinish = useCallback((durationMs: number, blob: Blob) => {
+    finishPunchIn(durationMs, blob)
+    studioAutosaveService.clearAudio()
+      .then(() => studioAutosaveService.appendAudioChunk(blob))
+      .catch((error) => console.error('Failed to save spliced audio:', error))
+  }, [finishPunchIn])
+
   const handleAudioUploaded = useCallback((blob: Blob) => {
     setAudioBlob(blob)
+    setPendingAutosave(null)
+    // Keep the upload with the autosave, as a single chunk
+    studioAutosaveService.clearAudio()
+      .then(() => studioAutosaveService.appendAudioChunk(blob))
+      .catch((error) => console.error('Failed to save uploaded audio:', error))
     setIsRecordingComplete(true)
     // Enable board interaction for upload mode
     setInteractive(true)
@@ -205,21 +296,39 @@ export default function RecordGraphPageSimple() {
       annotationEvent.arrows = [{
         from: event.from,
         to: event.to,
-        color: 'green' // Fixed color for arrows
+        color: event.color || 'green',
+        ...(event.style === 'dashed' && { style: 'dashed' }),
+        ...(event.number !== undefined && { number: event.number })
       }]
     }
     
     if (event.mode === 'circle') {
       annotationEvent.circles = [{
         square: event.square,
-        color: 'yellow' // Fixed color for circles
+        color: event.color || 'yellow'
       }]
     }
     
     if (event.mode === 'highlight') {
       annotationEvent.highlights = [{
         square: event.square,
-        color: 'blue' // Fixed color for highlights
+        color: event.color || 'blue'
+      }]
+    }
+
+    if (event.mode === 'glyph' && event.glyph) {
+      annotationEvent.glyphs = [{
+        square: event.square,
+        glyph: event.glyph,
+        ...(event.color && { color: event.color })
+      }]
+    }
+
+    if (event.mode === 'label' && event.text) {
+      annotationEvent.labels = [{
+        square: event.square,
+        text: event.text,
+        color: event.color || 'yellow'
       }]
     }
     
@@ -255,6 +364,38 @@ export default function RecordGraphPageSimple() {
     goToLatest(currentTime)
   }, [goToLatest, currentTime])
 
+  // Undo and redo record where they leave the board only while recording live
+  const handleUndo = useCallback(() => {
+    undo(isRecording ? currentTime : undefined)
+  }, [undo, isRecording, currentTime])
+
+  const handleRedo = useCallback(() => {
+    redo(isRecording ? currentTime : undefined)
+  }, [redo, isRecording, currentTime])
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo, outside text fields
+  useEffect(() => {
+    if (currentStep !== 'recording') return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return
+      if (!(e.ctrlKey || e.metaKey)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        handleUndo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        handleRedo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [currentStep, handleUndo, handleRedo])
+
   const handleExport = useCallback(() => {
     try {
       const cmfData = exportCMF()
@@ -273,6 +414,45 @@ export default function RecordGraphPageSimple() {
     }
   }, [exportCMF, metadata.title])
 
+  const handleExportBundle = useCallback(async () => {
+    try {
+      const blob = await packMeldBundle({
+        meld: exportCMF(),
+        audio: session?.audioBlob,
+        transcript: session?.whisperXData
+      })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${metadata.title || 'chess-lesson'}.meld`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Bundle export failed:', error)
+      alert('Bundle export failed. Please try again.')
+    }
+  }, [exportCMF, session?.audioBlob, session?.whisperXData, metadata.title])
+
+  const handleExportPgn = useCallback(() => {
+    try {
+      const pgn = meldToPgn(exportCMF())
+      const blob = new Blob([pgn], { type: 'application/x-chess-pgn' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${metadata.title || 'chess-lesson'}.pgn`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('PGN export failed:', error)
+      alert('PGN export failed. Please try again.')
+    }
+  }, [exportCMF, metadata.title])
+
   const handleExportTranscript = useCallback(() => {
     if (!session?.whisperXData) {
       alert('No WhisperX transcript data available to export.')
@@ -321,6 +501,7 @@ export default function RecordGraphPageSimple() {
     if (confirm('Are you sure you want to reset? This will clear all recorded data.')) {
       resetSession()
       resetRecording()
+      studioAutosaveService.clear().catch((error) => console.error('Failed to clear autosave:', error))
       setCurrentStep('setup')
       setIsRecordingComplete(false)
       setIsMetadataComplete(false)
@@ -330,17 +511,69 @@ export default function RecordGraphPageSimple() {
   const currentNode = getCurrentNode()
   const variations = getVariations()
   const allPaths = getAllPaths()
+  // Only lint while reviewing; it replays every move in the session
+  const lintResult: LintResult | null = currentStep === 'review' ? lintSession() : null
 
   if (!currentNode) {
     return <div>Loading...</div>
   }
 
+  // Shared by recording and re-recording a section in review
+  const chessBoard = (
+    <GraphChessBoardSimple
+      startingFen={startingFen}
+      variant={variant}
+      currentNode={currentNode}
+      currentPath={currentPath}
+      variations={variations}
+      events={session?.events || []}
+      legalPolicy={currentLegalPolicy}
+      onMove={handleMove}
+      onVariation={handleVariation}
+      onNavigateToNode={handleNavigateToNode}
+      onNavigateToMoveIndex={handleNavigateToMoveIndex}
+      onGoBack={handleGoBack}
+      onGoForward={handleGoForward}
+      onGoToStart={handleGoToStart}
+      onGoToLatest={handleGoToLatest}
+      showNavigation={true}
+      onAnnotationEvent={handleAnnotationEvent}
+    />
+  )
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-6xl mx-auto">
           <h1 className="text-3xl font-bold mb-8">ChessMeld Studio - Graph Mode (Simplified)</h1>
-          
+
+          {/* Crash recovery */}
+          {pendingAutosave && (
+            <div className="mb-8 flex items-center justify-between rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+              <div className="text-sm">
+                <div className="font-medium">Unsaved recording found</div>
+                <div className="text-gray-600">
+                  {pendingAutosave.metadata.title || pendingAutosave.session.title || 'Untitled Lesson'}, autosaved {new Date(pendingAutosave.savedAt).toLocaleString()}
+                  {pendingAutosave.audioBlob ? '' : ' (no audio)'}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleRestoreAutosave}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={handleDiscardAutosave}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Step Indicator */}
           <div className="mb-8">
             <div className="flex items-center justify-center space-x-4">
@@ -416,6 +649,27 @@ export default function RecordGraphPageSimple() {
                     />
                   </div>
 
+                  {/* Variant Selection */}
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Variant</label>
+                    <select
+                      value={variant}
+                      onChange={(e) => setVariant(e.target.value as Variant)}
+                      className="px-3 py-2 border rounded-md"
+                    >
+                      {VARIANTS.map((v) => (
+                        <option key={v} value={v}>
+                          {v === 'chess960' ? 'Chess960 (Fischer Random)' : 'Standard'}
+                        </option>
+                      ))}
+                    </select>
+                    {variant === 'chess960' && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Castle by moving the king onto its rook.
+                      </p>
+                    )}
+                  </div>
+
                   {/* Starting Position */}
                   <div>
                     <div className="flex items-center justify-between mb-4">
@@ -505,25 +759,40 @@ export default function RecordGraphPageSimple() {
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Chess Board */}
                 <div className="bg-card p-6 rounded-lg border">
-                  <h2 className="text-xl font-semibold mb-4">Chess Board</h2>
-                <GraphChessBoardSimple
-                  startingFen={startingFen}
-                  currentNode={currentNode}
-                  currentPath={currentPath}
-                  variations={variations}
-                  events={session?.events || []}
-                  legalPolicy={currentLegalPolicy}
-                  onMove={handleMove}
-                  onVariation={handleVariation}
-                  onNavigateToNode={handleNavigateToNode}
-                  onNavigateToMoveIndex={handleNavigateToMoveIndex}
-                  onGoBack={handleGoBack}
-                  onGoForward={handleGoForward}
-                  onGoToStart={handleGoToStart}
-                  onGoToLatest={handleGoToLatest}
-                  showNavigation={true}
-                  onAnnotationEvent={handleAnnotationEvent}
-                />
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-semibold">Chess Board</h2>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleUndo}
+                        disabled={!canUndo}
+                        title="Undo (Ctrl+Z)"
+                        className="px-3 py-1 text-sm border rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Undo
+                      </button>
+                      <button
+                        onClick={handleRedo}
+                        disabled={!canRedo}
+                        title="Redo (Ctrl+Shift+Z)"
+                        className="px-3 py-1 text-sm border rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Redo
+                      </button>
+                    </div>
+                  </div>
+                {chessBoard}
+                <div className="mt-6">
+                  <PausePointPanel
+                    events={session?.events || []}
+                    currentFen={currentNode.fen}
+                    currentTime={currentTime}
+                    answeringPausePointId={answeringPausePointId}
+                    onAdd={addPausePoint}
+                    onUpdate={updatePausePoint}
+                    onRemove={removePausePoint}
+                    onSetAnswering={setAnsweringPausePoint}
+                  />
+                </div>
               </div>
 
               {/* Audio Recorder/Uploader */}
@@ -535,6 +804,7 @@ export default function RecordGraphPageSimple() {
                   <AudioRecorder
                     onRecordingStart={handleRecordingStart}
                     onRecordingStop={handleRecordingStop}
+                    onAudioChunk={handleAudioChunk}
                   />
                 ) : (
                   <AudioUploader
@@ -563,6 +833,7 @@ export default function RecordGraphPageSimple() {
                 <h2 className="text-xl font-semibold mb-4">Review & Metadata</h2>
                 <MetadataFormComponent
                   initialData={metadata}
+                  suggestedTags={session ? suggestOpeningTags(exportCMF()) : []}
                   onSubmit={(data) => {
                     setMetadata(data)
                     setIsMetadataComplete(true)
@@ -570,6 +841,22 @@ export default function RecordGraphPageSimple() {
                 />
               </div>
 
+              {/* Punch-in */}
+              {session?.audioBlob && (
+                <div className="bg-card p-6 rounded-lg border">
+                  <div className={punchIn ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+                    {punchIn && <div>{chessBoard}</div>}
+                    <PunchInPanel
+                      audioBlob={session.audioBlob}
+                      punchIn={punchIn}
+                      onStart={startPunchIn}
+                      onFinish={handlePunchInFinish}
+                      onCancel={cancelPunchIn}
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Graph Statistics */}
               <div className="bg-card p-6 rounded-lg border">
                 <h2 className="text-xl font-semibold mb-4">Graph Statistics</h2>
@@ -592,6 +879,31 @@ export default function RecordGraphPageSimple() {
                   </div>
                 </div>
               </div>
+
+              {/* File Check */}
+              <div className="bg-card p-6 rounded-lg border">
+                <h2 className="text-xl font-semibold mb-4">File Check</h2>
+                {!lintResult || lintResult.findings.length === 0 ? (
+                  <p className="text-sm text-green-700">No problems found in the graph or events.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {lintResult.findings.map((finding, index) => (
+                      <li
+                        key={`${finding.rule}-${finding.path}-${index}`}
+                        className={`p-3 rounded-md border text-sm ${
+                          finding.severity === 'error'
+                            ? 'bg-red-50 border-red-200 text-red-800'
+                            : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                        }`}
+                      >
+                        <div className="font-medium">{finding.message}</div>
+                        <div className="mt-1">{finding.suggestion}</div>
+                        <div className="mt-1 font-mono text-xs opacity-75 break-all">{finding.path}</div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
             </div>
           )}
 
@@ -601,14 +913,26 @@ export default function RecordGraphPageSimple() {
               <div className="bg-card p-6 rounded-lg border">
                 <h2 className="text-xl font-semibold mb-4">Export</h2>
                 <div className="space-y-4">
-                  <p>Your chess lesson is ready to export!</p>
+                  <p>Your chess lesson is ready to export! The bundle packs the CMF file, audio and transcript into one file.</p>
                   <div className="flex gap-4 flex-wrap">
+                    <button
+                      onClick={handleExportBundle}
+                      className="px-6 py-3 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 font-medium"
+                    >
+                      Export Bundle (.meld)
+                    </button>
                     <button
                       onClick={handleExport}
                       className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 font-medium"
                     >
                       Download CMF File
                     </button>
+                    <button
+                      onClick={handleExportPgn}
+                      className="px-6 py-3 bg-amber-500 text-white rounded-lg hover:bg-amber-600 font-medium"
+                    >
+                      Download PGN
+                    </button>
                     {session?.audioBlob && (
                       <button
                         onClick={handleAudioExport}
@@ -634,6 +958,10 @@ export default function RecordGraphPageSimple() {
                   </div>
                 </div>
               </div>
+
+              <div className="bg-card p-6 rounded-lg border">
+                <PrecomputePanel getMeld={exportCMF} onPrecomputed={setPrecomputed} onUpdateNode={updateNode} />
+              </div>
             </div>
           )}
 
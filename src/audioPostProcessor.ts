@@ -8,6 +8,11 @@ export interface AudioPostProcessorOptions {
   mimeType?: string;
 }
 
+export interface AudioSpliceResult {
+  blob: Blob;
+  replacementDurationMs: number;
+}
+
 export class AudioPostProcessor {
   /**
    * Post-processes a WebM blob to ensure it has proper duration metadata
@@ -92,6 +97,104 @@ export class AudioPostProcessor {
     });
   }
 
+  /**
+   * Replaces [startMs, endMs) of a recording with another recording. Both are
+   * decoded, so they can be in any format the browser plays, and the result
+   * is a WAV file, which always carries its duration.
+   */
+  static async spliceAudio(
+    original: Blob,
+    replacement: Blob,
+    startMs: number,
+    endMs: number
+  ): Promise<AudioSpliceResult> {
+    const context = new AudioContext();
+    try {
+      // Decoding resamples both to the context's rate
+      const [originalBuffer, replacementBuffer] = await Promise.all([
+        context.decodeAudioData(await original.arrayBuffer()),
+        context.decodeAudioData(await replacement.arrayBuffer())
+      ]);
+      const channelsOf = (buffer: AudioBuffer) =>
+        Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+      const frameAt = (ms: number) => Math.round((ms / 1000) * context.sampleRate);
+
+      const channels = AudioPostProcessor.spliceChannels(
+        channelsOf(originalBuffer),
+        channelsOf(replacementBuffer),
+        frameAt(startMs),
+        frameAt(endMs)
+      );
+      return {
+        blob: AudioPostProcessor.encodeWav(channels, context.sampleRate),
+        replacementDurationMs: Math.round(replacementBuffer.duration * 1000)
+      };
+    } finally {
+      await context.close();
+    }
+  }
+
+  /**
+   * Replaces frames [startFrame, endFrame) of each channel with the
+   * replacement. A replacement with fewer channels repeats its last one.
+   */
+  static spliceChannels(
+    original: Float32Array[],
+    replacement: Float32Array[],
+    startFrame: number,
+    endFrame: number
+  ): Float32Array[] {
+    return original.map((samples, channel) => {
+      const start = Math.min(Math.max(0, startFrame), samples.length);
+      const end = Math.min(Math.max(start, endFrame), samples.length);
+      const take = replacement[Math.min(channel, replacement.length - 1)] ?? new Float32Array(0);
+
+      const spliced = new Float32Array(start + take.length + samples.length - end);
+      spliced.set(samples.subarray(0, start));
+      spliced.set(take, start);
+      spliced.set(samples.subarray(end), start + take.length);
+      return spliced;
+    });
+  }
+
+  /**
+   * Encodes channels of samples in [-1, 1] as a 16-bit PCM WAV file
+   */
+  static encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+    const frames = channels[0]?.length ?? 0;
+    const blockAlign = channels.length * 2;
+    const view = new DataView(new ArrayBuffer(44 + frames * blockAlign));
+    const writeText = (offset: number, text: string) => {
+      for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+
+    writeText(0, 'RIFF');
+    view.setUint32(4, 36 + frames * blockAlign, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channels.length, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, 16, true); // bits per sample
+    writeText(36, 'data');
+    view.setUint32(40, frames * blockAlign, true);
+
+    // Samples are interleaved, frame by frame
+    let offset = 44;
+    for (let frame = 0; frame < frames; frame++) {
+      for (const samples of channels) {
+        const sample = Math.max(-1, Math.min(1, samples[frame]));
+        view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+        offset += 2;
+      }
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+  }
+
   /**
    * Suggests the best audio format for recording based on browser support
    */
@@ -7,11 +7,12 @@ import { FaMicrophone, FaStop, FaPause, FaPlay } from 'react-icons/fa'
 interface AudioRecorderProps {
   onRecordingStart?: () => void
   onRecordingStop?: (blob: Blob) => void
+  onAudioChunk?: (chunk: Blob) => void
   onCurrentTimeChange?: (currentTime: number) => void
   disabled?: boolean
 }
 
-export function AudioRecorder({ onRecordingStart, onRecordingStop, onCurrentTimeChange, disabled }: AudioRecorderProps) {
+export function AudioRecorder({ onRecordingStart, onRecordingStop, onAudioChunk, onCurrentTimeChange, disabled }: AudioRecorderProps) {
   const {
     isRecording,
     isPaused,
@@ -25,7 +26,7 @@ export function AudioRecorder({ onRecordingStart, onRecordingStop, onCurrentTime
     stopRecording,
     reset,
     formatDuration,
-  } = useAudioRecorder(onRecordingStop)
+  } = useAudioRecorder(onRecordingStop, onAudioChunk)
 
   // Notify parent of currentTime changes
   useEffect(() => {
@@ -101,7 +102,11 @@ export function AudioRecorder({ onRecordingStart, onRecordingStop, onCurrentTime
               <div className="recording-indicator">
                 <FaMicrophone className="mx-auto text-4xl text-red-600 mb-2" />
               </div>
-              <p className="text-red-600 font-medium">Recording in progress...</p>
+              {isPaused ? (
+                <p className="text-yellow-600 font-medium">Paused</p>
+              ) : (
+                <p className="text-red-600 font-medium">Recording in progress...</p>
+              )}
               <p className="text-2xl font-mono text-gray-800">{formatDuration(duration)}</p>
             </div>
             <div className="flex gap-3 justify-center">
@@ -1,14 +1,27 @@
 'use client'
 
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
-import { Chess } from 'chess.js'
 import { Chessboard } from 'react-chessboard'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { ArrowLeft, ArrowRight, GitBranch, Home, SkipBack, SkipForward } from 'lucide-react'
 import { useRecordingStore } from '@/stores/recordingStore'
-import { useStudioAnnotations, annotationsToArrows, annotationsToSquareStyles, getStudioColorValue } from '@/lib/annotations'
+import {
+  AnnotationOverlay,
+  useStudioAnnotations,
+  annotationsToArrows,
+  annotationsToOverlayArrows,
+  annotationsToSquareMarks,
+  annotationsToSquareStyles,
+  getColorValue,
+  getStudioColorValue,
+  isArrowMode,
+  withOpacity,
+  type AnnotationColor,
+  type NamedAnnotationColor
+} from '@/lib/annotations'
 import { LegalPolicyValidator } from '@/utils/legalPolicyValidator'
+import { applyMove, createBoard, type Variant } from '@/lib/variants'
 import type { 
   PositionNode, 
   ChildReference,
@@ -22,8 +35,16 @@ import type {
   LegalPolicy
 } from '@/types/graph-studio'
 
+const NAMED_COLORS: NamedAnnotationColor[] = ['green', 'red', 'yellow', 'blue']
+
+// Opacity of a studio color: custom #rrggbbaa colors carry their own
+function colorOpacity(color: AnnotationColor | null): number {
+  return color && color.length === 9 ? parseInt(color.slice(7), 16) / 255 : 1
+}
+
 interface GraphChessBoardSimpleProps {
   startingFen?: string
+  variant?: Variant
   currentNode: PositionNode
   currentPath: GraphPath
   variations: ChildReference[]
@@ -46,6 +67,7 @@ interface GraphChessBoardSimpleProps {
 
 export function GraphChessBoardSimple({
   startingFen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+  variant = 'standard',
   currentNode,
   currentPath,
   variations,
@@ -67,17 +89,18 @@ export function GraphChessBoardSimple({
 }: GraphChessBoardSimpleProps) {
   // Use the unified recording store for timing
   const { isRecording: globalIsRecording, isInteractive: globalIsInteractive, currentTime: globalCurrentTime } = useRecordingStore()
-  const [game, setGame] = useState(new Chess(currentNode.fen))
+  const [game, setGame] = useState(() => createBoard(currentNode.fen, variant))
   const [position, setPosition] = useState(currentNode.fen)
   const chessboardRef = useRef<HTMLDivElement>(null)
   
   // Legal policy validator
-  const validator = useMemo(() => new LegalPolicyValidator(currentNode.fen), [currentNode.fen])
+  const validator = useMemo(() => new LegalPolicyValidator(currentNode.fen, variant), [currentNode.fen, variant])
 
   // Use studio annotations hook
   const {
     annotations,
     annotationState,
+    setColor: setAnnotationColor,
     handleSquareClick: handleAnnotationClick,
     handleDragStart,
     handleDragEnd,
@@ -118,8 +141,12 @@ export function GraphChessBoardSimple({
       if (annotation.type === 'arrow' && annotation.from && annotation.to) {
         event.from = annotation.from
         event.to = annotation.to
+        if (annotation.style) event.style = annotation.style
+        if (annotation.number !== undefined) event.number = annotation.number
       } else if (annotation.square) {
         event.square = annotation.square
+        if (annotation.glyph) event.glyph = annotation.glyph
+        if (annotation.text) event.text = annotation.text
       }
 
       onAnnotationEvent(event)
@@ -139,13 +166,15 @@ export function GraphChessBoardSimple({
 
   // Update position when current node changes
   useEffect(() => {
-    const newGame = new Chess(currentNode.fen)
+    const newGame = createBoard(currentNode.fen, variant)
     setGame(newGame)
     setPosition(newGame.fen())
-  }, [currentNode.fen])
+  }, [currentNode.fen, variant])
 
   // Convert annotations to react-chessboard format
   const chessboardArrows = useMemo(() => annotationsToArrows(annotations, annotationState), [annotations, annotationState])
+  const overlayArrows = useMemo(() => annotationsToOverlayArrows(annotations), [annotations])
+  const squareMarks = useMemo(() => annotationsToSquareMarks(annotations), [annotations])
   
   const squareStyles = useMemo(() => {
     const baseStyles = annotationsToSquareStyles(annotations)
@@ -182,39 +211,38 @@ export function GraphChessBoardSimple({
 
     // Apply the move based on legal policy
     if (legalPolicy === 'strict') {
-      // Use chess.js for strict validation
+      // Apply the move under the variant's rules
       try {
-        const move = game.move({
+        const move = applyMove(currentNode.fen, {
           from: sourceSquare,
           to: targetSquare,
           promotion: 'q'
-        })
+        }, variant)
 
-        if (move) {
-          const newFen = game.fen()
-          // Calculate move number based on current path length
-          const currentMoveCount = currentPath.moves.length
-          const moveNumber = Math.floor(currentMoveCount / 2) + 1
-          
-          const moveEvent = {
-            san: move.san,
-            fen: newFen,
-            timestamp: globalCurrentTime,
-            color: move.color, // Include the color from the chess.js move
-            moveNumber: moveNumber, // Include the calculated move number
-          }
-          onMove(moveEvent)
-          return true
+        const newFen = move.after
+        setGame(createBoard(newFen, variant))
+        // Calculate move number based on current path length
+        const currentMoveCount = currentPath.moves.length
+        const moveNumber = Math.floor(currentMoveCount / 2) + 1
+        
+        const moveEvent = {
+          san: move.san,
+          fen: newFen,
+          timestamp: globalCurrentTime,
+          color: move.color, // Include the color from the applied move
+          moveNumber: moveNumber, // Include the calculated move number
         }
+        onMove(moveEvent)
+        return true
       } catch (error) {
-        console.error('Chess.js validation failed:', error)
+        console.error('Move validation failed:', error)
         return false
       }
     } else {
       // For pieceLegal and none modes, manually update the board state
       try {
         // Create a temporary chess instance to apply the move
-        const tempGame = new Chess(currentNode.fen)
+        const tempGame = createBoard(currentNode.fen, variant)
         
         // Get the piece at source square
         const piece = tempGame.get(sourceSquare as any)
@@ -236,7 +264,7 @@ export function GraphChessBoardSimple({
         let san: string
         try {
           // Try to generate SAN by making the move in a fresh chess instance
-          const sanGame = new Chess(currentNode.fen)
+          const sanGame = createBoard(currentNode.fen, variant)
           
           // For non-strict modes, we need to ensure the turn is correct
           // The piece color should match the current turn
@@ -246,7 +274,7 @@ export function GraphChessBoardSimple({
             const fenParts = currentNode.fen.split(' ')
             fenParts[1] = piece.color // Set the turn to the piece's color
             const correctedFen = fenParts.join(' ')
-            const correctedGame = new Chess(correctedFen)
+            const correctedGame = createBoard(correctedFen, variant)
             
             const move = correctedGame.move({
               from: sourceSquare as any,
@@ -290,7 +318,7 @@ export function GraphChessBoardSimple({
     }
     
     return false
-  }, [disabled, globalIsInteractive, game, globalCurrentTime, onMove, validator, currentNode.fen, legalPolicy])
+  }, [disabled, globalIsInteractive, globalCurrentTime, onMove, validator, currentNode.fen, legalPolicy, variant])
 
   // Handle square click for annotations
   const handleSquareClick = ({ square }: { square: string }) => {
@@ -317,8 +345,8 @@ export function GraphChessBoardSimple({
       return
     }
 
-    // Only handle drag start for arrow mode on left-click
-    if (annotationState.activeMode === 'arrow' && e.button === 0) {
+    // Only handle drag start for arrow modes on left-click
+    if (isArrowMode(annotationState.activeMode) && e.button === 0) {
       handleDragStart(square)
     }
   }
@@ -330,8 +358,8 @@ export function GraphChessBoardSimple({
       return
     }
 
-    // Only handle drag end for arrow mode on left-click
-    if (annotationState.activeMode === 'arrow' && e.button === 0) {
+    // Only handle drag end for arrow modes on left-click
+    if (isArrowMode(annotationState.activeMode) && e.button === 0) {
       handleDragEnd(square)
     }
   }
@@ -340,7 +368,7 @@ export function GraphChessBoardSimple({
   // Global mouse move handler for preview arrow
   useEffect(() => {
     const handleGlobalMouseMove = (e: MouseEvent) => {
-      if (annotationState.activeMode === 'arrow' && annotationState.isDragging) {
+      if (isArrowMode(annotationState.activeMode) && annotationState.isDragging) {
         // Find which square the mouse is over
         const chessboardElement = chessboardRef.current
         
@@ -490,30 +518,58 @@ export function GraphChessBoardSimple({
           <span className="text-sm font-medium text-gray-700">Mode:</span>
           <span className={`px-2 py-1 rounded text-xs font-medium ${
             annotationState.activeMode === null ? 'bg-blue-100 text-blue-800' :
-            annotationState.activeMode === 'circle' ? 'bg-yellow-100 text-yellow-800' :
+            annotationState.activeMode === 'circle' || annotationState.activeMode === 'label' ? 'bg-yellow-100 text-yellow-800' :
             annotationState.activeMode === 'highlight' ? 'bg-blue-100 text-blue-800' :
+            annotationState.activeMode === 'threat' ? 'bg-red-100 text-red-800' :
             'bg-green-100 text-green-800'
           }`}>
             {annotationState.activeMode === null ? 'MOVE' : annotationState.activeMode.toUpperCase()}
           </span>
-          {annotationState.activeMode && (
-            <span className="text-sm font-medium text-gray-700">Color:</span>
-          )}
-          {annotationState.activeMode && (
-            <span className={`px-2 py-1 rounded text-xs font-medium ${
-              annotationState.activeMode === 'arrow' ? 'bg-green-100 text-green-800' :
-              annotationState.activeMode === 'circle' ? 'bg-yellow-100 text-yellow-800' :
-              'bg-blue-100 text-blue-800'
-            }`}>
-              {annotationState.activeMode === 'arrow' ? 'GREEN' :
-               annotationState.activeMode === 'circle' ? 'YELLOW' : 'BLUE'}
-            </span>
-          )}
+          <span className="text-sm font-medium text-gray-700">Color:</span>
+          <button
+            type="button"
+            className={`px-2 py-1 rounded text-xs font-medium ${
+              annotationState.color === null ? 'bg-white text-gray-800 ring-1 ring-gray-400' : 'text-gray-500'
+            }`}
+            onClick={() => setAnnotationColor(null)}
+            title="Use each mode's default color"
+          >
+            AUTO
+          </button>
+          {NAMED_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              className={`h-5 w-5 rounded-full ${annotationState.color === color ? 'ring-2 ring-offset-1 ring-gray-700' : ''}`}
+              style={{ backgroundColor: getStudioColorValue(color) }}
+              onClick={() => setAnnotationColor(color)}
+              title={color}
+            />
+          ))}
+          <input
+            type="color"
+            className="h-6 w-6 cursor-pointer bg-transparent"
+            value={getColorValue(annotationState.color ?? 'green').slice(0, 7)}
+            onChange={(e) => setAnnotationColor(withOpacity(e.target.value, colorOpacity(annotationState.color)) as AnnotationColor)}
+            title="Custom color"
+          />
+          <input
+            type="range"
+            min={10}
+            max={100}
+            step={10}
+            className="w-16"
+            value={Math.round(colorOpacity(annotationState.color) * 100)}
+            onChange={(e) => setAnnotationColor(
+              withOpacity(getColorValue(annotationState.color ?? 'green').slice(0, 7), Number(e.target.value) / 100) as AnnotationColor
+            )}
+            title="Opacity"
+          />
         </div>
       </div>
 
       {/* Chess Board */}
-      <div ref={chessboardRef} className="flex justify-center">
+      <div ref={chessboardRef} className="relative flex justify-center">
         <Chessboard
           options={{
             position: position,
@@ -535,11 +591,13 @@ export function GraphChessBoardSimple({
             arrows: chessboardArrows,
           }}
         />
+        <AnnotationOverlay arrows={overlayArrows} marks={squareMarks} />
       </div>
 
       {/* Keyboard Shortcuts Help */}
       <div className="text-center text-xs text-gray-500 mt-2">
         <div>Hold H (highlight), C (circle), A (arrow) to activate annotation modes</div>
+        <div>Hold T (dashed threat arrow), N (numbered arrow), G (click to cycle !! ! !? ?! ? ??), L (letter label)</div>
         <div>Right-click square to highlight • Right-click and drag to draw arrow</div>
         <div>Press X to clear all annotations, or click any square in move mode to clear all</div>
         <div className="mt-1 text-yellow-600 font-medium">
@@ -7,9 +7,11 @@ interface MetadataFormProps {
   initialData?: Partial<MetadataForm>
   onSubmit: (data: MetadataForm) => void
   onCancel?: () => void
+  /** Tags to offer, such as the recorded opening's */
+  suggestedTags?: string[]
 }
 
-export function MetadataFormComponent({ initialData, onSubmit, onCancel }: MetadataFormProps) {
+export function MetadataFormComponent({ initialData, onSubmit, onCancel, suggestedTags = [] }: MetadataFormProps) {
   const [formData, setFormData] = useState<MetadataForm>({
     title: initialData?.title || '',
     author: initialData?.author || '',
@@ -34,6 +36,12 @@ export function MetadataFormComponent({ initialData, onSubmit, onCancel }: Metad
     }
   }
 
+  const addSuggestedTag = (tag: string) => {
+    setFormData({ ...formData, tags: [...formData.tags, tag] })
+  }
+
+  const unusedSuggestions = suggestedTags.filter(tag => !formData.tags.includes(tag))
+
   const removeTag = (tagToRemove: string) => {
     setFormData(prev => ({
       ...prev,
@@ -123,6 +131,21 @@ export function MetadataFormComponent({ initialData, onSubmit, onCancel }: Metad
               ))}
             </div>
           )}
+          {unusedSuggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <span className="text-sm text-gray-500">Suggested:</span>
+              {unusedSuggestions.map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => addSuggestedTag(tag)}
+                  className="px-2 py-1 border border-dashed border-blue-300 text-blue-700 text-sm rounded-md hover:bg-blue-50"
+                >
+                  + {tag}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         <div className="flex items-center">
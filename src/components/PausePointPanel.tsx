@@ -0,0 +1,144 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { CircleHelp, Trash2 } from 'lucide-react'
+import type { Event, PausePointEvent } from '@/lib/cmf'
+
+interface PausePointPanelProps {
+  events: Event[]
+  currentFen: string
+  currentTime: number
+  answeringPausePointId: string | null
+  onAdd: (timestamp: number) => void
+  onUpdate: (id: string, updates: Partial<PausePointEvent>) => void
+  onRemove: (id: string) => void
+  onSetAnswering: (id: string | null) => void
+}
+
+/**
+ * Pause points at the current position. Adding one starts recording its
+ * answers: moves played on the board are saved as answers until "Done".
+ */
+export function PausePointPanel({
+  events,
+  currentFen,
+  currentTime,
+  answeringPausePointId,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onSetAnswering
+}: PausePointPanelProps) {
+  const pausePoints = events.filter(
+    (event): event is PausePointEvent => event.type === 'pausepoint' && event.fen === currentFen
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <CircleHelp className="h-4 w-4" />
+          Pause Points
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => onAdd(currentTime)}>
+          Add quiz here
+        </Button>
+      </div>
+
+      {pausePoints.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add a pause point to stop the lesson here and ask the student for a move.
+        </p>
+      )}
+
+      {pausePoints.map(pausePoint => {
+        const isAnswering = answeringPausePointId === pausePoint.id
+        const answers = pausePoint.answers || []
+
+        return (
+          <div key={pausePoint.id} className={`space-y-2 p-3 rounded-md border ${isAnswering ? 'border-blue-400 bg-blue-50' : ''}`}>
+            <div className="flex items-center justify-between gap-2">
+              <Badge variant="outline">{Math.floor(pausePoint.t / 1000)}s</Badge>
+              <div className="flex gap-1">
+                <Button
+                  variant={isAnswering ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onSetAnswering(isAnswering ? null : pausePoint.id)}
+                >
+                  {isAnswering ? 'Done' : 'Record answers'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onRemove(pausePoint.id)} title="Remove pause point">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {isAnswering && (
+              <p className="text-xs text-blue-700">
+                Play the answer on the board. Further moves are saved as alternatives for partial credit.
+              </p>
+            )}
+
+            <Input
+              value={pausePoint.prompt || ''}
+              onChange={(e) => onUpdate(pausePoint.id, { prompt: e.target.value || undefined })}
+              placeholder="Prompt, e.g. Find the best move for White"
+            />
+
+            {answers.map((answer, index) => (
+              <div key={answer.move} className="flex items-center gap-2">
+                <Badge variant={index === 0 ? 'default' : 'secondary'}>{answer.move}</Badge>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.25}
+                  className="w-20"
+                  value={answer.credit ?? 1}
+                  onChange={(e) => onUpdate(pausePoint.id, {
+                    answers: answers.map(a => a === answer ? { ...a, credit: Number(e.target.value) } : a)
+                  })}
+                  title="Credit"
+                />
+                <Input
+                  value={answer.feedback || ''}
+                  onChange={(e) => onUpdate(pausePoint.id, {
+                    answers: answers.map(a => a === answer ? { ...a, feedback: e.target.value || undefined } : a)
+                  })}
+                  placeholder="Feedback"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onUpdate(pausePoint.id, { answers: answers.filter(a => a !== answer) })}
+                  title="Remove answer"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <Input
+              value={pausePoint.wrongFeedback || ''}
+              onChange={(e) => onUpdate(pausePoint.id, { wrongFeedback: e.target.value || undefined })}
+              placeholder="Feedback for a wrong move"
+            />
+            <textarea
+              className="w-full px-3 py-2 text-sm border rounded-md"
+              rows={2}
+              defaultValue={(pausePoint.hints || []).join('\n')}
+              onBlur={(e) => {
+                // Saved on blur so blank lines can be typed between hints
+                const hints = e.target.value.split('\n').map(hint => hint.trim()).filter(Boolean)
+                onUpdate(pausePoint.id, { hints: hints.length > 0 ? hints : undefined })
+              }}
+              placeholder="Hints, one per line"
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Cpu } from 'lucide-react'
+import type { ChessmeldMeldFormatCMFV001, PositionNode, PrecomputedEval } from '@/lib/cmf'
+import {
+  applyMoveQuality,
+  classifyMoves,
+  createStockfishEngine,
+  isAbortError,
+  precomputeEvaluations,
+  type PrecomputeProgress
+} from '@/lib/engine'
+
+interface PrecomputePanelProps {
+  /** The meld as it would be exported */
+  getMeld: () => ChessmeldMeldFormatCMFV001
+  onPrecomputed: (precomputed: PrecomputedEval[]) => void
+  /** Saves a node's annotated moves */
+  onUpdateNode: (fen: string, updates: Partial<PositionNode>) => void
+}
+
+/**
+ * Bakes engine evaluations of every position into the export, so students see
+ * them without running an engine. Stopping keeps the positions evaluated so
+ * far, and running again skips them. Once evaluated, the meld's inaccuracies,
+ * mistakes and blunders can be marked with glyphs and suggested comments.
+ */
+export function PrecomputePanel({ getMeld, onPrecomputed, onUpdateNode }: PrecomputePanelProps) {
+  const [depth, setDepth] = useState(18)
+  const [progress, setProgress] = useState<PrecomputeProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [addComments, setAddComments] = useState(true)
+
+  // Stop the engine when leaving the export step
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const meld = getMeld()
+  const evaluated = meld.precomputed?.filter(entry => entry.depth >= depth).length ?? 0
+  const total = Object.keys(meld.nodes).length
+
+  const classifications = classifyMoves(meld)
+  const countOf = (quality: string) => classifications.filter(c => c.quality === quality).length
+  const flagged = countOf('inaccuracy') + countOf('mistake') + countOf('blunder')
+
+  const annotateMoves = () => {
+    const annotated = applyMoveQuality(meld, classifications, { comments: addComments })
+    for (const [fen, node] of Object.entries(annotated.nodes)) {
+      if (node !== meld.nodes[fen]) onUpdateNode(fen, { children: node.children })
+    }
+  }
+
+  const start = () => {
+    const controller = new AbortController()
+    const engine = createStockfishEngine()
+    controllerRef.current = controller
+    setIsRunning(true)
+    setError(null)
+
+    precomputeEvaluations(getMeld(), engine, {
+      depth,
+      bestMoves: 3,
+      signal: controller.signal,
+      onEntry: onPrecomputed,
+      onProgress: setProgress
+    })
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err instanceof Error ? err.message : String(err))
+      })
+      .finally(() => {
+        engine.dispose()
+        setIsRunning(false)
+        setProgress(null)
+      })
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium flex items-center gap-2">
+        <Cpu className="h-4 w-4" />
+        Engine Evaluations
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        {evaluated} of {total} positions evaluated at depth {depth} or deeper.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="precompute-depth" className="text-sm">Depth</label>
+        <Input
+          id="precompute-depth"
+          type="number"
+          min={1}
+          max={40}
+          className="w-20"
+          value={depth}
+          disabled={isRunning}
+          onChange={(e) => setDepth(Math.max(1, Number(e.target.value) || 1))}
+        />
+        {isRunning ? (
+          <Button variant="outline" onClick={() => controllerRef.current?.abort()}>Stop</Button>
+        ) : (
+          <Button variant="outline" onClick={start} disabled={evaluated >= total}>
+            {evaluated > 0 ? 'Resume precomputing' : 'Precompute evaluations'}
+          </Button>
+        )}
+      </div>
+
+      {progress && (
+        <p className="text-xs text-muted-foreground">
+          Position {progress.done} of {progress.total}…
+        </p>
+      )}
+      {error && (
+        <p className="text-xs text-red-600">
+          {error}. Precomputing needs a Stockfish build in public/stockfish/.
+        </p>
+      )}
+
+      {classifications.length > 0 && (
+        <div className="space-y-2 border-t pt-3">
+          <p className="text-sm text-muted-foreground">
+            {countOf('inaccuracy')} inaccuracies, {countOf('mistake')} mistakes and {countOf('blunder')} blunders found.
+          </p>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={addComments} onChange={(e) => setAddComments(e.target.checked)} />
+              Add suggested comments
+            </label>
+            <Button variant="outline" onClick={annotateMoves} disabled={isRunning || flagged === 0}>
+              Annotate moves
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
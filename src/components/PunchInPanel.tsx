@@ -0,0 +1,107 @@
+'use client'
+
+import { useState, useRef, useEffect, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Scissors } from 'lucide-react'
+import { AudioRecorder } from '@/components/AudioRecorder'
+import { AudioPostProcessor } from '@/audioPostProcessor'
+import { useRecordingStore } from '@/stores/recordingStore'
+
+interface PunchInPanelProps {
+  audioBlob: Blob
+  /** The section being re-recorded, in ms */
+  punchIn: { start: number; end: number } | null
+  onStart: (start: number, end: number) => void
+  /** Called with the length of the new take and the spliced recording */
+  onFinish: (durationMs: number, audioBlob: Blob) => void
+  onCancel: () => void
+}
+
+/**
+ * Re-records a section of the lesson. The new take's audio replaces the
+ * section's, and the moves and annotations made while recording it replace
+ * the section's events; later events move with the change in length.
+ */
+export function PunchInPanel({ audioBlob, punchIn, onStart, onFinish, onCancel }: PunchInPanelProps) {
+  const [start, setStart] = useState(0)
+  const [end, setEnd] = useState(0)
+  const [isSplicing, setIsSplicing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const { isRecording } = useRecordingStore()
+
+  const audioUrl = useMemo(() => URL.createObjectURL(audioBlob), [audioBlob])
+  useEffect(() => () => URL.revokeObjectURL(audioUrl), [audioUrl])
+
+  const playbackTime = () => Math.round((audioRef.current?.currentTime ?? 0) * 10) / 10
+
+  const handleRecorded = (take: Blob) => {
+    if (!punchIn) return
+
+    setIsSplicing(true)
+    setError(null)
+    AudioPostProcessor.spliceAudio(audioBlob, take, punchIn.start, punchIn.end)
+      .then(({ blob, replacementDurationMs }) => onFinish(replacementDurationMs, blob))
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsSplicing(false))
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium flex items-center gap-2">
+        <Scissors className="h-4 w-4" />
+        Re-record a Section
+      </h3>
+
+      {!punchIn ? (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Find the section to redo, then record it again. The transcript will need generating again afterwards.
+          </p>
+          <audio ref={audioRef} controls src={audioUrl} className="w-full" />
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor="punch-in-start" className="text-sm">From (s)</label>
+            <Input
+              id="punch-in-start"
+              type="number"
+              min={0}
+              step={0.1}
+              className="w-24"
+              value={start}
+              onChange={(e) => setStart(Math.max(0, Number(e.target.value) || 0))}
+            />
+            <Button variant="outline" size="sm" onClick={() => setStart(playbackTime())}>Use playback time</Button>
+            <label htmlFor="punch-in-end" className="text-sm">To (s)</label>
+            <Input
+              id="punch-in-end"
+              type="number"
+              min={0}
+              step={0.1}
+              className="w-24"
+              value={end}
+              onChange={(e) => setEnd(Math.max(0, Number(e.target.value) || 0))}
+            />
+            <Button variant="outline" size="sm" onClick={() => setEnd(playbackTime())}>Use playback time</Button>
+          </div>
+          <Button onClick={() => onStart(Math.round(start * 1000), Math.round(end * 1000))} disabled={end <= start}>
+            Re-record {start}s to {end}s
+          </Button>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Re-recording {punchIn.start / 1000}s to {punchIn.end / 1000}s. The board is where it was at {punchIn.start / 1000}s.
+          </p>
+          <AudioRecorder onRecordingStop={handleRecorded} disabled={isSplicing} />
+          {isSplicing && <p className="text-xs text-muted-foreground">Splicing the new take into the recording…</p>}
+          <Button variant="outline" onClick={onCancel} disabled={isRecording || isSplicing}>
+            Cancel
+          </Button>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
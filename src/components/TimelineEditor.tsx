@@ -0,0 +1,247 @@
+'use client'
+
+import { useState, useRef, useEffect, useMemo } from 'react'
+import type { ChessmeldMeldFormatCMFV001, Event } from '@/lib/cmf'
+import { eventKey } from '@/lib/cmf'
+import { useTranscript } from '@/lib/player'
+import {
+  TIMELINE_LANES,
+  loadWaveform,
+  moveOrderProblems,
+  retimeEvents,
+  snapToBoundary,
+  timelineLane,
+  wordBoundaries,
+  type TimelineLane
+} from '@/lib/editor'
+
+interface TimelineEditorProps {
+  meld: ChessmeldMeldFormatCMFV001
+  currentTimeMs: number
+  onEventsChange: (events: Event[]) => void
+}
+
+const WAVEFORM_BUCKETS = 1000
+// Drags snap to a word boundary within this many pixels
+const SNAP_DISTANCE_PX = 8
+const NUDGE_MS = 100
+const LARGE_NUDGE_MS = 1000
+
+const LANE_LABELS: Record<TimelineLane, string> = {
+  move: 'Moves',
+  navigate: 'Navigation',
+  annotate: 'Annotations',
+  clear: 'Clears',
+  text: 'Text',
+  pausepoint: 'Pause points',
+  other: 'Setup'
+}
+
+const LANE_COLORS: Record<TimelineLane, string> = {
+  move: 'bg-blue-500',
+  navigate: 'bg-indigo-400',
+  annotate: 'bg-green-500',
+  clear: 'bg-gray-400',
+  text: 'bg-amber-500',
+  pausepoint: 'bg-purple-500',
+  other: 'bg-slate-500'
+}
+
+function formatTime(ms: number): string {
+  const seconds = ms / 1000
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`
+}
+
+function describeEvent(event: Event): string {
+  switch (event.type) {
+    case 'move':
+      return event.san ?? `${event.from}-${event.to}`
+    case 'text':
+      return event.text
+    case 'pausepoint':
+      return event.prompt ?? 'Pause point'
+    default:
+      return event.type
+  }
+}
+
+interface Drag {
+  index: number
+  startX: number
+  deltaMs: number
+}
+
+/**
+ * Every event of a meld as a marker on a timeline under the audio's waveform.
+ * Markers can be dragged, snapping to word boundaries from the transcript
+ * (hold Alt for free movement), or nudged with the arrow keys, Shift for a
+ * second. Shift/Ctrl-click adds to the selection, Ctrl+A selects everything.
+ * Retimes that would play moves out of order are refused.
+ */
+export function TimelineEditor({ meld, currentTimeMs, onEventsChange }: TimelineEditorProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [drag, setDrag] = useState<Drag | null>(null)
+  const [snap, setSnap] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [waveform, setWaveform] = useState<{ peaks: number[]; durationMs: number } | null>(null)
+  const trackRef = useRef<HTMLDivElement>(null)
+
+  const { textEvents } = useTranscript(meld.meta.transcriptUrl, 0, { highlightWords: false })
+  const boundaries = useMemo(() => wordBoundaries(textEvents.flatMap((event) => event.words ?? [])), [textEvents])
+
+  useEffect(() => {
+    if (!meld.meta.audioUrl) return
+    let cancelled = false
+    loadWaveform(meld.meta.audioUrl, WAVEFORM_BUCKETS)
+      .then((loaded) => { if (!cancelled) setWaveform(loaded) })
+      .catch((err) => console.error('Failed to draw waveform:', err))
+    return () => { cancelled = true }
+  }, [meld.meta.audioUrl])
+
+  // Selections are by index, so they go stale when events are added or removed
+  useEffect(() => setSelected(new Set()), [meld.events.length])
+
+  const durationMs = Math.max(
+    meld.meta.durationMs,
+    waveform?.durationMs ?? 0,
+    ...meld.events.map((event) => event.t),
+    1
+  )
+  const problems = useMemo(() => moveOrderProblems(meld), [meld])
+
+  const percentAt = (t: number) => `${(Math.min(Math.max(t, 0), durationMs) / durationMs) * 100}%`
+  const msPerPixel = () => durationMs / (trackRef.current?.clientWidth || 1)
+
+  const commit = (deltaMs: number) => {
+    const events = retimeEvents(meld.events, selected, deltaMs, durationMs)
+    if (events === meld.events) return
+
+    // Refuse any move the retime puts out of order, even if it fixes others
+    const introduced = [...moveOrderProblems({ ...meld, events }).keys()].some((index) => !problems.has(index))
+    if (introduced) {
+      setError('That would play moves out of order, so the events were left where they were.')
+      return
+    }
+    setError(null)
+    onEventsChange(events)
+  }
+
+  const handleMarkerPointerDown = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation()
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      const next = new Set(selected)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      setSelected(next)
+      return
+    }
+
+    if (!selected.has(index)) setSelected(new Set([index]))
+    trackRef.current?.setPointerCapture(e.pointerId)
+    setDrag({ index, startX: e.clientX, deltaMs: 0 })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+
+    let deltaMs = (e.clientX - drag.startX) * msPerPixel()
+    if (snap && !e.altKey) {
+      const from = meld.events[drag.index].t
+      deltaMs = snapToBoundary(from + deltaMs, boundaries, SNAP_DISTANCE_PX * msPerPixel()) - from
+    }
+    setDrag({ ...drag, deltaMs })
+  }
+
+  const handlePointerUp = () => {
+    if (!drag) return
+    commit(drag.deltaMs)
+    setDrag(null)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault()
+      const step = e.shiftKey ? LARGE_NUDGE_MS : NUDGE_MS
+      commit(e.key === 'ArrowLeft' ? -step : step)
+    } else if (e.key === 'Escape') {
+      setSelected(new Set())
+    } else if (e.key === 'a' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      setSelected(new Set(meld.events.map((_, index) => index)))
+    }
+  }
+
+  // While dragging, the selection is drawn where it would be dropped
+  const previewTime = (event: Event, index: number) =>
+    drag && selected.has(index) ? event.t + drag.deltaMs : event.t
+
+  const lanes = TIMELINE_LANES.filter((lane) => lane !== 'other' || meld.events.some((event) => timelineLane(event) === 'other'))
+  const peaks = waveform?.peaks ?? []
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">
+          {selected.size > 0 ? `${selected.size} selected. Drag or use ←/→ (Shift for 1s) to move.` : 'Click a marker to select it.'}
+        </span>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={snap} onChange={(e) => setSnap(e.target.checked)} disabled={boundaries.length === 0} />
+          Snap to words
+        </label>
+      </div>
+
+      <div className="flex">
+        <div className="w-24 shrink-0 text-xs text-gray-500">
+          <div className="h-16" />
+          {lanes.map((lane) => (
+            <div key={lane} className="h-6 flex items-center">{LANE_LABELS[lane]}</div>
+          ))}
+        </div>
+
+        <div
+          ref={trackRef}
+          tabIndex={0}
+          className="relative flex-1 select-none outline-none focus:ring-2 focus:ring-blue-300 rounded"
+          onKeyDown={handleKeyDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerDown={() => setSelected(new Set())}
+        >
+          <svg className="h-16 w-full bg-gray-50" viewBox={`0 0 ${Math.max(peaks.length, 1)} 100`} preserveAspectRatio="none">
+            <path
+              d={peaks.map((peak, i) => `M${i + 0.5} ${50 - peak * 48}V${50 + peak * 48}`).join('')}
+              className="stroke-gray-400"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+
+          {lanes.map((lane) => (
+            <div key={lane} className="relative h-6 border-t border-gray-100">
+              {meld.events.map((event, index) => timelineLane(event) === lane && (
+                <div
+                  key={eventKey(event, index)}
+                  title={`${formatTime(previewTime(event, index))} ${describeEvent(event)}${problems.has(index) ? `\n${problems.get(index)}` : ''}`}
+                  onPointerDown={(e) => handleMarkerPointerDown(e, index)}
+                  className={`absolute top-1 h-4 w-2 -ml-1 rounded-sm cursor-ew-resize ${
+                    problems.has(index) ? 'bg-red-600' : LANE_COLORS[lane]
+                  } ${selected.has(index) ? 'ring-2 ring-offset-1 ring-blue-700 z-10' : 'opacity-80'}`}
+                  style={{ left: percentAt(previewTime(event, index)) }}
+                />
+              ))}
+            </div>
+          ))}
+
+          <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" style={{ left: percentAt(currentTimeMs) }} />
+        </div>
+      </div>
+
+      {problems.size > 0 && (
+        <p className="text-xs text-red-600">
+          {problems.size} move{problems.size === 1 ? '' : 's'} out of order, shown in red.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
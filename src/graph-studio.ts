@@ -5,9 +5,13 @@ import type {
   Event,
   MoveEvent,
   EditEvent,
-  SequenceEvent
+  SequenceEvent,
+  LintResult,
+  PausePointEvent,
+  PrecomputedEval
 } from '@/lib/cmf'
 import type { GraphPath } from '@/lib/renderer-core'
+import type { Variant } from '@/lib/variants'
 import type { TextEvent } from '@/services/transcription'
 import type { AnnotationMode, AnnotationColor, AnnotationState, AnnotationEvent } from '@/lib/annotations'
 
@@ -24,19 +28,15 @@ export interface RecordingDefaults {
   legalPolicy: LegalPolicy // UI selection: Structured/Classroom/Free
 }
 
-export interface IntegrityWarning {
-  type: "bothKingsInCheck" | "twoDarkSquareBishops" | "invalidPosition" | "custom"
-  message: string
-  severity: "warning" | "error"
-  timestamp: number
-}
-
+// A paused recording is still recording: the audio stays open and resumes
+// where it stopped, and paused time is left out of event timestamps
 export interface RecordingState {
   isRecording: boolean
   isPaused: boolean
   startTime: number
   currentTime: number
   duration: number
+  pausedDuration: number
 }
 
 // Legacy MoveEvent for backward compatibility
@@ -65,6 +65,7 @@ export interface GraphStudioSession {
   title: string
   author: string
   startingFen: string
+  variant?: Variant // Standard chess when unset
   nodes: Record<string, PositionNode> // Key is FEN string
   rootNodeId: string // FEN string of root position
   currentNodeId: string // FEN string of current position
@@ -75,10 +76,10 @@ export interface GraphStudioSession {
   audioBlob?: Blob
   duration: number
   recordingDefaults?: RecordingDefaults
-  integrityWarnings?: IntegrityWarning[]
   // WhisperX data for rich transcript export
   whisperXData?: any // Full WhisperX response data
   transcriptUrl?: string // URL to the transcript file
+  precomputed?: PrecomputedEval[] // Engine evaluations baked in at export
 }
 
 export interface MetadataForm {
@@ -102,6 +103,7 @@ export interface GraphStudioContextType {
   currentPath: GraphPath
   annotationState: AnnotationState
   currentLegalPolicy: LegalPolicy
+  answeringPausePointId: string | null
   setCurrentStep: (step: StudioStep) => void
   setSession: (session: GraphStudioSession | null) => void
   setRecordingState: (state: RecordingState) => void
@@ -114,9 +116,8 @@ export interface GraphStudioContextType {
   updateNode: (fen: string, updates: Partial<PositionNode>) => void
   removeNode: (fen: string) => void
   
-  // Event system
-  addIntegrityWarning: (warning: IntegrityWarning) => void
-  clearIntegrityWarnings: () => void
+  // Integrity: runs lintMeld over the session as it would be exported
+  lintSession: () => LintResult
   
   // Navigation
   navigateToNode: (fen: string, timestamp?: number) => void
@@ -129,14 +130,34 @@ export interface GraphStudioContextType {
   
   // Session management
   setAudioBlob: (blob: Blob) => void
+  setPrecomputed: (precomputed: PrecomputedEval[]) => void
   setWhisperXData: (whisperXData: any, transcriptUrl?: string) => void
   addTextEvents: (textEvents: TextEvent[]) => void
   updateTextEvents: (textEvents: TextEvent[]) => void
   addAnnotationEvent: (event: any) => void
+
+  // Pause point quizzes: while answering, board moves are recorded as answers
+  addPausePoint: (timestamp: number, prompt?: string) => void
+  updatePausePoint: (id: string, updates: Partial<PausePointEvent>) => void
+  removePausePoint: (id: string) => void
+  setAnsweringPausePoint: (id: string | null) => void
   setAnnotationMode: (mode: AnnotationMode) => void
   setAnnotationColor: (color: AnnotationColor) => void
   exportCMF: () => ChessmeldMeldFormatCMFV001
   resetSession: () => void
+
+  // Undo/redo of graph edits; a timestamp records where the board ends up
+  undo: (timestamp?: number) => void
+  redo: (timestamp?: number) => void
+  canUndo: boolean
+  canRedo: boolean
+
+  // Re-recording a section [start, end) in ms: moves made meanwhile become
+  // the section's events, timed from its start
+  punchIn: { start: number; end: number } | null
+  startPunchIn: (start: number, end: number) => void
+  finishPunchIn: (durationMs: number, audioBlob: Blob) => void
+  cancelPunchIn: () => void
   
   // Graph analysis
   getCurrentNode: () => PositionNode | null
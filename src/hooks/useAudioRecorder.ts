@@ -39,7 +39,10 @@ export interface AudioRecorderState {
   error: string | null
 }
 
-export function useAudioRecorder(onRecordingStop?: (blob: Blob) => void) {
+// How often MediaRecorder hands over audio, so it can be saved as it's recorded
+const CHUNK_INTERVAL_MS = 1000
+
+export function useAudioRecorder(onRecordingStop?: (blob: Blob) => void, onAudioChunk?: (chunk: Blob) => void) {
   const [state, setState] = useState<AudioRecorderState>({
     isRecording: false,
     isPaused: false,
@@ -51,20 +54,36 @@ export function useAudioRecorder(onRecordingStop?: (blob: Blob) => void) {
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const audioChunksRef = useRef<Blob[]>([])
-  const startTimeRef = useRef<number>(0)
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null)
   
   // Use the unified recording store
   const { 
     startRecording: startGlobalRecording, 
     stopRecording: stopGlobalRecording, 
+    pauseRecording: pauseGlobalRecording,
+    resumeRecording: resumeGlobalRecording,
     reset: resetGlobalRecording,
     setError: setGlobalError,
     updateCurrentTime,
+    getElapsedTime,
     isRecording: globalIsRecording,
     currentTime: globalCurrentTime
   } = useRecordingStore()
 
+  // Ticks the recording time, which the store keeps free of paused time
+  const startDurationTimer = useCallback(() => {
+    durationIntervalRef.current = setInterval(() => {
+      const currentTime = getElapsedTime()
+      setState(prev => ({
+        ...prev,
+        duration: currentTime,
+        currentTime: currentTime,
+      }))
+      // Update global state
+      updateCurrentTime(currentTime)
+    }, 100)
+  }, [getElapsedTime, updateCurrentTime])
+
   const startRecording = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
@@ -82,7 +101,6 @@ export function useAudioRecorder(onRecordingStop?: (blob: Blob) => void) {
       const mediaRecorder = new MediaRecorder(stream, { mimeType })
       mediaRecorderRef.current = mediaRecorder
       audioChunksRef.current = []
-      startTimeRef.current = Date.now()
 
       // Start the global recording timer
       startGlobalRecording()
@@ -90,6 +108,7 @@ export function useAudioRecorder(onRecordingStop?: (blob: Blob) => void) {
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data)
+          onAudioChunk?.(event.data)
         }
       }
 
@@ -118,19 +137,10 @@ export function useAudioRecorder(onRecordingStop?: (blob: Blob) => void) {
         stream.getTracks().forEach(track => track.stop())
       }
 
-      mediaRecorder.start()
+      mediaRecorder.start(CHUNK_INTERVAL_MS)
       
       // Start duration timer that updates both local and global state
-      durationIntervalRef.current = setInterval(() => {
-        const currentTime = Date.now() - startTimeRef.current
-        setState(prev => ({
-          ...prev,
-          duration: currentTime,
-          currentTime: currentTime,
-        }))
-        // Update global state
-        updateCurrentTime(currentTime)
-      }, 100)
+      startDurationTimer()
 
       setState(prev => ({
         ...prev,
@@ -146,7 +156,7 @@ export function useAudioRecorder(onRecordingStop?: (blob: Blob) => void) {
       }))
       setGlobalError(errorMessage)
     }
-  }, [startGlobalRecording, stopGlobalRecording, updateCurrentTime, setGlobalError, state.duration])
+  }, [startGlobalRecording, stopGlobalRecording, startDurationTimer, setGlobalError, state.duration, onAudioChunk])
 
   const pauseRecording = useCallback(() => {
     if (mediaRecorderRef.current && state.isRecording && !state.isPaused) {
@@ -156,34 +166,35 @@ export function useAudioRecorder(onRecordingStop?: (blob: Blob) => void) {
         clearInterval(durationIntervalRef.current)
       }
       
+      // Stop the clock where the audio stops, so events made while paused
+      // land at the pause
+      pauseGlobalRecording()
+      const currentTime = getElapsedTime()
+      updateCurrentTime(currentTime)
+      
       setState(prev => ({
         ...prev,
         isPaused: true,
+        duration: currentTime,
+        currentTime: currentTime,
       }))
     }
-  }, [state.isRecording, state.isPaused])
+  }, [state.isRecording, state.isPaused, pauseGlobalRecording, getElapsedTime, updateCurrentTime])
 
   const resumeRecording = useCallback(() => {
     if (mediaRecorderRef.current && state.isRecording && state.isPaused) {
       mediaRecorderRef.current.resume()
-      startTimeRef.current = Date.now() - state.duration
+      resumeGlobalRecording()
       
       // Resume duration timer
-      durationIntervalRef.current = setInterval(() => {
-        const currentTime = Date.now() - startTimeRef.current
-        setState(prev => ({
-          ...prev,
-          duration: currentTime,
-          currentTime: currentTime,
-        }))
-      }, 100)
+      startDurationTimer()
       
       setState(prev => ({
         ...prev,
         isPaused: false,
       }))
     }
-  }, [state.isRecording, state.isPaused, state.duration])
+  }, [state.isRecording, state.isPaused, resumeGlobalRecording, startDurationTimer])
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && state.isRecording) {
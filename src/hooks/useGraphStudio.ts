@@ -1,12 +1,18 @@
 import { useReducer, useCallback, useMemo } from 'react'
-import { Chess } from 'chess.js'
 import { v4 as uuidv4 } from 'uuid'
 import type { 
   ChessmeldMeldFormatCMFV001, 
   PositionNode, 
   ChildReference, 
-  Event
+  Event,
+  LintResult,
+  NavigateEvent,
+  PausePointEvent,
+  PrecomputedEval
 } from '@/lib/cmf'
+import { isPlayableAnswer, lintMeld, spliceEventRange, withEventIds } from '@/lib/cmf'
+import { applyMove, joinableNode, positionKey, type Variant } from '@/lib/variants'
+import { openingOf } from '@/lib/openings'
 import type { GraphPath } from '@/lib/renderer-core'
 import type { 
   GraphStudioSession, 
@@ -21,7 +27,6 @@ import type {
   AnnotationEvent,
   LegalPolicy,
   CMFEvent,
-  IntegrityWarning,
   RecordingDefaults
 } from '@/types/graph-studio'
 import type { TextEvent } from '@/services/transcription'
@@ -30,16 +35,37 @@ import type { TextEvent } from '@/services/transcription'
 // STATE MANAGEMENT: Reducer Pattern
 // ============================================================================
 
-interface GraphStudioState {
+export interface GraphStudioState {
   currentStep: 'setup' | 'recording' | 'review' | 'export'
   session: GraphStudioSession | null
   recordingState: RecordingState
   metadata: MetadataForm
   annotationState: AnnotationState
   currentLegalPolicy: LegalPolicy
+  // While set, moves on the board are recorded as answers to this pause point
+  answeringPausePointId: string | null
+  history: SessionHistory
+  punchIn: PunchIn | null
 }
 
-type GraphStudioAction =
+// A section of the recording, [start, end) in ms, being recorded again. The
+// session's events wait in baseEvents while the new take records its own.
+export interface PunchIn {
+  start: number
+  end: number
+  baseEvents: Event[]
+}
+
+// The parts of a session that undo and redo bring back
+type SessionSnapshot = Pick<GraphStudioSession, 'nodes' | 'events' | 'currentNodeId' | 'currentPath'>
+
+// Snapshots before (past) and after (future) the current session, most recent last
+interface SessionHistory {
+  past: SessionSnapshot[]
+  future: SessionSnapshot[]
+}
+
+export type GraphStudioAction =
   | { type: 'SET_STEP'; step: GraphStudioState['currentStep'] }
   | { type: 'INIT_SESSION'; session: GraphStudioSession }
   | { type: 'ADD_MOVE'; move: LegacyMoveEvent; parentFen: string }
@@ -52,16 +78,25 @@ type GraphStudioAction =
   | { type: 'SET_METADATA'; metadata: Partial<MetadataForm> }
   | { type: 'SET_ANNOTATION_STATE'; state: Partial<AnnotationState> }
   | { type: 'SET_LEGAL_POLICY'; policy: LegalPolicy }
-  | { type: 'ADD_INTEGRITY_WARNING'; warning: IntegrityWarning }
-  | { type: 'CLEAR_INTEGRITY_WARNINGS' }
   | { type: 'ADD_TEXT_EVENTS'; textEvents: TextEvent[] }
   | { type: 'UPDATE_TEXT_EVENTS'; textEvents: TextEvent[] }
   | { type: 'SET_AUDIO_BLOB'; blob: Blob }
+  | { type: 'SET_PRECOMPUTED'; precomputed: PrecomputedEval[] }
   | { type: 'ADD_ANNOTATION_EVENT'; event: any }
+  | { type: 'ADD_PAUSE_POINT'; event: PausePointEvent }
+  | { type: 'UPDATE_PAUSE_POINT'; id: string; updates: Partial<PausePointEvent> }
+  | { type: 'REMOVE_PAUSE_POINT'; id: string }
+  | { type: 'SET_ANSWERING_PAUSE_POINT'; id: string | null }
+  | { type: 'ADD_PAUSE_POINT_ANSWER'; id: string; san: string }
   | { type: 'SET_WHISPERX_DATA'; whisperXData: any; transcriptUrl?: string }
   | { type: 'RESET_SESSION' }
+  | { type: 'START_PUNCH_IN'; start: number; end: number }
+  | { type: 'FINISH_PUNCH_IN'; durationMs: number; audioBlob: Blob }
+  | { type: 'CANCEL_PUNCH_IN' }
+  | { type: 'UNDO'; timestamp?: number }
+  | { type: 'REDO'; timestamp?: number }
 
-const initialState: GraphStudioState = {
+export const initialState: GraphStudioState = {
   currentStep: 'setup',
   session: null,
   recordingState: {
@@ -70,6 +105,7 @@ const initialState: GraphStudioState = {
     startTime: 0,
     currentTime: 0,
     duration: 0,
+    pausedDuration: 0,
   },
   metadata: {
     title: '',
@@ -86,6 +122,9 @@ const initialState: GraphStudioState = {
     dragStartSquare: null,
   },
   currentLegalPolicy: 'strict',
+  answeringPausePointId: null,
+  history: { past: [], future: [] },
+  punchIn: null,
 }
 
 function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction): GraphStudioState {
@@ -94,14 +133,23 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
       return { ...state, currentStep: action.step }
 
     case 'INIT_SESSION':
-      return { ...state, session: action.session }
+      return { ...state, session: action.session, history: { past: [], future: [] } }
 
     case 'ADD_MOVE':
     case 'ADD_VARIATION': {
       if (!state.session) return state
 
       const { move, parentFen } = action
-      
+      const variant = state.session.variant || 'standard'
+
+      // A position reached by another move order (a transposition) joins the
+      // existing node instead of creating a new one, unless that node leads
+      // back to the parent (a repetition)
+      const key = positionKey(move.fen, variant)
+      const index = positionIndexOf(state.session.nodes, variant)
+      const nodeFen = joinableNode(state.session.nodes, index.get(key) || [], parentFen) ?? move.fen
+      const existingNode: PositionNode | undefined = state.session.nodes[nodeFen]
+
       // Create new child node
       // Calculate the correct move number based on half-moves
       const parentNode = state.session.nodes[parentFen]
@@ -109,17 +157,26 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
       const childHalfMoves = parentHalfMoves + 1
       const childMoveNumber = Math.floor(childHalfMoves / 2) + 1
       
-      const childNode: PositionNode = {
-        fen: move.fen,
-        children: [],
-        parents: [{ fen: parentFen, move: move.san }],
-        moveNumber: childHalfMoves // Store half-moves for internal calculation
-      }
+      // New positions are named after their opening, or keep the opening
+      // they were reached from
+      const opening = openingOf(nodeFen, variant) ?? parentNode?.opening
+      const isKnownParent = existingNode?.parents?.some((p) => p.fen === parentFen && p.move === move.san)
+      const childNode: PositionNode = existingNode
+        ? isKnownParent
+          ? existingNode
+          : { ...existingNode, parents: [...(existingNode.parents || []), { fen: parentFen, move: move.san }] }
+        : {
+            fen: nodeFen,
+            children: [],
+            parents: [{ fen: parentFen, move: move.san }],
+            moveNumber: childHalfMoves, // Store half-moves for internal calculation
+            ...(opening && { opening })
+          }
 
       // Create child reference
       const childRef: ChildReference = {
         move: move.san,
-        fen: move.fen,
+        fen: nodeFen,
         comment: move.comment
       }
 
@@ -127,23 +184,21 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
       // Parse the move to get from/to squares
       let from = '', to = '', promo: 'q' | 'r' | 'b' | 'n' | undefined = undefined
       try {
-        const chess = new Chess(parentFen)
-        const moveObj = chess.move(move.san)
-        if (moveObj) {
-          from = moveObj.from
-          to = moveObj.to
-          if (moveObj.promotion) {
-            promo = moveObj.promotion as 'q' | 'r' | 'b' | 'n'
-          }
+        const moveObj = applyMove(parentFen, move.san, variant)
+        from = moveObj.from
+        to = moveObj.to
+        if (moveObj.promotion) {
+          promo = moveObj.promotion as 'q' | 'r' | 'b' | 'n'
         }
       } catch (error) {
         console.warn('Failed to parse move for CMF export:', move.san, error)
       }
 
       const moveEvent: any = {
+        id: uuidv4(),
         t: move.timestamp,
         type: 'move',
-        nodeId: move.fen, // Reference to the node this move creates
+        nodeId: nodeFen, // Reference to the node this move creates
         san: move.san,
         comment: move.comment,
         // Add required CMF MoveEvent fields
@@ -152,27 +207,35 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
         promo,
         legalPolicy: 'strict', // Default legal policy
         color: move.color,
-        fen: move.fen
+        fen: nodeFen
       }
 
+      // Playing a move that is already in the graph only adds its event
+      const siblings: ChildReference[] = state.session.nodes[parentFen].children || []
+      const isKnownChild = siblings.some((c) => c.fen === nodeFen && c.move === move.san)
+
       // Update session
       const updatedSession: GraphStudioSession = {
         ...state.session,
-        currentNodeId: move.fen, // Navigate to new node
+        currentNodeId: nodeFen, // Navigate to new node
         currentPath: {
-          nodeIds: [...(state.session.currentPath?.nodeIds || []), move.fen],
+          nodeIds: [...(state.session.currentPath?.nodeIds || []), nodeFen],
           moves: [...(state.session.currentPath?.moves || []), move.san]
         },
         nodes: {
           ...state.session.nodes,
           [parentFen]: {
             ...state.session.nodes[parentFen],
-            children: [...(state.session.nodes[parentFen].children || []), childRef]
+            children: isKnownChild ? siblings : [...siblings, childRef]
           },
-          [move.fen]: childNode
+          [nodeFen]: childNode
         },
         events: [...(state.session.events || []), moveEvent]
       }
+      positionIndexes.set(
+        updatedSession.nodes,
+        existingNode ? index : new Map(index).set(key, [...(index.get(key) || []), nodeFen])
+      )
 
       return { ...state, session: updatedSession }
     }
@@ -186,6 +249,7 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
       let newEvents = state.session.events
       if (action.timestamp !== undefined) {
         const navigateEvent: any = {
+          id: uuidv4(),
           t: action.timestamp,
           type: 'navigate',
           fen: action.fen,
@@ -229,6 +293,7 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
       let newEvents = state.session.events
       if (action.timestamp !== undefined) {
         const navigateEvent: any = {
+          id: uuidv4(),
           t: action.timestamp,
           type: 'navigate',
           fen: targetFen,
@@ -331,72 +396,119 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
       }
 
 
-    case 'ADD_INTEGRITY_WARNING': {
+    case 'ADD_TEXT_EVENTS': {
       if (!state.session) return state
 
+      // Convert text events to CMF format and add to main events array
+      const cmfTextEvents = action.textEvents.map(textEvent => ({
+        id: uuidv4(),
+        t: textEvent.t,
+        type: 'text' as const,
+        text: textEvent.text,
+        // Add FEN of current position
+        fen: state.session!.nodes[state.session!.currentNodeId]?.fen || state.session!.startingFen
+      }))
+
       return {
         ...state,
         session: {
           ...state.session,
-          integrityWarnings: [...(state.session.integrityWarnings || []), action.warning]
+          textEvents: [...(state.session.textEvents || []), ...action.textEvents],
+          events: [...(state.session.events || []), ...cmfTextEvents]
         }
       }
     }
 
-    case 'CLEAR_INTEGRITY_WARNINGS': {
+    case 'UPDATE_TEXT_EVENTS': {
       if (!state.session) return state
 
       return {
         ...state,
         session: {
           ...state.session,
-          integrityWarnings: []
+          textEvents: action.textEvents
         }
       }
     }
 
-    case 'ADD_TEXT_EVENTS': {
+    case 'ADD_ANNOTATION_EVENT': {
       if (!state.session) return state
 
-      // Convert text events to CMF format and add to main events array
-      const cmfTextEvents = action.textEvents.map(textEvent => ({
-        t: textEvent.t,
-        type: 'text' as const,
-        text: textEvent.text,
-        // Add FEN of current position
-        fen: state.session!.nodes[state.session!.currentNodeId]?.fen || state.session!.startingFen
-      }))
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          events: [...(state.session.events || []), { id: uuidv4(), ...action.event }]
+        }
+      }
+    }
+
+    case 'ADD_PAUSE_POINT': {
+      if (!state.session) return state
 
       return {
         ...state,
         session: {
           ...state.session,
-          textEvents: [...(state.session.textEvents || []), ...action.textEvents],
-          events: [...(state.session.events || []), ...cmfTextEvents]
+          events: [...(state.session.events || []), action.event]
         }
       }
     }
 
-    case 'UPDATE_TEXT_EVENTS': {
+    case 'UPDATE_PAUSE_POINT': {
       if (!state.session) return state
 
       return {
         ...state,
         session: {
           ...state.session,
-          textEvents: action.textEvents
+          events: state.session.events.map((event: Event) =>
+            event.type === 'pausepoint' && event.id === action.id ? { ...event, ...action.updates } : event
+          )
         }
       }
     }
 
-    case 'ADD_ANNOTATION_EVENT': {
+    case 'REMOVE_PAUSE_POINT': {
       if (!state.session) return state
 
       return {
         ...state,
+        answeringPausePointId: state.answeringPausePointId === action.id ? null : state.answeringPausePointId,
         session: {
           ...state.session,
-          events: [...(state.session.events || []), action.event]
+          events: state.session.events.filter((event: Event) => !(event.type === 'pausepoint' && event.id === action.id))
+        }
+      }
+    }
+
+    case 'SET_ANSWERING_PAUSE_POINT':
+      return { ...state, answeringPausePointId: action.id }
+
+    case 'ADD_PAUSE_POINT_ANSWER': {
+      if (!state.session) return state
+
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          events: state.session.events.map((event: Event) => {
+            if (event.type !== 'pausepoint' || event.id !== action.id) return event
+            const answers = event.answers || []
+            if (answers.some(answer => answer.move === action.san)) return event
+            try {
+              const move = applyMove(event.fen, action.san, state.session!.variant || 'standard')
+              if (!isPlayableAnswer(move)) {
+                console.warn('Answers that underpromote cannot be played on the board:', action.san)
+                return event
+              }
+            } catch {
+              console.warn('Answer is not legal at the pause point:', action.san)
+              return event
+            }
+            // The first answer recorded is the best; later ones are alternatives for partial credit
+            return { ...event, answers: [...answers, answers.length === 0 ? { move: action.san } : { move: action.san, credit: 0.5 }] }
+          })
         }
       }
     }
@@ -413,6 +525,18 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
       }
     }
 
+    case 'SET_PRECOMPUTED': {
+      if (!state.session) return state
+
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          precomputed: action.precomputed
+        }
+      }
+    }
+
     case 'SET_WHISPERX_DATA': {
       if (!state.session) return state
 
@@ -426,6 +550,69 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
       }
     }
 
+    case 'START_PUNCH_IN': {
+      if (!state.session || state.punchIn) return state
+
+      // The new take starts from the board as it was at the start of the section
+      const baseEvents: Event[] = state.session.events || []
+      const fen = positionAtTime(state.session, baseEvents, action.start)
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          currentNodeId: fen,
+          currentPath: reconstructPathToNode(state.session, fen),
+          events: []
+        },
+        punchIn: { start: action.start, end: action.end, baseEvents },
+        history: { past: [], future: [] }
+      }
+    }
+
+    case 'FINISH_PUNCH_IN': {
+      if (!state.session || !state.punchIn) return state
+
+      const { start, end, baseEvents } = state.punchIn
+      const take: Event[] = [...(state.session.events || [])]
+
+      // Later events carry on from the board as it was at the end of the
+      // section, so go back there if the new take left it somewhere else
+      const resumeFen = positionAtTime(state.session, baseEvents, end)
+      const takeFen = positionAtTime(state.session, take, Infinity, positionAtTime(state.session, baseEvents, start))
+      if (takeFen !== resumeFen && baseEvents.some((event) => event.t >= end)) {
+        take.push({
+          id: uuidv4(),
+          t: action.durationMs,
+          type: 'navigate',
+          fen: resumeFen,
+          navigationType: 'to_node',
+          comment: 'Navigate to node'
+        })
+      }
+
+      const delta = action.durationMs - (end - start)
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          events: spliceEventRange(baseEvents, take, start, end, action.durationMs),
+          audioBlob: action.audioBlob,
+          duration: state.session.duration ? Math.max(0, state.session.duration + delta) : state.session.duration
+        },
+        punchIn: null,
+        history: { past: [], future: [] }
+      }
+    }
+
+    case 'CANCEL_PUNCH_IN':
+      if (!state.session || !state.punchIn) return state
+      return {
+        ...state,
+        session: { ...state.session, events: state.punchIn.baseEvents },
+        punchIn: null,
+        history: { past: [], future: [] }
+      }
+
     case 'RESET_SESSION':
       return initialState
 
@@ -434,12 +621,106 @@ function graphStudioReducer(state: GraphStudioState, action: GraphStudioAction):
   }
 }
 
+// ============================================================================
+// UNDO/REDO: Graph snapshots around edits
+// ============================================================================
+
+// Edits to the graph and its events; navigation, recording state and data
+// filled in by tools (transcripts, precomputed evaluations) are not undone
+const UNDOABLE_ACTIONS = new Set<GraphStudioAction['type']>([
+  'ADD_MOVE',
+  'ADD_VARIATION',
+  'UPDATE_NODE',
+  'REMOVE_NODE',
+  'ADD_ANNOTATION_EVENT',
+  'ADD_PAUSE_POINT',
+  'UPDATE_PAUSE_POINT',
+  'REMOVE_PAUSE_POINT',
+  'ADD_PAUSE_POINT_ANSWER',
+])
+
+const MAX_HISTORY = 100
+
+function snapshotOf(session: GraphStudioSession): SessionSnapshot {
+  const { nodes, events, currentNodeId, currentPath } = session
+  return { nodes, events, currentNodeId, currentPath }
+}
+
+/**
+ * Moves the session to a snapshot from the history. Everything else in the
+ * session (audio, transcript, evaluations) stays as it is, and so do navigate
+ * and text events recorded since, as long as their position is still in the
+ * graph. While recording, the timeline keeps running with the audio, so a
+ * timestamp adds a navigate event to the restored position: playback then
+ * shows the board going back (or forward) at the moment the author undid,
+ * instead of jumping there silently.
+ */
+function restoreSession(session: GraphStudioSession, snapshot: SessionSnapshot, timestamp?: number): GraphStudioSession {
+  const snapshotIds = new Set(snapshot.events.map((event: Event) => event.id))
+  const carried = (session.events || []).filter((event: Event) =>
+    (event.type === 'navigate' || event.type === 'text') && !snapshotIds.has(event.id) && snapshot.nodes[event.fen]
+  )
+  const events = carried.length > 0
+    ? [...snapshot.events, ...carried].sort((a: Event, b: Event) => a.t - b.t)
+    : snapshot.events
+  const restored: GraphStudioSession = { ...session, ...snapshot, events }
+  if (timestamp === undefined || !restored.nodes[restored.currentNodeId]) return restored
+
+  const navigateEvent: NavigateEvent = {
+    id: uuidv4(),
+    t: timestamp,
+    type: 'navigate',
+    fen: restored.currentNodeId,
+    navigationType: 'to_node',
+    comment: 'Navigate to node'
+  }
+  return { ...restored, events: [...restored.events, navigateEvent] }
+}
+
+/**
+ * The studio reducer with undo and redo. Each undoable action that changes
+ * the session saves a snapshot of its graph and events before it; a new edit
+ * clears the redo stack.
+ */
+export function undoableGraphStudioReducer(state: GraphStudioState, action: GraphStudioAction): GraphStudioState {
+  const { past, future } = state.history
+
+  switch (action.type) {
+    case 'UNDO': {
+      if (!state.session || past.length === 0) return state
+      return {
+        ...state,
+        session: restoreSession(state.session, past[past.length - 1], action.timestamp),
+        history: { past: past.slice(0, -1), future: [...future, snapshotOf(state.session)] },
+      }
+    }
+
+    case 'REDO': {
+      if (!state.session || future.length === 0) return state
+      return {
+        ...state,
+        session: restoreSession(state.session, future[future.length - 1], action.timestamp),
+        history: { past: [...past, snapshotOf(state.session)], future: future.slice(0, -1) },
+      }
+    }
+
+    default: {
+      const next = graphStudioReducer(state, action)
+      if (!UNDOABLE_ACTIONS.has(action.type) || !state.session || next.session === state.session) return next
+      return {
+        ...next,
+        history: { past: [...past, snapshotOf(state.session)].slice(-MAX_HISTORY), future: [] },
+      }
+    }
+  }
+}
+
 // ============================================================================
 // HOOK IMPLEMENTATION: Clean & Predictable
 // ============================================================================
 
 export function useGraphStudio(): GraphStudioContextType {
-  const [state, dispatch] = useReducer(graphStudioReducer, initialState)
+  const [state, dispatch] = useReducer(undoableGraphStudioReducer, initialState)
 
   // ============================================================================
   // COMPUTED VALUES: Derived from state
@@ -477,6 +758,12 @@ export function useGraphStudio(): GraphStudioContextType {
       return
     }
 
+    // Moves played while answering a pause point become its answers, not part of the graph
+    if (state.answeringPausePointId) {
+      dispatch({ type: 'ADD_PAUSE_POINT_ANSWER', id: state.answeringPausePointId, san: move.san })
+      return
+    }
+
     // Check if move already exists
     const existingChild = currentNode.children?.find(child => child.move === move.san)
     if (existingChild) {
@@ -485,7 +772,7 @@ export function useGraphStudio(): GraphStudioContextType {
     }
 
     dispatch({ type: 'ADD_MOVE', move, parentFen: currentNode.fen })
-  }, [getCurrentNode])
+  }, [getCurrentNode, state.answeringPausePointId])
 
   const addVariation = useCallback((move: LegacyMoveEvent) => {
     const currentNode = getCurrentNode()
@@ -541,16 +828,29 @@ export function useGraphStudio(): GraphStudioContextType {
   }, [])
 
 
-  const addIntegrityWarning = useCallback((warning: IntegrityWarning) => {
-    dispatch({ type: 'ADD_INTEGRITY_WARNING', warning })
+  const resetSession = useCallback(() => {
+    dispatch({ type: 'RESET_SESSION' })
   }, [])
 
-  const clearIntegrityWarnings = useCallback(() => {
-    dispatch({ type: 'CLEAR_INTEGRITY_WARNINGS' })
+  // Pass the recording time while recording, to record where undo leaves the board
+  const undo = useCallback((timestamp?: number) => {
+    dispatch({ type: 'UNDO', timestamp })
   }, [])
 
-  const resetSession = useCallback(() => {
-    dispatch({ type: 'RESET_SESSION' })
+  const redo = useCallback((timestamp?: number) => {
+    dispatch({ type: 'REDO', timestamp })
+  }, [])
+
+  const startPunchIn = useCallback((start: number, end: number) => {
+    dispatch({ type: 'START_PUNCH_IN', start, end })
+  }, [])
+
+  const finishPunchIn = useCallback((durationMs: number, audioBlob: Blob) => {
+    dispatch({ type: 'FINISH_PUNCH_IN', durationMs, audioBlob })
+  }, [])
+
+  const cancelPunchIn = useCallback(() => {
+    dispatch({ type: 'CANCEL_PUNCH_IN' })
   }, [])
 
   // ============================================================================
@@ -584,6 +884,38 @@ export function useGraphStudio(): GraphStudioContextType {
     dispatch({ type: 'ADD_ANNOTATION_EVENT', event: cmfEvent })
   }, [getCurrentNode])
 
+  // ============================================================================
+  // PAUSE POINTS: Quizzes the student answers by playing a move
+  // ============================================================================
+
+  const addPausePoint = useCallback((timestamp: number, prompt?: string) => {
+    const currentNode = getCurrentNode()
+    if (!currentNode) return
+
+    const event: PausePointEvent = {
+      id: uuidv4(),
+      t: timestamp,
+      type: 'pausepoint',
+      fen: currentNode.fen,
+      ...(prompt && { prompt })
+    }
+    dispatch({ type: 'ADD_PAUSE_POINT', event })
+    // Record the answer straight away by playing it on the board
+    dispatch({ type: 'SET_ANSWERING_PAUSE_POINT', id: event.id })
+  }, [getCurrentNode])
+
+  const updatePausePoint = useCallback((id: string, updates: Partial<PausePointEvent>) => {
+    dispatch({ type: 'UPDATE_PAUSE_POINT', id, updates })
+  }, [])
+
+  const removePausePoint = useCallback((id: string) => {
+    dispatch({ type: 'REMOVE_PAUSE_POINT', id })
+  }, [])
+
+  const setAnsweringPausePoint = useCallback((id: string | null) => {
+    dispatch({ type: 'SET_ANSWERING_PAUSE_POINT', id })
+  }, [])
+
   // ============================================================================
   // AUDIO BLOB: Complete implementation
   // ============================================================================
@@ -592,6 +924,10 @@ export function useGraphStudio(): GraphStudioContextType {
     dispatch({ type: 'SET_AUDIO_BLOB', blob })
   }, [])
 
+  const setPrecomputed = useCallback((precomputed: PrecomputedEval[]) => {
+    dispatch({ type: 'SET_PRECOMPUTED', precomputed })
+  }, [])
+
   const setWhisperXData = useCallback((whisperXData: any, transcriptUrl?: string) => {
     dispatch({ type: 'SET_WHISPERX_DATA', whisperXData, transcriptUrl })
   }, [])
@@ -724,6 +1060,7 @@ export function useGraphStudio(): GraphStudioContextType {
         author: state.metadata.author || state.session.author,
         createdAt: now,
         startingFen: state.session.startingFen,
+        variant: state.session.variant,
         durationMs: duration,
         tags: state.metadata.tags,
         engineHints: state.metadata.engineHints,
@@ -731,12 +1068,20 @@ export function useGraphStudio(): GraphStudioContextType {
       },
       rootNodeId: state.session.rootNodeId,
       nodes: state.session.nodes,
-      events: state.session.events || [],
+      // Events from sessions recorded before ids get one on export
+      events: withEventIds(state.session.events || [], () => uuidv4()),
       overlays: {},
-      precomputed: [],
+      precomputed: state.session.precomputed || [],
     }
   }, [state.session, state.metadata])
 
+  const lintSession = useCallback((): LintResult => {
+    if (!state.session) {
+      return { findings: [], errorCount: 0, warningCount: 0 }
+    }
+    return lintMeld(exportCMF())
+  }, [state.session, exportCMF])
+
   // ============================================================================
   // RETURN: Clean interface
   // ============================================================================
@@ -750,6 +1095,7 @@ export function useGraphStudio(): GraphStudioContextType {
     currentPath,
     annotationState: state.annotationState,
     currentLegalPolicy: state.currentLegalPolicy,
+    answeringPausePointId: state.answeringPausePointId,
     setCurrentStep,
     setSession,
     setRecordingState,
@@ -759,8 +1105,7 @@ export function useGraphStudio(): GraphStudioContextType {
     addVariation,
     updateNode,
     removeNode,
-    addIntegrityWarning,
-    clearIntegrityWarnings,
+    lintSession,
     navigateToNode,
     navigateToMoveIndex,
     navigateToPath,
@@ -769,14 +1114,27 @@ export function useGraphStudio(): GraphStudioContextType {
     goToStart,
     goToLatest,
     setAudioBlob,
+    setPrecomputed,
     setWhisperXData,
     addTextEvents,
     updateTextEvents,
     addAnnotationEvent,
+    addPausePoint,
+    updatePausePoint,
+    removePausePoint,
+    setAnsweringPausePoint,
     setAnnotationMode,
     setAnnotationColor,
     exportCMF,
     resetSession,
+    undo,
+    redo,
+    canUndo: state.history.past.length > 0,
+    canRedo: state.history.future.length > 0,
+    punchIn: state.punchIn,
+    startPunchIn,
+    finishPunchIn,
+    cancelPunchIn,
     getCurrentNode,
     getVariations,
     getAllPaths,
@@ -787,6 +1145,36 @@ export function useGraphStudio(): GraphStudioContextType {
 // HELPER FUNCTIONS: Pure, testable
 // ============================================================================
 
+/**
+ * The node the board was on just before a time: where the last move or
+ * navigate event before it left the board, else `fallbackFen`
+ */
+function positionAtTime(session: GraphStudioSession, events: Event[], t: number, fallbackFen: string = session.rootNodeId): string {
+  let fen = fallbackFen
+  for (const event of [...events].sort((a, b) => a.t - b.t)) {
+    if (event.t >= t) break
+    if ((event.type === 'move' || event.type === 'navigate') && session.nodes[event.fen]) fen = event.fen
+  }
+  return fen
+}
+
+// Node ids by positionKey for each nodes object the reducer has seen, so a
+// move doesn't build a board for every node to find its transpositions
+const positionIndexes = new WeakMap<Record<string, PositionNode>, Map<string, string[]>>()
+
+function positionIndexOf(nodes: Record<string, PositionNode>, variant: Variant): Map<string, string[]> {
+  let index = positionIndexes.get(nodes)
+  if (!index) {
+    index = new Map()
+    for (const id of Object.keys(nodes)) {
+      const key = positionKey(id, variant)
+      index.set(key, [...(index.get(key) || []), id])
+    }
+    positionIndexes.set(nodes, index)
+  }
+  return index
+}
+
 function reconstructPathToNode(session: GraphStudioSession, targetFen: string): GraphPath {
   const path: GraphPath = { nodeIds: [], moves: [] }
   
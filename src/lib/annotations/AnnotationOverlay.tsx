@@ -0,0 +1,110 @@
+import { useId } from 'react'
+import type { OverlayArrow, SquareMark } from './types'
+
+interface AnnotationOverlayProps {
+  arrows: OverlayArrow[]
+  marks: SquareMark[]
+}
+
+// Gap left between an arrow's head and the centre of its target square
+const ARROW_HEAD_GAP = 0.3
+
+function DashedArrow({ arrow }: { arrow: OverlayArrow }) {
+  const dx = arrow.to.x - arrow.from.x
+  const dy = arrow.to.y - arrow.from.y
+  const length = Math.hypot(dx, dy)
+  const end = {
+    x: arrow.to.x - (dx / length) * ARROW_HEAD_GAP,
+    y: arrow.to.y - (dy / length) * ARROW_HEAD_GAP
+  }
+  // Unique per arrow across the page, so that with two boards each arrow finds
+  // its own marker. useId's punctuation is dropped to keep url(#...) plain.
+  const markerId = `annotation-arrow-head-${useId().replace(/[^A-Za-z0-9_-]/g, '')}`
+
+  return (
+    <g>
+      <defs>
+        <marker id={markerId} markerWidth="4" markerHeight="4" refX="1" refY="2" orient="auto" markerUnits="strokeWidth">
+          <path d="M0,0 L4,2 L0,4 z" fill={arrow.color} />
+        </marker>
+      </defs>
+      <line
+        x1={arrow.from.x}
+        y1={arrow.from.y}
+        x2={end.x}
+        y2={end.y}
+        stroke={arrow.color}
+        strokeWidth={0.15}
+        strokeDasharray="0.25 0.15"
+        markerEnd={`url(#${markerId})`}
+      />
+    </g>
+  )
+}
+
+function ArrowNumber({ arrow }: { arrow: OverlayArrow }) {
+  // Halfway along the arrow, where it is least likely to cover a piece
+  const x = (arrow.from.x + arrow.to.x) / 2
+  const y = (arrow.from.y + arrow.to.y) / 2
+
+  return (
+    <g>
+      <circle cx={x} cy={y} r={0.22} fill={arrow.color} stroke="white" strokeWidth={0.04} />
+      <text x={x} y={y} fill="white" fontSize={0.28} fontWeight="bold" textAnchor="middle" dominantBaseline="central">
+        {arrow.number}
+      </text>
+    </g>
+  )
+}
+
+function Mark({ mark }: { mark: SquareMark }) {
+  if (mark.kind === 'glyph') {
+    // Glyphs sit in the top-right corner of the square, like on most sites
+    const cx = mark.x + 0.82
+    const cy = mark.y + 0.18
+    return (
+      <g>
+        <circle cx={cx} cy={cy} r={0.2} fill={mark.color} stroke="white" strokeWidth={0.03} />
+        <text x={cx} y={cy} fill="white" fontSize={0.22} fontWeight="bold" textAnchor="middle" dominantBaseline="central">
+          {mark.text}
+        </text>
+      </g>
+    )
+  }
+
+  return (
+    <text
+      x={mark.x + 0.5}
+      y={mark.y + 0.5}
+      fill={mark.color}
+      stroke="white"
+      strokeWidth={0.03}
+      fontSize={mark.text.length > 1 ? 0.4 : 0.55}
+      fontWeight="bold"
+      textAnchor="middle"
+      dominantBaseline="central"
+    >
+      {mark.text}
+    </text>
+  )
+}
+
+/**
+ * Draws the annotations react-chessboard cannot - dashed arrows, arrow numbers,
+ * glyphs and labels - over a board. Place it in a relatively positioned
+ * container with the same size as the board.
+ */
+export function AnnotationOverlay({ arrows, marks }: AnnotationOverlayProps) {
+  if (arrows.length === 0 && marks.length === 0) return null
+
+  return (
+    <svg
+      viewBox="0 0 8 8"
+      style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none', zIndex: 10 }}
+    >
+      {arrows.map((arrow, index) => arrow.dashed && <DashedArrow key={`arrow-${index}`} arrow={arrow} />)}
+      {arrows.map((arrow, index) => arrow.number !== undefined && <ArrowNumber key={`number-${index}`} arrow={arrow} />)}
+      {marks.map((mark, index) => <Mark key={`${mark.kind}-${mark.square}-${index}`} mark={mark} />)}
+    </svg>
+  )
+}
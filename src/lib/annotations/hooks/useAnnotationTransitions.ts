@@ -0,0 +1,121 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import type { Annotation } from '../types'
+
+export const ANNOTATION_FADE_MS = 250
+
+export interface AnnotationTransition {
+  annotation: Annotation
+  shownAt: number
+  hiddenAt?: number
+}
+
+/**
+ * Identify an annotation by what it draws, so an annotation that stays on the
+ * board across updates keeps its transition
+ */
+export function annotationKey(
+  annotation: Pick<Annotation, 'type' | 'square' | 'from' | 'to' | 'color' | 'style' | 'number' | 'glyph' | 'text'>
+): string {
+  switch (annotation.type) {
+    case 'arrow':
+      return `arrow:${annotation.from}-${annotation.to}:${annotation.color}:${annotation.style ?? 'solid'}:${annotation.number ?? ''}`
+    case 'glyph':
+      return `glyph:${annotation.square}:${annotation.glyph}:${annotation.color}`
+    case 'label':
+      return `label:${annotation.square}:${annotation.text}:${annotation.color}`
+    default:
+      return `${annotation.type}:${annotation.square}:${annotation.color}`
+  }
+}
+
+/**
+ * Opacity of an annotation at `now`: rising over fadeMs after it is shown and
+ * falling over fadeMs after it is hidden
+ */
+export function annotationOpacity(transition: AnnotationTransition, now: number, fadeMs: number): number {
+  if (fadeMs <= 0) return transition.hiddenAt === undefined ? 1 : 0
+  const shown = Math.min(1, (now - transition.shownAt) / fadeMs)
+  const hidden = transition.hiddenAt === undefined ? 1 : 1 - (now - transition.hiddenAt) / fadeMs
+  return Math.max(0, Math.min(shown, hidden))
+}
+
+/**
+ * Update transitions for the annotations on the board at `now`: new
+ * annotations start fading in, removed ones start fading out, and ones that
+ * have faded out are dropped. Returns the same array when nothing changed.
+ */
+export function updateAnnotationTransitions(
+  transitions: AnnotationTransition[],
+  annotations: Annotation[],
+  now: number,
+  fadeMs: number
+): AnnotationTransition[] {
+  const current = new Map(annotations.map((annotation) => [annotationKey(annotation), annotation]))
+  const next: AnnotationTransition[] = []
+  let changed = false
+
+  for (const transition of transitions) {
+    const key = annotationKey(transition.annotation)
+    const annotation = current.get(key)
+    current.delete(key)
+
+    if (annotation && transition.hiddenAt === undefined) {
+      next.push(transition)
+    } else if (annotation) {
+      // Shown again while fading out: fade back in from the current opacity
+      const opacity = annotationOpacity(transition, now, fadeMs)
+      next.push({ annotation, shownAt: now - opacity * fadeMs })
+      changed = true
+    } else if (transition.hiddenAt === undefined) {
+      next.push({ ...transition, hiddenAt: now })
+      changed = true
+    } else if (now - transition.hiddenAt < fadeMs) {
+      next.push(transition)
+    } else {
+      changed = true
+    }
+  }
+
+  for (const annotation of current.values()) {
+    next.push({ annotation, shownAt: now })
+    changed = true
+  }
+
+  return changed ? next : transitions
+}
+
+/**
+ * Fade annotations in when they appear and out when they are removed. Returns
+ * the annotations to draw, including ones still fading out, with their opacity.
+ */
+export function useAnnotationTransitions(annotations: Annotation[], fadeMs: number = ANNOTATION_FADE_MS): Annotation[] {
+  const [transitions, setTransitions] = useState<AnnotationTransition[]>([])
+  const [now, setNow] = useState(0)
+  const annotationsRef = useRef(annotations)
+  annotationsRef.current = annotations
+
+  useEffect(() => {
+    const time = performance.now()
+    setTransitions((prev) => updateAnnotationTransitions(prev, annotations, time, fadeMs))
+    setNow(time)
+  }, [annotations, fadeMs])
+
+  // Re-render every frame while anything is fading
+  const isFading = transitions.some((transition) => now - (transition.hiddenAt ?? transition.shownAt) < fadeMs)
+  useEffect(() => {
+    if (!isFading) return
+    const frame = requestAnimationFrame((time) => {
+      setTransitions((prev) => updateAnnotationTransitions(prev, annotationsRef.current, time, fadeMs))
+      setNow(time)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [isFading, now, fadeMs])
+
+  return useMemo(() => {
+    return transitions.map((transition) => ({
+      ...transition.annotation,
+      id: annotationKey(transition.annotation),
+      opacity: annotationOpacity(transition, now, fadeMs)
+    }))
+  }, [transitions, now, fadeMs])
+}
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react'
 import type { Annotation, StudioAnnotationState, AnnotationMode, StudioAnnotationColor, AnnotationColor } from '../types'
-import { generateAnnotationId, isValidSquare } from '../utils'
+import { GLYPH_COLORS, generateAnnotationId, isArrowMode, isValidSquare, nextArrowNumber, nextGlyph, nextLabel } from '../utils'
 
 const defaultStudioAnnotationState: StudioAnnotationState = {
   activeMode: null, // Default to move mode
@@ -9,6 +9,7 @@ const defaultStudioAnnotationState: StudioAnnotationState = {
   isDragging: false,
   dragStartSquare: null,
   heldKeys: new Set(),
+  color: null,
   previewArrow: null,
 }
 
@@ -17,6 +18,10 @@ const KEY_MODE_MAP: Record<string, AnnotationMode> = {
   'h': 'highlight',
   'c': 'circle', 
   'a': 'arrow',
+  't': 'threat',
+  'n': 'sequence',
+  'g': 'glyph',
+  'l': 'label',
 }
 
 // Color mapping for studio mode (fixed colors)
@@ -25,6 +30,17 @@ const MODE_COLOR_MAP: Record<AnnotationMode, AnnotationColor> = {
   'arrow': 'green',
   'circle': 'yellow',
   'highlight': 'blue',
+  'threat': 'red',
+  'sequence': 'green',
+  'glyph': 'green', // Not used: glyphs default to their conventional color
+  'label': 'yellow',
+}
+
+// Threat arrows are dashed and sequence arrows numbered in the order drawn
+function arrowStyle(mode: 'arrow' | 'threat' | 'sequence', annotations: Annotation[]): Pick<Annotation, 'style' | 'number'> {
+  if (mode === 'threat') return { style: 'dashed' }
+  if (mode === 'sequence') return { number: nextArrowNumber(annotations) }
+  return {}
 }
 
 export function useStudioAnnotations(
@@ -34,6 +50,11 @@ export function useStudioAnnotations(
   const [annotations, setAnnotations] = useState<Annotation[]>([])
   const [annotationState, setAnnotationState] = useState<StudioAnnotationState>(defaultStudioAnnotationState)
 
+  // Pick a color for new annotations in every mode, or null for each mode's default
+  const setColor = useCallback((color: AnnotationColor | null) => {
+    setAnnotationState(prev => ({ ...prev, color }))
+  }, [])
+
   const clearAllAnnotations = useCallback(() => {
     setAnnotations([])
     
@@ -151,9 +172,9 @@ export function useStudioAnnotations(
       return
     }
 
-    const color = MODE_COLOR_MAP[activeMode] as AnnotationColor
+    const color = annotationState.color ?? MODE_COLOR_MAP[activeMode]
 
-    if (activeMode === 'arrow') {
+    if (isArrowMode(activeMode)) {
       if (!isDrawingArrow) {
         // Start drawing arrow
         setAnnotationState((prev: StudioAnnotationState) => ({
@@ -168,6 +189,7 @@ export function useStudioAnnotations(
           from: arrowStartSquare,
           to: square,
           color,
+          ...arrowStyle(activeMode, annotations),
         })
         setAnnotationState((prev: StudioAnnotationState) => ({
           ...prev,
@@ -200,6 +222,44 @@ export function useStudioAnnotations(
           color,
         })
       }
+      return
+    }
+
+    if (activeMode === 'glyph') {
+      // Cycle through the glyphs on the square, then remove it
+      const existingAnnotation = annotations.find(
+        (annotation: Annotation) => annotation.square === square && annotation.type === 'glyph'
+      )
+      const glyph = nextGlyph(existingAnnotation?.glyph)
+
+      if (existingAnnotation) removeAnnotation(existingAnnotation.id)
+      if (glyph) {
+        addAnnotation({
+          type: 'glyph',
+          square,
+          glyph,
+          color: annotationState.color ?? GLYPH_COLORS[glyph],
+        })
+      }
+      return
+    }
+
+    if (activeMode === 'label') {
+      // Toggle the next free letter on the square
+      const existingAnnotation = annotations.find(
+        (annotation: Annotation) => annotation.square === square && annotation.type === 'label'
+      )
+
+      if (existingAnnotation) {
+        removeAnnotation(existingAnnotation.id)
+      } else {
+        addAnnotation({
+          type: 'label',
+          square,
+          text: nextLabel(annotations),
+          color,
+        })
+      }
     }
   }, [annotationState, annotations, addAnnotation, removeAnnotation, clearAllAnnotations])
 
@@ -208,7 +268,7 @@ export function useStudioAnnotations(
 
     const { activeMode } = annotationState
 
-    if (activeMode === 'arrow') {
+    if (isArrowMode(activeMode)) {
       setAnnotationState((prev: StudioAnnotationState) => ({
         ...prev,
         isDragging: true,
@@ -222,14 +282,15 @@ export function useStudioAnnotations(
 
     const { activeMode, isDragging, dragStartSquare } = annotationState
 
-    if (activeMode === 'arrow' && isDragging && dragStartSquare && dragStartSquare !== square) {
+    if (isArrowMode(activeMode) && isDragging && dragStartSquare && dragStartSquare !== square) {
       // Complete arrow via drag
-      const color = MODE_COLOR_MAP[activeMode] as AnnotationColor
+      const color = annotationState.color ?? MODE_COLOR_MAP[activeMode]
       addAnnotation({
         type: 'arrow',
         from: dragStartSquare,
         to: square,
         color,
+        ...arrowStyle(activeMode, annotations),
       })
     }
 
@@ -240,7 +301,7 @@ export function useStudioAnnotations(
       dragStartSquare: null,
       previewArrow: null,
     }))
-  }, [annotationState, addAnnotation])
+  }, [annotationState, annotations, addAnnotation])
 
   const handleDragCancel = useCallback(() => {
     // Reset drag state without creating annotation
@@ -256,7 +317,7 @@ export function useStudioAnnotations(
     setAnnotationState((prev: StudioAnnotationState) => {
       const { activeMode, isDragging, dragStartSquare } = prev
 
-      if (activeMode === 'arrow' && isDragging && dragStartSquare && dragStartSquare !== square) {
+      if (isArrowMode(activeMode) && isDragging && dragStartSquare && dragStartSquare !== square) {
         // Update preview arrow while dragging
         return {
           ...prev,
@@ -276,7 +337,7 @@ export function useStudioAnnotations(
     if (!isValidSquare(square)) return
 
     // Right-click on square: highlight it
-    const color = MODE_COLOR_MAP['highlight'] as AnnotationColor
+    const color = annotationState.color ?? MODE_COLOR_MAP['highlight']
     
     // Toggle highlight annotation on square
     const existingAnnotation = annotations.find(
@@ -292,7 +353,7 @@ export function useStudioAnnotations(
         color,
       })
     }
-  }, [annotations, addAnnotation, removeAnnotation])
+  }, [annotationState.color, annotations, addAnnotation, removeAnnotation])
 
   const handleRightClickDragStart = useCallback((square: string) => {
     if (!isValidSquare(square)) return
@@ -313,7 +374,7 @@ export function useStudioAnnotations(
 
     if (isDragging && dragStartSquare && dragStartSquare !== square) {
       // Complete arrow via right-click drag
-      const color = MODE_COLOR_MAP['arrow'] as AnnotationColor
+      const color = annotationState.color ?? MODE_COLOR_MAP['arrow']
       addAnnotation({
         type: 'arrow',
         from: dragStartSquare,
@@ -350,6 +411,7 @@ export function useStudioAnnotations(
   return {
     annotations,
     annotationState,
+    setColor,
     addAnnotation,
     removeAnnotation,
     removeAnnotationsOnSquare,
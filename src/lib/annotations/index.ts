@@ -2,3 +2,5 @@ export * from './types'
 export * from './utils'
 export * from './hooks/useAnnotations'
 export * from './hooks/useStudioAnnotations'
+export * from './hooks/useAnnotationTransitions'
+export * from './AnnotationOverlay'
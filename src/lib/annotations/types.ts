@@ -1,8 +1,13 @@
-export type AnnotationMode = 'move' | 'circle' | 'highlight' | 'arrow'
-export type AnnotationColor = 'green' | 'red' | 'yellow' | 'blue'
+export type AnnotationMode = 'move' | 'circle' | 'highlight' | 'arrow' | 'threat' | 'sequence' | 'glyph' | 'label'
+export type NamedAnnotationColor = 'green' | 'red' | 'yellow' | 'blue'
+// A named color or a custom #rrggbb / #rrggbbaa color
+export type AnnotationColor = NamedAnnotationColor | `#${string}`
 
 // Simplified color mapping for studio mode
-export type StudioAnnotationColor = 'green' | 'yellow' | 'blue'
+export type StudioAnnotationColor = AnnotationColor
+
+// Move-quality glyphs that can be placed on a square
+export type AnnotationGlyph = '!!' | '!' | '!?' | '?!' | '?' | '??'
 
 export interface AnnotationState {
   mode: AnnotationMode
@@ -21,6 +26,7 @@ export interface StudioAnnotationState {
   isDragging: boolean
   dragStartSquare: string | null
   heldKeys: Set<string> // Track which keys are currently held
+  color: AnnotationColor | null // Overrides each mode's default color when set
   previewArrow: {
     from: string
     to: string
@@ -29,20 +35,27 @@ export interface StudioAnnotationState {
 
 export interface Annotation {
   id: string
-  type: 'circle' | 'highlight' | 'arrow'
+  type: 'circle' | 'highlight' | 'arrow' | 'glyph' | 'label'
   square?: string
   from?: string
   to?: string
   color: AnnotationColor
+  style?: 'solid' | 'dashed' // for arrows; dashed arrows show threats
+  number?: number // for arrows in a planned sequence
+  glyph?: AnnotationGlyph
+  text?: string // for labels
   timestamp?: number
+  opacity?: number // 0 to 1 while fading in or out; fully shown when omitted
 }
 
 export interface AnnotationEvent {
   timestamp: number
   type: 'annotate' | 'clear'
-  arrows?: Array<{ from: string; to: string; color?: AnnotationColor }>
+  arrows?: Array<{ from: string; to: string; color?: AnnotationColor; style?: 'solid' | 'dashed'; number?: number }>
   circles?: Array<{ square: string; color?: AnnotationColor }>
   highlights?: Array<{ square: string; color?: AnnotationColor }>
+  glyphs?: Array<{ square: string; glyph: AnnotationGlyph; color?: AnnotationColor }>
+  labels?: Array<{ square: string; text: string; color?: AnnotationColor }>
   note?: string
 }
 
@@ -59,6 +72,25 @@ export interface ChessboardArrow {
   color: string
 }
 
+// Annotations react-chessboard cannot draw, positioned on an 8x8 grid with
+// a1 at (0, 7) from white's side
+export interface OverlayArrow {
+  from: { x: number; y: number }
+  to: { x: number; y: number }
+  color: string
+  dashed: boolean
+  number?: number
+}
+
+export interface SquareMark {
+  square: string
+  x: number
+  y: number
+  kind: 'glyph' | 'label'
+  text: string
+  color: string
+}
+
 export interface ChessboardSquareStyles {
   [square: string]: {
     [key: string]: string | number
@@ -1,9 +1,29 @@
-import type { Annotation, ChessboardArrow, ChessboardSquareStyles, AnnotationColor, AnnotationMode, StudioAnnotationColor, StudioAnnotationState } from './types'
+import type { Annotation, AnnotationGlyph, ChessboardArrow, ChessboardSquareStyles, AnnotationColor, AnnotationMode, OverlayArrow, SquareMark, StudioAnnotationColor, StudioAnnotationState } from './types'
+
+// Conventional colors for move-quality glyphs, used when a glyph has no color
+export const GLYPH_COLORS: Record<AnnotationGlyph, AnnotationColor> = {
+  '!!': '#14b8a6',
+  '!': '#22c55e',
+  '!?': '#0ea5e9',
+  '?!': '#eab308',
+  '?': '#f97316',
+  '??': '#ef4444'
+}
+
+export const ANNOTATION_GLYPHS = Object.keys(GLYPH_COLORS) as AnnotationGlyph[]
+
+/**
+ * Check if a color is a custom #rrggbb or #rrggbbaa color
+ */
+export function isHexColor(color: string): color is `#${string}` {
+  return /^#([0-9a-f]{6}|[0-9a-f]{8})$/i.test(color)
+}
 
 /**
- * Convert color name to CSS color value
+ * Convert color name to CSS color value; custom hex colors pass through
  */
 export function getColorValue(color: AnnotationColor): string {
+  if (isHexColor(color)) return color
   switch (color) {
     case 'green':
       return '#22c55e'
@@ -18,10 +38,22 @@ export function getColorValue(color: AnnotationColor): string {
   }
 }
 
+/**
+ * Scale the alpha channel of a #rrggbb or #rrggbbaa color, e.g. for
+ * annotations fading out
+ */
+export function withOpacity(color: string, opacity = 1): string {
+  if (opacity >= 1) return color
+  const baseAlpha = color.length === 9 ? parseInt(color.slice(7), 16) / 255 : 1
+  const alpha = Math.round(Math.max(0, opacity) * baseAlpha * 255).toString(16).padStart(2, '0')
+  return `${color.slice(0, 7)}${alpha}`
+}
+
 /**
  * Convert studio color name to CSS color value
  */
 export function getStudioColorValue(color: StudioAnnotationColor): string {
+  if (isHexColor(color)) return color
   switch (color) {
     case 'green':
       return '#22c55e'
@@ -35,15 +67,16 @@ export function getStudioColorValue(color: StudioAnnotationColor): string {
 }
 
 /**
- * Convert annotations to react-chessboard arrows format
+ * Convert annotations to react-chessboard arrows format. Dashed arrows are
+ * left to annotationsToOverlayArrows, as react-chessboard only draws solid ones.
  */
 export function annotationsToArrows(annotations: Annotation[], annotationState?: StudioAnnotationState): ChessboardArrow[] {
   const arrows: ChessboardArrow[] = annotations
-    .filter(annotation => annotation.type === 'arrow' && annotation.from && annotation.to)
+    .filter(annotation => annotation.type === 'arrow' && annotation.from && annotation.to && annotation.style !== 'dashed')
     .map(annotation => ({
       startSquare: annotation.from!,
       endSquare: annotation.to!,
-      color: getColorValue(annotation.color)
+      color: withOpacity(getColorValue(annotation.color), annotation.opacity)
     }))
 
   // Add preview arrow if dragging
@@ -68,19 +101,20 @@ export function annotationsToSquareStyles(annotations: Annotation[]): Chessboard
     .filter(annotation => (annotation.type === 'circle' || annotation.type === 'highlight') && annotation.square)
     .forEach(annotation => {
       const color = getColorValue(annotation.color)
+      const opacity = annotation.opacity ?? 1
       const square = annotation.square!
       
       if (annotation.type === 'circle') {
         styles[square] = {
           ...styles[square],
-          border: `3px solid ${color}`,
+          border: `3px solid ${withOpacity(color, opacity)}`,
           borderRadius: '50%',
           boxSizing: 'border-box'
         }
       } else if (annotation.type === 'highlight') {
         styles[square] = {
           ...styles[square],
-          backgroundColor: `${color}40`, // Add transparency
+          backgroundColor: withOpacity(color, 0.25 * opacity), // Add transparency
           borderRadius: '4px'
         }
       }
@@ -89,6 +123,63 @@ export function annotationsToSquareStyles(annotations: Annotation[]): Chessboard
   return styles
 }
 
+/**
+ * Position of a square's top-left corner on an 8x8 grid as seen from the
+ * given side
+ */
+export function squareToPoint(square: string, orientation: 'white' | 'black' = 'white'): { x: number; y: number } {
+  const file = square.charCodeAt(0) - 97
+  const rank = parseInt(square[1], 10) - 1
+  return orientation === 'white' ? { x: file, y: 7 - rank } : { x: 7 - file, y: rank }
+}
+
+/**
+ * Convert the arrows react-chessboard cannot draw - dashed arrows and the
+ * numbers of arrows in a sequence - to overlay arrows, between square centres
+ */
+export function annotationsToOverlayArrows(annotations: Annotation[], orientation: 'white' | 'black' = 'white'): OverlayArrow[] {
+  return annotations
+    .filter(annotation => annotation.type === 'arrow' && annotation.from && annotation.to)
+    .filter(annotation => annotation.style === 'dashed' || annotation.number !== undefined)
+    .map(annotation => {
+      const from = squareToPoint(annotation.from!, orientation)
+      const to = squareToPoint(annotation.to!, orientation)
+      return {
+        from: { x: from.x + 0.5, y: from.y + 0.5 },
+        to: { x: to.x + 0.5, y: to.y + 0.5 },
+        color: withOpacity(getColorValue(annotation.color), annotation.opacity),
+        dashed: annotation.style === 'dashed',
+        ...(annotation.number !== undefined && { number: annotation.number })
+      }
+    })
+}
+
+/**
+ * Convert glyph and label annotations to marks drawn on their squares
+ */
+export function annotationsToSquareMarks(annotations: Annotation[], orientation: 'white' | 'black' = 'white'): SquareMark[] {
+  const marks: SquareMark[] = []
+
+  annotations.forEach(annotation => {
+    if (!annotation.square || !isValidSquare(annotation.square)) return
+    const { x, y } = squareToPoint(annotation.square, orientation)
+
+    const text = annotation.type === 'glyph' ? annotation.glyph : annotation.type === 'label' ? annotation.text : undefined
+    if (!text) return
+
+    marks.push({
+      square: annotation.square,
+      x,
+      y,
+      kind: annotation.type as SquareMark['kind'],
+      text,
+      color: withOpacity(getColorValue(annotation.color), annotation.opacity)
+    })
+  })
+
+  return marks
+}
+
 /**
  * Generate a unique ID for annotations
  */
@@ -103,6 +194,42 @@ export function isValidSquare(square: string): boolean {
   return /^[a-h][1-8]$/.test(square)
 }
 
+/**
+ * Check if a mode draws arrows: plain arrows, dashed threat arrows or
+ * numbered arrows in a sequence
+ */
+export function isArrowMode(mode: AnnotationMode | null): mode is 'arrow' | 'threat' | 'sequence' {
+  return mode === 'arrow' || mode === 'threat' || mode === 'sequence'
+}
+
+/**
+ * The glyph that follows a square's current glyph when cycling through them,
+ * or null after the last one to remove it
+ */
+export function nextGlyph(glyph?: AnnotationGlyph): AnnotationGlyph | null {
+  if (!glyph) return ANNOTATION_GLYPHS[0]
+  return ANNOTATION_GLYPHS[ANNOTATION_GLYPHS.indexOf(glyph) + 1] ?? null
+}
+
+/**
+ * The first letter from A to Z not already used by a label
+ */
+export function nextLabel(annotations: Annotation[]): string {
+  const used = new Set(annotations.filter(annotation => annotation.type === 'label').map(annotation => annotation.text))
+  for (let code = 65; code <= 90; code++) {
+    const letter = String.fromCharCode(code)
+    if (!used.has(letter)) return letter
+  }
+  return 'A'
+}
+
+/**
+ * The number for the next arrow in a sequence, up to 99
+ */
+export function nextArrowNumber(annotations: Annotation[]): number {
+  return Math.min(99, annotations.reduce((max, annotation) => Math.max(max, annotation.number ?? 0), 0) + 1)
+}
+
 /**
  * Get keyboard shortcut for annotation mode
  */
@@ -116,6 +243,14 @@ export function getModeShortcut(mode: AnnotationMode): string {
       return 'H'
     case 'arrow':
       return 'A'
+    case 'threat':
+      return 'T'
+    case 'sequence':
+      return 'N'
+    case 'glyph':
+      return 'G'
+    case 'label':
+      return 'L'
     default:
       return ''
   }
@@ -0,0 +1,237 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import { z } from "zod";
+import type { ChessmeldMeldFormatCMFV001 } from "./types";
+import type { WhisperXResponse } from "./transcript-types";
+import { migrateMeld } from "./migrate";
+import { assertMeld } from "./zod";
+import { validateWhisperXResponse } from "./transcript-processor";
+
+// A .meld bundle is a zip holding a lesson's CMF, audio and transcript, plus a
+// manifest listing each file with its SHA-256. Inside the bundle the meld's
+// audioUrl/transcriptUrl are paths relative to the bundle root.
+
+export const BUNDLE_FORMAT = "chessmeld.bundle.v1";
+export const BUNDLE_EXTENSION = ".meld";
+export const BUNDLE_MEDIA_TYPE = "application/vnd.chessmeld.meld+zip";
+
+const MANIFEST_PATH = "manifest.json";
+const MELD_PATH = "meld.cmf.json";
+const TRANSCRIPT_PATH = "transcript.json";
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+};
+
+export interface BundleFile {
+  path: string;
+  mediaType: string;
+  size: number;
+  /** Hex-encoded SHA-256 of the file contents */
+  sha256: string;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  createdAt: string;
+  /** Path of the CMF file */
+  meld: string;
+  audio?: string;
+  transcript?: string;
+  files: BundleFile[];
+}
+
+const BundleManifestSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  createdAt: z.string(),
+  meld: z.string().min(1),
+  audio: z.string().min(1).optional(),
+  transcript: z.string().min(1).optional(),
+  files: z.array(
+    z.object({
+      path: z.string().min(1),
+      mediaType: z.string(),
+      size: z.number(),
+      sha256: z.string(),
+    })
+  ),
+});
+
+export interface MeldBundleContents {
+  meld: ChessmeldMeldFormatCMFV001;
+  audio?: Blob;
+  transcript?: WhisperXResponse;
+}
+
+export interface UnpackedMeldBundle extends MeldBundleContents {
+  manifest: BundleManifest;
+}
+
+/**
+ * Packs a meld with its audio and transcript into a .meld bundle. The packed
+ * meld's audioUrl and transcriptUrl point at the packed files.
+ */
+export async function packMeldBundle({ meld, audio, transcript }: MeldBundleContents): Promise<Blob> {
+  const audioPath = audio ? `audio.${AUDIO_EXTENSIONS[baseMediaType(audio.type)] || "webm"}` : undefined;
+  const packedMeld: ChessmeldMeldFormatCMFV001 = {
+    ...meld,
+    meta: {
+      ...meld.meta,
+      audioUrl: audioPath ?? meld.meta.audioUrl,
+      transcriptUrl: transcript ? TRANSCRIPT_PATH : meld.meta.transcriptUrl,
+    },
+  };
+
+  const files: { path: string; mediaType: string; data: Uint8Array }[] = [
+    { path: MELD_PATH, mediaType: "application/json", data: strToU8(JSON.stringify(packedMeld, null, 2)) },
+  ];
+  if (audio && audioPath) {
+    files.push({ path: audioPath, mediaType: audio.type || "audio/webm", data: new Uint8Array(await audio.arrayBuffer()) });
+  }
+  if (transcript) {
+    files.push({ path: TRANSCRIPT_PATH, mediaType: "application/json", data: strToU8(JSON.stringify(transcript)) });
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    createdAt: new Date().toISOString(),
+    meld: MELD_PATH,
+    ...(audioPath && { audio: audioPath }),
+    ...(transcript && { transcript: TRANSCRIPT_PATH }),
+    files: await Promise.all(
+      files.map(async ({ path, mediaType, data }) => ({ path, mediaType, size: data.length, sha256: await sha256(data) }))
+    ),
+  };
+
+  const zippable: Zippable = { [MANIFEST_PATH]: strToU8(JSON.stringify(manifest, null, 2)) };
+  for (const { path, data } of files) {
+    // Audio is already compressed
+    zippable[path] = path === audioPath ? [data, { level: 0 }] : data;
+  }
+
+  return new Blob([zipSync(zippable)], { type: BUNDLE_MEDIA_TYPE });
+}
+
+/**
+ * Unpacks a .meld bundle, checking every file against the manifest checksums.
+ * The meld is migrated and validated. Its audioUrl and transcriptUrl are left
+ * relative to the bundle; use resolveBundleUrls to point them at the assets.
+ */
+export async function unpackMeldBundle(bundle: Blob | ArrayBuffer | Uint8Array): Promise<UnpackedMeldBundle> {
+  const bytes = bundle instanceof Uint8Array
+    ? bundle
+    : new Uint8Array(bundle instanceof Blob ? await bundle.arrayBuffer() : bundle);
+
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(bytes);
+  } catch {
+    throw new Error("Invalid meld bundle: not a zip archive");
+  }
+
+  if (!entries[MANIFEST_PATH]) {
+    throw new Error(`Invalid meld bundle: missing ${MANIFEST_PATH}`);
+  }
+  let rawManifest: unknown;
+  try {
+    rawManifest = JSON.parse(strFromU8(entries[MANIFEST_PATH]));
+  } catch {
+    throw new Error(`Invalid meld bundle: ${MANIFEST_PATH} is not JSON`);
+  }
+  const format = (rawManifest as { format?: unknown } | null)?.format;
+  if (format !== BUNDLE_FORMAT) {
+    throw new Error(`Unsupported meld bundle format: ${format}`);
+  }
+  const parsed = BundleManifestSchema.safeParse(rawManifest);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid meld bundle: ${MANIFEST_PATH} ${issues.join("; ")}`);
+  }
+  const manifest: BundleManifest = parsed.data;
+
+  // Only listed files are checksummed, so the meld and its assets must be listed
+  for (const path of [manifest.meld, manifest.transcript, manifest.audio]) {
+    if (path !== undefined && !manifest.files.some((file) => file.path === path)) {
+      throw new Error(`Invalid meld bundle: ${path} is not listed in ${MANIFEST_PATH}`);
+    }
+  }
+  for (const file of manifest.files) {
+    const data = entries[file.path];
+    if (!data) {
+      throw new Error(`Invalid meld bundle: missing ${file.path}`);
+    }
+    if ((await sha256(data)) !== file.sha256) {
+      throw new Error(`Invalid meld bundle: checksum mismatch for ${file.path}`);
+    }
+  }
+
+  const meld = assertMeld(migrateMeld(JSON.parse(strFromU8(entries[manifest.meld]))).meld);
+
+  let transcript: WhisperXResponse | undefined;
+  if (manifest.transcript) {
+    const parsed = JSON.parse(strFromU8(entries[manifest.transcript]));
+    if (!validateWhisperXResponse(parsed)) {
+      throw new Error("Invalid meld bundle: transcript is not a WhisperX response");
+    }
+    transcript = parsed;
+  }
+
+  let audio: Blob | undefined;
+  if (manifest.audio) {
+    const mediaType = manifest.files.find((f) => f.path === manifest.audio)?.mediaType || "audio/webm";
+    // Copied, as the DOM typings only accept ArrayBuffer-backed views
+    audio = new Blob([new Uint8Array(entries[manifest.audio])], { type: mediaType });
+  }
+
+  return { manifest, meld, audio, transcript };
+}
+
+/**
+ * Returns the bundle's meld with audioUrl and transcriptUrl pointing at the
+ * packed assets, via `createUrl` (URL.createObjectURL by default). Callers own
+ * the created URLs and should revoke them when done.
+ */
+export function resolveBundleUrls(
+  { meld, audio, transcript }: MeldBundleContents,
+  createUrl: (blob: Blob) => string = (blob) => URL.createObjectURL(blob)
+): ChessmeldMeldFormatCMFV001 {
+  return {
+    ...meld,
+    meta: {
+      ...meld.meta,
+      audioUrl: audio ? createUrl(audio) : meld.meta.audioUrl,
+      transcriptUrl: transcript
+        ? createUrl(new Blob([JSON.stringify(transcript)], { type: "application/json" }))
+        : meld.meta.transcriptUrl,
+    },
+  };
+}
+
+/**
+ * Revokes the object URLs resolveBundleUrls gave a meld. URLs that are not
+ * object URLs are left alone.
+ */
+export function revokeBundleUrls(meld: ChessmeldMeldFormatCMFV001): void {
+  for (const url of [meld.meta.audioUrl, meld.meta.transcriptUrl]) {
+    if (url?.startsWith("blob:")) URL.revokeObjectURL(url);
+  }
+}
+
+/** Whether a file name or URL looks like a .meld bundle. */
+export function isMeldBundleName(name: string): boolean {
+  return name.toLowerCase().split(/[?#]/)[0].endsWith(BUNDLE_EXTENSION);
+}
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+function baseMediaType(type: string): string {
+  return type.split(";")[0].trim().toLowerCase();
+}
+
+async function sha256(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new Uint8Array(data));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
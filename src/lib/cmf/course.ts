@@ -0,0 +1,267 @@
+import { z } from "zod";
+import type { ChessmeldMeldFormatCMFV001 } from "./types";
+import { ChessmeldMeldSchema, assertMeld } from "./zod";
+import { migrateMeld } from "./migrate";
+import { isMeldBundleName, resolveBundleUrls, unpackMeldBundle } from "./bundle";
+
+// A course sequences several melds as chapters. Each chapter either embeds its
+// meld or references a .cmf.json file or .meld bundle by URL, resolved against
+// the course's own URL. Chapters can require other chapters to be completed
+// first; progress is tracked by chapter id.
+
+export const COURSE_SCHEMA = "cmf-course.v0.0.1";
+
+const ChapterId = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/);
+
+const CourseChapterSchema = z.object({
+  /** Defaults to the embedded meld's meta.id */
+  id: ChapterId.optional(),
+  /** Defaults to the meld's meta.title */
+  title: z.string().min(1).optional(),
+  description: z.string().optional(),
+  meldUrl: z.string().min(1).optional(),
+  meld: ChessmeldMeldSchema.optional(),
+  /** Ids of chapters to complete before this one */
+  prerequisites: z.array(ChapterId).optional(),
+});
+
+export const ChessmeldCourseSchema = z.object({
+  schema: z.literal(COURSE_SCHEMA),
+  id: z.string().min(1),
+  title: z.string().min(1),
+  author: z.string().min(1).optional(),
+  description: z.string().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  chapters: z.array(CourseChapterSchema).min(1),
+}).superRefine((course, ctx) => {
+  const ids = new Set<string>();
+  course.chapters.forEach((chapter, index) => {
+    if (!chapter.meld === !chapter.meldUrl) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A chapter needs exactly one of meld or meldUrl.",
+        path: ["chapters", index],
+      });
+    }
+    const id = chapter.id ?? chapter.meld?.meta.id;
+    if (!id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A chapter that references its meld by URL needs an id.",
+        path: ["chapters", index, "id"],
+      });
+      return;
+    }
+    if (!ChapterId.safeParse(id).success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Chapter id "${id}" (from meta.id) may only use letters, digits, "_" and "-"; set id explicitly.`,
+        path: ["chapters", index, "id"],
+      });
+    }
+    if (ids.has(id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate chapter id "${id}".`,
+        path: ["chapters", index, "id"],
+      });
+    }
+    ids.add(id);
+  });
+
+  // Prerequisites must come earlier in the course, which also rules out cycles
+  const seen = new Set<string>();
+  course.chapters.forEach((chapter, index) => {
+    chapter.prerequisites?.forEach((prerequisite, i) => {
+      if (!seen.has(prerequisite)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: ids.has(prerequisite)
+            ? `Prerequisite "${prerequisite}" must come before the chapter that requires it.`
+            : `Unknown prerequisite "${prerequisite}".`,
+          path: ["chapters", index, "prerequisites", i],
+        });
+      }
+    });
+    const id = chapter.id ?? chapter.meld?.meta.id;
+    if (id) seen.add(id);
+  });
+});
+
+export interface CourseChapter {
+  id: string;
+  title: string;
+  /** Set when `title` is a placeholder until the meld at meldUrl is loaded */
+  untitled?: boolean;
+  description?: string;
+  meldUrl?: string;
+  meld?: ChessmeldMeldFormatCMFV001;
+  prerequisites: string[];
+}
+
+export interface ChessmeldCourse {
+  schema: typeof COURSE_SCHEMA;
+  id: string;
+  title: string;
+  author?: string;
+  description?: string;
+  tags?: string[];
+  chapters: CourseChapter[];
+}
+
+export type ParseCourseResult =
+  | { ok: true; data: ChessmeldCourse }
+  | { ok: false; errors: string[] };
+
+/**
+ * Validates a course document. Embedded melds are migrated first, and every
+ * chapter comes back with its id and title filled in.
+ */
+export function parseCourse(input: unknown): ParseCourseResult {
+  const res = ChessmeldCourseSchema.safeParse(migrateEmbeddedMelds(input));
+  if (!res.success) {
+    return { ok: false, errors: res.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`) };
+  }
+
+  const chapters = res.data.chapters.map((chapter, index): CourseChapter => {
+    // parseMeld's cast: the schema only differs from the type on `best`
+    const meld = chapter.meld as ChessmeldMeldFormatCMFV001 | undefined;
+    return {
+      id: chapter.id ?? meld!.meta.id,
+      title: chapter.title ?? meld?.meta.title ?? `Chapter ${index + 1}`,
+      ...(!chapter.title && !meld && { untitled: true }),
+      ...(chapter.description && { description: chapter.description }),
+      ...(chapter.meldUrl && { meldUrl: chapter.meldUrl }),
+      ...(meld && { meld }),
+      prerequisites: chapter.prerequisites ?? [],
+    };
+  });
+  return { ok: true, data: { ...res.data, chapters } };
+}
+
+/** Like parseCourse, but throws a single Error listing every issue. */
+export function assertCourse(input: unknown): ChessmeldCourse {
+  const res = parseCourse(input);
+  if (!res.ok) {
+    throw new Error(`Invalid course:\n${res.errors.join("\n")}`);
+  }
+  return res.data;
+}
+
+/** Whether a parsed JSON document is a course rather than a single meld. */
+export function isCourseDocument(input: unknown): boolean {
+  return typeof input === "object" && input !== null && (input as { schema?: unknown }).schema === COURSE_SCHEMA;
+}
+
+/**
+ * Wraps a single meld as a one-chapter course, so that players can treat every
+ * lesson as a course.
+ */
+export function courseFromMeld(meld: ChessmeldMeldFormatCMFV001): ChessmeldCourse {
+  return {
+    schema: COURSE_SCHEMA,
+    id: meld.meta.id,
+    title: meld.meta.title,
+    author: meld.meta.author,
+    ...(meld.meta.tags && { tags: meld.meta.tags }),
+    chapters: [{ id: meld.meta.id, title: meld.meta.title, meld, prerequisites: [] }],
+  };
+}
+
+/**
+ * Loads a chapter's meld: the embedded one, or else the .cmf.json file or
+ * .meld bundle at meldUrl, resolved against the course's URL. Bundled assets
+ * get object URLs, which the caller should revoke when done.
+ */
+export async function loadChapterMeld(
+  chapter: CourseChapter,
+  courseUrl: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<ChessmeldMeldFormatCMFV001> {
+  if (chapter.meld) return chapter.meld;
+  if (!chapter.meldUrl) {
+    throw new Error(`Chapter "${chapter.id}" has no meld`);
+  }
+
+  const url = resolveCourseUrl(chapter.meldUrl, courseUrl);
+  const response = await fetchImpl(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load chapter "${chapter.id}": ${response.status} ${response.statusText}`);
+  }
+  return isMeldBundleName(url)
+    ? resolveBundleUrls(await unpackMeldBundle(await response.blob()))
+    : assertMeld(migrateMeld(await response.json()).meld);
+}
+
+/** A chapter's title once its meld is loaded, from the meld if the course gave none. */
+export function chapterTitle(chapter: CourseChapter, meld: ChessmeldMeldFormatCMFV001): string {
+  return chapter.untitled ? meld.meta.title : chapter.title;
+}
+
+// ——— Progress ———
+
+export interface CourseProgress {
+  /** Ids of completed chapters, in the order they were completed */
+  completed: string[];
+  /** The chapter the learner last opened */
+  currentChapterId?: string;
+}
+
+export const EMPTY_COURSE_PROGRESS: CourseProgress = { completed: [] };
+
+/** Whether every prerequisite of a chapter has been completed. */
+export function isChapterUnlocked(chapter: CourseChapter, progress: CourseProgress): boolean {
+  return chapter.prerequisites.every((id) => progress.completed.includes(id));
+}
+
+export function completeChapter(progress: CourseProgress, chapterId: string): CourseProgress {
+  if (progress.completed.includes(chapterId)) return progress;
+  return { ...progress, completed: [...progress.completed, chapterId] };
+}
+
+/**
+ * The chapter to play after `chapterId`: the next unlocked chapter in course
+ * order that has not been completed, or undefined at the end of the course.
+ */
+export function nextChapter(
+  course: ChessmeldCourse,
+  progress: CourseProgress,
+  chapterId: string
+): CourseChapter | undefined {
+  const index = course.chapters.findIndex((chapter) => chapter.id === chapterId);
+  return course.chapters
+    .slice(index + 1)
+    .find((chapter) => !progress.completed.includes(chapter.id) && isChapterUnlocked(chapter, progress));
+}
+
+/** The fraction of a course's chapters that have been completed, from 0 to 1. */
+export function courseCompletion(course: ChessmeldCourse, progress: CourseProgress): number {
+  const done = course.chapters.filter((chapter) => progress.completed.includes(chapter.id)).length;
+  return done / course.chapters.length;
+}
+
+// Legacy-shaped embedded melds are upgraded before validation, as when
+// loading a meld on its own
+function migrateEmbeddedMelds(input: unknown): unknown {
+  if (!isCourseDocument(input)) return input;
+  const course = input as { chapters?: unknown };
+  if (!Array.isArray(course.chapters)) return input;
+  return {
+    ...course,
+    chapters: course.chapters.map((chapter) =>
+      typeof chapter === "object" && chapter !== null && "meld" in chapter
+        ? { ...chapter, meld: migrateMeld((chapter as { meld: unknown }).meld).meld }
+        : chapter
+    ),
+  };
+}
+
+// Relative meldUrls are resolved against the course URL, which may itself be
+// root-relative ("/examples/openings.course.json")
+function resolveCourseUrl(meldUrl: string, courseUrl: string): string {
+  const base = new URL(courseUrl, "http://localhost");
+  const resolved = new URL(meldUrl, base);
+  return /^[a-z][a-z0-9+.-]*:/i.test(courseUrl) || /^[a-z][a-z0-9+.-]*:/i.test(meldUrl)
+    ? resolved.href
+    : `${resolved.pathname}${resolved.search}${resolved.hash}`;
+}
@@ -0,0 +1,88 @@
+import type { Event } from "./types";
+
+// Events are ordered by `t`, but identified by their optional `id`: two events
+// can share a millisecond, and retiming an event must not change which event
+// it is. Other events refer to events by id (e.g. ClearAnnotationsEvent.targets).
+
+export const EVENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Returns the events with an id on each event that lacks one. Existing ids are
+ * kept; `createId` is called in array order and must not return a taken id.
+ */
+export function withEventIds<T extends { id?: string } | Record<string, unknown>>(
+  events: T[],
+  createId: (event: T) => string
+): T[] {
+  if (events.every((event) => event.id !== undefined)) return events;
+  return events.map((event) => (event.id === undefined ? { id: createId(event), ...event } : event));
+}
+
+/**
+ * Creates readable ids that are unique within a meld: `<type>-<n>`, counting
+ * each event type separately and skipping ids that are already taken.
+ */
+export function sequentialEventIds(events: { type?: unknown; id?: unknown }[]): (event: { type?: unknown }) => string {
+  const taken = new Set(events.map((event) => event.id).filter((id): id is string => typeof id === "string"));
+  const counts = new Map<string, number>();
+  return (event) => {
+    const type = typeof event.type === "string" && EVENT_ID_PATTERN.test(event.type) ? event.type : "event";
+    let id: string;
+    do {
+      const n = (counts.get(type) ?? 0) + 1;
+      counts.set(type, n);
+      id = `${type}-${n}`;
+    } while (taken.has(id));
+    taken.add(id);
+    return id;
+  };
+}
+
+/** Finds an event by id. */
+export function findEvent(events: Event[], id: string): Event | undefined {
+  return events.find((event) => event.id === id);
+}
+
+/**
+ * A key for rendering an event in a list: its id, or else its position in the
+ * list for events from melds that predate ids.
+ */
+export function eventKey(event: Pick<Event, "t" | "type" | "id">, index: number): string {
+  return event.id ?? `${event.type}-${event.t}-${index}`;
+}
+
+/**
+ * Replaces the events in [startMs, endMs) with `replacement`, a re-recording
+ * of that section lasting `replacementMs` whose event times start from 0.
+ * Later events move by the change in length, keeping their ids. Clear events
+ * stop targeting events that were replaced, and go if they target none left;
+ * annotations lose an `until` that pointed at a replaced event.
+ */
+export function spliceEventRange<T extends { t: number; id?: string }>(
+  events: T[],
+  replacement: T[],
+  startMs: number,
+  endMs: number,
+  replacementMs: number
+): T[] {
+  const delta = replacementMs - (endMs - startMs);
+  const replaced = new Set(
+    events.filter((event) => event.t >= startMs && event.t < endMs && event.id !== undefined).map((event) => event.id)
+  );
+  const spliced = [
+    ...events.filter((event) => event.t < startMs),
+    ...replacement.map((event) => ({ ...event, t: event.t + startMs })),
+    ...events.filter((event) => event.t >= endMs).map((event) => ({ ...event, t: event.t + delta })),
+  ];
+  if (replaced.size === 0) return spliced;
+
+  return spliced.flatMap((event) => {
+    if ("until" in event && typeof event.until === "string" && replaced.has(event.until)) {
+      return [{ ...event, until: undefined }];
+    }
+    if (!("targets" in event) || !Array.isArray(event.targets)) return [event];
+    const targets = event.targets.filter((id: string) => !replaced.has(id));
+    if (targets.length === event.targets.length) return [event];
+    return targets.length > 0 ? [{ ...event, targets }] : [];
+  });
+}
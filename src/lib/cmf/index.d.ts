@@ -1,6 +0,0 @@
-export { default as cmfSchema } from "../schema/cmf.v0.0.1.json";
-export * from "./types";
-export * from "./zod";
-export * from "./transcript-types";
-export * from "./transcript-processor";
-//# sourceMappingURL=index.d.ts.map
\ No newline at end of file
@@ -1,6 +0,0 @@
-// re-export handy bits for consumers
-export { default as cmfSchema } from "../schema/cmf.v0.0.1.json";
-export * from "./types"; // generated types from graph schema
-export * from "./zod"; // developer-DX parser (optional)
-export * from "./transcript-types"; // WhisperX transcript types
-export * from "./transcript-processor"; // transcript processing utilities
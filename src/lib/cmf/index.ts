@@ -4,4 +4,10 @@
 export * from "./types"; // generated types from graph schema
 export * from "./zod";   // developer-DX parser (optional)
 export * from "./transcript-types"; // WhisperX transcript types
-export * from "./transcript-processor"; // transcript processing utilities
\ No newline at end of file
+export * from "./transcript-processor"; // transcript processing utilities
+export * from "./events"; // stable event ids and references between events
+export * from "./lint"; // semantic graph/event consistency checks
+export * from "./migrate"; // upgrades historical meld shapes to the current schema
+export * from "./bundle"; // .meld zip bundles of CMF, audio and transcript
+export * from "./course"; // multi-chapter courses that sequence several melds
+export * from "./quiz"; // grading moves played at pause points with answers
@@ -0,0 +1,426 @@
+import { applyMove, positionKey, variantOf, type AppliedMove, type Variant } from "../variants";
+import type { ChessmeldMeldFormatCMFV001, Event, MoveEvent } from "./types";
+import { findEvent } from "./events";
+import { isPlayableAnswer } from "./quiz";
+
+// Semantic checks that the JSON schema (and therefore parseMeld) cannot
+// express: graph symmetry, move replay and cross-references between events
+// and nodes. Run parseMeld first; lintMeld assumes a structurally valid meld.
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRule =
+  | "missing-root"
+  | "dangling-child"
+  | "dangling-parent"
+  | "asymmetric-child"
+  | "asymmetric-parent"
+  | "illegal-child-move"
+  | "child-fen-mismatch"
+  | "illegal-move-event"
+  | "move-fen-mismatch"
+  | "event-fen-not-node"
+  | "unreachable-node"
+  | "duplicate-position"
+  | "duplicate-pausepoint-id"
+  | "duplicate-event-id"
+  | "dangling-event-ref"
+  | "until-before-annotation"
+  | "illegal-quiz-move";
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  /** JSONPath to the offending value, e.g. `$.events[12].fen`. */
+  path: string;
+  message: string;
+  /** A human-readable suggested fix. */
+  suggestion: string;
+}
+
+export interface LintResult {
+  findings: LintFinding[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Reports structural problems in a meld that the type system can't catch.
+ * Findings follow the document: graph findings node by node, then event
+ * findings event by event, with a node's or event's rules together.
+ */
+export function lintMeld(meld: ChessmeldMeldFormatCMFV001): LintResult {
+  const findings: LintFinding[] = [
+    ...lintGraph(meld),
+    ...lintEvents(meld),
+  ];
+
+  return {
+    findings,
+    errorCount: findings.filter((f) => f.severity === "error").length,
+    warningCount: findings.filter((f) => f.severity === "warning").length,
+  };
+}
+
+/**
+ * Formats a finding as a single line, e.g. for console output.
+ */
+export function formatLintFinding(finding: LintFinding): string {
+  return `${finding.severity.toUpperCase()} [${finding.rule}] ${finding.path}: ${finding.message} — ${finding.suggestion}`;
+}
+
+// ——— Graph checks ———
+
+function lintGraph(meld: ChessmeldMeldFormatCMFV001): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const { nodes } = meld;
+  const variant = variantOf(meld);
+
+  if (!nodes[meld.rootNodeId]) {
+    findings.push({
+      rule: "missing-root",
+      severity: "error",
+      path: "$.rootNodeId",
+      message: "rootNodeId does not reference a node.",
+      suggestion: "Set rootNodeId to the FEN of the starting node, or add that node to nodes.",
+    });
+  }
+
+  const policies = movePolicyByFen(meld.events);
+
+  for (const [key, node] of Object.entries(nodes)) {
+    const nodePath = `$.nodes[${quote(key)}]`;
+
+    (node.children || []).forEach((child, i) => {
+      const childPath = `${nodePath}.children[${i}]`;
+      const childNode = nodes[child.fen];
+
+      if (!childNode) {
+        findings.push({
+          rule: "dangling-child",
+          severity: "error",
+          path: `${childPath}.fen`,
+          message: `Child "${child.move}" points to a node that does not exist.`,
+          suggestion: "Remove the child reference or add the missing node.",
+        });
+      } else if (!(childNode.parents || []).some((p) => p.fen === key && p.move === child.move)) {
+        findings.push({
+          rule: "asymmetric-child",
+          severity: "error",
+          path: childPath,
+          message: `Child "${child.move}" has no matching parent reference back to this node.`,
+          suggestion: `Add { fen: ${quote(key)}, move: ${quote(child.move)} } to the child's parents.`,
+        });
+      }
+
+      // Moves recorded under a relaxed legal policy are not expected to replay.
+      if (policies.get(child.fen) && policies.get(child.fen) !== "strict") return;
+
+      const replayed = replaySan(node.fen, child.move, variant);
+      if (replayed === null) {
+        findings.push({
+          rule: "illegal-child-move",
+          severity: "error",
+          path: `${childPath}.move`,
+          message: `"${child.move}" is not a legal move from the parent position.`,
+          suggestion: "Correct the SAN, or record the move under a non-strict legal policy.",
+        });
+      } else if (!samePosition(replayed, child.fen)) {
+        findings.push({
+          rule: "child-fen-mismatch",
+          severity: "error",
+          path: `${childPath}.fen`,
+          message: `Playing "${child.move}" from the parent gives ${replayed}.`,
+          suggestion: `Set the child fen to ${quote(replayed)}.`,
+        });
+      }
+    });
+
+    (node.parents || []).forEach((parent, i) => {
+      const parentPath = `${nodePath}.parents[${i}]`;
+      const parentNode = nodes[parent.fen];
+
+      if (!parentNode) {
+        findings.push({
+          rule: "dangling-parent",
+          severity: "error",
+          path: `${parentPath}.fen`,
+          message: "Parent reference points to a node that does not exist.",
+          suggestion: "Remove the parent reference or add the missing node.",
+        });
+      } else if (!(parentNode.children || []).some((c) => c.fen === key && c.move === parent.move)) {
+        findings.push({
+          rule: "asymmetric-parent",
+          severity: "error",
+          path: parentPath,
+          message: `Parent has no child "${parent.move}" leading to this node.`,
+          suggestion: `Add { move: ${quote(parent.move)}, fen: ${quote(key)} } to the parent's children.`,
+        });
+      }
+    });
+  }
+
+  const reachable = reachableFrom(meld);
+  for (const key of Object.keys(nodes)) {
+    if (!reachable.has(key)) {
+      findings.push({
+        rule: "unreachable-node",
+        severity: "warning",
+        path: `$.nodes[${quote(key)}]`,
+        message: "Node cannot be reached from rootNodeId.",
+        suggestion: "Link it from a parent's children, or delete it.",
+      });
+    }
+  }
+
+  // Positions reached by different move orders should share one node
+  const nodeByPosition = new Map<string, string>();
+  for (const key of Object.keys(nodes)) {
+    const position = positionKey(key, variant);
+    const first = nodeByPosition.get(position);
+    if (first === undefined) {
+      nodeByPosition.set(position, key);
+    } else {
+      findings.push({
+        rule: "duplicate-position",
+        severity: "warning",
+        path: `$.nodes[${quote(key)}]`,
+        message: `Node holds the same position as ${quote(first)}, reached by another move order.`,
+        suggestion: "Run migrateMeld to merge the two nodes.",
+      });
+    }
+  }
+
+  return findings;
+}
+
+// ——— Event checks ———
+
+function lintEvents(meld: ChessmeldMeldFormatCMFV001): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const eventIds = new Map<string, number>();
+  const variant = variantOf(meld);
+
+  // Replay in chronological order, remembering each event's original index.
+  const ordered = meld.events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.t - b.event.t || a.index - b.index);
+
+  let currentFen = meld.meta.startingFen;
+
+  for (const { event, index } of ordered) {
+    const eventPath = `$.events[${index}]`;
+
+    if (hasPositionFen(event) && !meld.nodes[event.fen]) {
+      const isStructural = event.type === "move" || event.type === "navigate";
+      findings.push({
+        rule: "event-fen-not-node",
+        severity: isStructural ? "error" : "warning",
+        path: `${eventPath}.fen`,
+        message: `${event.type} event refers to a position that is not in nodes.`,
+        suggestion: isStructural
+          ? "Add the node to the graph, or correct the event's fen."
+          : "Set the fen to the position on the board when this event occurs.",
+      });
+    }
+
+    switch (event.type) {
+      case "navigate":
+        currentFen = event.fen;
+        break;
+
+      case "move": {
+        if (event.legalPolicy === "strict") {
+          const replayed = replayMove(currentFen, event, variant);
+          if (replayed === null) {
+            findings.push({
+              rule: "illegal-move-event",
+              severity: "error",
+              path: eventPath,
+              message: `${event.from}-${event.to} is not legal in the position before it (${currentFen}).`,
+              suggestion: "Check for a missing navigate event before this move, or fix from/to.",
+            });
+          } else if (!samePosition(replayed, event.fen)) {
+            findings.push({
+              rule: "move-fen-mismatch",
+              severity: "error",
+              path: `${eventPath}.fen`,
+              message: `Applying ${event.from}-${event.to} gives ${replayed}.`,
+              suggestion: `Set fen to ${quote(replayed)}, or fix from/to.`,
+            });
+          }
+        }
+        // Trust the recorded fen so one bad move doesn't cascade.
+        currentFen = event.fen;
+        break;
+      }
+
+      case "setFen":
+        if (event.fen) currentFen = event.fen;
+        break;
+
+      case "clear":
+        event.targets?.forEach((id, i) => {
+          const target = findEvent(meld.events, id);
+          if (target?.type === "annotate") return;
+          findings.push({
+            rule: "dangling-event-ref",
+            severity: "error",
+            path: `${eventPath}.targets[${i}]`,
+            message: target
+              ? `Event "${id}" is a ${target.type} event, not an annotate event.`
+              : `No event has the id "${id}".`,
+            suggestion: "List only the ids of annotate events, or remove targets to clear every annotation.",
+          });
+        });
+        break;
+
+      case "pausepoint": {
+        event.answers?.forEach((answer, i) => {
+          const move = tryMove(event.fen, answer.move, variant);
+          if (move && isPlayableAnswer(move)) return;
+          findings.push({
+            rule: "illegal-quiz-move",
+            severity: "error",
+            path: `${eventPath}.answers[${i}].move`,
+            message: move
+              ? `"${answer.move}" underpromotes, but the board always promotes to a queen, so it can't be played.`
+              : `"${answer.move}" is not a legal move from the pause point's position.`,
+            suggestion: move ? "Use a queen promotion, or ask the question another way." : "Correct the move, or check the pause point's fen.",
+          });
+        });
+
+        // Each refutation move is played from the position after the one before
+        let fen: string | null = event.fen;
+        event.refutation?.forEach((move, i) => {
+          if (fen === null) return;
+          fen = replaySan(fen, move, variant);
+          if (fen !== null) return;
+          findings.push({
+            rule: "illegal-quiz-move",
+            severity: "error",
+            path: `${eventPath}.refutation[${i}]`,
+            message: `"${move}" is not a legal move at this point in the refutation line.`,
+            suggestion: "Correct the line so each move follows from the one before it.",
+          });
+        });
+        break;
+      }
+
+      case "annotate": {
+        if (event.until === undefined) break;
+        const until = findEvent(meld.events, event.until);
+        if (!until) {
+          findings.push({
+            rule: "dangling-event-ref",
+            severity: "error",
+            path: `${eventPath}.until`,
+            message: `No event has the id "${event.until}".`,
+            suggestion: "Name a later event, or use durationMs instead.",
+          });
+        } else if (until.t < event.t) {
+          findings.push({
+            rule: "until-before-annotation",
+            severity: "warning",
+            path: `${eventPath}.until`,
+            message: `Event "${event.until}" at ${until.t}ms happens before these annotations appear, so they are never removed by it.`,
+            suggestion: "Name a later event, or remove until.",
+          });
+        }
+        break;
+      }
+    }
+
+    if (event.id !== undefined) {
+      const firstIndex = eventIds.get(event.id);
+      if (firstIndex === undefined) {
+        eventIds.set(event.id, index);
+      } else if (event.type === "pausepoint" && meld.events[firstIndex].type === "pausepoint") {
+        findings.push({
+          rule: "duplicate-pausepoint-id",
+          severity: "error",
+          path: `${eventPath}.id`,
+          message: `Pause point id "${event.id}" is already used by $.events[${firstIndex}].`,
+          suggestion: "Give each pause point a unique id.",
+        });
+      } else {
+        findings.push({
+          rule: "duplicate-event-id",
+          severity: "error",
+          path: `${eventPath}.id`,
+          message: `Event id "${event.id}" is already used by $.events[${firstIndex}].`,
+          suggestion: "Give each event a unique id.",
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+// ——— Helpers ———
+
+type PositionedEvent = Extract<Event, { type: "move" | "annotate" | "text" | "pausepoint" | "clear" | "navigate" }>;
+
+function hasPositionFen(event: Event): event is PositionedEvent {
+  return (
+    event.type === "move" ||
+    event.type === "annotate" ||
+    event.type === "text" ||
+    event.type === "pausepoint" ||
+    event.type === "clear" ||
+    event.type === "navigate"
+  );
+}
+
+function movePolicyByFen(events: Event[]): Map<string, MoveEvent["legalPolicy"]> {
+  const policies = new Map<string, MoveEvent["legalPolicy"]>();
+  for (const event of events) {
+    if (event.type === "move") policies.set(event.fen, event.legalPolicy);
+  }
+  return policies;
+}
+
+function reachableFrom(meld: ChessmeldMeldFormatCMFV001): Set<string> {
+  const visited = new Set<string>();
+  const stack = [meld.rootNodeId];
+  while (stack.length > 0) {
+    const key = stack.pop()!;
+    if (visited.has(key) || !meld.nodes[key]) continue;
+    visited.add(key);
+    for (const child of meld.nodes[key].children || []) stack.push(child.fen);
+  }
+  return visited;
+}
+
+// Also replays UCI moves, which applyMove accepts as strings too
+function replaySan(fen: string, san: string, variant: Variant): string | null {
+  return tryMove(fen, san, variant)?.after ?? null;
+}
+
+function tryMove(fen: string, san: string, variant: Variant): AppliedMove | null {
+  try {
+    return applyMove(fen, san, variant);
+  } catch {
+    return null;
+  }
+}
+
+function replayMove(fen: string, event: MoveEvent, variant: Variant): string | null {
+  try {
+    return applyMove(fen, { from: event.from, to: event.to, promotion: event.promo || "q" }, variant).after;
+  } catch {
+    return null;
+  }
+}
+
+// Compares placement, side to move and castling rights. The en passant field
+// is ignored because older chess.js versions always wrote it after a double
+// pawn push, and the clocks don't affect what is on the board.
+function samePosition(a: string, b: string): boolean {
+  return a.split(" ").slice(0, 3).join(" ") === b.split(" ").slice(0, 3).join(" ");
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
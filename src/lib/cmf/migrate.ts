@@ -0,0 +1,499 @@
+import { Chess, type Move } from "chess.js";
+import type {
+  ChessmeldMeldFormatCMFV001,
+  ColoredArrow,
+  ColoredSquare,
+  Event,
+  MoveEvent,
+  PositionNode,
+} from "./types";
+import { positionKey, reachesNode, type Variant } from "../variants";
+import { sequentialEventIds, withEventIds } from "./events";
+
+// Upgrades historical meld shapes to the current schema so that the renderer
+// only ever sees current-format data. Each migration is a pure function from
+// one JSON document to another; migrateMeld makes a single pass over the
+// registry, running each step that applies to the output of the steps before
+// it, so a step must come after any it depends on. Validate the result with
+// parseMeld.
+
+export const CURRENT_SCHEMA: ChessmeldMeldFormatCMFV001["schema"] = "cmf.v0.0.1";
+
+export interface Migration {
+  /** Stable identifier, reported in MigrationResult.applied. */
+  id: string;
+  description: string;
+  /** Whether this step has work to do on the given document. */
+  appliesTo: (doc: Record<string, unknown>) => boolean;
+  /** Returns an upgraded copy; must not mutate its input. */
+  migrate: (doc: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export interface MigrationResult {
+  /** The upgraded document. Still unvalidated — pass it to parseMeld. */
+  meld: unknown;
+  /** Ids of the migrations that ran, in order. */
+  applied: string[];
+}
+
+// ——— Legacy shapes ———
+
+type LegacyArrow = [string, string] | ColoredArrow;
+type LegacySquare = string | ColoredSquare;
+
+interface LegacyTrackEvent {
+  t: number;
+  type: string;
+  san?: string;
+  comment?: string;
+  text?: string;
+  id?: string;
+  label?: string;
+  prompt?: string;
+  arrows?: LegacyArrow[];
+  circles?: LegacySquare[];
+  note?: string;
+  action?: "click" | "back" | "forward" | "jump";
+  targetMoveIndex?: number;
+}
+
+interface LegacyTracksMeld {
+  schema: string;
+  meta: ChessmeldMeldFormatCMFV001["meta"];
+  tracks: {
+    mainline: LegacyTrackEvent[];
+    branches?: Record<string, LegacyTrackEvent[]>;
+  };
+  overlays?: ChessmeldMeldFormatCMFV001["overlays"];
+  precomputed?: ChessmeldMeldFormatCMFV001["precomputed"];
+}
+
+type LooseEvent = Record<string, unknown> & { t: number; type: string };
+
+// ——— Migrations ———
+
+/**
+ * The original linear format: `tracks.mainline` (plus optional
+ * `tracks.branches`) holding SAN-only moves, tuple arrows and bare-string
+ * circles. Replays the moves to build the position graph.
+ *
+ * A `branch.start` event splices in the events of the branch with the same id,
+ * played from the current mainline position; `branch.end` returns to that
+ * position with a `navigate` event.
+ */
+export const tracksToGraph: Migration = {
+  id: "tracks-to-graph",
+  description: "Convert the linear tracks.mainline/branches layout to the nodes/events graph.",
+  appliesTo: (doc) => isObject(doc.tracks) && !("nodes" in doc),
+  migrate: (doc) => {
+    const legacy = doc as unknown as LegacyTracksMeld;
+    const startingFen = legacy.meta.startingFen;
+    const nodes: Record<string, PositionNode> = {
+      [startingFen]: { fen: startingFen, children: [], parents: [], moveNumber: 0 },
+    };
+    const events: Event[] = [];
+
+    // Positions reached along the mainline, indexed as the legacy
+    // targetMoveIndex + 1 (legacy -1 is the starting position).
+    const mainlinePositions = [startingFen];
+    let currentFen = startingFen;
+
+    const replay = (trackEvents: LegacyTrackEvent[], onMainline: boolean) => {
+      for (const event of trackEvents) {
+        switch (event.type) {
+          case "move": {
+            const chess = new Chess(currentFen);
+            let move: Move;
+            try {
+              move = chess.move(event.san || "");
+            } catch {
+              throw new Error(`Cannot migrate meld: illegal move "${event.san}" at t=${event.t}`);
+            }
+            addChild(nodes, currentFen, move.san, move.after);
+            events.push(toMoveEvent(event.t, move, currentFen, event.comment));
+            currentFen = move.after;
+            if (onMainline) mainlinePositions.push(currentFen);
+            break;
+          }
+
+          case "annotate":
+            events.push({
+              t: event.t,
+              type: "annotate",
+              fen: currentFen,
+              ...(event.arrows && { arrows: event.arrows.map(toColoredArrow) }),
+              ...(event.circles && { circles: event.circles.map(toColoredSquare) }),
+              ...(event.note && { note: event.note }),
+            });
+            break;
+
+          case "text":
+            if (event.text) {
+              events.push({ t: event.t, type: "text", fen: currentFen, text: event.text });
+            }
+            break;
+
+          case "pausepoint":
+            events.push({
+              t: event.t,
+              type: "pausepoint",
+              fen: currentFen,
+              id: event.id || `pause-${event.t}`,
+              ...(event.prompt && { prompt: event.prompt }),
+            });
+            break;
+
+          case "navigate": {
+            const index = Math.max(0, (event.targetMoveIndex ?? -1) + 1);
+            const fen = mainlinePositions[Math.min(index, mainlinePositions.length - 1)];
+            const navigationType =
+              event.action === "back" || event.action === "forward" ? event.action : "to_move_index";
+            events.push({
+              t: event.t,
+              type: "navigate",
+              fen,
+              navigationType,
+              ...(navigationType === "to_move_index" && { targetMoveIndex: index }),
+              ...(event.comment && { comment: event.comment }),
+            });
+            currentFen = fen;
+            break;
+          }
+
+          case "branch.start": {
+            const branch = event.id ? legacy.tracks.branches?.[event.id] : undefined;
+            if (branch) {
+              const returnFen = currentFen;
+              replay(branch, false);
+              branchReturns.push(returnFen);
+            }
+            break;
+          }
+
+          case "branch.end": {
+            const returnFen = branchReturns.pop();
+            if (returnFen) {
+              events.push({ t: event.t, type: "navigate", fen: returnFen, navigationType: "to_node" });
+              currentFen = returnFen;
+            }
+            break;
+          }
+        }
+      }
+    };
+
+    const branchReturns: string[] = [];
+    replay(legacy.tracks.mainline, true);
+
+    const upgraded: Record<string, unknown> = { ...legacy, rootNodeId: startingFen, nodes, events };
+    delete upgraded.tracks;
+    return upgraded;
+  },
+};
+
+/**
+ * Early graph-format melds stored arrows as `[from, to]` tuples and circles as
+ * bare square strings.
+ */
+export const annotationObjects: Migration = {
+  id: "annotation-objects",
+  description: "Convert tuple arrows and bare-string squares to ColoredArrow/ColoredSquare objects.",
+  appliesTo: (doc) =>
+    eventsOf(doc).some(
+      (e) =>
+        e.type === "annotate" &&
+        (asArray(e.arrows).some(Array.isArray) ||
+          asArray(e.circles).some(isString) ||
+          asArray(e.highlights).some(isString))
+    ),
+  migrate: (doc) => ({
+    ...doc,
+    events: eventsOf(doc).map((e) => {
+      if (e.type !== "annotate") return e;
+      return {
+        ...e,
+        ...(e.arrows !== undefined && { arrows: asArray(e.arrows).map(toColoredArrow) }),
+        ...(e.circles !== undefined && { circles: asArray(e.circles).map(toColoredSquare) }),
+        ...(e.highlights !== undefined && { highlights: asArray(e.highlights).map(toColoredSquare) }),
+      };
+    }),
+  }),
+};
+
+/**
+ * Move events that only carry `san` get `from`/`to`, `color`, `legalPolicy`
+ * and `fen` by replaying them from the position before them.
+ */
+export const moveCoordinates: Migration = {
+  id: "move-coordinates",
+  description: "Fill in from/to, color, legalPolicy and fen on SAN-only move events.",
+  appliesTo: (doc) => eventsOf(doc).some((e) => e.type === "move" && !("from" in e && "to" in e)),
+  migrate: (doc) => {
+    const events = eventsOf(doc);
+    const meta = doc.meta as ChessmeldMeldFormatCMFV001["meta"];
+    const nodes = nodesOf(doc);
+    const upgraded = [...events];
+
+    // Replay chronologically, but write results back at the original indices.
+    const ordered = events
+      .map((event, index) => ({ event, index }))
+      .sort((a, b) => a.event.t - b.event.t || a.index - b.index);
+
+    let currentFen = meta.startingFen;
+    for (const { event, index } of ordered) {
+      if (event.type === "navigate" && isString(event.fen)) {
+        currentFen = event.fen;
+      } else if (event.type === "move") {
+        if ("from" in event && "to" in event) {
+          if (isString(event.fen)) currentFen = event.fen;
+          continue;
+        }
+        // If the move does not follow from the timeline, fall back to the
+        // graph: the parent node that reaches the recorded fen by this SAN.
+        const parentFen = [currentFen, ...parentsOf(nodes, event.fen, event.san)].find((fen) =>
+          tryMove(fen, event.san)
+        );
+        const move = parentFen && tryMove(parentFen, event.san);
+        if (!parentFen || !move) {
+          throw new Error(`Cannot migrate meld: illegal move "${event.san}" at t=${event.t}`);
+        }
+        const recordedFen = isString(event.fen) ? event.fen : move.after;
+        upgraded[index] = {
+          ...event,
+          ...toMoveEvent(event.t, move, parentFen, event.comment as string | undefined),
+          ...(isString(event.legalPolicy) && { legalPolicy: event.legalPolicy }),
+          fen: recordedFen,
+        };
+        currentFen = recordedFen;
+      }
+    }
+
+    return { ...doc, events: upgraded };
+  },
+};
+
+/**
+ * Nodes were keyed by full FEN, so a position reached by two move orders (with
+ * different move counters) could be stored as two nodes. Merges nodes with the
+ * same positionKey into the first one reached from the root and points every
+ * child, parent, event and precomputed eval at it. Repetitions stay separate
+ * nodes, since merging a node with one it leads to would make a cycle.
+ */
+export const mergeTranspositions: Migration = {
+  id: "merge-transpositions",
+  description: "Merge nodes holding the same position reached by different move orders.",
+  appliesTo: (doc) => duplicateNodeIds(doc).size > 0,
+  migrate: (doc) => {
+    const duplicates = duplicateNodeIds(doc);
+    const remap = <T>(value: T): T => (isString(value) ? ((duplicates.get(value) ?? value) as T) : value);
+    const relink = (node: PositionNode): PositionNode => ({
+      ...node,
+      children: (node.children || []).map((c) => ({ ...c, fen: remap(c.fen) })),
+      parents: (node.parents || []).map((p) => ({ ...p, fen: remap(p.fen) })),
+    });
+
+    const nodes: Record<string, PositionNode> = {};
+    const entries = Object.entries(nodesOf(doc));
+    for (const [id, node] of entries) {
+      if (!duplicates.has(id)) nodes[id] = relink(node);
+    }
+    for (const [id, node] of entries) {
+      const keptId = duplicates.get(id);
+      if (!keptId) continue;
+      const kept = nodes[keptId];
+      const merged = relink(node);
+      const comments = [kept.comment, merged.comment].filter(Boolean);
+      nodes[keptId] = {
+        ...kept,
+        children: uniqueBy([...(kept.children || []), ...(merged.children || [])], (c) => c.fen),
+        parents: uniqueBy([...(kept.parents || []), ...(merged.parents || [])], (p) => `${p.fen} ${p.move}`),
+        ...(comments.length > 0 && { comment: [...new Set(comments)].join(" ") }),
+        ...(merged.moveNumber !== undefined && {
+          moveNumber: Math.min(kept.moveNumber ?? merged.moveNumber, merged.moveNumber),
+        }),
+      };
+    }
+
+    return {
+      ...doc,
+      rootNodeId: remap(doc.rootNodeId),
+      nodes,
+      events: eventsOf(doc).map((e) => (isString(e.fen) ? { ...e, fen: remap(e.fen) } : e)),
+      ...(Array.isArray(doc.precomputed) && {
+        precomputed: (doc.precomputed as Record<string, unknown>[]).map((p) => ({ ...p, fen: remap(p.fen) })),
+      }),
+    };
+  },
+};
+
+/**
+ * Events were identified only by their timestamp. Gives every event without an
+ * id a readable one (`move-1`, `annotate-3`, ...) that is unique in the meld.
+ */
+export const eventIds: Migration = {
+  id: "event-ids",
+  description: "Give every event a stable id.",
+  appliesTo: (doc) => eventsOf(doc).some((e) => isObject(e) && e.id === undefined),
+  migrate: (doc) => {
+    const events = eventsOf(doc);
+    return { ...doc, events: withEventIds(events, sequentialEventIds(events)) };
+  },
+};
+
+/**
+ * Registered migrations, in the order they run. New schema versions append a
+ * step whose appliesTo checks `doc.schema` and whose migrate bumps it.
+ */
+export const migrations: Migration[] = [
+  tracksToGraph,
+  annotationObjects,
+  moveCoordinates,
+  mergeTranspositions,
+  eventIds,
+];
+
+/**
+ * Upgrades any known historical meld shape to the current schema. Documents
+ * already in the current format are returned unchanged.
+ */
+export function migrateMeld(input: unknown): MigrationResult {
+  if (!isObject(input)) return { meld: input, applied: [] };
+
+  let doc = input;
+  const applied: string[] = [];
+  for (const migration of migrations) {
+    if (migration.appliesTo(doc)) {
+      doc = migration.migrate(doc);
+      applied.push(migration.id);
+    }
+  }
+
+  return { meld: doc, applied };
+}
+
+// ——— Helpers ———
+
+function toMoveEvent(t: number, move: Move, beforeFen: string, comment?: string): MoveEvent {
+  return {
+    t,
+    type: "move",
+    from: move.from,
+    to: move.to,
+    ...(move.promotion && { promo: move.promotion as MoveEvent["promo"] }),
+    legalPolicy: "strict",
+    color: move.color,
+    moveNumber: Number(beforeFen.split(" ")[5]) || 1,
+    san: move.san,
+    ...(comment && { comment }),
+    fen: move.after,
+  };
+}
+
+function addChild(nodes: Record<string, PositionNode>, parentFen: string, san: string, childFen: string) {
+  const parent = nodes[parentFen];
+  if (!parent.children?.some((c) => c.fen === childFen)) {
+    parent.children = [...(parent.children || []), { move: san, fen: childFen }];
+  }
+
+  const child = nodes[childFen] || {
+    fen: childFen,
+    children: [],
+    parents: [],
+    moveNumber: (parent.moveNumber || 0) + 1, // half-moves, as the studio records them
+  };
+  if (!child.parents?.some((p) => p.fen === parentFen)) {
+    child.parents = [...(child.parents || []), { fen: parentFen, move: san }];
+  }
+  nodes[childFen] = child;
+}
+
+function tryMove(fen: string, san: unknown): Move | null {
+  try {
+    return new Chess(fen).move(String(san));
+  } catch {
+    return null;
+  }
+}
+
+function parentsOf(nodes: Record<string, PositionNode>, fen: unknown, san: unknown): string[] {
+  if (!isString(fen)) return [];
+  return (nodes[fen]?.parents || []).filter((p) => p.move === san).map((p) => p.fen);
+}
+
+// Maps each node id that repeats an earlier node's position to the id of that
+// node. Nodes are visited breadth-first from the root, then in document order.
+function duplicateNodeIds(doc: Record<string, unknown>): Map<string, string> {
+  const nodes = nodesOf(doc);
+  const variant = (isObject(doc.meta) && isString(doc.meta.variant) ? doc.meta.variant : "standard") as Variant;
+  const order: string[] = [];
+  const seen = new Set<string>();
+  const queue = isString(doc.rootNodeId) ? [doc.rootNodeId] : [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id) || !nodes[id]) continue;
+    seen.add(id);
+    order.push(id);
+    queue.push(...(nodes[id].children || []).map((c) => c.fen));
+  }
+  order.push(...Object.keys(nodes).filter((id) => !seen.has(id)));
+
+  // Merging two nodes when either reaches the other (a repetition) would make
+  // a cycle, so reachability is tracked through the merges made so far
+  const children = new Map(order.map((id) => [id, (nodes[id].children || []).map((c) => c.fen)]));
+  const duplicates = new Map<string, string>();
+  const childrenOf = (id: string) => (children.get(id) || []).map((fen) => duplicates.get(fen) ?? fen);
+
+  const keptByKey = new Map<string, string[]>();
+  for (const id of order) {
+    const key = positionKey(id, variant);
+    const kept = keptByKey.get(key) || [];
+    const into = kept.find((keptId) => !reachesNode(childrenOf, keptId, id) && !reachesNode(childrenOf, id, keptId));
+    if (into) {
+      duplicates.set(id, into);
+      children.set(into, [...children.get(into)!, ...children.get(id)!]);
+    } else {
+      keptByKey.set(key, [...kept, id]);
+    }
+  }
+  return duplicates;
+}
+
+function nodesOf(doc: Record<string, unknown>): Record<string, PositionNode> {
+  return (isObject(doc.nodes) ? doc.nodes : {}) as Record<string, PositionNode>;
+}
+
+function uniqueBy<T>(items: T[], keyOf: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = keyOf(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function toColoredArrow(arrow: unknown): ColoredArrow {
+  if (Array.isArray(arrow)) return { from: arrow[0], to: arrow[1], color: "yellow" };
+  return arrow as ColoredArrow;
+}
+
+function toColoredSquare(square: unknown): ColoredSquare {
+  if (isString(square)) return { square, color: "yellow" };
+  return square as ColoredSquare;
+}
+
+function eventsOf(doc: Record<string, unknown>): LooseEvent[] {
+  return asArray(doc.events) as LooseEvent[];
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
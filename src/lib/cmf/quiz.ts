@@ -0,0 +1,107 @@
+import { applyMove, type AppliedMove, type MoveInput, type Variant } from "../variants";
+import type { PausePointAnswer, PausePointEvent } from "./types";
+
+// A pause point with answers is a quiz: the student plays a move from the
+// pause point's position and it is graded against the answers, matching SAN
+// and UCI answers by the position they lead to.
+
+export type QuizGrade = "correct" | "partial" | "incorrect";
+
+export interface QuizResult {
+  /** The move the student played */
+  move: AppliedMove;
+  grade: QuizGrade;
+  /** From 0 for a wrong move to 1 for the best answer */
+  credit: number;
+  /** The answer the move matched, if any */
+  answer?: PausePointAnswer;
+  feedback?: string;
+  /** The rest of the refutation line, when the student played its first move */
+  refutation: AppliedMove[];
+}
+
+/**
+ * Checks if a pause point asks the student for a move.
+ */
+export function isQuiz(pausePoint: PausePointEvent): boolean {
+  return (pausePoint.answers?.length ?? 0) > 0;
+}
+
+/**
+ * Whether the student can play an answer's move. The player's board always
+ * promotes to a queen, so an underpromotion could never be played.
+ */
+export function isPlayableAnswer(move: AppliedMove): boolean {
+  return !move.promotion || move.promotion === "q";
+}
+
+/**
+ * Grades a move played at a pause point. The best-credited matching answer
+ * counts; an answer without credit is worth full credit. Throws if the move is
+ * not legal in the pause point's position.
+ */
+export function gradeQuizAttempt(
+  pausePoint: PausePointEvent,
+  attempt: MoveInput | string,
+  variant: Variant = "standard"
+): QuizResult {
+  const move = applyMove(pausePoint.fen, attempt, variant);
+
+  const answer = (pausePoint.answers ?? [])
+    .filter((candidate) => tryApplyMove(pausePoint.fen, candidate.move, variant)?.after === move.after)
+    .reduce<PausePointAnswer | undefined>((best, candidate) => (!best || creditOf(candidate) > creditOf(best) ? candidate : best), undefined);
+
+  const credit = answer ? creditOf(answer) : 0;
+  const grade: QuizGrade = credit >= 1 ? "correct" : credit > 0 ? "partial" : "incorrect";
+
+  return {
+    move,
+    grade,
+    credit,
+    ...(answer && { answer }),
+    feedback: answer?.feedback ?? (grade === "incorrect" ? pausePoint.wrongFeedback : undefined),
+    refutation: refutationAfter(pausePoint, move, variant),
+  };
+}
+
+/**
+ * The best-credited answer to a pause point, as played from its position, or
+ * null if it has no legal answers.
+ */
+export function bestQuizAnswer(pausePoint: PausePointEvent, variant: Variant = "standard"): AppliedMove | null {
+  const answers = [...(pausePoint.answers ?? [])].sort((a, b) => creditOf(b) - creditOf(a));
+  for (const answer of answers) {
+    const move = tryApplyMove(pausePoint.fen, answer.move, variant);
+    if (move) return move;
+  }
+  return null;
+}
+
+function creditOf(answer: PausePointAnswer): number {
+  return answer.credit ?? 1;
+}
+
+// The refutation line after its first move, if the student played that move.
+// The line stops at the first move that is not legal.
+function refutationAfter(pausePoint: PausePointEvent, move: AppliedMove, variant: Variant): AppliedMove[] {
+  const [first, ...rest] = pausePoint.refutation ?? [];
+  if (first === undefined || tryApplyMove(pausePoint.fen, first, variant)?.after !== move.after) return [];
+
+  const line: AppliedMove[] = [];
+  let fen = move.after;
+  for (const notation of rest) {
+    const next = tryApplyMove(fen, notation, variant);
+    if (!next) break;
+    line.push(next);
+    fen = next.after;
+  }
+  return line;
+}
+
+function tryApplyMove(fen: string, move: string, variant: Variant): AppliedMove | null {
+  try {
+    return applyMove(fen, move, variant);
+  } catch {
+    return null;
+  }
+}
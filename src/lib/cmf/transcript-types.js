@@ -1,5 +0,0 @@
-/**
- * TypeScript types for WhisperX transcript output format
- * Based on the Replicate WhisperX API response structure
- */
-export {};
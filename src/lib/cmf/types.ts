@@ -52,6 +52,14 @@ export type Event =
   | PausePointEvent
   | ClearAnnotationsEvent
   | NavigateEvent;
+/**
+ * A move in SAN (e.g. Nf3) or UCI (e.g. g1f3, e7e8q) notation.
+ */
+export type QuizMove = string;
+/**
+ * A stable identifier for an event, unique within the meld. Unlike the timestamp, it survives retiming, and other events can reference it.
+ */
+export type EventId = string;
 
 /**
  * The Chessmeld Meld Format (CMF) v0.0.1 uses a graph structure for positions and a flat chronological event list for audio-synced content, enabling efficient representation of complex branching with linear event processing. Includes legal policy system for flexible recording modes.
@@ -85,6 +93,10 @@ export interface ChessmeldMeldFormatCMFV001 {
      * The Forsyth-Edwards Notation (FEN) string representing the initial board position of the game.
      */
     startingFen: string;
+    /**
+     * The rules moves are played under. In chess960, castling rights in FENs may be written in X-FEN (KQkq for the outermost rooks, or a rook's file letter) or Shredder-FEN (file letters, e.g. HAha).
+     */
+    variant?: "standard" | "chess960";
     /**
      * Optional URI linking to an audio commentary or related media.
      */
@@ -120,7 +132,7 @@ export interface ChessmeldMeldFormatCMFV001 {
    */
   rootNodeId: string;
   /**
-   * Collection of all position nodes in the game tree, indexed by FEN string. Each FEN string uniquely identifies a chess position.
+   * Collection of all position nodes in the game tree, indexed by FEN string. A node is identified by its position (piece placement, side to move, castling rights and en passant square), so a position reached by different move orders has one node, keyed by the FEN it was first reached with.
    */
   nodes: {
     [k: string]: PositionNode;
@@ -171,6 +183,19 @@ export interface PositionNode {
    * The move number this position represents (0 for initial position).
    */
   moveNumber?: number;
+  /**
+   * Optional opening this position belongs to, as classified from its position.
+   */
+  opening?: {
+    /**
+     * Encyclopaedia of Chess Openings code, e.g. 'C50'.
+     */
+    eco: string;
+    /**
+     * Opening name, e.g. 'Italian Game'.
+     */
+    name: string;
+  };
 }
 /**
  * A reference to a child node representing a move from a parent position.
@@ -192,6 +217,10 @@ export interface ChildReference {
    * Optional commentary about this move or variation.
    */
   comment?: string;
+  /**
+   * Optional PGN Numeric Annotation Glyphs for this move (e.g. 1 for '!', 2 for '?', 14 for '+=').
+   */
+  nags?: number[];
 }
 /**
  * A reference to a parent node that can reach this position.
@@ -218,6 +247,10 @@ export interface MoveEvent {
    * Timestamp in milliseconds when this event occurs.
    */
   t: number;
+  /**
+   * Optional stable identifier for this event, unique within the meld.
+   */
+  id?: string;
   type: "move";
   /**
    * The source square of the move.
@@ -264,6 +297,10 @@ export interface EditEvent {
    * Timestamp in milliseconds when this event occurs.
    */
   t: number;
+  /**
+   * Optional stable identifier for this event, unique within the meld.
+   */
+  id?: string;
   /**
    * The type of edit operation.
    */
@@ -309,6 +346,10 @@ export interface SequenceEvent {
    * Timestamp in milliseconds when this event occurs.
    */
   t: number;
+  /**
+   * Optional stable identifier for this event, unique within the meld.
+   */
+  id?: string;
   /**
    * The type of sequence event.
    */
@@ -330,6 +371,10 @@ export interface AnnotateEvent {
    * Timestamp in milliseconds when this event occurs.
    */
   t: number;
+  /**
+   * Optional stable identifier for this event, unique within the meld.
+   */
+  id?: string;
   type: "annotate";
   /**
    * The FEN string of the position this event relates to.
@@ -347,10 +392,30 @@ export interface AnnotateEvent {
    * Squares to be highlighted with background color to emphasize important positions.
    */
   highlights?: ColoredSquare[];
+  /**
+   * Move-quality glyphs shown on squares.
+   */
+  glyphs?: SquareGlyph[];
+  /**
+   * Short text labels shown on squares.
+   */
+  labels?: SquareLabel[];
   /**
    * Optional textual note providing additional explanation or commentary.
    */
   note?: string;
+  /**
+   * How long the annotations stay on the board, in milliseconds from t.
+   */
+  durationMs?: number;
+  /**
+   * Id of a later event at which the annotations are removed.
+   */
+  until?: string;
+  /**
+   * When true, the annotations are removed at the next move event. When durationMs, until and untilNextMove are all omitted, the annotations stay until a clear event removes them; otherwise the earliest of them ends the annotations.
+   */
+  untilNextMove?: boolean;
 }
 /**
  * An arrow annotation with color information.
@@ -367,7 +432,15 @@ export interface ColoredArrow {
   /**
    * The color of the arrow annotation.
    */
-  color?: "green" | "red" | "yellow" | "blue";
+  color?: ("green" | "red" | "yellow" | "blue") | string;
+  /**
+   * Line style of the arrow. Dashed arrows show threats rather than moves.
+   */
+  style?: "solid" | "dashed";
+  /**
+   * Position of the arrow in a planned sequence of moves, shown as a numbered badge.
+   */
+  number?: number;
 }
 /**
  * A square annotation with color information.
@@ -380,7 +453,41 @@ export interface ColoredSquare {
   /**
    * The color of the square annotation.
    */
-  color?: "green" | "red" | "yellow" | "blue";
+  color?: ("green" | "red" | "yellow" | "blue") | string;
+}
+/**
+ * A move-quality glyph shown in the corner of a square, usually the square a move went to.
+ */
+export interface SquareGlyph {
+  /**
+   * The chessboard square to annotate.
+   */
+  square: string;
+  /**
+   * The glyph: brilliant, good, interesting, dubious, mistake or blunder.
+   */
+  glyph: "!!" | "!" | "!?" | "?!" | "?" | "??";
+  /**
+   * Badge color. When omitted, each glyph has its own conventional color.
+   */
+  color?: ("green" | "red" | "yellow" | "blue") | string;
+}
+/**
+ * A short text label shown on a square.
+ */
+export interface SquareLabel {
+  /**
+   * The chessboard square to annotate.
+   */
+  square: string;
+  /**
+   * The label, e.g. a letter or number naming the square.
+   */
+  text: string;
+  /**
+   * The color of the label.
+   */
+  color?: ("green" | "red" | "yellow" | "blue") | string;
 }
 /**
  * Event containing arbitrary textual information to be displayed at a specific time.
@@ -390,6 +497,10 @@ export interface TextEvent {
    * Timestamp in milliseconds when this event occurs.
    */
   t: number;
+  /**
+   * Optional stable identifier for this event, unique within the meld.
+   */
+  id?: string;
   type: "text";
   /**
    * The FEN string of the position this event relates to.
@@ -414,22 +525,59 @@ export interface PausePointEvent {
    */
   fen: string;
   /**
-   * Unique identifier for this pause point.
+   * Unique identifier for this pause point, which is also its event id.
    */
   id: string;
   /**
    * Optional prompt message displayed when the pause point is reached.
    */
   prompt?: string;
+  /**
+   * Moves the student is expected to find from this position. When there are any, the pause point is a quiz: the player lets the student move and grades the attempt.
+   */
+  answers?: PausePointAnswer[];
+  /**
+   * Hints the student can reveal one at a time, in order.
+   */
+  hints?: string[];
+  /**
+   * Feedback shown when the student plays a move that is not one of the answers.
+   */
+  wrongFeedback?: string;
+  /**
+   * A line from this position showing why a tempting wrong move fails. Its first move is the wrong move; the rest is shown when the student plays it.
+   */
+  refutation?: QuizMove[];
 }
 /**
- * Event indicating that all annotations should be cleared from the board.
+ * An expected answer to a pause point quiz.
+ */
+export interface PausePointAnswer {
+  /**
+   * The move, from the pause point's position.
+   */
+  move: string;
+  /**
+   * Credit for playing this move: 1 for the best answer, less for acceptable alternatives.
+   */
+  credit?: number;
+  /**
+   * Feedback shown when the student plays this move.
+   */
+  feedback?: string;
+}
+/**
+ * Event indicating that annotations should be cleared from the board: all of them, or only those of the annotate events listed in targets.
  */
 export interface ClearAnnotationsEvent {
   /**
    * Timestamp in milliseconds when this clear event occurs.
    */
   t: number;
+  /**
+   * Optional stable identifier for this event, unique within the meld.
+   */
+  id?: string;
   type: "clear";
   /**
    * The FEN string of the position this event relates to.
@@ -439,6 +587,10 @@ export interface ClearAnnotationsEvent {
    * Optional commentary about why annotations were cleared.
    */
   comment?: string;
+  /**
+   * Ids of the annotate events whose annotations this event removes. When omitted, every active annotation is cleared.
+   */
+  targets?: EventId[];
 }
 /**
  * Event representing navigation to a specific position in the game tree.
@@ -448,6 +600,10 @@ export interface NavigateEvent {
    * Timestamp in milliseconds when this navigation event occurs.
    */
   t: number;
+  /**
+   * A stable identifier for an event, unique within the meld. Unlike the timestamp, it survives retiming, and other events can reference it.
+   */
+  id?: string;
   type: "navigate";
   /**
    * The FEN string of the position being navigated to.
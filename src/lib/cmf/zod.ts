@@ -1,74 +1,195 @@
 import { z } from "zod";
+import type { ChessmeldMeldFormatCMFV001 } from "./types";
+
+// Mirrors schema/cmf.v0.0.1.json. Unknown keys are stripped rather than
+// rejected so that files carrying studio-only extras (e.g. `nodeId` on move
+// events) still load; the parsed output always has the exact CMF shape.
 
 // ——— Primitives ———
 const TimestampMs = z.number().int().min(0);
 const ColorSquare = z.string().regex(/^[a-h][1-8]$/);
-const Arrow = z.tuple([ColorSquare, ColorSquare]);
+const Fen = z.string().min(1);
+const LegalPolicy = z.enum(["strict", "pieceLegal", "none"]);
+const AnnotationColor = z.union([
+  z.enum(["green", "red", "yellow", "blue"]),
+  z.string().regex(/^#([0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/),
+]);
+const EventId = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/);
+// SAN or UCI
+const QuizMove = z.string().regex(/^[A-Za-z0-9+#=-]{2,10}$/);
 
-// ——— Events ———
-const EventBase = z.object({
-  t: TimestampMs,
-  type: z.string(),
+// URIs in real melds are frequently root-relative ("/audio/x.webm") or
+// relative ("./x.transcript.json"), which z.string().url() rejects.
+const Uri = z.string().min(1);
+
+const ColoredArrow = z.object({
+  from: ColorSquare,
+  to: ColorSquare,
+  color: AnnotationColor.optional(),
+  style: z.enum(["solid", "dashed"]).optional(),
+  number: z.number().int().min(1).max(99).optional(),
+});
+
+const ColoredSquare = z.object({
+  square: ColorSquare,
+  color: AnnotationColor.optional(),
+});
+
+const SquareGlyph = z.object({
+  square: ColorSquare,
+  glyph: z.enum(["!!", "!", "!?", "?!", "?", "??"]),
+  color: AnnotationColor.optional(),
 });
 
-const MoveEvent = EventBase.extend({
+const SquareLabel = z.object({
+  square: ColorSquare,
+  text: z.string().min(1).max(3),
+  color: AnnotationColor.optional(),
+});
+
+const PausePointAnswer = z.object({
+  move: QuizMove,
+  credit: z.number().min(0).max(1).optional(),
+  feedback: z.string().optional(),
+});
+
+// ——— Events ———
+const MoveEvent = z.object({
+  t: TimestampMs,
+  id: EventId.optional(),
   type: z.literal("move"),
-  san: z.string().min(1),
+  from: ColorSquare,
+  to: ColorSquare,
+  promo: z.enum(["q", "r", "b", "n"]).optional(),
+  legalPolicy: LegalPolicy,
+  color: z.enum(["w", "b"]),
+  moveNumber: z.number().int().min(1).optional(),
+  san: z.string().optional(),
   comment: z.string().optional(),
+  fen: Fen,
+});
+
+const EditEvent = z.object({
+  t: TimestampMs,
+  id: EventId.optional(),
+  type: z.enum(["setPiece", "setTurn", "setCastling", "setEnPassant", "setClock", "setFen"]),
+  square: ColorSquare.optional(),
+  piece: z.enum(["K", "Q", "R", "B", "N", "P", "k", "q", "r", "b", "n", "p"]).optional(),
+  color: z.enum(["w", "b"]).optional(),
+  white: z.enum(["", "K", "Q", "KQ"]).optional(),
+  black: z.enum(["", "k", "q", "kq"]).optional(),
+  whiteMs: z.number().int().min(0).optional(),
+  blackMs: z.number().int().min(0).optional(),
+  fen: z.string().optional(),
 });
 
-const AnnotateEvent = EventBase.extend({
+const SequenceEvent = z.object({
+  t: TimestampMs,
+  id: EventId.optional(),
+  type: z.enum(["beginSetupSequence", "endSetupSequence"]),
+  label: z.string().optional(),
+  colorFocus: z.enum(["w", "b"]).optional(),
+});
+
+const AnnotateEvent = z.object({
+  t: TimestampMs,
+  id: EventId.optional(),
   type: z.literal("annotate"),
-  arrows: z.array(Arrow).optional(),
-  circles: z.array(ColorSquare).optional(),
+  fen: Fen,
+  arrows: z.array(ColoredArrow).optional(),
+  circles: z.array(ColoredSquare).optional(),
+  highlights: z.array(ColoredSquare).optional(),
+  glyphs: z.array(SquareGlyph).optional(),
+  labels: z.array(SquareLabel).optional(),
   note: z.string().optional(),
+  durationMs: z.number().int().min(1).optional(),
+  until: EventId.optional(),
+  untilNextMove: z.boolean().optional(),
 });
 
-const TextEvent = EventBase.extend({
+const TextEvent = z.object({
+  t: TimestampMs,
+  id: EventId.optional(),
   type: z.literal("text"),
+  fen: Fen,
   text: z.string().min(1),
 });
 
-const PausePointEvent = EventBase.extend({
+const PausePointEvent = z.object({
+  t: TimestampMs,
   type: z.literal("pausepoint"),
-  id: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/),
+  fen: Fen,
+  id: EventId,
   prompt: z.string().optional(),
+  answers: z.array(PausePointAnswer).optional(),
+  hints: z.array(z.string().min(1)).optional(),
+  wrongFeedback: z.string().optional(),
+  refutation: z.array(QuizMove).optional(),
 });
 
-const BranchStartEvent = EventBase.extend({
-  type: z.literal("branch.start"),
-  id: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/),
-  label: z.string().optional(),
-});
-
-const BranchEndEvent = EventBase.extend({
-  type: z.literal("branch.end"),
-  id: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/),
+const ClearAnnotationsEvent = z.object({
+  t: TimestampMs,
+  id: EventId.optional(),
+  type: z.literal("clear"),
+  fen: Fen,
+  comment: z.string().optional(),
+  targets: z.array(EventId).optional(),
 });
 
-const NavigationEvent = EventBase.extend({
+const NavigateEvent = z.object({
+  t: TimestampMs,
+  id: EventId.optional(),
   type: z.literal("navigate"),
-  action: z.enum(["click", "back", "forward", "jump"]),
-  targetMoveIndex: z.number().int().min(-1),
-  sourceMoveIndex: z.number().int().min(-1).optional(),
+  fen: Fen,
+  navigationType: z.enum(["to_node", "to_move_index", "back", "forward", "start", "latest"]),
+  targetMoveIndex: z.number().int().min(0).optional(),
   comment: z.string().optional(),
 });
 
 const Event = z.discriminatedUnion("type", [
   MoveEvent,
+  EditEvent,
+  SequenceEvent,
   AnnotateEvent,
   TextEvent,
   PausePointEvent,
-  BranchStartEvent,
-  BranchEndEvent,
-  NavigationEvent,
+  ClearAnnotationsEvent,
+  NavigateEvent,
 ]);
 
-const EventList = z.array(Event);
+// ——— Graph ———
+const ChildReference = z.object({
+  move: z.string().min(1),
+  fen: Fen,
+  label: z.string().optional(),
+  comment: z.string().optional(),
+  nags: z.array(z.number().int().min(0).max(255)).optional(),
+});
+
+const ParentReference = z.object({
+  fen: Fen,
+  move: z.string().min(1),
+  label: z.string().optional(),
+});
+
+const PositionNode = z.object({
+  fen: Fen,
+  children: z.array(ChildReference).optional(),
+  parents: z.array(ParentReference).optional(),
+  label: z.string().optional(),
+  comment: z.string().optional(),
+  moveNumber: z.number().int().min(0).optional(),
+  opening: z
+    .object({
+      eco: z.string().regex(/^[A-E][0-9]{2}$/),
+      name: z.string().min(1),
+    })
+    .optional(),
+});
 
 // ——— Precomputed eval ———
 const PrecomputedEval = z.object({
-  fen: z.string().min(1),
+  fen: Fen,
   depth: z.number().int().min(1),
   cp: z.number().int().optional(),
   mate: z.number().int().optional(),
@@ -86,32 +207,58 @@ export const ChessmeldMeldSchema = z.object({
     title: z.string().min(1),
     author: z.string().min(1),
     createdAt: z.string().datetime(), // ISO 8601
-    startingFen: z.string().min(1),
-    audioUrl: z.string().url().optional(),
-    transcriptUrl: z.string().url().optional(),
+    startingFen: Fen,
+    variant: z.enum(["standard", "chess960"]).optional(),
+    audioUrl: Uri.optional(),
+    transcriptUrl: Uri.optional(),
     durationMs: z.number().int().min(0),
     tags: z.array(z.string().min(1)).optional(),
     engineHints: z.boolean().optional(),
   }),
-  tracks: z.object({
-    mainline: EventList,
-    branches: z.record(
-      z.string().regex(/^[A-Za-z0-9_-]{1,64}$/),
-      EventList
-    ).optional(),
-  }),
+  recordingDefaults: z.object({
+    legalPolicy: LegalPolicy.optional(),
+  }).optional(),
+  rootNodeId: Fen,
+  nodes: z.record(z.string(), PositionNode),
   overlays: z.object({
     legend: z.string().optional(),
   }).optional(),
   precomputed: z.array(PrecomputedEval).optional(),
+  events: z.array(Event),
+}).superRefine((meld, ctx) => {
+  if (!meld.nodes[meld.rootNodeId]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "rootNodeId must reference an entry in nodes.",
+      path: ["rootNodeId"],
+    });
+  }
 });
 
 export type ChessmeldMeld = z.infer<typeof ChessmeldMeldSchema>;
 
+export type ParseMeldResult =
+  | { ok: true; data: ChessmeldMeldFormatCMFV001 }
+  | { ok: false; errors: string[] };
+
 // Convenience function with nice error output
-export function parseMeld(input: unknown): { ok: true; data: ChessmeldMeld } | { ok: false; errors: string[] } {
+export function parseMeld(input: unknown): ParseMeldResult {
   const res = ChessmeldMeldSchema.safeParse(input);
-  if (res.success) return { ok: true, data: res.data };
+  // The schema mirrors the generated type; the only divergence is `best`,
+  // which the generated type spells out as a tuple union of length <= 5.
+  if (res.success) return { ok: true, data: res.data as ChessmeldMeldFormatCMFV001 };
   const errors = res.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
   return { ok: false, errors };
-}
\ No newline at end of file
+}
+
+/**
+ * Like parseMeld, but throws a single Error listing every issue. Intended for
+ * load points that already surface thrown errors to the user.
+ */
+export function assertMeld(input: unknown): ChessmeldMeldFormatCMFV001 {
+  const res = parseMeld(input);
+  if (!res.ok) {
+    throw new Error(`Invalid CMF meld:\n${res.errors.join("\n")}`);
+  }
+  return res.data;
+}
@@ -0,0 +1,49 @@
+// The app's IndexedDB database. Every store is created here, so each version
+// bump upgrades all of them in one place.
+
+const DB_NAME = 'chessmeld';
+const DB_VERSION = 2;
+
+export const DRILL_STORE = 'drill-cards';
+export const STUDIO_SESSION_STORE = 'studio-sessions';
+export const STUDIO_AUDIO_STORE = 'studio-audio-chunks';
+
+export type StoreName = typeof DRILL_STORE | typeof STUDIO_SESSION_STORE | typeof STUDIO_AUDIO_STORE;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DRILL_STORE)) {
+        db.createObjectStore(DRILL_STORE, { keyPath: 'card.id' });
+      }
+      if (!db.objectStoreNames.contains(STUDIO_SESSION_STORE)) {
+        db.createObjectStore(STUDIO_SESSION_STORE);
+      }
+      if (!db.objectStoreNames.contains(STUDIO_AUDIO_STORE)) {
+        db.createObjectStore(STUDIO_AUDIO_STORE, { autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Runs one request against a store in its own transaction */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,124 @@
+import type { ChessmeldMeldFormatCMFV001, PausePointAnswer, PausePointEvent } from '@/lib/cmf';
+import { getMainlinePath } from '@/lib/renderer';
+import { applyMove, positionKey, variantOf, type Variant } from '@/lib/variants';
+import { newDrillSchedule, type DrillSchedule } from './scheduler';
+
+export type DrillSide = 'w' | 'b';
+
+// Moves the meld plays as variations are accepted for partial credit
+const VARIATION_CREDIT = 0.5;
+
+/**
+ * A position to drill: the student plays a move and it is graded against the
+ * answers. Cards are keyed by position, so a position that appears in several
+ * melds shares one schedule.
+ */
+export interface DrillCard {
+  id: string;
+  fen: string;
+  variant: Variant;
+  answers: PausePointAnswer[];
+  prompt?: string;
+  hints?: string[];
+  /** The meld the card was last drilled from */
+  meldId: string;
+  meldTitle: string;
+}
+
+export interface DrillRecord {
+  card: DrillCard;
+  schedule: DrillSchedule;
+}
+
+export function sideToMove(fen: string): DrillSide {
+  return fen.split(' ')[1] === 'b' ? 'b' : 'w';
+}
+
+/**
+ * The positions of a meld to drill for one side: each mainline position with
+ * that side to move, answered by the mainline move or, for partial credit, a
+ * variation, and each pause point with answers for that side. A pause point's
+ * answers replace the moves of a mainline position it asks about.
+ */
+export function drillCardsFromMeld(meld: ChessmeldMeldFormatCMFV001, side: DrillSide): DrillCard[] {
+  const variant = variantOf(meld);
+  const cards = new Map<string, DrillCard>();
+  const cardAt = (fen: string, answers: PausePointAnswer[]): DrillCard => ({
+    id: positionKey(fen, variant),
+    fen,
+    variant,
+    answers,
+    meldId: meld.meta.id,
+    meldTitle: meld.meta.title
+  });
+
+  const { nodeIds } = getMainlinePath(meld);
+  for (const fen of nodeIds) {
+    const node = meld.nodes[fen];
+    if (!node || sideToMove(fen) !== side) continue;
+
+    // Moves recorded under looser legal policies may not be playable
+    const answers = (node.children ?? [])
+      .filter((child) => isLegal(fen, child.move, variant))
+      .map((child, index): PausePointAnswer => (index === 0 ? { move: child.move } : { move: child.move, credit: VARIATION_CREDIT }));
+    if (answers.length > 0) {
+      const card = cardAt(fen, answers);
+      cards.set(card.id, card);
+    }
+  }
+
+  const pausePoints = meld.events.filter(
+    (event): event is PausePointEvent => event.type === 'pausepoint' && (event.answers?.length ?? 0) > 0
+  );
+  for (const pausePoint of pausePoints) {
+    if (sideToMove(pausePoint.fen) !== side) continue;
+    const card = cardAt(pausePoint.fen, pausePoint.answers!);
+    cards.set(card.id, {
+      ...card,
+      ...(pausePoint.prompt && { prompt: pausePoint.prompt }),
+      ...(pausePoint.hints && { hints: pausePoint.hints })
+    });
+  }
+
+  return [...cards.values()];
+}
+
+/**
+ * The cards due for review, most overdue first: the meld's cards, which are
+ * due straight away if they have never been drilled, and stored cards from
+ * other melds for the same side.
+ */
+export function drillQueue(cards: DrillCard[], records: DrillRecord[], side: DrillSide, now: number): DrillRecord[] {
+  const stored = new Map(records.map((record) => [record.card.id, record]));
+  const fromMeld = cards.map((card) => ({ card, schedule: stored.get(card.id)?.schedule ?? newDrillSchedule(now) }));
+  const ids = new Set(cards.map((card) => card.id));
+  const fromOtherMelds = records.filter((record) => !ids.has(record.card.id) && sideToMove(record.card.fen) === side);
+
+  return [...fromMeld, ...fromOtherMelds]
+    .filter((record) => record.schedule.dueAt <= now)
+    .sort((a, b) => a.schedule.dueAt - b.schedule.dueAt);
+}
+
+/**
+ * A card as a pause point, to grade it like a pause point quiz.
+ */
+export function drillCardQuiz(card: DrillCard): PausePointEvent {
+  return {
+    t: 0,
+    type: 'pausepoint',
+    id: card.id,
+    fen: card.fen,
+    answers: card.answers,
+    ...(card.prompt && { prompt: card.prompt }),
+    ...(card.hints && { hints: card.hints })
+  };
+}
+
+function isLegal(fen: string, move: string, variant: Variant): boolean {
+  try {
+    applyMove(fen, move, variant);
+    return true;
+  } catch {
+    return false;
+  }
+}
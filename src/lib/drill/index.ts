@@ -0,0 +1,8 @@
+// Spaced-repetition drills of a meld's positions
+export type { ReviewQuality, DrillSchedule } from './scheduler';
+export { DAY_MS, newDrillSchedule, reviewDrillSchedule, reviewQualityOf } from './scheduler';
+
+export type { DrillSide, DrillCard, DrillRecord } from './cards';
+export { sideToMove, drillCardsFromMeld, drillQueue, drillCardQuiz } from './cards';
+
+export { loadDrillRecords, saveDrillRecord } from './storage';
@@ -0,0 +1,55 @@
+import type { QuizResult } from '@/lib/cmf';
+
+// SM-2 scheduling, as in SuperMemo 2: each review is graded from 0 (blackout)
+// to 5 (perfect). A grade of 3 or more passes and stretches the interval by the
+// card's ease; a failing grade starts the card over from a one-day interval.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface DrillSchedule {
+  /** Passing reviews in a row */
+  repetitions: number;
+  /** Days between the last review and the next */
+  intervalDays: number;
+  ease: number;
+  /** When the card is next due, in ms since the epoch */
+  dueAt: number;
+  reviewedAt?: number;
+}
+
+/**
+ * The schedule of a card that has never been reviewed, due straight away.
+ */
+export function newDrillSchedule(now: number): DrillSchedule {
+  return { repetitions: 0, intervalDays: 0, ease: INITIAL_EASE, dueAt: now };
+}
+
+export function reviewDrillSchedule(schedule: DrillSchedule, quality: ReviewQuality, now: number): DrillSchedule {
+  const ease = Math.max(MIN_EASE, schedule.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return { repetitions: 0, intervalDays: 1, ease, dueAt: now + DAY_MS, reviewedAt: now };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.intervalDays * schedule.ease);
+  return { repetitions, intervalDays, ease, dueAt: now + intervalDays * DAY_MS, reviewedAt: now };
+}
+
+/**
+ * Grades a drill from the student's attempts at its quiz: 5 for the best move
+ * first time, 4 for an alternative first time, 3 for getting there after a
+ * wrong move, and a fail otherwise.
+ */
+export function reviewQualityOf(attempts: QuizResult[]): ReviewQuality {
+  const [first] = attempts;
+  if (!first) return 0;
+  if (first.credit >= 1) return 5;
+  if (first.credit > 0) return 4;
+  return attempts.some((attempt) => attempt.credit > 0) ? 3 : 1;
+}
@@ -0,0 +1,13 @@
+import { DRILL_STORE, withStore } from '@/lib/database';
+import type { DrillRecord } from './cards';
+
+// Drill records are kept in IndexedDB, keyed by card id, so due positions
+// resurface across sessions and melds
+
+export function loadDrillRecords(): Promise<DrillRecord[]> {
+  return withStore(DRILL_STORE, 'readonly', (store) => store.getAll() as IDBRequest<DrillRecord[]>);
+}
+
+export async function saveDrillRecord(record: DrillRecord): Promise<void> {
+  await withStore(DRILL_STORE, 'readwrite', (store) => store.put(record));
+}
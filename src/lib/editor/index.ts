@@ -0,0 +1,5 @@
+// Retiming a meld's events on a timeline under its audio's waveform
+export type { TimelineLane } from './timeline';
+export { TIMELINE_LANES, timelineLane, retimeEvents, wordBoundaries, snapToBoundary, moveOrderProblems } from './timeline';
+
+export { waveformPeaks, loadWaveform } from './waveform';
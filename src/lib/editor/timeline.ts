@@ -0,0 +1,68 @@
+import type { ChessmeldMeldFormatCMFV001, Event, WhisperXWord } from '@/lib/cmf';
+import { lintMeld } from '@/lib/cmf';
+
+// The timeline editor shows one lane per event type. Setup edits and
+// sequences, which the studio doesn't record, share a lane.
+export const TIMELINE_LANES = ['move', 'navigate', 'annotate', 'clear', 'text', 'pausepoint', 'other'] as const;
+
+export type TimelineLane = (typeof TIMELINE_LANES)[number];
+
+export function timelineLane(event: Event): TimelineLane {
+  return (TIMELINE_LANES as readonly string[]).includes(event.type) ? (event.type as TimelineLane) : 'other';
+}
+
+/**
+ * Moves the selected events, by index, by deltaMs as a group. The shift is
+ * limited so that none is moved before 0 or past durationMs, which keeps
+ * their spacing. Returns the same array when nothing moves.
+ */
+export function retimeEvents(
+  events: Event[],
+  selected: ReadonlySet<number>,
+  deltaMs: number,
+  durationMs: number
+): Event[] {
+  const times = [...selected].filter((index) => index < events.length).map((index) => events[index].t);
+  if (times.length === 0) return events;
+
+  const earliest = Math.min(...times);
+  const latest = Math.max(...times);
+  const shift = Math.round(Math.min(Math.max(deltaMs, -earliest), Math.max(0, durationMs - latest)));
+  if (shift === 0) return events;
+
+  return events.map((event, index) => (selected.has(index) ? { ...event, t: event.t + shift } : event));
+}
+
+/** The start and end of every word in ms, in order, to snap events to */
+export function wordBoundaries(words: WhisperXWord[]): number[] {
+  const boundaries = words.flatMap((word) => [Math.round(word.start * 1000), Math.round(word.end * 1000)]);
+  return [...new Set(boundaries)].sort((a, b) => a - b);
+}
+
+/** The boundary nearest to t if it's within thresholdMs, else t */
+export function snapToBoundary(t: number, boundaries: readonly number[], thresholdMs: number): number {
+  let nearest = t;
+  let distance = thresholdMs;
+  for (const boundary of boundaries) {
+    if (Math.abs(boundary - t) <= distance) {
+      nearest = boundary;
+      distance = Math.abs(boundary - t);
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Move events that don't play in order, keyed by index, with the reason:
+ * lintMeld's findings for moves that are illegal, or land on another
+ * position, where the events before them leave the board
+ */
+export function moveOrderProblems(meld: ChessmeldMeldFormatCMFV001): Map<number, string> {
+  const problems = new Map<number, string>();
+  for (const finding of lintMeld(meld).findings) {
+    if (finding.rule !== 'illegal-move-event' && finding.rule !== 'move-fen-mismatch') continue;
+    const match = /^\$\.events\[(\d+)\]/.exec(finding.path);
+    if (match) problems.set(Number(match[1]), finding.message);
+  }
+  return problems;
+}
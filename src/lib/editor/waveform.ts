@@ -0,0 +1,37 @@
+/**
+ * The peak amplitude, from 0 to 1, of each of `buckets` equal slices of the
+ * audio, across all channels
+ */
+export function waveformPeaks(channels: Float32Array[], buckets: number): number[] {
+  const length = channels[0]?.length ?? 0;
+  if (length === 0 || buckets <= 0) return [];
+
+  const peaks: number[] = [];
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor((bucket * length) / buckets);
+    const end = Math.max(start + 1, Math.floor(((bucket + 1) * length) / buckets));
+    let peak = 0;
+    for (const samples of channels) {
+      for (let i = start; i < end && i < length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+    }
+    peaks.push(Math.min(1, peak));
+  }
+  return peaks;
+}
+
+/** Decodes an audio file and measures its waveform */
+export async function loadWaveform(audioUrl: string, buckets: number): Promise<{ peaks: number[]; durationMs: number }> {
+  const response = await fetch(audioUrl);
+  if (!response.ok) throw new Error(`Failed to load audio: ${response.statusText}`);
+
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await response.arrayBuffer());
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    return { peaks: waveformPeaks(channels, buckets), durationMs: Math.round(buffer.duration * 1000) };
+  } finally {
+    await context.close();
+  }
+}
@@ -0,0 +1,175 @@
+import type { ChessmeldMeldFormatCMFV001, ChildReference, PrecomputedEval } from '@/lib/cmf';
+import { applyMove, positionKey, variantOf, type Variant } from '@/lib/variants';
+
+// Grades each move of a meld by how much of the mover's advantage it gives
+// away, comparing the precomputed evaluations of the positions before and
+// after it. Moves into or out of positions without an evaluation are left
+// unclassified.
+
+export type MoveQuality = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+/** The centipawns a move may lose before it counts as each grade */
+export interface QualityThresholds {
+  inaccuracy: number;
+  mistake: number;
+  blunder: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = { inaccuracy: 50, mistake: 100, blunder: 300 };
+
+/** Glyphs for the grades that get one: ?! (6), ? (2) and ?? (4) */
+export const MOVE_QUALITY_NAGS: Partial<Record<MoveQuality, number>> = { inaccuracy: 6, mistake: 2, blunder: 4 };
+
+const MOVE_QUALITY_LABELS: Record<MoveQuality, string> = {
+  best: 'Best move',
+  good: 'Good move',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  blunder: 'Blunder'
+};
+
+// NAGs 1 to 6 judge the move itself; a move has at most one of them
+const MOVE_ASSESSMENT_NAGS = [1, 2, 3, 4, 5, 6];
+
+// Mates score beyond any material advantage, sooner mates higher
+const MATE_CP = 10000;
+
+export interface MoveClassification {
+  /** The position the move is played from */
+  fen: string;
+  /** The move as stored on the parent's child reference */
+  move: string;
+  /** The position the move leads to */
+  childFen: string;
+  quality: MoveQuality;
+  /** Centipawns the mover gave away, from 0 */
+  loss: number;
+  /** The engine's best move in the position before, in SAN, if known */
+  bestMove?: string;
+}
+
+function scoreOf(entry: PrecomputedEval): number | null {
+  if (entry.mate !== undefined) return Math.sign(entry.mate) * (MATE_CP - Math.abs(entry.mate));
+  return entry.cp ?? null;
+}
+
+function toSan(fen: string, move: string, variant: Variant): string | undefined {
+  try {
+    return applyMove(fen, move, variant).san;
+  } catch {
+    return undefined;
+  }
+}
+
+function qualityOf(loss: number, isBest: boolean, thresholds: QualityThresholds): MoveQuality {
+  if (isBest) return 'best';
+  if (loss >= thresholds.blunder) return 'blunder';
+  if (loss >= thresholds.mistake) return 'mistake';
+  if (loss >= thresholds.inaccuracy) return 'inaccuracy';
+  return 'good';
+}
+
+/**
+ * Classifies every move of a meld from its precomputed evaluations. A move is
+ * best if it is the engine's first choice or delivers mate; otherwise it is
+ * graded by the centipawns it loses against the given thresholds.
+ */
+export function classifyMoves(
+  meld: ChessmeldMeldFormatCMFV001,
+  thresholds: Partial<QualityThresholds> = {}
+): MoveClassification[] {
+  const limits = { ...DEFAULT_QUALITY_THRESHOLDS, ...thresholds };
+  const variant = variantOf(meld);
+  const entries = new Map((meld.precomputed ?? []).map((entry) => [positionKey(entry.fen, variant), entry]));
+  const classifications: MoveClassification[] = [];
+
+  for (const node of Object.values(meld.nodes)) {
+    const before = entries.get(positionKey(node.fen, variant));
+    const scoreBefore = before ? scoreOf(before) : null;
+    if (!before || scoreBefore === null) continue;
+
+    const bestMove = before.best?.[0] !== undefined ? toSan(node.fen, before.best[0], variant) : undefined;
+    // Positive scores favour White, so Black gains as the score falls
+    const sign = node.fen.split(' ')[1] === 'b' ? -1 : 1;
+
+    for (const child of node.children ?? []) {
+      const san = toSan(node.fen, child.move, variant);
+      if (san === undefined) continue;
+
+      const after = entries.get(positionKey(child.fen, variant));
+      const scoreAfter = after ? scoreOf(after) : null;
+      const mates = san.endsWith('#');
+      if (scoreAfter === null && !mates) continue;
+
+      const loss = mates ? 0 : Math.max(0, sign * (scoreBefore - scoreAfter!));
+      classifications.push({
+        fen: node.fen,
+        move: child.move,
+        childFen: child.fen,
+        quality: qualityOf(loss, mates || san === bestMove, limits),
+        loss,
+        ...(bestMove !== undefined && { bestMove })
+      });
+    }
+  }
+
+  return classifications;
+}
+
+/** A suggested comment for a classified move, e.g. "Mistake. Nf3 was best." */
+export function moveQualityComment(classification: MoveClassification): string {
+  const label = MOVE_QUALITY_LABELS[classification.quality];
+  if (classification.quality === 'best' || classification.quality === 'good' || !classification.bestMove) {
+    return `${label}.`;
+  }
+  return `${label}. ${classification.bestMove} was best.`;
+}
+
+export interface ApplyMoveQualityOptions {
+  /** Grades to annotate; inaccuracies, mistakes and blunders by default */
+  qualities?: MoveQuality[];
+  /** Whether to add suggested comments to moves without one */
+  comments?: boolean;
+}
+
+/**
+ * Annotates a meld's child references with the glyphs of their grades, in
+ * place of any existing move assessment, and optionally with suggested
+ * comments. Existing comments are kept.
+ */
+export function applyMoveQuality(
+  meld: ChessmeldMeldFormatCMFV001,
+  classifications: MoveClassification[],
+  options: ApplyMoveQualityOptions = {}
+): ChessmeldMeldFormatCMFV001 {
+  const qualities = options.qualities ?? ['inaccuracy', 'mistake', 'blunder'];
+  const byMove = new Map(
+    classifications
+      .filter((classification) => qualities.includes(classification.quality))
+      .map((classification) => [`${classification.fen}|${classification.childFen}`, classification])
+  );
+  if (byMove.size === 0) return meld;
+
+  const annotate = (fen: string, child: ChildReference): ChildReference => {
+    const classification = byMove.get(`${fen}|${child.fen}`);
+    if (!classification) return child;
+
+    const nag = MOVE_QUALITY_NAGS[classification.quality];
+    const nags = [...(child.nags ?? []).filter((existing) => !MOVE_ASSESSMENT_NAGS.includes(existing)), ...(nag !== undefined ? [nag] : [])];
+    const annotated: ChildReference = {
+      ...child,
+      ...(options.comments && !child.comment && { comment: moveQualityComment(classification) })
+    };
+    if (nags.length > 0) annotated.nags = nags;
+    else delete annotated.nags;
+    return annotated;
+  };
+
+  const nodes = Object.fromEntries(
+    Object.entries(meld.nodes).map(([fen, node]) => [
+      fen,
+      node.children ? { ...node, children: node.children.map((child) => annotate(node.fen, child)) } : node
+    ])
+  );
+  return { ...meld, nodes };
+}
@@ -0,0 +1,38 @@
+import { applyMove, type Variant } from '@/lib/variants';
+import type { EngineLine } from './types';
+
+/** A line's score for display, e.g. "+0.35", "-1.20" or "#-3", or "" without one */
+export function formatScore(line: Pick<EngineLine, 'cp' | 'mate'>): string {
+  if (line.mate !== undefined) return `#${line.mate}`;
+  if (line.cp === undefined) return '';
+  const pawns = (line.cp / 100).toFixed(2);
+  return line.cp > 0 ? `+${pawns}` : pawns;
+}
+
+/**
+ * White's share of an eval bar, from 0 to 1: even at 0.5, approaching 1 as
+ * White's advantage grows and 1 when White mates
+ */
+export function whiteShare(line: Pick<EngineLine, 'cp' | 'mate'>): number {
+  if (line.mate !== undefined) return line.mate > 0 ? 1 : 0;
+  if (line.cp === undefined) return 0.5;
+  return 1 / (1 + Math.exp(-line.cp / 250));
+}
+
+/**
+ * A principal variation in SAN, stopping at the first move that is not legal
+ */
+export function pvToSan(fen: string, pv: string[], variant: Variant = 'standard'): string[] {
+  const sans: string[] = [];
+  let position = fen;
+  for (const move of pv) {
+    try {
+      const applied = applyMove(position, move, variant);
+      sans.push(applied.san);
+      position = applied.after;
+    } catch {
+      break;
+    }
+  }
+  return sans;
+}
@@ -0,0 +1,23 @@
+// Engine analysis behind a provider interface; the Node child-process
+// provider is in './process'
+export type { EngineLine, EngineEvaluation, AnalysisOptions, EngineProvider } from './types';
+export { isAbortError } from './types';
+
+export type { UciTransport } from './uci';
+export { parseUciInfo, createUciEngine } from './uci';
+
+export { DEFAULT_STOCKFISH_URL, createWorkerTransport, createStockfishEngine } from './worker';
+export { precomputedEvaluation, createPrecomputedEngine } from './precomputed';
+export { formatScore, whiteShare, pvToSan } from './format';
+
+export type { PrecomputeProgress, PrecomputeOptions } from './precompute';
+export { toPrecomputedEval, precomputeEvaluations } from './precompute';
+
+export type { MoveQuality, QualityThresholds, MoveClassification, ApplyMoveQualityOptions } from './classify';
+export {
+  DEFAULT_QUALITY_THRESHOLDS,
+  MOVE_QUALITY_NAGS,
+  classifyMoves,
+  moveQualityComment,
+  applyMoveQuality
+} from './classify';
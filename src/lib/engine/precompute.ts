@@ -0,0 +1,95 @@
+import type { ChessmeldMeldFormatCMFV001, PrecomputedEval } from '@/lib/cmf';
+import { positionKey, variantOf, type Variant } from '@/lib/variants';
+import { pvToSan } from './format';
+import { abortError, type EngineEvaluation, type EngineProvider } from './types';
+
+// Bakes engine evaluations into a meld's `precomputed` array, one entry per
+// node. Entries already at the requested depth are kept, so an interrupted
+// run resumes where it stopped if the caller saved the entries reported so far.
+
+const DEFAULT_DEPTH = 18;
+const MAX_BEST_MOVES = 5;
+
+export interface PrecomputeProgress {
+  /** Nodes evaluated or skipped so far */
+  done: number;
+  total: number;
+  fen: string;
+  skipped: boolean;
+}
+
+export interface PrecomputeOptions {
+  /** Search depth, 18 by default */
+  depth?: number;
+  /** Best moves to record per position, up to five; 3 by default */
+  bestMoves?: number;
+  /** Called with all entries after each new one, for the caller to save */
+  onEntry?: (precomputed: PrecomputedEval[]) => void;
+  onProgress?: (progress: PrecomputeProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * An engine evaluation as a precomputed entry, with its best moves in SAN,
+ * or null if the engine found no moves (checkmate or stalemate)
+ */
+export function toPrecomputedEval(evaluation: EngineEvaluation, variant: Variant = 'standard'): PrecomputedEval | null {
+  const [best] = evaluation.lines;
+  if (!best || (best.cp === undefined && best.mate === undefined)) return null;
+
+  return {
+    fen: evaluation.fen,
+    depth: evaluation.depth,
+    ...(best.mate !== undefined ? { mate: best.mate } : { cp: best.cp }),
+    // At most MAX_BEST_MOVES, which the schema's tuple type cannot see
+    best: evaluation.lines
+      .slice(0, MAX_BEST_MOVES)
+      .map((line) => pvToSan(evaluation.fen, line.pv.slice(0, 1), variant)[0])
+      .filter((move): move is string => move !== undefined) as PrecomputedEval['best']
+  };
+}
+
+/**
+ * Evaluates every node of a meld with the engine, returning the meld's
+ * precomputed entries with new and deeper ones in place of shallower ones.
+ * Rejects with an AbortError once signal aborts.
+ */
+export async function precomputeEvaluations(
+  meld: ChessmeldMeldFormatCMFV001,
+  engine: EngineProvider,
+  options: PrecomputeOptions = {}
+): Promise<PrecomputedEval[]> {
+  const depth = options.depth ?? DEFAULT_DEPTH;
+  const multiPv = Math.min(Math.max(options.bestMoves ?? 3, 1), MAX_BEST_MOVES);
+  const variant = variantOf(meld);
+  const fens = Object.values(meld.nodes).map((node) => node.fen);
+
+  let precomputed = [...(meld.precomputed ?? [])];
+  const indexByKey = new Map(precomputed.map((entry, index) => [positionKey(entry.fen, variant), index]));
+
+  for (const [index, fen] of fens.entries()) {
+    if (options.signal?.aborted) throw abortError();
+
+    const key = positionKey(fen, variant);
+    const existing = indexByKey.get(key);
+    if (existing !== undefined && precomputed[existing].depth >= depth) {
+      options.onProgress?.({ done: index + 1, total: fens.length, fen, skipped: true });
+      continue;
+    }
+
+    const evaluation = await engine.analyze(fen, { depth, multiPv, signal: options.signal });
+    const entry = toPrecomputedEval(evaluation, variant);
+    if (entry) {
+      if (existing !== undefined) {
+        precomputed = precomputed.map((candidate, i) => (i === existing ? entry : candidate));
+      } else {
+        indexByKey.set(key, precomputed.length);
+        precomputed = [...precomputed, entry];
+      }
+      options.onEntry?.(precomputed);
+    }
+    options.onProgress?.({ done: index + 1, total: fens.length, fen, skipped: false });
+  }
+
+  return precomputed;
+}
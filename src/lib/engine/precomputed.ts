@@ -0,0 +1,55 @@
+import type { ChessmeldMeldFormatCMFV001, PrecomputedEval } from '@/lib/cmf';
+import { applyMove, positionKey, variantOf, type Variant } from '@/lib/variants';
+import type { EngineEvaluation, EngineLine, EngineProvider } from './types';
+
+// A meld's `precomputed` entries answer for the engine where none can run.
+// Each of an entry's best moves becomes a one-move line; only the first line
+// carries the entry's score.
+
+function toUci(fen: string, move: string, variant: Variant): string | null {
+  try {
+    const applied = applyMove(fen, move, variant);
+    return `${applied.from}${applied.to}${applied.promotion ?? ''}`;
+  } catch {
+    return null;
+  }
+}
+
+function evaluationOf(entry: PrecomputedEval, fen: string, variant: Variant): EngineEvaluation {
+  const moves = (entry.best ?? [])
+    .map((move) => toUci(entry.fen, move, variant))
+    .filter((move): move is string => move !== null);
+  const score = entry.mate !== undefined ? { mate: entry.mate } : entry.cp !== undefined ? { cp: entry.cp } : {};
+
+  const lines: EngineLine[] = moves.length > 0
+    ? moves.map((move, index) => ({ rank: index + 1, depth: entry.depth, ...(index === 0 && score), pv: [move] }))
+    : [{ rank: 1, depth: entry.depth, ...score, pv: [] }];
+  return { fen, depth: entry.depth, lines };
+}
+
+/**
+ * The meld's precomputed evaluation of a position, matched by position key,
+ * or null if it has none.
+ */
+export function precomputedEvaluation(meld: ChessmeldMeldFormatCMFV001, fen: string): EngineEvaluation | null {
+  const variant = variantOf(meld);
+  const key = positionKey(fen, variant);
+  const entry = meld.precomputed?.find((candidate) => positionKey(candidate.fen, variant) === key);
+  return entry ? evaluationOf(entry, fen, variant) : null;
+}
+
+/**
+ * An engine provider that answers from a meld's precomputed evaluations, and
+ * rejects for positions without one.
+ */
+export function createPrecomputedEngine(meld: ChessmeldMeldFormatCMFV001): EngineProvider {
+  return {
+    analyze: async (fen, options = {}) => {
+      const evaluation = precomputedEvaluation(meld, fen);
+      if (!evaluation) throw new Error('No precomputed evaluation for this position');
+      const lines = evaluation.lines.slice(0, options.multiPv ?? 1);
+      return { ...evaluation, lines };
+    },
+    dispose: () => {}
+  };
+}
@@ -0,0 +1,40 @@
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { createUciEngine, type UciTransport } from './uci';
+import type { EngineProvider } from './types';
+
+// Node only: runs any UCI binary as a child process, e.g. in tests or for
+// precomputing evaluations. Import it from '@/lib/engine/process'; the engine
+// index leaves it out so browser bundles do not pull in child_process.
+
+export function createProcessTransport(command: string, args: string[] = []): UciTransport {
+  const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'ignore'] });
+  let closed = false;
+  const transport: UciTransport = {
+    onLine: null,
+    onError: null,
+    send: (line) => {
+      if (!closed) child.stdin.write(`${line}\n`);
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      child.stdin.end();
+      child.kill();
+    }
+  };
+
+  createInterface({ input: child.stdout }).on('line', (line) => transport.onLine?.(line));
+  child.on('error', (error) => transport.onError?.(error));
+  child.stdin.on('error', (error) => transport.onError?.(error));
+  child.on('exit', (code) => {
+    if (!closed) transport.onError?.(new Error(`Engine ${command} exited with code ${code}`));
+    closed = true;
+  });
+  return transport;
+}
+
+/** Starts a UCI engine binary in a child process */
+export function createProcessEngine(command: string, args: string[] = []): EngineProvider {
+  return createUciEngine(createProcessTransport(command, args));
+}
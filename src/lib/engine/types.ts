@@ -0,0 +1,53 @@
+// Engine analysis is exposed through EngineProvider, whatever runs the search:
+// a WASM Stockfish in a Web Worker, a UCI binary in a child process, or a
+// meld's precomputed evaluations.
+
+/** One line of analysis. Scores are from White's point of view, as in PrecomputedEval. */
+export interface EngineLine {
+  /** 1 for the best line */
+  rank: number;
+  depth: number;
+  cp?: number;
+  mate?: number;
+  /** The principal variation in UCI notation */
+  pv: string[];
+}
+
+export interface EngineEvaluation {
+  fen: string;
+  depth: number;
+  /** Best line first */
+  lines: EngineLine[];
+}
+
+export interface AnalysisOptions {
+  /** Search depth, 18 by default */
+  depth?: number;
+  /** Search for a fixed time instead of to a depth */
+  movetimeMs?: number;
+  /** Number of lines to report, 1 by default */
+  multiPv?: number;
+  /** Called with the evaluation so far whenever the engine reports a line */
+  onUpdate?: (evaluation: EngineEvaluation) => void;
+  signal?: AbortSignal;
+}
+
+export interface EngineProvider {
+  /**
+   * Resolves with the evaluation once the search ends, or rejects with an
+   * AbortError once signal aborts. Searches run one at a time, in order.
+   */
+  analyze(fen: string, options?: AnalysisOptions): Promise<EngineEvaluation>;
+  /** Stops the engine and rejects pending searches */
+  dispose(): void;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function abortError(): Error {
+  const error = new Error('Engine analysis was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,163 @@
+import { abortError, type AnalysisOptions, type EngineEvaluation, type EngineLine, type EngineProvider } from './types';
+
+// The Universal Chess Interface: commands and replies are lines of text. The
+// adapter sends `uci` once, then for each search `position fen ...` and
+// `go ...`, collecting `info ... pv ...` lines until `bestmove`.
+
+const DEFAULT_DEPTH = 18;
+
+/** A connection to a UCI engine that sends and receives lines of text */
+export interface UciTransport {
+  send(command: string): void;
+  onLine: ((line: string) => void) | null;
+  /** Called if the engine fails to start or exits */
+  onError: ((error: Error) => void) | null;
+  close(): void;
+}
+
+/**
+ * Reads an `info` line that carries a principal variation, converting its
+ * score from the side to move's point of view to White's. Returns null for
+ * other lines, and for bounds reported while the search is failing high or low.
+ */
+export function parseUciInfo(line: string, whiteToMove: boolean): EngineLine | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info' || tokens.includes('lowerbound') || tokens.includes('upperbound')) return null;
+
+  const pvIndex = tokens.indexOf('pv');
+  const scoreIndex = tokens.indexOf('score');
+  const depthIndex = tokens.indexOf('depth');
+  if (pvIndex < 0 || scoreIndex < 0 || depthIndex < 0) return null;
+
+  const multiPvIndex = tokens.indexOf('multipv');
+  const sign = whiteToMove ? 1 : -1;
+  const value = sign * Number(tokens[scoreIndex + 2]);
+  const kind = tokens[scoreIndex + 1];
+  if (!Number.isFinite(value) || (kind !== 'cp' && kind !== 'mate')) return null;
+
+  return {
+    rank: multiPvIndex >= 0 ? Number(tokens[multiPvIndex + 1]) : 1,
+    depth: Number(tokens[depthIndex + 1]),
+    ...(kind === 'cp' ? { cp: value } : { mate: value }),
+    pv: tokens.slice(pvIndex + 1)
+  };
+}
+
+interface Search {
+  fen: string;
+  lines: Map<number, EngineLine>;
+  aborted: boolean;
+  onUpdate?: (evaluation: EngineEvaluation) => void;
+  resolve: (evaluation: EngineEvaluation) => void;
+  reject: (error: Error) => void;
+}
+
+function evaluationOf(search: Search): EngineEvaluation {
+  const lines = [...search.lines.values()].sort((a, b) => a.rank - b.rank);
+  return { fen: search.fen, depth: lines[0]?.depth ?? 0, lines };
+}
+
+/** Creates an engine provider on top of a UCI connection */
+export function createUciEngine(transport: UciTransport): EngineProvider {
+  let failure: Error | null = null;
+  let current: Search | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  let multiPv = 1;
+  // Replies the adapter is waiting for, such as uciok and readyok
+  const waiting = new Map<string, { resolve: () => void; reject: (error: Error) => void }>();
+
+  const waitFor = (reply: string) => new Promise<void>((resolve, reject) => {
+    if (failure) reject(failure);
+    else waiting.set(reply, { resolve, reject });
+  });
+
+  const fail = (error: Error) => {
+    failure = error;
+    for (const waiter of waiting.values()) waiter.reject(error);
+    waiting.clear();
+    current?.reject(error);
+    current = null;
+  };
+
+  transport.onError = fail;
+  transport.onLine = (line) => {
+    const reply = line.trim();
+    const waiter = waiting.get(reply);
+    if (waiter) {
+      waiting.delete(reply);
+      waiter.resolve();
+      return;
+    }
+
+    const search = current;
+    if (!search) return;
+    if (reply.startsWith('bestmove')) {
+      current = null;
+      if (search.aborted) search.reject(abortError());
+      else search.resolve(evaluationOf(search));
+      return;
+    }
+    const info = parseUciInfo(reply, search.fen.split(' ')[1] !== 'b');
+    if (info && !search.aborted) {
+      search.lines.set(info.rank, info);
+      search.onUpdate?.(evaluationOf(search));
+    }
+  };
+
+  const ready = waitFor('uciok');
+  ready.catch(() => {
+    // Reported to each search
+  });
+  transport.send('uci');
+
+  const run = async (fen: string, options: AnalysisOptions): Promise<EngineEvaluation> => {
+    const { signal } = options;
+    if (signal?.aborted) throw abortError();
+    await ready;
+
+    const lines = options.multiPv ?? 1;
+    if (lines !== multiPv) {
+      transport.send(`setoption name MultiPV value ${lines}`);
+      multiPv = lines;
+    }
+    const isReady = waitFor('readyok');
+    transport.send('isready');
+    await isReady;
+    if (signal?.aborted) throw abortError();
+
+    return new Promise<EngineEvaluation>((resolve, reject) => {
+      const search: Search = { fen, lines: new Map(), aborted: false, onUpdate: options.onUpdate, resolve, reject };
+      const onAbort = () => {
+        // The engine still answers with bestmove, which ends the search
+        search.aborted = true;
+        transport.send('stop');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+      search.resolve = (evaluation) => { settle(); resolve(evaluation); };
+      search.reject = (error) => { settle(); reject(error); };
+
+      current = search;
+      transport.send(`position fen ${fen}`);
+      transport.send(options.movetimeMs !== undefined ? `go movetime ${options.movetimeMs}` : `go depth ${options.depth ?? DEFAULT_DEPTH}`);
+    });
+  };
+
+  return {
+    analyze: (fen, options = {}) => {
+      const result = queue.then(() => run(fen, options));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+
+    dispose: () => {
+      if (!failure) {
+        transport.send('quit');
+        fail(abortError());
+      }
+      transport.onLine = null;
+      transport.onError = null;
+      transport.close();
+    }
+  };
+}
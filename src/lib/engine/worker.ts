@@ -0,0 +1,31 @@
+import { createUciEngine, type UciTransport } from './uci';
+import type { EngineProvider } from './types';
+
+// Stockfish's WASM builds (e.g. the stockfish npm package) run as a classic
+// Web Worker that speaks UCI over postMessage. The build is not bundled: copy
+// its .js and .wasm files to public/stockfish/ to enable live analysis.
+export const DEFAULT_STOCKFISH_URL = '/stockfish/stockfish.js';
+
+export function createWorkerTransport(url: string): UciTransport {
+  const worker = new Worker(url);
+  const transport: UciTransport = {
+    onLine: null,
+    onError: null,
+    send: (command) => worker.postMessage(command),
+    close: () => worker.terminate()
+  };
+  worker.onmessage = (event: MessageEvent<unknown>) => {
+    if (typeof event.data !== 'string') return;
+    for (const line of event.data.split('\n')) transport.onLine?.(line);
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    transport.onError?.(new Error(`Could not run the engine at ${url}: ${event.message || 'failed to load'}`));
+  };
+  return transport;
+}
+
+/** Starts a WASM Stockfish in a Web Worker */
+export function createStockfishEngine(url: string = DEFAULT_STOCKFISH_URL): EngineProvider {
+  return createUciEngine(createWorkerTransport(url));
+}
@@ -0,0 +1,99 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import type { ChessmeldMeldFormatCMFV001, PositionNode } from '@/lib/cmf';
+import { applyMove, findPositionNode, positionKey, variantOf, type Variant } from '@/lib/variants';
+import { OPENING_LINES } from './table';
+
+export type Opening = NonNullable<PositionNode['opening']>;
+
+// The table keyed by position, built on first use. Keys drop move counters,
+// so transpositions into a named position are classified too.
+let openingsByPosition: Map<string, Opening> | null = null;
+
+function openingIndex(): Map<string, Opening> {
+  if (openingsByPosition) return openingsByPosition;
+
+  openingsByPosition = new Map();
+  for (const [eco, name, moves] of OPENING_LINES) {
+    const fen = moves.split(' ').reduce((position, move) => applyMove(position, move).after, DEFAULT_POSITION);
+    const key = positionKey(fen);
+    if (!openingsByPosition.has(key)) openingsByPosition.set(key, { eco, name });
+  }
+  return openingsByPosition;
+}
+
+/**
+ * The named opening of a position, or null if the table has no entry for
+ * it. Only standard chess has named openings.
+ */
+export function openingOf(fen: string, variant: Variant = 'standard'): Opening | null {
+  if (variant !== 'standard') return null;
+  return openingIndex().get(positionKey(fen)) ?? null;
+}
+
+/**
+ * The opening of each node of a meld, keyed by node FEN: the node's own
+ * `opening` if set, else its position's entry in the table, else the opening
+ * of the position it was reached from. Nodes before any named position have
+ * none.
+ */
+export function classifyOpenings(meld: ChessmeldMeldFormatCMFV001): Record<string, Opening> {
+  const variant = variantOf(meld);
+  const openings: Record<string, Opening> = {};
+  const visited = new Set<string>();
+  const queue: Array<{ fen: string; inherited?: Opening }> = [{ fen: meld.rootNodeId }];
+
+  // Breadth first, so a position takes the opening of its shortest move order
+  while (queue.length > 0) {
+    const { fen, inherited } = queue.shift()!;
+    const node = meld.nodes[fen];
+    if (!node || visited.has(fen)) continue;
+    visited.add(fen);
+
+    const opening = node.opening ?? openingOf(fen, variant) ?? inherited;
+    if (opening) openings[fen] = opening;
+    for (const child of node.children ?? []) {
+      queue.push({ fen: child.fen, inherited: opening });
+    }
+  }
+
+  return openings;
+}
+
+/**
+ * The opening of a position in a meld, matched by position key, for
+ * positions shown by the player
+ */
+export function openingAt(meld: ChessmeldMeldFormatCMFV001, openings: Record<string, Opening>, fen: string): Opening | null {
+  const variant = variantOf(meld);
+  const nodeFen = findPositionNode(meld.nodes, fen, variant);
+  return (nodeFen !== undefined ? openings[nodeFen] : undefined) ?? openingOf(fen, variant);
+}
+
+function slug(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/'/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Tags for a meld's opening, taken from the last named position of its main
+ * line: the opening family and, if named, the variation, e.g.
+ * ["sicilian-defense", "najdorf-variation"]
+ */
+export function suggestOpeningTags(meld: ChessmeldMeldFormatCMFV001): string[] {
+  const openings = classifyOpenings(meld);
+  const visited = new Set<string>();
+  let opening: Opening | undefined;
+
+  for (let fen: string | undefined = meld.rootNodeId; fen && !visited.has(fen); fen = meld.nodes[fen]?.children?.[0]?.fen) {
+    visited.add(fen);
+    opening = openings[fen] ?? opening;
+  }
+  if (!opening) return [];
+
+  return opening.name.split(/[:,]/).map((part) => slug(part)).filter((tag) => tag.length > 0);
+}
@@ -0,0 +1,6 @@
+// Opening names and ECO codes for positions, from a bundled table
+export type { OpeningLine } from './table';
+export { OPENING_LINES } from './table';
+
+export type { Opening } from './classify';
+export { openingOf, classifyOpenings, openingAt, suggestOpeningTags } from './classify';
@@ -0,0 +1,184 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import type { ChessmeldMeldFormatCMFV001, ChildReference, ColoredArrow, ColoredSquare } from '@/lib/cmf';
+import { getMainlinePath } from '@/lib/renderer';
+import { variantOf } from '@/lib/variants';
+
+const COLOR_CODES: Record<'green' | 'red' | 'yellow' | 'blue', string> = {
+  green: 'G',
+  red: 'R',
+  yellow: 'Y',
+  blue: 'B'
+};
+
+// PGN only has the four named colors, so custom colors are written as the
+// nearest of them
+const COLOR_RGB: Record<keyof typeof COLOR_CODES, [number, number, number]> = {
+  green: [0x22, 0xc5, 0x5e],
+  red: [0xef, 0x44, 0x44],
+  yellow: [0xea, 0xb3, 0x08],
+  blue: [0x3b, 0x82, 0xf6]
+};
+
+const MAX_LINE_LENGTH = 80;
+
+interface PositionAnnotations {
+  arrows: ColoredArrow[];
+  squares: ColoredSquare[];
+}
+
+/**
+ * Writes a meld as a single PGN game.
+ *
+ * The first child of each node is the main move and the other children become
+ * RAVs. Node and child comments become `{}` comments, NAGs are written as
+ * `$n`, and the arrows, circles and highlights of every AnnotateEvent are
+ * written as `[%cal]`/`[%csl]` commands on the move that reaches their
+ * position. Each position is written once: a line that transposes into a
+ * position already written stops there.
+ */
+export function meldToPgn(meld: ChessmeldMeldFormatCMFV001): string {
+  const annotations = collectAnnotations(meld);
+  const written = new Set<string>([meld.rootNodeId]);
+  const tokens: string[] = [];
+
+  // Writes a comment with the texts and the board commands for a position, if
+  // there is anything to write, and returns whether it did
+  const pushComment = (texts: (string | undefined)[], fen?: string): boolean => {
+    const commands = fen ? formatCommands(annotations.get(fen)) : '';
+    const body = [...texts, commands].filter(Boolean).join(' ').replace(/}/g, ')').trim();
+    if (body) tokens.push(`{${body}}`);
+    return Boolean(body);
+  };
+
+  // Writes the line that starts with `first` from `parentFen` and follows
+  // first children from there, with RAVs for the alternatives to each move
+  const writeLine = (parentFen: string, first: ChildReference) => {
+    const continuation = getMainlinePath(meld, first.fen).nodeIds;
+    const line: { parentFen: string; child: ChildReference }[] = [{ parentFen, child: first }];
+    for (let i = 0; i < continuation.length - 1; i++) {
+      line.push({ parentFen: continuation[i], child: meld.nodes[continuation[i]].children![0] });
+    }
+
+    // Claim the whole line before writing any RAVs, so that a variation
+    // transposing into it stops instead of repeating it
+    const end = line.findIndex(({ child }) => written.has(child.fen));
+    const moves = end === -1 ? line : line.slice(0, end + 1);
+    moves.forEach(({ child }) => written.add(child.fen));
+
+    let needsNumber = true;
+    moves.forEach(({ parentFen: fen, child }, index) => {
+      const [, turn, , , , fullmove] = fen.split(' ');
+      if (turn === 'w') {
+        tokens.push(`${fullmove}.`);
+      } else if (needsNumber) {
+        tokens.push(`${fullmove}...`);
+      }
+      tokens.push(child.move);
+      child.nags?.forEach((nag) => tokens.push(`$${nag}`));
+
+      // The last move of a truncated line reaches a position written elsewhere
+      const firstVisit = end === -1 || index < end;
+      const nodeComment = firstVisit ? meld.nodes[child.fen]?.comment : undefined;
+      needsNumber = pushComment([child.comment, nodeComment], firstVisit ? child.fen : undefined);
+
+      const siblings = meld.nodes[fen]?.children || [];
+      if (siblings[0] === child) {
+        for (const variation of siblings.slice(1)) {
+          tokens.push('(');
+          writeLine(fen, variation);
+          tokens.push(')');
+          needsNumber = true;
+        }
+      }
+    });
+  };
+
+  pushComment([meld.nodes[meld.rootNodeId]?.comment], meld.rootNodeId);
+  const mainMove = meld.nodes[meld.rootNodeId]?.children?.[0];
+  if (mainMove) {
+    writeLine(meld.rootNodeId, mainMove);
+  }
+  tokens.push('*');
+
+  return `${formatHeaders(meld).join('\n')}\n\n${wrap(tokens)}\n`;
+}
+
+function formatHeaders(meld: ChessmeldMeldFormatCMFV001): string[] {
+  const headers: [string, string][] = [
+    ['Event', meld.meta.title],
+    ['Site', '?'],
+    ['Date', formatDate(meld.meta.createdAt)],
+    ['Round', '?'],
+    ['White', '?'],
+    ['Black', '?'],
+    ['Result', '*'],
+    ['Annotator', meld.meta.author]
+  ];
+  const chess960 = variantOf(meld) === 'chess960';
+  if (chess960) {
+    headers.push(['Variant', 'Chess960']);
+  }
+  if (chess960 || meld.rootNodeId !== DEFAULT_POSITION) {
+    headers.push(['SetUp', '1'], ['FEN', meld.rootNodeId]);
+  }
+  return headers.map(([name, value]) => `[${name} "${value.replace(/[\\"]/g, '\\$&')}"]`);
+}
+
+// PGN dates are YYYY.MM.DD, with ?? for unknown parts
+function formatDate(isoDate: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(isoDate);
+  return match ? `${match[1]}.${match[2]}.${match[3]}` : '????.??.??';
+}
+
+function collectAnnotations(meld: ChessmeldMeldFormatCMFV001): Map<string, PositionAnnotations> {
+  const annotations = new Map<string, PositionAnnotations>();
+  for (const event of meld.events) {
+    if (event.type !== 'annotate') continue;
+    const entry = annotations.get(event.fen) || { arrows: [], squares: [] };
+    entry.arrows.push(...(event.arrows || []));
+    entry.squares.push(...(event.circles || []), ...(event.highlights || []));
+    annotations.set(event.fen, entry);
+  }
+  return annotations;
+}
+
+function formatCommands(annotations: PositionAnnotations | undefined): string {
+  if (!annotations) return '';
+  const code = (color: ColoredSquare['color']) => COLOR_CODES[nearestNamedColor(color || 'yellow')];
+  const arrows = unique(annotations.arrows.map((a) => `${code(a.color)}${a.from}${a.to}`));
+  const squares = unique(annotations.squares.map((s) => `${code(s.color)}${s.square}`));
+  return [
+    arrows.length > 0 ? `[%cal ${arrows.join(',')}]` : '',
+    squares.length > 0 ? `[%csl ${squares.join(',')}]` : ''
+  ].filter(Boolean).join(' ');
+}
+
+function nearestNamedColor(color: string): keyof typeof COLOR_CODES {
+  if (color in COLOR_CODES) return color as keyof typeof COLOR_CODES;
+  const rgb = [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16));
+  const distance = (name: keyof typeof COLOR_CODES) =>
+    COLOR_RGB[name].reduce((sum, value, i) => sum + (value - rgb[i]) ** 2, 0);
+  return (Object.keys(COLOR_CODES) as (keyof typeof COLOR_CODES)[]).reduce((a, b) => (distance(b) < distance(a) ? b : a));
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+// Joins movetext tokens into lines of at most 80 characters, without a
+// space inside RAV parentheses
+function wrap(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+  tokens.forEach((token, index) => {
+    const glued = token === ')' || tokens[index - 1] === '(';
+    if (line && !glued && line.length + token.length + 1 > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line += line && !glued ? ` ${token}` : token;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
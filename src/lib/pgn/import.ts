@@ -0,0 +1,237 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  sequentialEventIds,
+  withEventIds,
+  type ChessmeldMeldFormatCMFV001,
+  type Event,
+  type MoveEvent,
+  type PositionNode
+} from '@/lib/cmf';
+import { applyMove, joinableNode, normalizeFen, positionKey, type AppliedMove, type Variant } from '@/lib/variants';
+import { parsePgn, parsePgnComment, type PgnGame, type PgnMove } from './parse';
+
+export interface PgnImportOptions {
+  /** Spacing of the synthetic timeline, in ms per event. Defaults to 2000. */
+  stepMs?: number;
+  id?: string;
+  createdAt?: string;
+  /** Overrides the Annotator header */
+  author?: string;
+}
+
+const DEFAULT_STEP_MS = 2000;
+
+/**
+ * Imports the first game of a PGN as a meld. See pgnGameToMeld.
+ */
+export function pgnToMeld(pgn: string, options: PgnImportOptions = {}): ChessmeldMeldFormatCMFV001 {
+  const [game] = parsePgn(pgn);
+  if (!game) {
+    throw new Error('No game found in PGN');
+  }
+  return pgnGameToMeld(game, options);
+}
+
+/**
+ * Builds a meld from a parsed PGN game.
+ *
+ * Every move becomes a PositionNode keyed by FEN, and RAVs become extra
+ * ChildReferences on the node they branch from. Comments are kept on the
+ * ChildReference of the move they follow (or on the root node, before the
+ * first move), NAGs on `ChildReference.nags`, and `[%cal]`/`[%csl]` commands
+ * become AnnotateEvents.
+ *
+ * A Variant header naming chess960 sets `meta.variant`, and moves are played
+ * under its castling rules.
+ *
+ * Since a PGN has no audio, the events are laid out on an evenly spaced
+ * timeline in PGN order: each variation is played after the move it replaces,
+ * bracketed by navigate events, and comments are shown as text events.
+ */
+export function pgnGameToMeld(game: PgnGame, options: PgnImportOptions = {}): ChessmeldMeldFormatCMFV001 {
+  const { headers } = game;
+  const stepMs = options.stepMs ?? DEFAULT_STEP_MS;
+  const startingFen = headers.FEN || DEFAULT_POSITION;
+  const variant = variantFromHeader(headers.Variant);
+
+  let rootFen: string;
+  try {
+    rootFen = normalizeFen(startingFen, variant);
+  } catch {
+    throw new Error(`Invalid FEN header in PGN: ${startingFen}`);
+  }
+
+  const nodes: Record<string, PositionNode> = {
+    [rootFen]: { fen: rootFen, children: [], parents: [], moveNumber: 0 }
+  };
+  const events: Event[] = [];
+  let annotationsShown = false;
+
+  // A position reached by another move order reuses the FEN of its node,
+  // unless that node leads back to the move (a repetition)
+  const nodeIdsByPosition = new Map([[positionKey(rootFen, variant), [rootFen]]]);
+  const nodeIdFor = (fen: string, parentFen: string): string => {
+    const key = positionKey(fen, variant);
+    const nodeIds = nodeIdsByPosition.get(key) ?? [];
+    const existing = joinableNode(nodes, nodeIds, parentFen);
+    if (existing) return existing;
+    nodeIdsByPosition.set(key, [...nodeIds, fen]);
+    return fen;
+  };
+
+  const clearAnnotations = (fen: string) => {
+    if (annotationsShown) {
+      events.push({ t: 0, type: 'clear', fen });
+      annotationsShown = false;
+    }
+  };
+
+  // Emits the board commands and text of some comments at a position, and
+  // returns the comment text
+  const emitComments = (comments: string[], fen: string): string | undefined => {
+    const texts: string[] = [];
+    for (const comment of comments) {
+      const { text, arrows, squares } = parsePgnComment(comment);
+      if (arrows.length > 0 || squares.length > 0) {
+        events.push({
+          t: 0,
+          type: 'annotate',
+          fen,
+          ...(arrows.length > 0 && { arrows }),
+          ...(squares.length > 0 && { circles: squares })
+        });
+        annotationsShown = true;
+      }
+      if (text) {
+        events.push({ t: 0, type: 'text', text, fen });
+        texts.push(text);
+      }
+    }
+    return texts.length > 0 ? texts.join(' ') : undefined;
+  };
+
+  // Plays a line of moves and returns the position it ends in
+  const playLine = (line: PgnMove[], fromFen: string): string => {
+    let fen = fromFen;
+    for (const pgnMove of line) {
+      clearAnnotations(fen);
+      const commentBefore = emitComments(pgnMove.commentsBefore, fen);
+
+      let move: AppliedMove;
+      try {
+        move = applyMove(fen, pgnMove.san, variant);
+      } catch {
+        throw new Error(`Illegal move "${pgnMove.san}" in PGN after position ${fen}`);
+      }
+      move = { ...move, after: nodeIdFor(move.after, fen) };
+      events.push(toMoveEvent(move, fen));
+      const commentAfter = emitComments(pgnMove.commentsAfter, move.after);
+
+      const comment = [commentBefore, commentAfter].filter(Boolean).join(' ');
+      addChild(nodes, fen, move, comment, pgnMove.nags);
+
+      for (const variation of pgnMove.variations) {
+        clearAnnotations(move.after);
+        events.push({ t: 0, type: 'navigate', fen, navigationType: 'to_node' });
+        clearAnnotations(playLine(variation, fen));
+        events.push({ t: 0, type: 'navigate', fen: move.after, navigationType: 'to_node' });
+      }
+
+      fen = move.after;
+    }
+    return fen;
+  };
+
+  const gameComment = emitComments(game.comments, rootFen);
+  if (gameComment) nodes[rootFen].comment = gameComment;
+  playLine(game.moves, rootFen);
+
+  const timedEvents = withEventIds(
+    events.map((event, index) => ({ ...event, t: index * stepMs })),
+    sequentialEventIds(events)
+  );
+
+  return {
+    schema: 'cmf.v0.0.1',
+    meta: {
+      id: options.id || uuidv4(),
+      title: titleFromHeaders(headers),
+      author: options.author || known(headers.Annotator) || 'Unknown',
+      createdAt: options.createdAt || new Date().toISOString(),
+      startingFen: rootFen,
+      ...(variant !== 'standard' && { variant }),
+      durationMs: events.length * stepMs,
+      tags: ['pgn']
+    },
+    recordingDefaults: { legalPolicy: 'strict' },
+    rootNodeId: rootFen,
+    nodes,
+    events: timedEvents
+  };
+}
+
+function toMoveEvent(move: AppliedMove, beforeFen: string): MoveEvent {
+  return {
+    t: 0,
+    type: 'move',
+    from: move.from,
+    to: move.to,
+    ...(move.promotion && { promo: move.promotion as MoveEvent['promo'] }),
+    legalPolicy: 'strict',
+    color: move.color,
+    moveNumber: Number(beforeFen.split(' ')[5]) || 1,
+    san: move.san,
+    fen: move.after
+  };
+}
+
+function addChild(
+  nodes: Record<string, PositionNode>,
+  parentFen: string,
+  move: AppliedMove,
+  comment: string,
+  nags: number[]
+) {
+  const parent = nodes[parentFen];
+  if (!parent.children?.some((child) => child.fen === move.after)) {
+    parent.children = [
+      ...(parent.children || []),
+      {
+        move: move.san,
+        fen: move.after,
+        ...(comment && { comment }),
+        ...(nags.length > 0 && { nags })
+      }
+    ];
+  }
+
+  // A transposition reaches an existing node by another move order
+  const node = nodes[move.after] || {
+    fen: move.after,
+    children: [],
+    parents: [],
+    moveNumber: (parent.moveNumber || 0) + 1
+  };
+  if (!node.parents?.some((p) => p.fen === parentFen)) {
+    node.parents = [...(node.parents || []), { fen: parentFen, move: move.san }];
+  }
+  nodes[move.after] = node;
+}
+
+// The Variant header names chess960 as e.g. "Chess960" or "Fischerandom"
+function variantFromHeader(value: string | undefined): Variant {
+  return value && /960|fischer/i.test(value) ? 'chess960' : 'standard';
+}
+
+function titleFromHeaders(headers: Record<string, string>): string {
+  const white = known(headers.White);
+  const black = known(headers.Black);
+  if (white && black) return `${white} vs ${black}`;
+  return known(headers.Event) || 'Imported PGN';
+}
+
+// PGN uses "?" for unknown tag values
+function known(value: string | undefined): string | undefined {
+  return value && value !== '?' ? value : undefined;
+}
@@ -0,0 +1,8 @@
+// PGN import/export for melds
+export type { PgnGame, PgnMove, PgnComment } from './parse';
+export { parsePgn, parsePgnComment } from './parse';
+
+export type { PgnImportOptions } from './import';
+export { pgnToMeld, pgnGameToMeld } from './import';
+
+export { meldToPgn } from './export';
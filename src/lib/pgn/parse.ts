@@ -0,0 +1,213 @@
+import type { ColoredArrow, ColoredSquare } from '@/lib/cmf';
+
+/**
+ * A move in PGN movetext, with the comments and glyphs around it and the
+ * RAVs (recursive annotation variations) that replace it.
+ */
+export interface PgnMove {
+  san: string;
+  /** Numeric Annotation Glyphs, including those written as !, ?, !!, ??, !? and ?! */
+  nags: number[];
+  /** Comments between the previous move (or the start of a variation) and this move */
+  commentsBefore: string[];
+  /** Comments after this move */
+  commentsAfter: string[];
+  /** Alternative lines to this move, each starting from the position before it */
+  variations: PgnMove[][];
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  /** Comments before the first move */
+  comments: string[];
+  moves: PgnMove[];
+  result?: string;
+}
+
+/** The text and board commands (`[%cal]`, `[%csl]`) of a PGN comment */
+export interface PgnComment {
+  text: string;
+  arrows: ColoredArrow[];
+  squares: ColoredSquare[];
+}
+
+// Glyphs that some PGN writers use in place of `$n`
+const GLYPH_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6,
+  '=': 10,
+  '+=': 14,
+  '=+': 15,
+  '+/-': 16,
+  '-/+': 17,
+  '+-': 18,
+  '-+': 19
+};
+
+const COMMAND_COLORS: Record<string, ColoredSquare['color']> = {
+  G: 'green',
+  R: 'red',
+  Y: 'yellow',
+  B: 'blue'
+};
+
+const RESULTS = new Set(['1-0', '0-1', '1/2-1/2', '*']);
+
+/**
+ * Parses PGN text into games. Handles tag pairs, `{}` and `;` comments, NAGs,
+ * move suffix glyphs and nested RAVs. Moves are not checked for legality here.
+ */
+export function parsePgn(pgn: string): PgnGame[] {
+  const games: PgnGame[] = [];
+  let game = newGame();
+  let stack: PgnMove[][] = [game.moves];
+  let pending: string[] = [];
+  let inMovetext = false;
+
+  const line = () => stack[stack.length - 1];
+  const lastMove = () => line()[line().length - 1];
+
+  const finishGame = (result?: string) => {
+    if (pending.length > 0) {
+      (lastMove()?.commentsAfter ?? game.comments).push(...pending);
+    }
+    if (result) game.result = result;
+    if (inMovetext || Object.keys(game.headers).length > 0) games.push(game);
+    game = newGame();
+    stack = [game.moves];
+    pending = [];
+    inMovetext = false;
+  };
+
+  const addComment = (comment: string) => {
+    const text = comment.trim();
+    if (!text) return;
+    const move = lastMove();
+    if (move && pending.length === 0) {
+      move.commentsAfter.push(text);
+    } else if (stack.length === 1 && game.moves.length === 0) {
+      game.comments.push(text);
+    } else {
+      pending.push(text);
+    }
+  };
+
+  let i = 0;
+  while (i < pgn.length) {
+    const char = pgn[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%' && (i === 0 || pgn[i - 1] === '\n')) {
+      // Escape mechanism: the rest of the line is ignored
+      i = lineEnd(pgn, i);
+    } else if (char === '[') {
+      const end = pgn.indexOf(']', i);
+      const match = /^\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]$/.exec(pgn.slice(i, end + 1));
+      if (!match || end === -1) {
+        throw new Error(`Malformed PGN tag at offset ${i}`);
+      }
+      if (inMovetext) finishGame();
+      game.headers[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+      i = end + 1;
+    } else if (char === '{') {
+      const end = pgn.indexOf('}', i);
+      if (end === -1) throw new Error(`Unterminated PGN comment at offset ${i}`);
+      inMovetext = true;
+      addComment(pgn.slice(i + 1, end));
+      i = end + 1;
+    } else if (char === ';') {
+      const end = lineEnd(pgn, i);
+      inMovetext = true;
+      addComment(pgn.slice(i + 1, end));
+      i = end;
+    } else if (char === '(') {
+      const move = lastMove();
+      if (!move) throw new Error(`PGN variation without a preceding move at offset ${i}`);
+      const variation: PgnMove[] = [];
+      move.variations.push(variation);
+      stack.push(variation);
+      i++;
+    } else if (char === ')') {
+      if (stack.length === 1) throw new Error(`Unbalanced ")" in PGN at offset ${i}`);
+      if (pending.length > 0) {
+        (lastMove()?.commentsAfter ?? []).push(...pending);
+        pending = [];
+      }
+      stack.pop();
+      i++;
+    } else {
+      const match = /^[^\s{}()[\];]+/.exec(pgn.slice(i));
+      const token = match ? match[0] : char;
+      i += token.length;
+      inMovetext = true;
+
+      if (RESULTS.has(token)) {
+        if (stack.length > 1) throw new Error(`Unbalanced "(" in PGN before result at offset ${i}`);
+        finishGame(token);
+      } else if (token.startsWith('$')) {
+        lastMove()?.nags.push(Number(token.slice(1)));
+      } else if (token in GLYPH_NAGS) {
+        lastMove()?.nags.push(GLYPH_NAGS[token]);
+      } else if (/^\d+\.*$/.test(token)) {
+        // Move number indication
+      } else {
+        addMove(token.replace(/^\d+\.+/, ''));
+      }
+    }
+  }
+
+  if (stack.length > 1) throw new Error('Unbalanced "(" in PGN');
+  if (inMovetext || Object.keys(game.headers).length > 0) finishGame();
+
+  return games;
+
+  function addMove(token: string) {
+    const suffix = /[!?]+$/.exec(token)?.[0];
+    const san = (suffix ? token.slice(0, -suffix.length) : token).replace(/^0-0-0/, 'O-O-O').replace(/^0-0/, 'O-O');
+    line().push({
+      san,
+      nags: suffix && GLYPH_NAGS[suffix] ? [GLYPH_NAGS[suffix]] : [],
+      commentsBefore: pending,
+      commentsAfter: [],
+      variations: []
+    });
+    pending = [];
+  }
+}
+
+/**
+ * Splits a PGN comment into its text and `[%cal]`/`[%csl]` board commands.
+ * Other commands, such as `[%clk]` and `[%eval]`, are dropped from the text.
+ */
+export function parsePgnComment(comment: string): PgnComment {
+  const arrows: ColoredArrow[] = [];
+  const squares: ColoredSquare[] = [];
+
+  const text = comment.replace(/\[%(\w+)\s+([^\]]*)\]/g, (_, command: string, args: string) => {
+    for (const arg of args.split(',').map((a) => a.trim())) {
+      const color = COMMAND_COLORS[arg[0]];
+      if (command === 'cal' && color && /^[a-h][1-8][a-h][1-8]$/.test(arg.slice(1))) {
+        arrows.push({ from: arg.slice(1, 3), to: arg.slice(3, 5), color });
+      } else if (command === 'csl' && color && /^[a-h][1-8]$/.test(arg.slice(1))) {
+        squares.push({ square: arg.slice(1, 3), color });
+      }
+    }
+    return '';
+  });
+
+  return { text: text.replace(/\s+/g, ' ').trim(), arrows, squares };
+}
+
+function newGame(): PgnGame {
+  return { headers: {}, comments: [], moves: [] };
+}
+
+function lineEnd(text: string, from: number): number {
+  const end = text.indexOf('\n', from);
+  return end === -1 ? text.length : end;
+}
@@ -2,20 +2,35 @@ import React, { useEffect, useState } from 'react';
 import { Arrow, Chessboard, ChessboardProvider, SparePiece, defaultPieces } from 'react-chessboard';
 import { Chess } from 'chess.js';
 import type { ActiveAnnotation } from '@/lib/renderer';
-import { annotationsToArrows, annotationsToSquareStyles } from '@/lib/annotations';
+import { applyMove, createBoard, type Variant } from '@/lib/variants';
+import {
+  AnnotationOverlay,
+  GLYPH_COLORS,
+  annotationKey,
+  annotationsToArrows,
+  annotationsToOverlayArrows,
+  annotationsToSquareMarks,
+  annotationsToSquareStyles,
+  useAnnotationTransitions,
+  type Annotation,
+  type AnnotationColor
+} from '@/lib/annotations';
 
 type InteractionMode = 'learn' | 'explore' | 'sandbox';
 
 interface BoardProps {
   fen: string;
+  variant?: Variant;
   onMove?: (from: string, to: string, newFen?: string) => void;
   interactive?: boolean;
   mode?: InteractionMode;
   annotations?: ActiveAnnotation[];
+  /** The side shown at the bottom of the board */
+  orientation?: 'white' | 'black';
 }
 
-export function Board({ fen, onMove, interactive = false, mode = 'learn', annotations = [] }: BoardProps) {
-  const [game, setGame] = React.useState(() => new Chess(fen));
+export function Board({ fen, variant = 'standard', onMove, interactive = false, mode = 'learn', annotations = [], orientation = 'white' }: BoardProps) {
+  const [game, setGame] = React.useState(() => createBoard(fen, variant));
   const [selectedSquare, setSelectedSquare] = React.useState<string | null>(null);
   const [legalMoves, setLegalMoves] = React.useState<string[]>([]);
   const [draggedSquare, setDraggedSquare] = React.useState<string | null>(null);
@@ -26,8 +41,7 @@ export function Board({ fen, onMove, interactive = false, mode = 'learn', annota
   // Update game state when FEN changes
   React.useEffect(() => {
     try {
-      game.load(fen);
-      setGame(new Chess(fen));
+      setGame(createBoard(fen, variant));
       // Clear selection and drag state when position changes
       setSelectedSquare(null);
       setLegalMoves([]);
@@ -36,7 +50,7 @@ export function Board({ fen, onMove, interactive = false, mode = 'learn', annota
     } catch (error) {
       console.error('Invalid FEN:', fen, error);
     }
-  }, [fen]);
+  }, [fen, variant]);
 
   // Clear interaction states when mode changes to non-interactive
   React.useEffect(() => {
@@ -201,23 +215,19 @@ export function Board({ fen, onMove, interactive = false, mode = 'learn', annota
           console.warn('Failed to place piece:', piece.pieceType, 'on', targetSquare);
         }
       } else if (mode === 'explore' && onMove && targetSquare) {
-        // Explorer mode: only allow legal moves
-        const move = game.move({
+        // Explorer mode: only allow legal moves (applyMove throws otherwise)
+        const move = applyMove(fen, {
           from: sourceSquare,
           to: targetSquare,
           promotion: 'q' // Always promote to queen for simplicity
-        });
+        }, variant);
 
-        // If move is valid, update game state and call onMove
-        if (move) {
-          const newFen = game.fen();
-          setGame(new Chess(newFen));
-          onMove(sourceSquare, targetSquare, newFen);
-          // Clear selection after move
-          setSelectedSquare(null);
-          setLegalMoves([]);
-          return true;
-        }
+        setGame(createBoard(move.after, variant));
+        onMove(sourceSquare, targetSquare, move.after);
+        // Clear selection after move
+        setSelectedSquare(null);
+        setLegalMoves([]);
+        return true;
       }
     } catch (error) {
       console.error('Invalid move:', error);
@@ -242,16 +252,14 @@ export function Board({ fen, onMove, interactive = false, mode = 'learn', annota
         }
       } else if (mode === 'explore') {
         // Explorer mode: only allow legal moves
-        const move = game.move({
+        const move = applyMove(fen, {
           from,
           to,
           promotion: 'q' // Always promote to queen for simplicity
-        });
-        
-        if (move) {
-          setGame(new Chess(game.fen()));
-          onMove(from, to);
-        }
+        }, variant);
+
+        setGame(createBoard(move.after, variant));
+        onMove(from, to);
       }
     } catch (error) {
       console.error('Invalid move:', error);
@@ -259,23 +267,42 @@ export function Board({ fen, onMove, interactive = false, mode = 'learn', annota
   };
 
   // Convert ActiveAnnotation to our Annotation format
-  const convertedAnnotations = React.useMemo(() => {
-    return annotations.map(annotation => ({
-      id: `annotation_${Math.random().toString(36).substr(2, 9)}`,
-      type: annotation.type as 'circle' | 'highlight' | 'arrow',
-      square: annotation.square,
-      from: annotation.from,
-      to: annotation.to,
-      color: (annotation.color || 'yellow') as 'green' | 'red' | 'yellow',
-      timestamp: Date.now()
-    }));
+  const activeAnnotations = React.useMemo(() => {
+    return annotations.map((annotation): Annotation => {
+      // Glyphs without a color use their conventional one
+      const defaultColor = annotation.glyph ? GLYPH_COLORS[annotation.glyph] : 'yellow';
+      const converted = {
+        type: annotation.type,
+        square: annotation.square,
+        from: annotation.from,
+        to: annotation.to,
+        color: (annotation.color || defaultColor) as AnnotationColor,
+        style: annotation.style,
+        number: annotation.number,
+        glyph: annotation.glyph,
+        text: annotation.text
+      };
+      return { ...converted, id: annotationKey(converted) };
+    });
   }, [annotations]);
 
+  // Fade annotations in and out as they appear and end
+  const convertedAnnotations = useAnnotationTransitions(activeAnnotations);
+
   // Convert annotations to react-chessboard arrow format using shared utilities
   const chessboardArrows: Arrow[] = React.useMemo(() => {
     return annotationsToArrows(convertedAnnotations);
   }, [convertedAnnotations]);
 
+  // Dashed arrows, arrow numbers, glyphs and labels are drawn over the board
+  const overlayArrows = React.useMemo(() => {
+    return annotationsToOverlayArrows(convertedAnnotations, orientation);
+  }, [convertedAnnotations, orientation]);
+
+  const squareMarks = React.useMemo(() => {
+    return annotationsToSquareMarks(convertedAnnotations, orientation);
+  }, [convertedAnnotations, orientation]);
+
   // Create custom square styles using shared utilities
   const annotationSquareStyles = React.useMemo(() => {
     return annotationsToSquareStyles(convertedAnnotations);
@@ -327,6 +354,7 @@ export function Board({ fen, onMove, interactive = false, mode = 'learn', annota
   // Set the chessboard options
   const chessboardOptions = {
     position: fen,
+    boardOrientation: orientation,
     onPieceDrop: interactive ? handlePieceDrop : undefined,
     onSquareClick: interactive && mode === 'explore' ? handleSquareClick : undefined,
     onPieceDrag: interactive && mode === 'explore' ? handlePieceDragStart : undefined,
@@ -377,8 +405,9 @@ export function Board({ fen, onMove, interactive = false, mode = 'learn', annota
             </div>
           ) : null}
 
-          <div style={{ width: '100%', height: 'auto' }}>
+          <div style={{ width: '100%', height: 'auto', position: 'relative' }}>
             <Chessboard />
+            <AnnotationOverlay arrows={overlayArrows} marks={squareMarks} />
           </div>
 
           {squareWidth ? (
@@ -411,8 +440,9 @@ export function Board({ fen, onMove, interactive = false, mode = 'learn', annota
   }
 
   return (
-    <div className="board">
+    <div className="board" style={{ position: 'relative' }}>
       <Chessboard options={chessboardOptions} />
+      <AnnotationOverlay arrows={overlayArrows} marks={squareMarks} />
     </div>
   );
 }
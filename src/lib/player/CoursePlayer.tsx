@@ -0,0 +1,161 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { MeldV0_0_1 } from '@/lib/renderer';
+import {
+  chapterTitle,
+  courseCompletion,
+  isChapterUnlocked,
+  loadChapterMeld,
+  nextChapter,
+  revokeBundleUrls,
+  type ChessmeldCourse,
+  type CourseChapter
+} from '@/lib/cmf';
+import { Player } from './Player';
+import { useCourseProgress } from './useCourseProgress';
+
+interface CoursePlayerProps {
+  course: ChessmeldCourse;
+  /** URL the course was loaded from, for resolving chapter meldUrls */
+  courseUrl: string;
+}
+
+/**
+ * Plays a course chapter by chapter, with chapter navigation in the lesson
+ * header, a "next lesson" prompt when a chapter ends, and completion
+ * tracked across visits
+ */
+export function CoursePlayer({ course, courseUrl }: CoursePlayerProps) {
+  const { progress, markCompleted, setCurrentChapter } = useCourseProgress(course.id);
+  const [selectedChapterId, setSelectedChapterId] = useState<string | null>(null);
+  const [meld, setMeld] = useState<MeldV0_0_1 | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [finished, setFinished] = useState(false);
+  // Titles of chapters whose meld has loaded, for chapters the course left untitled
+  const [loadedTitles, setLoadedTitles] = useState<Record<string, string>>({});
+  const titleOf = useCallback((c: CourseChapter) => loadedTitles[c.id] ?? c.title, [loadedTitles]);
+
+  // Resume where the learner left off, unless they picked a chapter
+  const chapter = useMemo(() => {
+    const id = selectedChapterId ?? progress.currentChapterId;
+    const candidate = course.chapters.find((c) => c.id === id);
+    return candidate && isChapterUnlocked(candidate, progress) ? candidate : course.chapters[0];
+  }, [course.chapters, selectedChapterId, progress]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: MeldV0_0_1 | null = null;
+    // Object URLs are only ours for bundles fetched from a meldUrl; an
+    // embedded meld's URLs belong to whoever built the course
+    const release = (meld: MeldV0_0_1) => {
+      if (!chapter.meld) revokeBundleUrls(meld);
+    };
+    setMeld(null);
+    setError(null);
+    setFinished(false);
+
+    loadChapterMeld(chapter, courseUrl)
+      .then((chapterMeld) => {
+        loaded = { ...chapterMeld, events: [...chapterMeld.events].sort((a, b) => a.t - b.t) };
+        if (cancelled) {
+          release(loaded);
+        } else {
+          setMeld(loaded);
+          setLoadedTitles((titles) => ({ ...titles, [chapter.id]: chapterTitle(chapter, chapterMeld) }));
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load chapter');
+      });
+
+    return () => {
+      cancelled = true;
+      if (loaded) release(loaded);
+    };
+  }, [chapter, courseUrl]);
+
+  const goToChapter = useCallback((chapterId: string) => {
+    setSelectedChapterId(chapterId);
+    setCurrentChapter(chapterId);
+  }, [setCurrentChapter]);
+
+  const handleEnded = useCallback(() => {
+    markCompleted(chapter.id);
+    setFinished(true);
+  }, [chapter.id, markCompleted]);
+
+  const chapterIndex = course.chapters.indexOf(chapter);
+  const previous = course.chapters[chapterIndex - 1];
+  const following = course.chapters.slice(chapterIndex + 1).find((c) => isChapterUnlocked(c, progress));
+  // Once the chapter is marked complete, this is the next one still to do
+  const next = nextChapter(course, progress, chapter.id);
+  const completion = Math.round(courseCompletion(course, progress) * 100);
+
+  const chapterNav = course.chapters.length > 1 && (
+    <nav className="chapter-nav">
+      <button
+        className="chapter-nav__step"
+        disabled={!previous || !isChapterUnlocked(previous, progress)}
+        onClick={() => previous && goToChapter(previous.id)}
+        aria-label="Previous chapter"
+      >
+        ‹
+      </button>
+      <select
+        className="chapter-nav__select"
+        value={chapter.id}
+        onChange={(e) => goToChapter(e.target.value)}
+        aria-label="Chapter"
+      >
+        {course.chapters.map((c, index) => (
+          <option key={c.id} value={c.id} disabled={!isChapterUnlocked(c, progress)}>
+            {progress.completed.includes(c.id) ? '✓ ' : ''}{index + 1}. {titleOf(c)}
+          </option>
+        ))}
+      </select>
+      <button
+        className="chapter-nav__step"
+        disabled={!following}
+        onClick={() => following && goToChapter(following.id)}
+        aria-label="Next chapter"
+      >
+        ›
+      </button>
+      <span className="chapter-nav__completion">{completion}% of course</span>
+    </nav>
+  );
+
+  if (error) {
+    return (
+      <div className="error">
+        <h2>Error</h2>
+        <p>{error}</p>
+      </div>
+    );
+  }
+
+  if (!meld) {
+    return (
+      <div className="loading">
+        <div className="spinner"></div>
+        <p>Loading {titleOf(chapter)}...</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Player key={chapter.id} meld={meld} header={chapterNav || undefined} onEnded={handleEnded} />
+
+      {finished && course.chapters.length > 1 && (
+        <div className="chapter-complete">
+          <p>{next ? `Chapter complete. Next: ${titleOf(next)}` : `You have finished ${course.title}!`}</p>
+          {next ? (
+            <button onClick={() => goToChapter(next.id)}>Next lesson</button>
+          ) : (
+            <button onClick={() => setFinished(false)}>Close</button>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+import type { ActiveAnnotation } from '@/lib/renderer';
+import { formatScore, pvToSan, whiteShare, type EngineEvaluation } from '@/lib/engine';
+import type { Variant } from '@/lib/variants';
+import type { AnalysisSource } from './useEngineAnalysis';
+
+/**
+ * The best line's first move as an arrow, for the board
+ */
+export function bestMoveAnnotations(evaluation: EngineEvaluation | null): ActiveAnnotation[] {
+  const move = evaluation?.lines[0]?.pv[0];
+  if (!move) return [];
+  return [{ type: 'arrow', from: move.slice(0, 2), to: move.slice(2, 4), color: 'blue' }];
+}
+
+interface EvalBarProps {
+  evaluation: EngineEvaluation | null;
+  orientation?: 'white' | 'black';
+}
+
+// Vertical bar beside the board: White's share grows from the bottom when
+// White is at the bottom of the board
+export function EvalBar({ evaluation, orientation = 'white' }: EvalBarProps) {
+  const best = evaluation?.lines[0];
+  const share = best ? whiteShare(best) : 0.5;
+
+  return (
+    <div className={`eval-bar ${orientation === 'black' ? 'eval-bar--flipped' : ''}`} title={best ? formatScore(best) : 'No evaluation'}>
+      <div className="eval-bar__white" style={{ height: `${share * 100}%` }} />
+      <span className={`eval-bar__score ${share >= 0.5 ? 'eval-bar__score--white' : 'eval-bar__score--black'}`}>
+        {best ? formatScore(best) : ''}
+      </span>
+    </div>
+  );
+}
+
+interface EngineLinesProps {
+  evaluation: EngineEvaluation | null;
+  source: AnalysisSource | null;
+  thinking: boolean;
+  variant: Variant;
+}
+
+// The engine's best lines in SAN, with their scores and the search depth
+export function EngineLines({ evaluation, source, thinking, variant }: EngineLinesProps) {
+  return (
+    <div className="engine-lines">
+      <div className="engine-lines__header">
+        <span>{source === 'precomputed' ? 'Precomputed evaluation' : 'Engine'}</span>
+        {evaluation && <span>depth {evaluation.depth}{thinking && source === 'engine' ? '…' : ''}</span>}
+      </div>
+      {!evaluation && <div className="engine-lines__empty">{thinking ? 'Analysing…' : 'No evaluation for this position'}</div>}
+      {evaluation?.lines.map((line) => (
+        <div key={line.rank} className="engine-line">
+          <span className="engine-line__score">{formatScore(line)}</span>
+          <span className="engine-line__moves">{pvToSan(evaluation.fen, line.pv, variant).join(' ')}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
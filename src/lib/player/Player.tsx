@@ -1,15 +1,22 @@
-import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import { buildMoveIndex, computeStateAtTime, type MeldV0_0_1, type TimelineState } from '@/lib/renderer';
-import { type MoveEvent } from '@/lib/cmf';
-import { Chess } from 'chess.js';
+import { useState, useEffect, useMemo, useRef, useCallback, type ReactNode } from 'react';
+import type { MeldV0_0_1, TimelineState } from '@/lib/renderer';
+import { eventKey, type Event, type MoveEvent, type PausePointEvent } from '@/lib/cmf';
+import { applyMove, createBoard, variantOf } from '@/lib/variants';
+import { drillCardQuiz, reviewQualityOf, type DrillSide } from '@/lib/drill';
+import { classifyOpenings, openingAt } from '@/lib/openings';
 import { useAudioClock } from './useAudioClock';
 import { useTranscript } from './useTranscript';
+import { useTimelineWorker } from './useTimelineWorker';
+import { usePausePointQuiz } from './usePausePointQuiz';
+import { useDrill } from './useDrill';
+import { useEngineAnalysis } from './useEngineAnalysis';
+import { EvalBar, EngineLines, bestMoveAnnotations } from './EngineAnalysis';
 import { TranscriptDisplay } from './TranscriptDisplay';
 import { Board } from './Board';
 import { MoveHistory, BranchingMoveHistory, CompactMoveHistory } from '@/lib/ui';
 import { useGraphNavigation } from './useGraphNavigation';
 import { FaBrain } from "react-icons/fa";
-import { MdTouchApp } from "react-icons/md";
+import { MdRepeat, MdTouchApp } from "react-icons/md";
 import { BiSolidChess } from "react-icons/bi";
 
 interface ChatMessage {
@@ -21,24 +28,24 @@ interface ChatMessage {
 
 interface PlayerProps {
   meld: MeldV0_0_1;
+  /** Shown in the lesson header, e.g. chapter navigation for a course */
+  header?: ReactNode;
+  /** Called when the lesson's audio plays to the end */
+  onEnded?: () => void;
 }
 
-type InteractionMode = 'learn' | 'explore' | 'sandbox';
+type InteractionMode = 'learn' | 'explore' | 'sandbox' | 'drill';
 
-// Function to derive chat history from meld events and current timestamp
-function deriveChatHistory(meld: MeldV0_0_1, currentTimeMs: number): ChatMessage[] {
+// Function to derive chat history from the events played so far, in playback order
+function deriveChatHistory(playedEvents: Event[]): ChatMessage[] {
   const messages: ChatMessage[] = [];
   
-  // Sort events by timestamp to ensure chronological order
-  const sortedEvents = [...meld.events].sort((a, b) => a.t - b.t);
-  
-  for (const event of sortedEvents) {
-    if (event.t > currentTimeMs) break;
+  for (const [index, event] of playedEvents.entries()) {
     
     switch (event.type) {
       case 'text':
         messages.push({
-          id: `text-${event.t}`,
+          id: eventKey(event, index),
           timestamp: event.t,
           text: event.text,
           type: 'text'
@@ -50,7 +57,7 @@ function deriveChatHistory(meld: MeldV0_0_1, currentTimeMs: number): ChatMessage
           ? `${event.san} - ${event.comment}`
           : `Move: ${event.san}`;
         messages.push({
-          id: `move-${event.t}`,
+          id: eventKey(event, index),
           timestamp: event.t,
           text: moveText,
           type: 'move'
@@ -60,7 +67,7 @@ function deriveChatHistory(meld: MeldV0_0_1, currentTimeMs: number): ChatMessage
       case 'pausepoint':
         if (event.prompt) {
           messages.push({
-            id: `pause-${event.t}`,
+            id: eventKey(event, index),
             timestamp: event.t,
             text: `⏸️ ${event.prompt}`,
             type: 'system'
@@ -71,7 +78,7 @@ function deriveChatHistory(meld: MeldV0_0_1, currentTimeMs: number): ChatMessage
       case 'navigate':
         const navigationText = getNavigationText(event.navigationType, event.targetMoveIndex);
         messages.push({
-          id: `navigate-${event.t}`,
+          id: eventKey(event, index),
           timestamp: event.t,
           text: `🧭 ${navigationText}`,
           type: 'system'
@@ -203,54 +210,80 @@ function ChatLog({
   );
 }
 
-export function Player({ meld }: PlayerProps) {
+const GRADE_MESSAGES = {
+  correct: 'Correct!',
+  partial: 'Good, but there is a stronger move.',
+  incorrect: 'Not quite.'
+};
+
+interface QuizPanelProps {
+  prompt?: string;
+  quiz: ReturnType<typeof usePausePointQuiz>;
+  onContinue: () => void;
+}
+
+// Quiz controls shown at a pause point with answers, below the board so the
+// student can play their move
+function QuizPanel({ prompt, quiz, onContinue }: QuizPanelProps) {
+  const { lastAttempt } = quiz;
+
+  return (
+    <div className="pause-prompt pause-prompt--quiz">
+      <p>{prompt || 'Find the best move'}</p>
+
+      {quiz.hints.map((hint, index) => (
+        <p key={index} className="quiz-hint">Hint: {hint}</p>
+      ))}
+
+      {lastAttempt && (
+        <div className={`quiz-feedback quiz-feedback--${lastAttempt.grade}`}>
+          <strong>{lastAttempt.move.san}: {GRADE_MESSAGES[lastAttempt.grade]}</strong>
+          {lastAttempt.feedback && <p>{lastAttempt.feedback}</p>}
+          {lastAttempt.refutation.length > 0 && (
+            <p>Refutation: {lastAttempt.refutation.map((move) => move.san).join(' ')}</p>
+          )}
+        </div>
+      )}
+
+      {quiz.revealed && quiz.answer && (
+        <div className="quiz-feedback quiz-feedback--revealed">
+          <strong>Answer: {quiz.answer.san}</strong>
+        </div>
+      )}
+
+      <div className="quiz-actions">
+        {lastAttempt && !quiz.solved && (
+          <button onClick={quiz.retry}>Try again</button>
+        )}
+        {quiz.hasMoreHints && !quiz.solved && !quiz.revealed && (
+          <button onClick={quiz.showHint}>Hint</button>
+        )}
+        {!quiz.solved && !quiz.revealed && quiz.attempts.length > 0 && (
+          <button onClick={quiz.reveal}>Show answer</button>
+        )}
+        <button onClick={onContinue}>
+          {quiz.solved || quiz.revealed ? 'Continue' : 'Skip'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function Player({ meld, header, onEnded }: PlayerProps) {
   const [interactionMode, setInteractionMode] = useState<InteractionMode>('learn');
   const [sandboxFen, setSandboxFen] = useState<string | undefined>();
   const [pausedAtPausePoint, setPausedAtPausePoint] = useState<string | null>(null);
+  // The pause point the student continued from, so playback doesn't stop there again
+  const resumedPausePointRef = useRef<string | null>(null);
   const [transcriptVisible, setTranscriptVisible] = useState(false);
   const [exploreMoveIndex, setExploreMoveIndex] = useState<number>(-1); // -1 for initial position
-
-  // Build move index once when meld changes
-  const moveIndex = useMemo(() => {
-    return buildMoveIndex(meld);
-  }, [meld]);
+  const [drillSide, setDrillSide] = useState<DrillSide | null>(null);
 
   // Audio clock hook
   const { audioRef, audioClock, play, pause, seek, togglePlayPause } = useAudioClock({
     audioUrl: meld.meta.audioUrl,
     fallbackDurationMs: meld.meta.durationMs,
-    onTimeUpdate: (timeMs) => {
-      // Update timeline state when audio time changes (for both learn and explore modes)
-      if (interactionMode === 'learn' || interactionMode === 'explore') {
-        const newState = computeStateAtTime(meld, moveIndex, timeMs);
-        
-        
-        setTimelineState(newState);
-        
-        // Auto-pause at pause points (only in learn mode)
-        if (interactionMode === 'learn' && newState.isPaused && audioClock.isPlaying && !pausedAtPausePoint) {
-          // Sort events to find the most recent pause point
-          const sortedEvents = [...meld.events].sort((a, b) => a.t - b.t);
-          const currentPausePoint = sortedEvents.find(
-            event => event.type === 'pausepoint' && event.t <= timeMs
-          );
-          if (currentPausePoint && currentPausePoint.type === 'pausepoint') {
-            setPausedAtPausePoint(currentPausePoint.id);
-            pause();
-          }
-        }
-        
-        // Clear pause state if we've moved well past the pause point (only in learn mode)
-        if (interactionMode === 'learn' && pausedAtPausePoint) {
-          const pausePoint = meld.events.find(
-            event => event.type === 'pausepoint' && event.id === pausedAtPausePoint
-          );
-          if (pausePoint && timeMs > pausePoint.t + 3000) {
-            setPausedAtPausePoint(null);
-          }
-        }
-      }
-    }
+    onEnded
   });
 
   // Custom seek function that preserves playing state
@@ -269,13 +302,76 @@ export function Player({ meld }: PlayerProps) {
     currentTimeMs: audioClock.currentTimeMs
   });
 
-  // Transcript hook
-  const transcriptData = useTranscript(meld.meta.transcriptUrl, audioClock.currentTimeMs);
+  // Transcript hook (words are highlighted in the timeline worker)
+  const transcriptData = useTranscript(meld.meta.transcriptUrl, audioClock.currentTimeMs, { highlightWords: false });
+
+  // Timeline and transcript snapshots, computed off the main thread
+  const { events: sortedEvents, snapshot, requestSnapshot } = useTimelineWorker(meld, transcriptData.textEvents);
+
+  useEffect(() => {
+    requestSnapshot(audioClock.currentTimeMs);
+  }, [audioClock.currentTimeMs, requestSnapshot]);
 
   // Timeline state
-  const [timelineState, setTimelineState] = useState<TimelineState>(() => 
-    computeStateAtTime(meld, moveIndex, 0)
-  );
+  const [timelineState, setTimelineState] = useState<TimelineState>(() => ({
+    fen: meld.meta.startingFen,
+    activeAnnotations: []
+  }));
+
+  useEffect(() => {
+    // Update timeline state when a snapshot arrives (for both learn and explore modes)
+    if (!snapshot || (interactionMode !== 'learn' && interactionMode !== 'explore')) return;
+    setTimelineState(snapshot.state);
+
+    // Auto-pause at pause points (only in learn mode)
+    if (interactionMode === 'learn' && snapshot.state.isPaused && audioClock.isPlaying && !pausedAtPausePoint) {
+      // Find the most recent pause point
+      const currentPausePoint = sortedEvents.findLast(
+        (event): event is PausePointEvent => event.type === 'pausepoint' && event.t <= snapshot.timeMs
+      );
+      if (currentPausePoint && currentPausePoint.id !== resumedPausePointRef.current) {
+        setPausedAtPausePoint(currentPausePoint.id);
+        pause();
+      }
+    }
+
+    // Clear pause state if we've moved well past the pause point (only in learn mode)
+    if (interactionMode === 'learn' && pausedAtPausePoint) {
+      const pausePoint = meld.events.find(
+        event => event.type === 'pausepoint' && event.id === pausedAtPausePoint
+      );
+      if (pausePoint && snapshot.timeMs > pausePoint.t + 3000) {
+        setPausedAtPausePoint(null);
+      }
+    }
+  }, [snapshot, interactionMode, audioClock.isPlaying, pausedAtPausePoint, sortedEvents, meld.events, pause]);
+
+  // Seeking back before a pause point stops at it again
+  useEffect(() => {
+    const resumed = sortedEvents.find((event) => event.type === 'pausepoint' && event.id === resumedPausePointRef.current);
+    if (resumed && audioClock.currentTimeMs < resumed.t) resumedPausePointRef.current = null;
+  }, [audioClock.currentTimeMs, sortedEvents]);
+
+  // The quiz at the current pause point, if it has answers (learn mode only)
+  const currentPausePoint = useMemo(() => {
+    if (interactionMode !== 'learn' || !pausedAtPausePoint) return null;
+    return sortedEvents.find(
+      (event): event is PausePointEvent => event.type === 'pausepoint' && event.id === pausedAtPausePoint
+    ) ?? null;
+  }, [interactionMode, pausedAtPausePoint, sortedEvents]);
+  const quiz = usePausePointQuiz(currentPausePoint, variantOf(meld));
+
+  // Drill mode quizzes the chosen side on the positions due for review
+  const drill = useDrill(meld, interactionMode === 'drill' ? drillSide : null);
+  const drillCard = drill.current?.card ?? null;
+  const drillPausePoint = useMemo(() => (drillCard ? drillCardQuiz(drillCard) : null), [drillCard]);
+  const drillQuiz = usePausePointQuiz(drillPausePoint, drillCard?.variant ?? variantOf(meld));
+
+  const continueFromPausePoint = useCallback(() => {
+    resumedPausePointRef.current = pausedAtPausePoint;
+    setPausedAtPausePoint(null);
+    play();
+  }, [pausedAtPausePoint, play]);
 
   // Find the graph node that corresponds to the current audio timeline position
   const currentGraphNodeFen = useMemo(() => {
@@ -291,10 +387,11 @@ export function Player({ meld }: PlayerProps) {
     return matchingNode || timelineState.fen;
   }, [interactionMode, timelineState.fen, meld.nodes]);
 
-  // Chat history derived from current time
+  // Chat history derived from the events played by the latest snapshot
+  const eventCount = snapshot?.eventCount ?? 0;
   const chatHistory = useMemo(() => {
-    return deriveChatHistory(meld, audioClock.currentTimeMs);
-  }, [meld, audioClock.currentTimeMs]);
+    return deriveChatHistory(sortedEvents.slice(0, eventCount));
+  }, [sortedEvents, eventCount]);
 
   // Extract move events from meld and sort by timestamp
   const moveEvents = useMemo(() => {
@@ -336,6 +433,11 @@ export function Player({ meld }: PlayerProps) {
       setInteractionMode(newMode);
       // Navigate to the current timeline position in the graph
       graphNavigationActions.goToNode(timelineState.fen);
+    } else if (newMode === 'drill') {
+      // Entering drill mode - pause audio, the board shows the cards due
+      pause();
+      setInteractionMode(newMode);
+      setExploreMoveIndex(-1);
     } else {
       // Entering sandbox mode - pause audio and capture current position
       pause();
@@ -353,21 +455,16 @@ export function Player({ meld }: PlayerProps) {
         setSandboxFen(newFen);
       }
     } else if (interactionMode === 'explore') {
-      // Create a new chess game from current position for explore mode
-      const game = new Chess(currentFen);
-      
       try {
         // Explorer mode: only allow legal moves
-        const move = game.move({
+        const move = applyMove(currentFen, {
           from,
           to,
           promotion: 'q' // Always promote to queen for simplicity
-        });
-        
-        if (move) {
-          // Update sandbox FEN with new position
-          setSandboxFen(game.fen());
-        }
+        }, variantOf(meld));
+
+        // Update sandbox FEN with new position
+        setSandboxFen(move.after);
       } catch (error) {
         console.error('Invalid move:', error);
       }
@@ -385,10 +482,22 @@ export function Player({ meld }: PlayerProps) {
     }
   }, [interactionMode, timelineState.fen, sandboxFen]);
   
-  const currentAnnotations = (interactionMode === 'learn' || interactionMode === 'explore') ? timelineState.activeAnnotations : [];
+  // Live engine analysis while exploring, when the meld asks for engine hints
+  const analysisEnabled = !!meld.meta.engineHints && (interactionMode === 'explore' || interactionMode === 'sandbox');
+  const analysis = useEngineAnalysis(meld, currentFen, analysisEnabled);
+
+  // Timeline annotations in learn and explore modes, with the engine's best move
+  const currentAnnotations = useMemo(() => {
+    const timelineAnnotations = (interactionMode === 'learn' || interactionMode === 'explore') ? timelineState.activeAnnotations : [];
+    return analysisEnabled ? [...timelineAnnotations, ...bestMoveAnnotations(analysis.evaluation)] : timelineAnnotations;
+  }, [interactionMode, timelineState.activeAnnotations, analysisEnabled, analysis.evaluation]);
   
   // Get current game state for turn information
-  const currentGame = new Chess(currentFen);
+  const currentGame = createBoard(currentFen, variantOf(meld));
+
+  // The opening of the position on the board, following the audio
+  const openings = useMemo(() => classifyOpenings(meld), [meld]);
+  const currentOpening = openingAt(meld, openings, currentFen);
 
   // Auto-show transcript on mobile when new text appears
   useEffect(() => {
@@ -418,6 +527,12 @@ export function Player({ meld }: PlayerProps) {
       {/* Top bar with lesson title and progress */}
       <div className="lesson-header">
         <div className="lesson-title">{meld.meta.title}</div>
+        {currentOpening && (
+          <div className="lesson-opening">
+            {currentOpening.eco} {currentOpening.name}
+          </div>
+        )}
+        {header}
         <div className="lesson-progress">{progressPercentage}% complete</div>
       </div>
 
@@ -425,15 +540,49 @@ export function Player({ meld }: PlayerProps) {
       <div className={`player-content ${interactionMode === 'explore' ? 'player-content--explore' : ''}`}>
         {/* Board with annotations */}
         <div className={`board-container ${interactionMode === 'sandbox' ? 'board-container--sandbox' : ''}`}>
-          <Board 
-            fen={currentFen} 
-            interactive={interactionMode !== 'learn'}
-            onMove={interactionMode !== 'learn' ? handleInteractiveMove : undefined}
-            mode={interactionMode}
-            annotations={currentAnnotations}
-          />
+          {interactionMode === 'drill' ? (
+            <Board
+              fen={drillQuiz.fen ?? currentFen}
+              variant={drillCard?.variant ?? variantOf(meld)}
+              interactive={drillQuiz.canMove}
+              onMove={(from, to) => drillQuiz.play(from, to)}
+              mode="explore"
+              annotations={drillQuiz.annotations ?? []}
+              orientation={drillSide === 'b' ? 'black' : 'white'}
+            />
+          ) : quiz.active ? (
+            <Board
+              fen={quiz.fen ?? currentFen}
+              variant={variantOf(meld)}
+              interactive={quiz.canMove}
+              onMove={(from, to) => quiz.play(from, to)}
+              mode="explore"
+              annotations={quiz.annotations ?? []}
+            />
+          ) : (
+            <div className={analysisEnabled ? 'board-with-eval' : undefined}>
+              {analysisEnabled && <EvalBar evaluation={analysis.evaluation} />}
+              <Board 
+                fen={currentFen} 
+                variant={variantOf(meld)}
+                interactive={interactionMode !== 'learn'}
+                onMove={interactionMode !== 'learn' ? handleInteractiveMove : undefined}
+                mode={interactionMode}
+                annotations={currentAnnotations}
+              />
+            </div>
+          )}
         </div>
 
+        {analysisEnabled && (
+          <EngineLines
+            evaluation={analysis.evaluation}
+            source={analysis.source}
+            thinking={analysis.thinking}
+            variant={variantOf(meld)}
+          />
+        )}
+
         {/* Chat log or Move History */}
         {interactionMode === 'learn' && (
           <ChatLog 
@@ -441,8 +590,8 @@ export function Player({ meld }: PlayerProps) {
             onTimestampClick={seek}
             transcriptData={transcriptData.hasTranscript ? {
               visibleSegments: transcriptData.visibleSegments,
-              currentWord: transcriptData.currentWord,
-              highlightedWords: transcriptData.highlightedWords
+              currentWord: snapshot?.currentWord ?? null,
+              highlightedWords: snapshot?.highlightedWords ?? []
             } : undefined}
             currentTimeMs={audioClock.currentTimeMs}
           />
@@ -461,14 +610,30 @@ export function Player({ meld }: PlayerProps) {
           />
         )}
 
-        {/* Pause point prompt */}
-        {pausedAtPausePoint && (
+        {/* Pause point prompt, or the quiz when the pause point has answers */}
+        {pausedAtPausePoint && quiz.active && (
+          <QuizPanel prompt={currentPausePoint?.prompt} quiz={quiz} onContinue={continueFromPausePoint} />
+        )}
+        {interactionMode === 'drill' && drillCard && (
+          <QuizPanel
+            prompt={drillCard.prompt ?? (drillCard.meldId === meld.meta.id ? 'Find the move from the lesson' : `Find the move from "${drillCard.meldTitle}"`)}
+            quiz={drillQuiz}
+            onContinue={() => drill.review(reviewQualityOf(drillQuiz.attempts))}
+          />
+        )}
+        {interactionMode === 'drill' && drillSide && !drill.loading && !drillCard && (
+          <div className="pause-prompt">
+            <p>
+              {drill.reviewed > 0 ? `Drilled ${drill.reviewed} positions. ` : ''}
+              Nothing else is due for review.
+            </p>
+            <button onClick={() => handleModeChange('learn')}>Back to the lesson</button>
+          </div>
+        )}
+        {pausedAtPausePoint && !quiz.active && interactionMode !== 'drill' && (
           <div className="pause-prompt">
             <p>{timelineState.pausePrompt || "Paused for exploration"}</p>
-            <button onClick={() => {
-              setPausedAtPausePoint(null);
-              play();
-            }}>Continue</button>
+            <button onClick={continueFromPausePoint}>Continue</button>
           </div>
         )}
       </div>
@@ -499,6 +664,14 @@ export function Player({ meld }: PlayerProps) {
             <div className="mode-icon"><BiSolidChess /></div>
             <span>Sandbox</span>
           </button>
+
+          <button 
+            className={`mode-button drill ${interactionMode === 'drill' ? 'active' : ''}`}
+            onClick={() => handleModeChange('drill')}
+          >
+            <div className="mode-icon"><MdRepeat /></div>
+            <span>Drill</span>
+          </button>
         </div>
 
         {/* Mode-specific controls or messages */}
@@ -539,6 +712,26 @@ export function Player({ meld }: PlayerProps) {
               />
             </div>
           </div>
+        ) : interactionMode === 'drill' ? (
+          <div className="mode-message">
+            <div className="mode-instruction">
+              {drillSide ? `${drill.remaining} positions due` : 'Choose a side to drill'}
+            </div>
+            <div className="drill-sides">
+              <button
+                className={`continue-meld-btn ${drillSide === 'w' ? 'active' : ''}`}
+                onClick={() => setDrillSide('w')}
+              >
+                Drill as White
+              </button>
+              <button
+                className={`continue-meld-btn ${drillSide === 'b' ? 'active' : ''}`}
+                onClick={() => setDrillSide('b')}
+              >
+                Drill as Black
+              </button>
+            </div>
+          </div>
         ) : (
           <div className="mode-message">
             <div className="mode-instruction">
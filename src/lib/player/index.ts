@@ -3,5 +3,12 @@ export { Player } from './Player';
 export { Board } from './Board';
 export { useAudioClock } from './useAudioClock';
 export { useTranscript } from './useTranscript';
+export { useTimelineWorker } from './useTimelineWorker';
+export { usePausePointQuiz } from './usePausePointQuiz';
+export { useDrill } from './useDrill';
+export { useEngineAnalysis } from './useEngineAnalysis';
+export { EvalBar, EngineLines } from './EngineAnalysis';
 export { useGraphNavigation } from './useGraphNavigation';
 export { TranscriptDisplay, SimpleTranscriptDisplay } from './TranscriptDisplay';
+export { CoursePlayer } from './CoursePlayer';
+export { useCourseProgress } from './useCourseProgress';
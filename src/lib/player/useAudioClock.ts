@@ -4,17 +4,50 @@ import type { AudioClock } from '@/lib/renderer';
 interface UseAudioClockOptions {
   audioUrl?: string;
   onTimeUpdate?: (timeMs: number) => void;
+  onEnded?: () => void;
   fallbackDurationMs?: number;
 }
 
-export function useAudioClock({ audioUrl, onTimeUpdate, fallbackDurationMs }: UseAudioClockOptions = {}) {
+// How often the silent clock of a meld without audio advances
+const SILENT_TICK_MS = 250;
+
+/**
+ * Hook for the playback clock of a meld's audio. A meld without audio plays on
+ * a silent clock over its fallback duration instead, which ends (and calls
+ * onEnded) at the end of the timeline like the audio would.
+ */
+export function useAudioClock({ audioUrl, onTimeUpdate, onEnded, fallbackDurationMs }: UseAudioClockOptions = {}) {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [audioClock, setAudioClock] = useState<AudioClock>({
     currentTimeMs: 0,
-    durationMs: 0,
+    durationMs: audioUrl ? 0 : fallbackDurationMs || 0,
     isPlaying: false,
     isPaused: false
   });
+  const silentTimeRef = useRef(0);
+  const silentTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const onEndedRef = useRef(onEnded);
+  useEffect(() => {
+    onEndedRef.current = onEnded;
+  }, [onEnded]);
+
+  const setSilentClock = useCallback((timeMs: number, isPlaying: boolean) => {
+    silentTimeRef.current = timeMs;
+    setAudioClock({
+      currentTimeMs: timeMs,
+      durationMs: fallbackDurationMs || 0,
+      isPlaying,
+      isPaused: !isPlaying
+    });
+    onTimeUpdate?.(timeMs);
+  }, [onTimeUpdate, fallbackDurationMs]);
+
+  const stopSilentClock = useCallback(() => {
+    if (silentTimerRef.current) clearInterval(silentTimerRef.current);
+    silentTimerRef.current = null;
+  }, []);
+
+  useEffect(() => stopSilentClock, [stopSilentClock]);
 
   // Update audio clock state
   const updateAudioClock = useCallback(() => {
@@ -46,7 +79,10 @@ export function useAudioClock({ audioUrl, onTimeUpdate, fallbackDurationMs }: Us
     const handleLoadedMetadata = () => updateAudioClock();
     const handlePlay = () => updateAudioClock();
     const handlePause = () => updateAudioClock();
-    const handleEnded = () => updateAudioClock();
+    const handleEnded = () => {
+      updateAudioClock();
+      onEnded?.();
+    };
 
     audio.addEventListener('timeupdate', handleTimeUpdate);
     audio.addEventListener('loadedmetadata', handleLoadedMetadata);
@@ -61,32 +97,66 @@ export function useAudioClock({ audioUrl, onTimeUpdate, fallbackDurationMs }: Us
       audio.removeEventListener('pause', handlePause);
       audio.removeEventListener('ended', handleEnded);
     };
-  }, [updateAudioClock]);
+  }, [updateAudioClock, onEnded]);
 
   // Control functions
   const play = useCallback(() => {
-    audioRef.current?.play();
-  }, []);
+    if (audioUrl) {
+      audioRef.current?.play();
+      return;
+    }
+
+    const durationMs = fallbackDurationMs || 0;
+    if (silentTimerRef.current || durationMs <= 0) return;
+    let last = Date.now();
+    setSilentClock(silentTimeRef.current >= durationMs ? 0 : silentTimeRef.current, true);
+    silentTimerRef.current = setInterval(() => {
+      const now = Date.now();
+      const timeMs = Math.min(silentTimeRef.current + now - last, durationMs);
+      last = now;
+      if (timeMs < durationMs) {
+        setSilentClock(timeMs, true);
+        return;
+      }
+      stopSilentClock();
+      setSilentClock(durationMs, false);
+      onEndedRef.current?.();
+    }, SILENT_TICK_MS);
+  }, [audioUrl, fallbackDurationMs, setSilentClock, stopSilentClock]);
 
   const pause = useCallback(() => {
-    audioRef.current?.pause();
-  }, []);
+    if (audioUrl) {
+      audioRef.current?.pause();
+      return;
+    }
+    stopSilentClock();
+    setSilentClock(silentTimeRef.current, false);
+  }, [audioUrl, setSilentClock, stopSilentClock]);
 
   const seek = useCallback((timeMs: number) => {
-    if (audioRef.current && isFinite(timeMs) && timeMs >= 0) {
+    if (!isFinite(timeMs) || timeMs < 0) return;
+    if (!audioUrl) {
+      setSilentClock(Math.min(timeMs, fallbackDurationMs || 0), silentTimerRef.current !== null);
+    } else if (audioRef.current) {
       audioRef.current.currentTime = timeMs / 1000;
     }
-  }, []);
+  }, [audioUrl, fallbackDurationMs, setSilentClock]);
 
   const togglePlayPause = useCallback(() => {
-    if (audioRef.current) {
+    if (!audioUrl) {
+      if (silentTimerRef.current) {
+        pause();
+      } else {
+        play();
+      }
+    } else if (audioRef.current) {
       if (audioRef.current.paused) {
         audioRef.current.play();
       } else {
         audioRef.current.pause();
       }
     }
-  }, []);
+  }, [audioUrl, play, pause]);
 
   return {
     audioRef,
@@ -0,0 +1,56 @@
+import { useState, useCallback } from 'react';
+import { completeChapter, EMPTY_COURSE_PROGRESS, type CourseProgress } from '@/lib/cmf';
+
+const STORAGE_PREFIX = 'chessmeld.course-progress.';
+
+function readProgress(courseId: string): CourseProgress {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_PREFIX + courseId);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && Array.isArray(parsed.completed) ? parsed : EMPTY_COURSE_PROGRESS;
+  } catch {
+    return EMPTY_COURSE_PROGRESS;
+  }
+}
+
+/**
+ * Hook for tracking which chapters of a course the learner has completed,
+ * persisted in localStorage per course id
+ */
+export function useCourseProgress(courseId: string) {
+  // Read up front, so a course resumes at the saved chapter without loading the
+  // first one on the way. Courses are only played after loading in the
+  // browser, and readProgress falls back to no progress without localStorage.
+  const [progress, setProgress] = useState<CourseProgress>(() => readProgress(courseId));
+  const [progressCourseId, setProgressCourseId] = useState(courseId);
+  if (progressCourseId !== courseId) {
+    setProgressCourseId(courseId);
+    setProgress(readProgress(courseId));
+  }
+
+  const update = useCallback((next: (progress: CourseProgress) => CourseProgress) => {
+    setProgress((prev) => {
+      const updated = next(prev);
+      try {
+        window.localStorage.setItem(STORAGE_PREFIX + courseId, JSON.stringify(updated));
+      } catch {
+        // Private browsing or a full quota: keep progress for this session only
+      }
+      return updated;
+    });
+  }, [courseId]);
+
+  const markCompleted = useCallback((chapterId: string) => {
+    update((prev) => completeChapter(prev, chapterId));
+  }, [update]);
+
+  const setCurrentChapter = useCallback((chapterId: string) => {
+    update((prev) => ({ ...prev, currentChapterId: chapterId }));
+  }, [update]);
+
+  const reset = useCallback(() => {
+    update(() => EMPTY_COURSE_PROGRESS);
+  }, [update]);
+
+  return { progress, markCompleted, setCurrentChapter, reset };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { MeldV0_0_1 } from '@/lib/renderer';
+import {
+  drillCardsFromMeld,
+  drillQueue,
+  loadDrillRecords,
+  reviewDrillSchedule,
+  saveDrillRecord,
+  type DrillRecord,
+  type DrillSide,
+  type ReviewQuality
+} from '@/lib/drill';
+
+/**
+ * Hook for drilling a meld's positions for one side, with the positions due
+ * from other melds. Reviews are scheduled SM-2 style and persisted in
+ * IndexedDB. Pass a null side to stop drilling.
+ */
+export function useDrill(meld: MeldV0_0_1, side: DrillSide | null) {
+  const [queue, setQueue] = useState<DrillRecord[] | null>(null);
+  const [reviewed, setReviewed] = useState(0);
+
+  useEffect(() => {
+    setQueue(null);
+    setReviewed(0);
+    if (!side) return;
+
+    let cancelled = false;
+    const cards = drillCardsFromMeld(meld, side);
+    loadDrillRecords()
+      .catch((error) => {
+        // Private browsing or no IndexedDB: drill without earlier reviews
+        console.warn('Could not load drill history:', error);
+        return [];
+      })
+      .then((records) => {
+        if (!cancelled) setQueue(drillQueue(cards, records, side, Date.now()));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [meld, side]);
+
+  const current = queue?.[0] ?? null;
+
+  const review = useCallback((quality: ReviewQuality) => {
+    if (!current) return;
+    const record: DrillRecord = { card: current.card, schedule: reviewDrillSchedule(current.schedule, quality, Date.now()) };
+    saveDrillRecord(record).catch((error) => {
+      console.warn('Could not save drill review:', error);
+    });
+    setQueue((prev) => prev?.slice(1) ?? null);
+    setReviewed((prev) => prev + 1);
+  }, [current]);
+
+  return {
+    loading: side !== null && queue === null,
+    current,
+    remaining: queue?.length ?? 0,
+    reviewed,
+    review
+  };
+}
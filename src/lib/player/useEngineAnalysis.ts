@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { MeldV0_0_1 } from '@/lib/renderer';
+import {
+  createPrecomputedEngine,
+  createStockfishEngine,
+  isAbortError,
+  type EngineEvaluation,
+  type EngineProvider
+} from '@/lib/engine';
+
+const ANALYSIS_DEPTH = 18;
+const ANALYSIS_LINES = 3;
+
+export type AnalysisSource = 'engine' | 'precomputed';
+
+/**
+ * Hook for analysing the position on the board while enabled. The engine
+ * starts the first time analysis is enabled; if it cannot run, the meld's
+ * precomputed evaluations are used instead. Evaluations update as the engine
+ * searches deeper.
+ */
+export function useEngineAnalysis(meld: MeldV0_0_1, fen: string, enabled: boolean) {
+  const engineRef = useRef<EngineProvider | null>(null);
+  const [engineFailed, setEngineFailed] = useState(false);
+  const [evaluation, setEvaluation] = useState<EngineEvaluation | null>(null);
+  const [thinking, setThinking] = useState(false);
+
+  const precomputed = useMemo(() => createPrecomputedEngine(meld), [meld]);
+
+  useEffect(() => {
+    return () => {
+      engineRef.current?.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    setEvaluation(null);
+    if (!enabled) return;
+
+    let provider = precomputed;
+    if (!engineFailed) {
+      try {
+        engineRef.current ??= createStockfishEngine();
+        provider = engineRef.current;
+      } catch (error) {
+        console.warn('Engine unavailable, using precomputed evaluations:', error);
+        setEngineFailed(true);
+        return;
+      }
+    }
+
+    const controller = new AbortController();
+    setThinking(true);
+    provider
+      .analyze(fen, { depth: ANALYSIS_DEPTH, multiPv: ANALYSIS_LINES, signal: controller.signal, onUpdate: setEvaluation })
+      .then(setEvaluation, (error) => {
+        if (isAbortError(error)) return;
+        if (provider === precomputed) {
+          setEvaluation(null);
+        } else {
+          console.warn('Engine unavailable, using precomputed evaluations:', error);
+          engineRef.current?.dispose();
+          engineRef.current = null;
+          setEngineFailed(true);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setThinking(false);
+      });
+
+    return () => controller.abort();
+  }, [fen, enabled, engineFailed, precomputed]);
+
+  const source: AnalysisSource | null = evaluation ? (engineFailed ? 'precomputed' : 'engine') : null;
+  return { evaluation, source, thinking };
+}
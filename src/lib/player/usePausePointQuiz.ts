@@ -0,0 +1,97 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { bestQuizAnswer, gradeQuizAttempt, isQuiz, type PausePointEvent, type QuizResult } from '@/lib/cmf';
+import type { ActiveAnnotation } from '@/lib/renderer';
+import type { Variant } from '@/lib/variants';
+
+interface QuizState {
+  attempts: QuizResult[];
+  hintsShown: number;
+  revealed: boolean;
+  // Whether the board shows the last attempt, until the student retries
+  showingAttempt: boolean;
+}
+
+const INITIAL_QUIZ_STATE: QuizState = { attempts: [], hintsShown: 0, revealed: false, showingAttempt: false };
+
+/**
+ * Hook for the quiz at a pause point with answers: grades the student's moves,
+ * reveals hints one at a time and, on request, the answer. Returns the position
+ * and annotations the board should show, or null for either to leave the board
+ * to the timeline. Resets when the pause point changes.
+ */
+export function usePausePointQuiz(pausePoint: PausePointEvent | null, variant: Variant) {
+  const [state, setState] = useState<QuizState>(INITIAL_QUIZ_STATE);
+  const active = pausePoint !== null && isQuiz(pausePoint);
+
+  useEffect(() => {
+    setState(INITIAL_QUIZ_STATE);
+  }, [pausePoint?.id]);
+
+  const lastAttempt = state.attempts[state.attempts.length - 1] ?? null;
+  const solved = lastAttempt?.grade === 'correct';
+  const answer = useMemo(() => (pausePoint && active ? bestQuizAnswer(pausePoint, variant) : null), [pausePoint, active, variant]);
+
+  const play = useCallback((from: string, to: string): QuizResult | null => {
+    if (!pausePoint || !active) return null;
+    try {
+      const result = gradeQuizAttempt(pausePoint, { from, to, promotion: 'q' }, variant);
+      setState((prev) => ({ ...prev, attempts: [...prev.attempts, result], showingAttempt: true }));
+      return result;
+    } catch {
+      // Illegal moves are not attempts
+      return null;
+    }
+  }, [pausePoint, active, variant]);
+
+  const showHint = useCallback(() => {
+    setState((prev) => ({ ...prev, hintsShown: Math.min(prev.hintsShown + 1, pausePoint?.hints?.length ?? 0) }));
+  }, [pausePoint]);
+
+  const reveal = useCallback(() => {
+    setState((prev) => ({ ...prev, revealed: true, showingAttempt: false }));
+  }, []);
+
+  const retry = useCallback(() => {
+    setState((prev) => ({ ...prev, showingAttempt: false }));
+  }, []);
+
+  // The attempt's position with its refutation drawn as numbered arrows, or
+  // the pause point's position with the answer once revealed
+  const fen = !pausePoint || !active ? null : state.showingAttempt && lastAttempt ? lastAttempt.move.after : pausePoint.fen;
+  const annotations = useMemo((): ActiveAnnotation[] | null => {
+    if (!active) return null;
+    if (state.showingAttempt && lastAttempt) {
+      return lastAttempt.refutation.map((move, index) => ({
+        type: 'arrow',
+        from: move.from,
+        to: move.to,
+        color: 'red',
+        number: index + 1
+      }));
+    }
+    if (state.revealed && answer) {
+      return [{ type: 'arrow', from: answer.from, to: answer.to, color: 'green' }];
+    }
+    return [];
+  }, [active, state.showingAttempt, state.revealed, lastAttempt, answer]);
+
+  return {
+    active,
+    attempts: state.attempts,
+    lastAttempt: state.showingAttempt ? lastAttempt : null,
+    bestCredit: state.attempts.reduce((best, attempt) => Math.max(best, attempt.credit), 0),
+    hints: pausePoint?.hints?.slice(0, state.hintsShown) ?? [],
+    hasMoreHints: state.hintsShown < (pausePoint?.hints?.length ?? 0),
+    revealed: state.revealed,
+    answer,
+    solved,
+    // The student can move until they find the best answer or give up
+    canMove: active && !solved && !state.revealed && !state.showingAttempt,
+    fen,
+    annotations,
+    play,
+    showHint,
+    reveal,
+    retry
+  };
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { EnhancedTextEvent, Event } from '@/lib/cmf';
+import {
+  createInProcessTimelineWorker,
+  createTimelineWorkerClient,
+  isAbortError,
+  type MeldV0_0_1,
+  type TimelineSnapshot,
+  type TimelineWorkerClient,
+  type TimelineWorkerLike
+} from '@/lib/renderer';
+
+function createTimelineWorker(): TimelineWorkerLike {
+  if (typeof Worker === 'undefined') return createInProcessTimelineWorker();
+  try {
+    return new Worker(new URL('../renderer/timeline.worker.ts', import.meta.url));
+  } catch {
+    return createInProcessTimelineWorker();
+  }
+}
+
+function reportError(error: unknown) {
+  if (!isAbortError(error)) console.error('Timeline worker request failed:', error);
+}
+
+/**
+ * Hook for computing the meld's timeline and transcript highlighting in a Web
+ * Worker. requestSnapshot cancels the previous request if it is still pending,
+ * so only the latest position is computed while scrubbing.
+ */
+export function useTimelineWorker(meld: MeldV0_0_1, textEvents: EnhancedTextEvent[]) {
+  const clientRef = useRef<TimelineWorkerClient | null>(null);
+  const inFlightRef = useRef<AbortController | null>(null);
+  const lastTimeRef = useRef(0);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [snapshot, setSnapshot] = useState<TimelineSnapshot | null>(null);
+
+  const requestSnapshot = useCallback((timeMs: number) => {
+    lastTimeRef.current = timeMs;
+    const client = clientRef.current;
+    if (!client) return;
+
+    inFlightRef.current?.abort();
+    const controller = new AbortController();
+    inFlightRef.current = controller;
+    client.snapshotAt(timeMs, controller.signal).then(setSnapshot, reportError);
+  }, []);
+
+  // Create the worker before the effects below send it anything
+  useEffect(() => {
+    const client = createTimelineWorkerClient(createTimelineWorker());
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+
+    let cancelled = false;
+    inFlightRef.current?.abort();
+    client.load(meld).then((sortedEvents) => {
+      if (cancelled) return;
+      setEvents(sortedEvents);
+      requestSnapshot(lastTimeRef.current);
+    }, reportError);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meld, requestSnapshot]);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+
+    let cancelled = false;
+    client.loadTranscript(textEvents).then(() => {
+      if (!cancelled) requestSnapshot(lastTimeRef.current);
+    }, reportError);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [textEvents, requestSnapshot]);
+
+  return { events, snapshot, requestSnapshot };
+}
@@ -17,10 +17,19 @@ interface TranscriptState {
   highlightedWords: Array<{ word: any; segmentIndex: number; wordIndex: number; isActive: boolean }>;
 }
 
+interface UseTranscriptOptions {
+  /** Find the current and highlighted words on each time change (default true) */
+  highlightWords?: boolean;
+}
+
 /**
  * Hook for loading and managing transcript data from WhisperX
  */
-export function useTranscript(transcriptUrl?: string, currentTimeMs: number = 0) {
+export function useTranscript(
+  transcriptUrl?: string,
+  currentTimeMs: number = 0,
+  { highlightWords = true }: UseTranscriptOptions = {}
+) {
   const [transcriptState, setTranscriptState] = useState<TranscriptState>({
     isLoading: false,
     error: null,
@@ -86,6 +95,8 @@ export function useTranscript(transcriptUrl?: string, currentTimeMs: number = 0)
 
   // Update current word and highlighted words when time changes
   useEffect(() => {
+    if (!highlightWords) return;
+
     if (transcriptState.textEvents.length === 0) {
       setTranscriptState(prev => ({
         ...prev,
@@ -103,7 +114,7 @@ export function useTranscript(transcriptUrl?: string, currentTimeMs: number = 0)
       currentWord,
       highlightedWords
     }));
-  }, [transcriptState.textEvents, currentTimeMs]);
+  }, [transcriptState.textEvents, currentTimeMs, highlightWords]);
 
   // Get the current segment being spoken
   const currentSegment = useMemo(() => {
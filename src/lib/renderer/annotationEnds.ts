@@ -0,0 +1,38 @@
+import type { Event } from '@/lib/cmf';
+
+/**
+ * Returns, for each event in a list sorted by time, when the annotations it
+ * adds end: the earliest of `t + durationMs`, the `until` event and, with
+ * `untilNextMove`, the next move event. Annotate events without an end, and
+ * all other events, get Infinity: their annotations stay until cleared.
+ * An annotation is on the board while its end is after the current time.
+ */
+export function annotationEndTimes(sortedEvents: readonly Event[]): number[] {
+  const indexById = new Map<string, number>();
+  sortedEvents.forEach((event, index) => {
+    if (event.id !== undefined && !indexById.has(event.id)) indexById.set(event.id, index);
+  });
+
+  const ends = new Array<number>(sortedEvents.length).fill(Infinity);
+  let nextMoveT = Infinity;
+
+  // Walk backwards so the next move is known at each annotate event
+  for (let i = sortedEvents.length - 1; i >= 0; i--) {
+    const event = sortedEvents[i];
+
+    if (event.type === 'annotate') {
+      let end = event.durationMs !== undefined ? event.t + event.durationMs : Infinity;
+      if (event.until !== undefined) {
+        // An until event that plays before the annotations has no effect
+        const untilIndex = indexById.get(event.until);
+        if (untilIndex !== undefined && untilIndex > i) end = Math.min(end, sortedEvents[untilIndex].t);
+      }
+      if (event.untilNextMove) end = Math.min(end, nextMoveT);
+      ends[i] = end;
+    } else if (event.type === 'move') {
+      nextMoveT = event.t;
+    }
+  }
+
+  return ends;
+}
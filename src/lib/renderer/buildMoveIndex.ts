@@ -1,5 +1,5 @@
-import { Chess } from 'chess.js';
 import type { ChessmeldMeldFormatCMFV001 } from '@/lib/cmf';
+import { applyMove, normalizeFen, variantOf } from '@/lib/variants';
 import type { MoveIndexEntry } from './types';
 import { getMainlinePath } from './graph-traversal';
 
@@ -8,9 +8,10 @@ import { getMainlinePath } from './graph-traversal';
  * This creates a fast lookup table for FEN positions at any given time.
  */
 export function buildMoveIndex(meld: ChessmeldMeldFormatCMFV001): MoveIndexEntry[] {
-  const chess = new Chess(meld.meta.startingFen);
+  const variant = variantOf(meld);
+  let fen = normalizeFen(meld.meta.startingFen, variant);
   const index: MoveIndexEntry[] = [
-    { t: 0, fen: chess.fen(), moveNumber: 0 }
+    { t: 0, fen, moveNumber: 0 }
   ];
 
   let halfMoveCount = 0;
@@ -37,23 +38,8 @@ export function buildMoveIndex(meld: ChessmeldMeldFormatCMFV001): MoveIndexEntry
     for (const event of nodeEvents) {
       if (event.type === 'move') {
         try {
-          let result;
-          if ('from' in event && 'to' in event) {
-            // Handle consolidated MoveEvent with explicit from/to coordinates
-            result = chess.move({ from: event.from, to: event.to, promotion: event.promo || 'q' });
-            if (!result) {
-              throw new Error(`Illegal move in node ${nodeId}: ${event.from}-${event.to}`);
-            }
-          } else if ('san' in event && (event as any).san) {
-            // Fallback to SAN notation for legacy compatibility
-            result = chess.move((event as any).san);
-            if (!result) {
-              throw new Error(`Illegal SAN in node ${nodeId}: ${(event as any).san}`);
-            }
-          } else {
-            continue; // Skip events without valid move data
-          }
-          
+          fen = applyMove(fen, { from: event.from, to: event.to, promotion: event.promo || 'q' }, variant).after;
+
           halfMoveCount++;
           // In chess, a move number represents a full turn (white + black)
           // So we calculate the full move number from half-moves
@@ -61,12 +47,11 @@ export function buildMoveIndex(meld: ChessmeldMeldFormatCMFV001): MoveIndexEntry
           
           index.push({
             t: event.t,
-            fen: chess.fen(),
+            fen,
             moveNumber
           });
         } catch (error) {
-          const moveDesc = 'from' in event ? `${event.from}-${event.to}` : (event as any).san;
-          throw new Error(`Failed to apply move in node ${nodeId}: ${moveDesc}. ${error}`);
+          throw new Error(`Failed to apply move in node ${nodeId}: ${event.from}-${event.to}. ${error}`);
         }
       }
     }
@@ -1,11 +1,13 @@
-import { Chess } from 'chess.js';
 import type {
+  AnnotateEvent,
   ChessmeldMeldFormatCMFV001,
   PositionNode,
   ChildReference,
   ParentReference,
-  Event
+  Event,
+  SquareGlyph
 } from '@/lib/cmf';
+import { applyMove, variantOf } from '@/lib/variants';
 
 // Additional types for graph traversal (not in schema)
 export interface GraphPath {
@@ -44,11 +46,54 @@ export interface GraphNavigationOptions {
 }
 
 export interface ActiveAnnotation {
-  type: 'arrow' | 'circle' | 'highlight';
+  type: 'arrow' | 'circle' | 'highlight' | 'glyph' | 'label';
   from?: string; // for arrows
   to?: string; // for arrows
-  square?: string; // for circles and highlights
-  color?: string;
+  square?: string; // for circles, highlights, glyphs and labels
+  color?: string; // a named color or #rrggbb(aa); glyphs without one use their conventional color
+  style?: 'solid' | 'dashed'; // for arrows
+  number?: number; // for arrows in a planned sequence
+  glyph?: SquareGlyph['glyph'];
+  text?: string; // for labels
+}
+
+/**
+ * The annotations an annotate event adds, in drawing order: arrows, circles,
+ * highlights, glyphs, then labels
+ */
+export function activeAnnotationsOf(event: AnnotateEvent): ActiveAnnotation[] {
+  return [
+    ...(event.arrows ?? []).map((arrow): ActiveAnnotation => ({
+      type: 'arrow',
+      from: arrow.from,
+      to: arrow.to,
+      color: arrow.color || 'yellow',
+      ...(arrow.style === 'dashed' && { style: arrow.style }),
+      ...(arrow.number !== undefined && { number: arrow.number })
+    })),
+    ...(event.circles ?? []).map((circle): ActiveAnnotation => ({
+      type: 'circle',
+      square: circle.square,
+      color: circle.color || 'yellow'
+    })),
+    ...(event.highlights ?? []).map((highlight): ActiveAnnotation => ({
+      type: 'highlight',
+      square: highlight.square,
+      color: highlight.color || 'yellow'
+    })),
+    ...(event.glyphs ?? []).map((glyph): ActiveAnnotation => ({
+      type: 'glyph',
+      square: glyph.square,
+      glyph: glyph.glyph,
+      ...(glyph.color && { color: glyph.color })
+    })),
+    ...(event.labels ?? []).map((label): ActiveAnnotation => ({
+      type: 'label',
+      square: label.square,
+      text: label.text,
+      color: label.color || 'yellow'
+    }))
+  ];
 }
 
 export interface GraphStats {
@@ -76,6 +121,7 @@ export interface NodeAnalysis {
 export function buildGraphMoveIndex(meld: ChessmeldMeldFormatCMFV001): GraphMoveIndex {
   const index: GraphMoveIndex = {};
   const visited = new Set<string>();
+  const variant = variantOf(meld);
 
   function traverseNode(fen: string, path: GraphPath, currentFen: string) {
     if (visited.has(fen)) {
@@ -103,16 +149,13 @@ export function buildGraphMoveIndex(meld: ChessmeldMeldFormatCMFV001): GraphMove
     // Traverse children
     if (node.children) {
       for (const child of node.children) {
-        const chess = new Chess(currentFen);
         try {
-          const result = chess.move(child.move);
-          if (result) {
-            const newPath: GraphPath = {
-              nodeIds: [...path.nodeIds, child.fen],
-              moves: [...path.moves, child.move]
-            };
-            traverseNode(child.fen, newPath, chess.fen());
-          }
+          const result = applyMove(currentFen, child.move, variant);
+          const newPath: GraphPath = {
+            nodeIds: [...path.nodeIds, child.fen],
+            moves: [...path.moves, child.move]
+          };
+          traverseNode(child.fen, newPath, result.after);
         } catch (error) {
           console.warn(`Invalid move ${child.move} at node ${fen}:`, error);
         }
@@ -226,39 +269,7 @@ export function computeStateAtNode(
 
     switch (event.type) {
       case 'annotate':
-        // Add arrows
-        if (event.arrows) {
-          for (const arrow of event.arrows) {
-            activeAnnotations.push({
-              type: 'arrow',
-              from: arrow.from,
-              to: arrow.to,
-              color: arrow.color || 'yellow'
-            });
-          }
-        }
-        
-        // Add circles
-        if (event.circles) {
-          for (const circle of event.circles) {
-            activeAnnotations.push({
-              type: 'circle',
-              square: circle.square,
-              color: circle.color || 'yellow'
-            });
-          }
-        }
-
-        // Add highlights
-        if (event.highlights) {
-          for (const highlight of event.highlights) {
-            activeAnnotations.push({
-              type: 'highlight',
-              square: highlight.square,
-              color: highlight.color || 'yellow'
-            });
-          }
-        }
+        activeAnnotations.push(...activeAnnotationsOf(event));
         break;
 
       case 'clear':
@@ -296,11 +307,13 @@ export function computeStateAtNode(
 }
 
 /**
- * Gets the mainline path (following isMainline flags).
+ * Gets the mainline path (following first children), from the root or from
+ * the given node. The path ends before any node it would visit twice.
  */
-export function getMainlinePath(meld: ChessmeldMeldFormatCMFV001): GraphPath {
-  const path: GraphPath = { nodeIds: [meld.rootNodeId], moves: [] };
-  let currentNodeId = meld.rootNodeId;
+export function getMainlinePath(meld: ChessmeldMeldFormatCMFV001, fromNodeId: string = meld.rootNodeId): GraphPath {
+  const path: GraphPath = { nodeIds: [fromNodeId], moves: [] };
+  const visited = new Set([fromNodeId]);
+  let currentNodeId = fromNodeId;
 
   while (true) {
     const node = meld.nodes[currentNodeId];
@@ -309,12 +322,14 @@ export function getMainlinePath(meld: ChessmeldMeldFormatCMFV001): GraphPath {
     }
     
     const mainlineChild = node.children[0]; // Take first child as "mainline"
-    if (!mainlineChild) {
+    // Stop rather than loop if the graph leads back to a node already on the path
+    if (!mainlineChild || visited.has(mainlineChild.fen)) {
       break;
     }
     
     path.nodeIds.push(mainlineChild.fen);
     path.moves.push(mainlineChild.move);
+    visited.add(mainlineChild.fen);
     currentNodeId = mainlineChild.fen;
   }
 
@@ -36,6 +36,22 @@ export type {
 
 export { buildMoveIndex } from './buildMoveIndex';
 export { computeStateAtTime } from './computeStateAtTime';
+export { compileTimeline } from './timeline';
+export type { CompiledTimeline, TimelineOptions } from './timeline';
+export {
+  createTimelineWorkerHost,
+  createTimelineWorkerClient,
+  createInProcessTimelineWorker,
+  isAbortError
+} from './timeline-worker';
+export type {
+  TimelineSnapshot,
+  TimelineWorkerRequest,
+  TimelineWorkerResponse,
+  TimelineWorkerLike,
+  TimelineWorkerClient,
+  TranscriptWordRef
+} from './timeline-worker';
 
 // Graph-based functions for v0.0.1
 export {
@@ -44,6 +60,7 @@ export {
   findNodeByPath,
   getAllPaths,
   computeStateAtNode,
+  activeAnnotationsOf,
   getMainlinePath,
   getVariationsAtNode,
   getNextMainlineMove,
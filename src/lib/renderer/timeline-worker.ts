@@ -0,0 +1,245 @@
+import {
+  getCurrentWord,
+  getHighlightedWords,
+  type EnhancedTextEvent,
+  type Event,
+  type WhisperXWord
+} from '@/lib/cmf';
+import { compileTimeline, type CompiledTimeline } from './timeline';
+import type { MeldV0_0_1, TimelineState } from './types';
+
+// The player keeps the timeline, chess replay and transcript lookups off the
+// main thread: it posts requests to a worker and only receives ready
+// snapshots. Every request carries an id that its response echoes.
+
+export interface TranscriptWordRef {
+  word: WhisperXWord;
+  segmentIndex: number;
+  wordIndex: number;
+}
+
+/** Everything the player renders for one point in time */
+export interface TimelineSnapshot {
+  timeMs: number;
+  state: TimelineState;
+  /** Number of events at or before timeMs, in playback order */
+  eventCount: number;
+  currentWord: TranscriptWordRef | null;
+  highlightedWords: (TranscriptWordRef & { isActive: boolean })[];
+}
+
+/** Messages from the player to the timeline worker */
+export type TimelineWorkerRequest =
+  | { type: 'load'; requestId: number; meld: MeldV0_0_1 }
+  | { type: 'loadTranscript'; requestId: number; textEvents: EnhancedTextEvent[] }
+  | { type: 'snapshot'; requestId: number; timeMs: number }
+  | { type: 'cancel'; requestId: number };
+
+/** Messages from the timeline worker to the player */
+export type TimelineWorkerResponse =
+  | { type: 'loaded'; requestId: number; events: Event[] }
+  | { type: 'transcriptLoaded'; requestId: number }
+  | { type: 'snapshot'; requestId: number; snapshot: TimelineSnapshot }
+  | { type: 'cancelled'; requestId: number }
+  | { type: 'error'; requestId: number; message: string };
+
+/** The part of the Worker API the client uses */
+export interface TimelineWorkerLike {
+  postMessage(request: TimelineWorkerRequest): void;
+  onmessage: ((event: MessageEvent<TimelineWorkerResponse>) => void) | null;
+  terminate(): void;
+}
+
+/**
+ * Creates the worker side of the protocol. Requests are queued and handled in
+ * batches: a cancelled request, or a snapshot request followed by a newer one
+ * in the same batch, is answered with `cancelled` without being computed, so
+ * scrubbing only computes the latest position.
+ */
+export function createTimelineWorkerHost(
+  post: (response: TimelineWorkerResponse) => void,
+  schedule: (task: () => void) => void = (task) => setTimeout(task, 0)
+): (request: TimelineWorkerRequest) => void {
+  let timeline: CompiledTimeline | null = null;
+  let textEvents: EnhancedTextEvent[] = [];
+  let queue: TimelineWorkerRequest[] = [];
+
+  const handle = (request: Exclude<TimelineWorkerRequest, { type: 'cancel' }>): TimelineWorkerResponse => {
+    switch (request.type) {
+      case 'load':
+        timeline = compileTimeline(request.meld);
+        return { type: 'loaded', requestId: request.requestId, events: [...timeline.events] };
+
+      case 'loadTranscript':
+        textEvents = request.textEvents;
+        return { type: 'transcriptLoaded', requestId: request.requestId };
+
+      case 'snapshot': {
+        if (!timeline) throw new Error('No meld has been loaded');
+        const { timeMs } = request;
+        return {
+          type: 'snapshot',
+          requestId: request.requestId,
+          snapshot: {
+            timeMs,
+            state: timeline.stateAt(timeMs),
+            eventCount: timeline.eventCountAt(timeMs),
+            currentWord: getCurrentWord(textEvents, timeMs),
+            highlightedWords: getHighlightedWords(textEvents, timeMs)
+          }
+        };
+      }
+    }
+  };
+
+  const drain = () => {
+    const batch = queue;
+    queue = [];
+
+    const cancelled = new Set(batch.filter((request) => request.type === 'cancel').map((request) => request.requestId));
+    const latestSnapshot = batch.findLast((request) => request.type === 'snapshot' && !cancelled.has(request.requestId));
+
+    for (const request of batch) {
+      if (request.type === 'cancel') continue;
+      if (cancelled.has(request.requestId) || (request.type === 'snapshot' && request !== latestSnapshot)) {
+        post({ type: 'cancelled', requestId: request.requestId });
+        continue;
+      }
+      try {
+        post(handle(request));
+      } catch (error) {
+        post({
+          type: 'error',
+          requestId: request.requestId,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  };
+
+  return (request) => {
+    queue.push(request);
+    if (queue.length === 1) schedule(drain);
+  };
+}
+
+/**
+ * Runs the timeline host on the current thread behind the worker interface,
+ * for environments without Web Workers
+ */
+export function createInProcessTimelineWorker(): TimelineWorkerLike {
+  let terminated = false;
+  const worker: TimelineWorkerLike = {
+    onmessage: null,
+    postMessage: (request) => {
+      if (!terminated) receive(request);
+    },
+    terminate: () => {
+      terminated = true;
+    }
+  };
+  const receive = createTimelineWorkerHost((response) => {
+    if (!terminated) worker.onmessage?.({ data: response } as MessageEvent<TimelineWorkerResponse>);
+  });
+  return worker;
+}
+
+export interface TimelineWorkerClient {
+  /** Compiles a meld's timeline; resolves with its events in playback order */
+  load(meld: MeldV0_0_1): Promise<Event[]>;
+  /** Sets the transcript used for word highlighting */
+  loadTranscript(textEvents: EnhancedTextEvent[]): Promise<void>;
+  /** Resolves with the snapshot at timeMs, or rejects with an AbortError once signal aborts */
+  snapshotAt(timeMs: number, signal?: AbortSignal): Promise<TimelineSnapshot>;
+  /** Rejects pending requests and terminates the worker */
+  dispose(): void;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function abortError(): Error {
+  const error = new Error('Timeline request was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/** Creates the player side of the protocol on top of a worker */
+export function createTimelineWorkerClient(worker: TimelineWorkerLike): TimelineWorkerClient {
+  let nextRequestId = 1;
+  const pending = new Map<number, {
+    resolve: (response: TimelineWorkerResponse) => void;
+    reject: (error: Error) => void;
+  }>();
+
+  worker.onmessage = (event) => {
+    const response = event.data;
+    const request = pending.get(response.requestId);
+    if (!request) return;
+    pending.delete(response.requestId);
+
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else if (response.type === 'cancelled') {
+      request.reject(abortError());
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  const send = <T extends TimelineWorkerResponse['type']>(
+    request: TimelineWorkerRequest,
+    expected: T,
+    signal?: AbortSignal
+  ): Promise<Extract<TimelineWorkerResponse, { type: T }>> => {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const { requestId } = request;
+      const onAbort = () => {
+        if (!pending.delete(requestId)) return;
+        worker.postMessage({ type: 'cancel', requestId });
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      pending.set(requestId, {
+        resolve: (response) => {
+          signal?.removeEventListener('abort', onAbort);
+          if (response.type === expected) {
+            resolve(response as Extract<TimelineWorkerResponse, { type: T }>);
+          } else {
+            reject(new Error(`Expected a ${expected} response, got ${response.type}`));
+          }
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      });
+      worker.postMessage(request);
+    });
+  };
+
+  return {
+    load: async (meld) => (await send({ type: 'load', requestId: nextRequestId++, meld }, 'loaded')).events,
+
+    loadTranscript: async (textEvents) => {
+      await send({ type: 'loadTranscript', requestId: nextRequestId++, textEvents }, 'transcriptLoaded');
+    },
+
+    snapshotAt: async (timeMs, signal) =>
+      (await send({ type: 'snapshot', requestId: nextRequestId++, timeMs }, 'snapshot', signal)).snapshot,
+
+    dispose: () => {
+      for (const request of pending.values()) request.reject(abortError());
+      pending.clear();
+      worker.onmessage = null;
+      worker.terminate();
+    }
+  };
+}
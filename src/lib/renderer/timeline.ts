@@ -0,0 +1,173 @@
+import type { ChessmeldMeldFormatCMFV001, Event, PausePointEvent } from '@/lib/cmf';
+import type { TimelineState } from './types';
+import { activeAnnotationsOf, type ActiveAnnotation } from './graph-traversal';
+import { annotationEndTimes } from './annotationEnds';
+import { applyMove, variantOf } from '@/lib/variants';
+
+const DEFAULT_KEYFRAME_INTERVAL = 32;
+
+// How long after a pause point the timeline reports itself as paused
+const PAUSE_WINDOW_MS = 500;
+
+export interface TimelineOptions {
+  /** Number of events between annotation keyframes (default 32) */
+  keyframeInterval?: number;
+}
+
+/**
+ * A meld's events compiled once for fast lookups during playback.
+ * stateAt returns the same state as computeStateAtTime.
+ */
+export interface CompiledTimeline {
+  /** The meld's events by time, with events at the same time in array order */
+  readonly events: readonly Event[];
+  /** Number of events at or before timeMs */
+  eventCountAt(timeMs: number): number;
+  stateAt(timeMs: number): TimelineState;
+}
+
+// Annotations after a number of events, each with its source event id for
+// targeted clears and the time it ends
+interface Keyframe {
+  annotations: ActiveAnnotation[];
+  sources: (string | undefined)[];
+  ends: number[];
+}
+
+function applyAnnotationEvent(state: Keyframe, event: Event, end: number) {
+  if (event.type === 'annotate') {
+    for (const annotation of activeAnnotationsOf(event)) {
+      state.annotations.push(annotation);
+      state.sources.push(event.id);
+      state.ends.push(end);
+    }
+  } else if (event.type === 'clear') {
+    if (event.targets) {
+      const targets = new Set(event.targets);
+      for (let i = state.annotations.length - 1; i >= 0; i--) {
+        const source = state.sources[i];
+        if (source !== undefined && targets.has(source)) {
+          state.annotations.splice(i, 1);
+          state.sources.splice(i, 1);
+          state.ends.splice(i, 1);
+        }
+      }
+    } else {
+      state.annotations.length = 0;
+      state.sources.length = 0;
+      state.ends.length = 0;
+    }
+  }
+}
+
+/** A copy of the state without the annotations that have ended by timeMs */
+function liveAt(state: Keyframe, timeMs: number): Keyframe {
+  const live: Keyframe = { annotations: [], sources: [], ends: [] };
+  state.ends.forEach((end, i) => {
+    if (end > timeMs) {
+      live.annotations.push(state.annotations[i]);
+      live.sources.push(state.sources[i]);
+      live.ends.push(end);
+    }
+  });
+  return live;
+}
+
+/** Number of items with t <= timeMs in a list sorted by t */
+function countAtOrBefore(items: readonly { t: number }[], timeMs: number): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (items[mid].t <= timeMs) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Compiles a meld's timeline by replaying its events once. The position and
+ * text after every event are stored directly; annotations, which accumulate,
+ * are snapshotted every `keyframeInterval` events. A query binary searches for
+ * the time, replays at most `keyframeInterval` annotation events from the
+ * nearest keyframe and drops annotations that have ended, instead of
+ * replaying the whole meld on every tick.
+ */
+export function compileTimeline(
+  meld: ChessmeldMeldFormatCMFV001,
+  options: TimelineOptions = {}
+): CompiledTimeline {
+  const interval = options.keyframeInterval ?? DEFAULT_KEYFRAME_INTERVAL;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error(`keyframeInterval must be a positive integer, got ${interval}`);
+  }
+
+  const variant = variantOf(meld);
+  const events = [...meld.events].sort((a, b) => a.t - b.t);
+  const pausePoints = events.filter((event): event is PausePointEvent => event.type === 'pausepoint');
+  const annotationEnds = annotationEndTimes(events);
+
+  const fens: string[] = [];
+  const texts: (string | undefined)[] = [];
+  // keyframes[k] holds the annotations after the first k * interval events
+  const keyframes: Keyframe[] = [{ annotations: [], sources: [], ends: [] }];
+
+  let fen = meld.meta.startingFen;
+  let text: string | undefined;
+  let state: Keyframe = { annotations: [], sources: [], ends: [] };
+
+  for (const [index, event] of events.entries()) {
+    if (event.type === 'navigate') {
+      fen = event.fen;
+    } else if (event.type === 'move') {
+      try {
+        fen = applyMove(fen, { from: event.from, to: event.to, promotion: event.promo || 'q' }, variant).after;
+      } catch (error) {
+        // If move is invalid, keep the current position
+        console.warn(`Invalid move ${event.from}-${event.to} at time ${event.t}:`, error);
+      }
+    } else if (event.type === 'text') {
+      text = event.text;
+    } else {
+      applyAnnotationEvent(state, event, annotationEnds[index]);
+    }
+
+    fens.push(fen);
+    texts.push(text);
+    if ((index + 1) % interval === 0) {
+      // Queries from this keyframe on are at or after this event, so
+      // annotations that have ended by then can be dropped for good
+      state = liveAt(state, event.t);
+      keyframes.push(liveAt(state, event.t));
+    }
+  }
+
+  const eventCountAt = (timeMs: number) => countAtOrBefore(events, timeMs);
+
+  const stateAt = (timeMs: number): TimelineState => {
+    const count = eventCountAt(timeMs);
+
+    const start = Math.floor(count / interval) * interval;
+    const current = liveAt(keyframes[start / interval], timeMs);
+    for (let i = start; i < count; i++) {
+      applyAnnotationEvent(current, events[i], annotationEnds[i]);
+    }
+
+    // Only the latest pause point reached can still be within its window
+    const pausePoint = pausePoints[countAtOrBefore(pausePoints, timeMs) - 1];
+    const isPaused = pausePoint !== undefined && timeMs <= pausePoint.t + PAUSE_WINDOW_MS;
+
+    return {
+      fen: count > 0 ? fens[count - 1] : meld.meta.startingFen,
+      activeAnnotations: liveAt(current, timeMs).annotations,
+      activeText: count > 0 ? texts[count - 1] : undefined,
+      isPaused,
+      pausePrompt: isPaused ? pausePoint.prompt : undefined
+    };
+  };
+
+  return { events, eventCountAt, stateAt };
+}
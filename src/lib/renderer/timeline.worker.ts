@@ -0,0 +1,6 @@
+// Web Worker entry point for the player's timeline; see timeline-worker.ts
+import { createTimelineWorkerHost, type TimelineWorkerRequest } from './timeline-worker';
+
+const receive = createTimelineWorkerHost((response) => self.postMessage(response));
+
+self.addEventListener('message', (event: MessageEvent<TimelineWorkerRequest>) => receive(event.data));
@@ -1,5 +1,6 @@
 // Types that align with the actual CMF v0.0.1 schema
 import type { ChessmeldMeldFormatCMFV001, Event } from '@/lib/cmf';
+import type { ActiveAnnotation } from './graph-traversal';
 
 // Re-export the main CMF type for convenience
 export type MeldV0_0_1 = ChessmeldMeldFormatCMFV001;
@@ -13,15 +14,6 @@ export interface TimelineState {
   pausePrompt?: string;
 }
 
-// Active annotation (simplified from CMF AnnotateEvent)
-interface ActiveAnnotation {
-  type: 'arrow' | 'circle' | 'highlight';
-  from?: string; // for arrows
-  to?: string;   // for arrows  
-  square?: string; // for circles and highlights
-  color?: string;
-}
-
 // Move index entry for fast FEN lookup
 export interface MoveIndexEntry {
   t: number;
@@ -1,6 +1,7 @@
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { Chess } from 'chess.js';
 import type { ChessmeldMeldFormatCMFV001, ChildReference, PositionNode } from '@/lib/cmf';
+import { classifyMoves, type MoveQuality } from '@/lib/engine';
 
 interface BranchingMoveHistoryProps {
   /** The complete meld data */
@@ -25,6 +26,10 @@ interface MoveNode {
   legalPolicy?: string;
   comment?: string;
   label?: string;
+  /** For a move into a position shown elsewhere, that position's move, e.g. "2. e4" */
+  transposesTo?: string;
+  /** Graded from the meld's precomputed evaluations, if it has them */
+  quality?: MoveQuality;
 }
 
 interface BranchingMoveHistoryState {
@@ -52,12 +57,18 @@ export function BranchingMoveHistory({
     setFocusedNodeFen(currentFen);
   }, [currentFen]);
 
+  // Move qualities, keyed by the positions before and after the move
+  const qualities = useMemo(
+    () => new Map(classifyMoves(meld).map(c => [`${c.fen}|${c.childFen}`, c.quality])),
+    [meld]
+  );
+
   // Build the move tree from the graph structure
   const moveTree = useMemo(() => {
     const visited = new Set<string>();
-    const tree: MoveNode[] = [];
+    const built = new Map<string, MoveNode>();
 
-    function buildNode(fen: string, depth: number = 0, isMainline: boolean = true): MoveNode | null {
+    function buildNode(fen: string, depth: number = 0, isMainline: boolean = true, parentFen?: string): MoveNode | null {
       if (visited.has(fen)) return null;
       visited.add(fen);
 
@@ -96,15 +107,19 @@ export function BranchingMoveHistory({
         children: [],
         legalPolicy,
         comment,
-        label
+        label,
+        quality: parentFen ? qualities.get(`${parentFen}|${fen}`) : undefined
       };
+      built.set(fen, moveNode);
 
       // Build children
       if (node.children) {
         for (let i = 0; i < node.children.length; i++) {
           const child = node.children[i];
           const childIsMainline = isMainline && i === 0; // First child is mainline
-          const childNode = buildNode(child.fen, depth + 1, childIsMainline);
+          const childNode = visited.has(child.fen)
+            ? buildTransposition(child, moveNode, depth + 1, childIsMainline)
+            : buildNode(child.fen, depth + 1, childIsMainline, fen);
           if (childNode) {
             moveNode.children.push(childNode);
           }
@@ -114,10 +129,32 @@ export function BranchingMoveHistory({
       return moveNode;
     }
 
+    // A move into a position already in the tree, reached by another move
+    // order, is shown as a leaf linking to that position
+    function buildTransposition(child: ChildReference, parent: MoveNode, depth: number, isMainline: boolean): MoveNode | null {
+      const target = built.get(child.fen);
+      if (!target) return null;
+
+      return {
+        fen: child.fen,
+        move: child.move,
+        moveNumber: parent.moveNumber + 1,
+        isMainline,
+        depth,
+        children: [],
+        legalPolicy: 'strict',
+        comment: child.comment || '',
+        quality: qualities.get(`${parent.fen}|${child.fen}`),
+        transposesTo: target.moveNumber > 0
+          ? `${Math.ceil(target.moveNumber / 2)}${target.moveNumber % 2 === 1 ? '.' : '...'} ${target.move}`
+          : 'the initial position'
+      };
+    }
+
     // Start from root
     const rootNode = buildNode(meld.rootNodeId, 0, true);
     return rootNode ? [rootNode] : [];
-  }, [meld]);
+  }, [meld, qualities]);
 
   // Filter moves based on legal policy
   const filteredTree = useMemo(() => {
@@ -244,8 +281,8 @@ export function BranchingMoveHistory({
   // Render a single move node
   const renderMoveNode = (node: MoveNode, index: number = 0) => {
     const isExpanded = state.expandedNodes.has(node.fen);
-    const isSelected = node.fen === currentFen;
-    const isFocused = node.fen === focusedNodeFen;
+    const isSelected = node.fen === currentFen && !node.transposesTo;
+    const isFocused = node.fen === focusedNodeFen && !node.transposesTo;
     const hasChildren = node.children.length > 0;
     const isVariation = !node.isMainline;
     const showChildren = isExpanded && (state.showAllVariations || node.isMainline);
@@ -256,7 +293,7 @@ export function BranchingMoveHistory({
     const isBlackMove = node.moveNumber % 2 === 0 && node.moveNumber > 0;
 
     return (
-      <div key={node.fen} className="move-node">
+      <div key={node.transposesTo ? `${node.fen}-transposition` : node.fen} className="move-node">
         {/* Move number and move */}
         <div
           className={`move-item ${isSelected ? 'selected' : ''} ${isFocused ? 'focused' : ''} ${isVariation ? 'variation' : 'mainline'}`}
@@ -275,7 +312,8 @@ export function BranchingMoveHistory({
           
           {/* Move notation */}
           <span 
-            className={`move-notation ${isWhiteMove ? 'white-move' : 'black-move'} ${isSelected ? 'selected' : ''}`}
+            className={`move-notation ${isWhiteMove ? 'white-move' : 'black-move'} ${isSelected ? 'selected' : ''} ${node.quality ? `quality-${node.quality}` : ''}`}
+            title={node.quality}
           >
             {node.move}
           </span>
@@ -301,6 +339,20 @@ export function BranchingMoveHistory({
             </span>
           )}
 
+          {/* Transposition link */}
+          {node.transposesTo && (
+            <button
+              className="transposition-link"
+              onClick={(e) => {
+                e.stopPropagation();
+                onNodeClick(node.fen);
+              }}
+              title="Go to the same position in the other line"
+            >
+              transposes to {node.transposesTo}
+            </button>
+          )}
+
           {/* Legal policy indicator */}
           {node.legalPolicy !== 'strict' && (
             <span className="legal-policy-indicator" title={`Legal policy: ${node.legalPolicy}`}>
@@ -370,6 +422,12 @@ export function BranchingMoveHistory({
 
       {/* Legend */}
       <div className="move-history-legend">
+        {qualities.size > 0 && (['best', 'inaccuracy', 'mistake', 'blunder'] as const).map(quality => (
+          <div key={quality} className="legend-item">
+            <span className={`legend-symbol quality-${quality}`}>●</span>
+            <span>{quality[0].toUpperCase() + quality.slice(1)}</span>
+          </div>
+        ))}
         <div className="legend-item">
           <span className="legend-symbol">⚡</span>
           <span>Piece-legal move</span>
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { Chess } from 'chess.js';
 import type { MoveEvent } from '@/lib/cmf';
+import type { MoveClassification, MoveQuality } from '@/lib/engine';
 
 interface MoveHistoryProps {
   /** Array of move events from the CMF format */
@@ -23,6 +24,8 @@ interface MoveHistoryProps {
   readonly?: boolean;
   /** Custom CSS classes */
   className?: string;
+  /** Move classifications from the meld's evaluations, to colour moves by quality */
+  classifications?: MoveClassification[];
 }
 
 interface FormattedMove {
@@ -31,8 +34,18 @@ interface FormattedMove {
   blackMove: string | null;
   whiteMoveIndex: number;
   blackMoveIndex: number;
+  whiteQuality?: MoveQuality;
+  blackQuality?: MoveQuality;
 }
 
+const QUALITY_CLASSES: Record<MoveQuality, string> = {
+  best: 'text-green-700',
+  good: '',
+  inaccuracy: 'text-yellow-600',
+  mistake: 'text-orange-600',
+  blunder: 'text-red-700 font-bold'
+};
+
 export function MoveHistory({
   moves,
   startingFen,
@@ -44,8 +57,15 @@ export function MoveHistory({
   canGoBack = false,
   canGoForward = false,
   readonly = false,
-  className = ''
+  className = '',
+  classifications = []
 }: MoveHistoryProps) {
+  // Each move's quality, found by the positions before and after it
+  const qualities = useMemo(() => {
+    const byPositions = new Map(classifications.map(c => [`${c.fen}|${c.childFen}`, c.quality]));
+    return moves.map((move, i) => byPositions.get(`${i === 0 ? startingFen : moves[i - 1].fen}|${move.fen}`));
+  }, [classifications, moves, startingFen]);
+
   // Format moves into pairs (white/black moves per move number)
   const formattedMoves = useMemo(() => {
     const result: FormattedMove[] = [];
@@ -73,7 +93,9 @@ export function MoveHistory({
           whiteMove,
           blackMove,
           whiteMoveIndex,
-          blackMoveIndex
+          blackMoveIndex,
+          whiteQuality: qualities[whiteMoveIndex],
+          blackQuality: qualities[blackMoveIndex]
         });
         
         // Reset for next pair
@@ -92,12 +114,13 @@ export function MoveHistory({
         whiteMove,
         blackMove: null,
         whiteMoveIndex,
-        blackMoveIndex: -1
+        blackMoveIndex: -1,
+        whiteQuality: qualities[whiteMoveIndex]
       });
     }
 
     return result;
-  }, [moves]);
+  }, [moves, qualities]);
 
   // Check if a move is currently selected
   const isMoveSelected = (moveIndex: number): boolean => {
@@ -212,8 +235,9 @@ export function MoveHistory({
                     : readonly 
                       ? '' 
                       : 'cursor-pointer hover:bg-gray-100 hover:border-blue-400 hover:-translate-y-0.5'
-                }`}
+                } ${pair.whiteQuality ? QUALITY_CLASSES[pair.whiteQuality] : ''}`}
                 onClick={() => handleMoveClick(pair.whiteMoveIndex)}
+                title={pair.whiteQuality}
               >
                 {pair.whiteMove}
               </span>
@@ -227,8 +251,9 @@ export function MoveHistory({
                       : readonly 
                         ? '' 
                         : 'cursor-pointer hover:bg-gray-100 hover:border-blue-400 hover:-translate-y-0.5'
-                  }`}
+                  } ${pair.blackQuality ? QUALITY_CLASSES[pair.blackQuality] : ''}`}
                   onClick={() => handleMoveClick(pair.blackMoveIndex)}
+                  title={pair.blackQuality}
                 >
                   {pair.blackMove}
                 </span>
@@ -0,0 +1,97 @@
+import type { Color } from 'chess.js';
+
+const FILES = 'abcdefgh';
+
+/**
+ * Castling rights as the files of the rooks each side may still castle with.
+ * This covers both standard chess (rooks on the a- and h-files) and chess960,
+ * where the king and rooks start on any files of the back rank.
+ */
+export type CastlingRights = Record<Color, number[]>;
+
+/** The pieces on each side's back rank, by file, as FEN letters */
+type BackRanks = Record<Color, (string | undefined)[]>;
+
+/**
+ * Reads the castling field of a FEN, in X-FEN or Shredder-FEN.
+ *
+ * `K`/`Q` (`k`/`q` for black) stand for the outermost rook on that side of the
+ * king, and a file letter (`A`-`H`, `a`-`h`) for the rook on that file. Rights
+ * for rooks that are not on the back rank next to a king are dropped.
+ */
+export function parseCastlingRights(placement: string, field: string): CastlingRights {
+  const ranks = backRanks(placement);
+  const rights: CastlingRights = { w: [], b: [] };
+  if (field === '-') return rights;
+
+  for (const char of field) {
+    const color: Color = char === char.toUpperCase() ? 'w' : 'b';
+    const rank = ranks[color];
+    const rook = color === 'w' ? 'R' : 'r';
+    const kingFile = rank.indexOf(color === 'w' ? 'K' : 'k');
+    const letter = char.toLowerCase();
+    if (kingFile === -1) continue;
+
+    let file = -1;
+    if (letter === 'k') {
+      file = rank.lastIndexOf(rook);
+      if (file < kingFile) file = -1;
+    } else if (letter === 'q') {
+      file = rank.indexOf(rook);
+      if (file > kingFile) file = -1;
+    } else if (FILES.includes(letter)) {
+      file = FILES.indexOf(letter);
+      if (rank[file] !== rook) file = -1;
+    } else {
+      throw new Error(`Invalid castling availability in FEN: ${field}`);
+    }
+
+    if (file !== -1 && !rights[color].includes(file)) {
+      rights[color].push(file);
+    }
+  }
+  return rights;
+}
+
+/**
+ * Writes castling rights in X-FEN: `KQkq` where the right is for the outermost
+ * rook on its side, and the rook's file letter otherwise. Standard positions
+ * therefore keep their usual castling field.
+ */
+export function formatCastlingRights(placement: string, rights: CastlingRights): string {
+  const ranks = backRanks(placement);
+  let field = '';
+
+  for (const color of ['w', 'b'] as Color[]) {
+    const rank = ranks[color];
+    const rook = color === 'w' ? 'R' : 'r';
+    const kingFile = rank.indexOf(color === 'w' ? 'K' : 'k');
+    const outermost = { k: rank.lastIndexOf(rook), q: rank.indexOf(rook) };
+    const letters = [...rights[color]]
+      .sort((a, b) => b - a)
+      .map((file) => {
+        if (file > kingFile && file === outermost.k) return 'k';
+        if (file < kingFile && file === outermost.q) return 'q';
+        return FILES[file];
+      });
+    field += letters.map((letter) => (color === 'w' ? letter.toUpperCase() : letter)).join('');
+  }
+  return field || '-';
+}
+
+function backRanks(placement: string): BackRanks {
+  const rows = placement.split('/');
+  return { w: expandRow(rows[7] || ''), b: expandRow(rows[0] || '') };
+}
+
+function expandRow(row: string): (string | undefined)[] {
+  const squares: (string | undefined)[] = [];
+  for (const char of row) {
+    if (/\d/.test(char)) {
+      squares.push(...Array<undefined>(Number(char)).fill(undefined));
+    } else {
+      squares.push(char);
+    }
+  }
+  return squares;
+}
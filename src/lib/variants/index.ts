@@ -0,0 +1,9 @@
+// Variant-aware move application, shared by the renderer, the studio and the
+// legal policy validator
+export type { Variant, MoveInput, AppliedMove } from './moves';
+export { VARIANTS, variantOf, createBoard, normalizeFen, applyMove } from './moves';
+
+export { positionKey, findPositionNode, reachesNode, joinableNode } from './positions';
+
+export type { CastlingRights } from './castling';
+export { parseCastlingRights, formatCastlingRights } from './castling';
@@ -0,0 +1,227 @@
+import { Chess, type Color, type Move, type PieceSymbol, type Square } from 'chess.js';
+import type { ChessmeldMeldFormatCMFV001 } from '@/lib/cmf';
+import { formatCastlingRights, parseCastlingRights, type CastlingRights } from './castling';
+
+export type Variant = NonNullable<ChessmeldMeldFormatCMFV001['meta']['variant']>;
+
+export const VARIANTS: Variant[] = ['standard', 'chess960'];
+
+export interface MoveInput {
+  from: string;
+  to: string;
+  promotion?: string;
+}
+
+export interface AppliedMove {
+  color: Color;
+  /** The square the piece moved from; the king's square for castling */
+  from: Square;
+  /**
+   * The square the piece moved to. Castling in chess960 is given as the king
+   * moving onto its own rook, as in UCI_Chess960, since the king's target
+   * square alone can be ambiguous.
+   */
+  to: Square;
+  promotion?: PieceSymbol;
+  san: string;
+  before: string;
+  after: string;
+}
+
+const FILES = 'abcdefgh';
+
+/** The variant a meld is played under, `standard` unless set in meta. */
+export function variantOf(meld: Pick<ChessmeldMeldFormatCMFV001, 'meta'>): Variant {
+  return meld.meta.variant || 'standard';
+}
+
+/**
+ * Creates a chess.js board for a position. chess.js only knows standard
+ * castling, so in chess960 the board has no castling rights: use it for
+ * piece placement, turn and attacks, and play moves with applyMove.
+ */
+export function createBoard(fen: string, variant: Variant = 'standard'): Chess {
+  if (variant === 'standard') {
+    return new Chess(fen);
+  }
+  const fields = fen.trim().split(/\s+/);
+  fields[2] = '-';
+  return new Chess(fields.join(' '));
+}
+
+/**
+ * Normalizes a FEN the way applyMove writes positions: chess.js's FEN for
+ * standard chess, and X-FEN castling rights for chess960.
+ */
+export function normalizeFen(fen: string, variant: Variant = 'standard'): string {
+  const board = createBoard(fen, variant);
+  if (variant === 'standard') {
+    return board.fen();
+  }
+  const fields = board.fen().split(' ');
+  fields[2] = formatCastlingRights(fields[0], parseCastlingRights(fields[0], fen.trim().split(/\s+/)[2] || '-'));
+  return fields.join(' ');
+}
+
+/**
+ * Plays a move, given as SAN, as UCI (`g1f3`, `e7e8q`) or as squares, under
+ * the rules of a variant and returns the move with the positions before and
+ * after it. Throws if the FEN is invalid or the move is illegal.
+ *
+ * In chess960 the king castles by moving onto its own rook, by moving two or
+ * more files to the g- or c-file, or by SAN `O-O`/`O-O-O`.
+ */
+export function applyMove(fen: string, move: MoveInput | string, variant: Variant = 'standard'): AppliedMove {
+  const input = typeof move === 'string' ? parseUci(move) ?? move : move;
+  const board = createBoard(fen, variant);
+  try {
+    if (variant === 'chess960') {
+      return applyChess960Move(fen, board, input);
+    }
+    return toAppliedMove(board.move(input));
+  } catch {
+    throw new Error(`Illegal move ${describeMove(move)} in position ${fen}`);
+  }
+}
+
+function parseUci(move: string): MoveInput | null {
+  const match = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/.exec(move);
+  return match ? { from: match[1], to: match[2], ...(match[3] && { promotion: match[3] }) } : null;
+}
+
+function applyChess960Move(fen: string, board: Chess, move: MoveInput | string): AppliedMove {
+  const placement = fen.trim().split(/\s+/)[0];
+  const rights = parseCastlingRights(placement, fen.trim().split(/\s+/)[2] || '-');
+  const color = board.turn();
+  const rookFile = castlingRookFile(board, rights[color], move);
+  if (rookFile !== undefined) {
+    return castle(fen, board, rights, rookFile);
+  }
+
+  const played = board.move(move);
+  const them = opponent(color);
+  const next: CastlingRights = { w: [...rights.w], b: [...rights.b] };
+  if (played.piece === 'k') {
+    next[color] = [];
+  }
+  next[color] = withoutRookOn(next[color], played.from, color);
+  next[them] = withoutRookOn(next[them], played.to, them);
+
+  const fields = played.after.split(' ');
+  fields[2] = formatCastlingRights(fields[0], next);
+  return { ...toAppliedMove(played), before: fen, after: fields.join(' ') };
+}
+
+// The file of the rook a move castles with, or undefined if it is not castling
+function castlingRookFile(board: Chess, rookFiles: number[], move: MoveInput | string): number | undefined {
+  const color = board.turn();
+  const kingSquare = board.findPiece({ type: 'k', color })[0];
+  if (!kingSquare || kingSquare[1] !== backRank(color)) return undefined;
+  const kingFile = FILES.indexOf(kingSquare[0]);
+  const onSide = (side: 'k' | 'q') => rookFiles.find((file) => (side === 'k' ? file > kingFile : file < kingFile));
+
+  if (typeof move === 'string') {
+    const san = move.replace(/[+#!?]+$/, '').replace(/0/g, 'O');
+    if (san === 'O-O' || san === 'O-O-O') {
+      const file = onSide(san === 'O-O' ? 'k' : 'q');
+      if (file === undefined) throw new Error(`No castling rights for ${san}`);
+      return file;
+    }
+    return undefined;
+  }
+
+  if (move.from !== kingSquare || move.to[1] !== backRank(color)) return undefined;
+  const toFile = FILES.indexOf(move.to[0]);
+  const target = board.get(move.to as Square);
+  if (target?.type === 'r' && target.color === color) {
+    return rookFiles.includes(toFile) ? toFile : undefined;
+  }
+  if (Math.abs(toFile - kingFile) > 1 && (toFile === 6 || toFile === 2)) {
+    return onSide(toFile === 6 ? 'k' : 'q');
+  }
+  return undefined;
+}
+
+function castle(fen: string, board: Chess, rights: CastlingRights, rookFile: number): AppliedMove {
+  const color = board.turn();
+  const them = opponent(color);
+  const rank = backRank(color);
+  const kingSquare = board.findPiece({ type: 'k', color })[0];
+  const kingFile = FILES.indexOf(kingSquare[0]);
+  const kingside = rookFile > kingFile;
+  const square = (file: number) => `${FILES[file]}${rank}` as Square;
+  const rookSquare = square(rookFile);
+  const kingTarget = kingside ? 6 : 2;
+  const rookTarget = kingside ? 5 : 3;
+
+  // Every square the king and rook cross or land on must be empty, apart
+  // from the king and rook themselves
+  const files = [kingFile, rookFile, kingTarget, rookTarget];
+  for (let file = Math.min(...files); file <= Math.max(...files); file++) {
+    if (file !== kingFile && file !== rookFile && board.get(square(file))) {
+      throw new Error('Castling path is blocked');
+    }
+  }
+  // The king may not castle out of, through or into check
+  const step = Math.sign(kingTarget - kingFile);
+  for (let file = kingFile; ; file += step) {
+    if (board.isAttacked(square(file), them)) {
+      throw new Error('King passes through an attacked square');
+    }
+    if (file === kingTarget || step === 0) break;
+  }
+
+  board.remove(kingSquare);
+  board.remove(rookSquare);
+  board.put({ type: 'k', color }, square(kingTarget));
+  board.put({ type: 'r', color }, square(rookTarget));
+
+  const [, , , , halfmoves, fullmoves] = fen.trim().split(/\s+/);
+  const nextPlacement = board.fen().split(' ')[0];
+  const moveNumber = Number(fullmoves) || 1;
+  const after = new Chess(`${nextPlacement} ${them} - - ${(Number(halfmoves) || 0) + 1} ${color === 'b' ? moveNumber + 1 : moveNumber}`);
+  if (after.isAttacked(square(kingTarget), them)) {
+    throw new Error('King is in check after castling');
+  }
+
+  const fields = after.fen().split(' ');
+  fields[2] = formatCastlingRights(nextPlacement, { ...rights, [color]: [] });
+  const suffix = after.isCheckmate() ? '#' : after.inCheck() ? '+' : '';
+  return {
+    color,
+    from: kingSquare,
+    to: rookSquare,
+    san: `${kingside ? 'O-O' : 'O-O-O'}${suffix}`,
+    before: fen,
+    after: fields.join(' ')
+  };
+}
+
+function withoutRookOn(rookFiles: number[], square: string, color: Color): number[] {
+  if (square[1] !== backRank(color)) return rookFiles;
+  return rookFiles.filter((file) => FILES[file] !== square[0]);
+}
+
+function toAppliedMove(move: Move): AppliedMove {
+  return {
+    color: move.color,
+    from: move.from,
+    to: move.to,
+    ...(move.promotion && { promotion: move.promotion }),
+    san: move.san,
+    before: move.before,
+    after: move.after
+  };
+}
+
+function backRank(color: Color): string {
+  return color === 'w' ? '1' : '8';
+}
+
+function opponent(color: Color): Color {
+  return color === 'w' ? 'b' : 'w';
+}
+
+function describeMove(move: MoveInput | string): string {
+  return typeof move === 'string' ? `"${move}"` : `${move.from}-${move.to}${move.promotion || ''}`;
+}
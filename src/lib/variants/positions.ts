@@ -0,0 +1,66 @@
+import { createBoard, normalizeFen, type Variant } from './moves';
+
+/**
+ * The identity of a position: piece placement, side to move, castling rights
+ * and en passant square, without the move counters. Positions reached by
+ * different move orders have the same key. The en passant square is only kept
+ * when a capture is possible, since older FENs record it after every double
+ * pawn push.
+ */
+export function positionKey(fen: string, variant: Variant = 'standard'): string {
+  let fields = fen.trim().split(/\s+/);
+  try {
+    fields = normalizeFen(fen, variant).split(' ');
+    if (fields[3] !== '-' && !createBoard(fen, variant).moves({ verbose: true }).some((move) => move.isEnPassant())) {
+      fields[3] = '-';
+    }
+  } catch {
+    // Keep FENs chess.js rejects (e.g. pieceLegal positions) as written
+  }
+  return fields.slice(0, 4).join(' ');
+}
+
+/**
+ * Finds the node for a position among nodes keyed by FEN: the node with that
+ * exact FEN, or else one reached by another move order.
+ */
+export function findPositionNode(
+  nodes: Record<string, unknown>,
+  fen: string,
+  variant: Variant = 'standard'
+): string | undefined {
+  if (nodes[fen]) return fen;
+  const key = positionKey(fen, variant);
+  return Object.keys(nodes).find((id) => positionKey(id, variant) === key);
+}
+
+/**
+ * Whether `toId` can be reached from `fromId` by following children. A move
+ * must not join a node that reaches the move's parent: a repetition such as
+ * Nf3 Nf6 Ng1 Ng8 would then loop back to the start.
+ */
+export function reachesNode(childrenOf: (id: string) => string[], fromId: string, toId: string): boolean {
+  const seen = new Set<string>();
+  const stack = [fromId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === toId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...childrenOf(id));
+  }
+  return false;
+}
+
+/**
+ * The first of some nodes holding a move's position that the move can join
+ * without making a cycle, if any
+ */
+export function joinableNode(
+  nodes: Record<string, { children?: { fen: string }[] }>,
+  candidates: string[],
+  parentFen: string
+): string | undefined {
+  const childrenOf = (id: string) => nodes[id]?.children?.map((child) => child.fen) ?? [];
+  return candidates.find((id) => nodes[id] && !reachesNode(childrenOf, id, parentFen));
+}
@@ -0,0 +1,65 @@
+import { STUDIO_AUDIO_STORE, STUDIO_SESSION_STORE, withStore } from '@/lib/database'
+import type { GraphStudioSession, MetadataForm } from '@/graph-studio'
+
+// The studio keeps one autosave: the latest session snapshot, and the audio
+// recorded for it as the chunks MediaRecorder hands over. Chunks are stored
+// as they arrive, so a crash loses at most the last one.
+
+const AUTOSAVE_KEY = 'current'
+
+interface StoredSession {
+  session: GraphStudioSession
+  metadata: MetadataForm
+  savedAt: number
+}
+
+export interface StudioAutosave {
+  session: GraphStudioSession
+  metadata: MetadataForm
+  savedAt: number
+  audioBlob: Blob | null
+}
+
+export class StudioAutosaveService {
+  async saveSession(session: GraphStudioSession, metadata: MetadataForm): Promise<void> {
+    // The audio is stored separately, chunk by chunk
+    const stored: StoredSession = { session: { ...session, audioBlob: undefined }, metadata, savedAt: Date.now() }
+    await withStore(STUDIO_SESSION_STORE, 'readwrite', (store) => store.put(stored, AUTOSAVE_KEY))
+  }
+
+  async appendAudioChunk(chunk: Blob): Promise<void> {
+    await withStore(STUDIO_AUDIO_STORE, 'readwrite', (store) => store.add(chunk))
+  }
+
+  /** Drops the saved audio, e.g. when a new recording starts */
+  async clearAudio(): Promise<void> {
+    await withStore(STUDIO_AUDIO_STORE, 'readwrite', (store) => store.clear())
+  }
+
+  /**
+   * The saved session with its audio reassembled from the stored chunks, or
+   * null if nothing was saved
+   */
+  async load(): Promise<StudioAutosave | null> {
+    const stored = await withStore(STUDIO_SESSION_STORE, 'readonly', (store) => store.get(AUTOSAVE_KEY) as IDBRequest<StoredSession | undefined>)
+    if (!stored) return null
+
+    // Keys are auto-incremented, so getAll returns the chunks in recording order
+    const chunks = await withStore(STUDIO_AUDIO_STORE, 'readonly', (store) => store.getAll() as IDBRequest<Blob[]>)
+    const audioBlob = chunks.length > 0 ? new Blob(chunks, { type: chunks[0].type || 'audio/webm' }) : null
+
+    return {
+      session: { ...stored.session, audioBlob: audioBlob ?? undefined },
+      metadata: stored.metadata,
+      savedAt: stored.savedAt,
+      audioBlob
+    }
+  }
+
+  async clear(): Promise<void> {
+    await withStore(STUDIO_SESSION_STORE, 'readwrite', (store) => store.delete(AUTOSAVE_KEY))
+    await this.clearAudio()
+  }
+}
+
+export const studioAutosaveService = new StudioAutosaveService()
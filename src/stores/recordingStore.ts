@@ -5,8 +5,11 @@ type AudioMode = 'recording' | 'upload'
 interface RecordingState {
   audioMode: AudioMode
   isRecording: boolean
+  isPaused: boolean
   isInteractive: boolean // New flag for when user can interact with board (recording or upload mode)
   startTime: number | null
+  pausedAt: number | null // When the current pause began
+  pausedDuration: number // Total time spent paused before the current pause
   currentTime: number
   duration: number
   error: string | null
@@ -22,16 +25,33 @@ interface RecordingActions {
   reset: () => void
   setError: (error: string | null) => void
   updateCurrentTime: (time: number) => void
+  getElapsedTime: (now?: number) => number
 }
 
 type RecordingStore = RecordingState & RecordingActions
 
+/**
+ * Time since recording started, less the time spent paused. This is where
+ * the recording is in the audio, so event timestamps stay aligned with it.
+ */
+export function elapsedRecordingTime(
+  state: Pick<RecordingState, 'startTime' | 'pausedAt' | 'pausedDuration'>,
+  now: number = Date.now()
+): number {
+  if (state.startTime === null) return 0
+  const paused = state.pausedDuration + (state.pausedAt !== null ? now - state.pausedAt : 0)
+  return Math.max(0, now - state.startTime - paused)
+}
+
 export const useRecordingStore = create<RecordingStore>((set, get) => ({
   // State
   audioMode: 'recording',
   isRecording: false,
+  isPaused: false,
   isInteractive: false,
   startTime: null,
+  pausedAt: null,
+  pausedDuration: 0,
   currentTime: 0,
   duration: 0,
   error: null,
@@ -45,8 +65,11 @@ export const useRecordingStore = create<RecordingStore>((set, get) => ({
     const now = Date.now()
     set({
       isRecording: true,
+      isPaused: false,
       isInteractive: true,
       startTime: now,
+      pausedAt: null,
+      pausedDuration: 0,
       currentTime: 0,
       duration: 0,
       error: null,
@@ -54,27 +77,39 @@ export const useRecordingStore = create<RecordingStore>((set, get) => ({
   },
 
   stopRecording: () => {
+    const now = Date.now()
     set((state) => ({
       isRecording: false,
+      isPaused: false,
       isInteractive: false,
+      pausedAt: null,
+      pausedDuration: state.pausedDuration + (state.pausedAt !== null ? now - state.pausedAt : 0),
       duration: state.currentTime,
     }))
   },
 
+  // Pausing keeps the recording open, with the clock stopped, so the audio
+  // stays one continuous file and resumes where it left off
   pauseRecording: () => {
-    // Pause logic can be added here if needed
-    // For now, we'll keep it simple and just stop
-    set({ isRecording: false })
+    const state = get()
+    if (!state.isRecording || state.isPaused) return
+
+    const now = Date.now()
+    set({
+      isPaused: true,
+      pausedAt: now,
+      currentTime: elapsedRecordingTime(state, now),
+    })
   },
 
   resumeRecording: () => {
-    // Resume logic can be added here if needed
-    // For now, we'll keep it simple and restart
-    const now = Date.now()
+    const state = get()
+    if (!state.isRecording || !state.isPaused || state.pausedAt === null) return
+
     set({
-      isRecording: true,
-      isInteractive: true,
-      startTime: now,
+      isPaused: false,
+      pausedAt: null,
+      pausedDuration: state.pausedDuration + (Date.now() - state.pausedAt),
       error: null,
     })
   },
@@ -87,8 +122,11 @@ export const useRecordingStore = create<RecordingStore>((set, get) => ({
     set({
       audioMode: 'recording',
       isRecording: false,
+      isPaused: false,
       isInteractive: false,
       startTime: null,
+      pausedAt: null,
+      pausedDuration: 0,
       currentTime: 0,
       duration: 0,
       error: null,
@@ -102,11 +140,13 @@ export const useRecordingStore = create<RecordingStore>((set, get) => ({
   updateCurrentTime: (time: number) => {
     set({ currentTime: time })
   },
+
+  getElapsedTime: (now?: number) => elapsedRecordingTime(get(), now),
 }))
 
 // Helper hook for formatting duration
 export const useRecordingTime = () => {
-  const { currentTime, isRecording, startTime } = useRecordingStore()
+  const { currentTime, isRecording, isPaused, startTime } = useRecordingStore()
   
   const formatDuration = (ms: number) => {
     const seconds = Math.floor(ms / 1000)
@@ -118,6 +158,7 @@ export const useRecordingTime = () => {
   return {
     currentTime,
     isRecording,
+    isPaused,
     startTime,
     formatDuration,
   }
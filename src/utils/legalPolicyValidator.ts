@@ -1,5 +1,6 @@
-import { Chess } from 'chess.js'
+import type { Chess } from 'chess.js'
 import type { LegalPolicy, Square, Piece } from '@/types/graph-studio'
+import { applyMove, createBoard, normalizeFen, type Variant } from '@/lib/variants'
 
 export interface ValidationResult {
   isValid: boolean
@@ -23,9 +24,14 @@ export interface BoardState {
  */
 export class LegalPolicyValidator {
   private chess: Chess
-
-  constructor(initialFen: string = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1') {
-    this.chess = new Chess(initialFen)
+  private fen: string
+
+  constructor(
+    initialFen: string = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    private variant: Variant = 'standard'
+  ) {
+    this.chess = createBoard(initialFen, variant)
+    this.fen = initialFen
   }
 
   /**
@@ -33,7 +39,8 @@ export class LegalPolicyValidator {
    */
   updateBoard(fen: string): void {
     try {
-      this.chess.load(fen)
+      this.chess = createBoard(fen, this.variant)
+      this.fen = fen
     } catch (error) {
       console.warn('Invalid FEN provided to validator:', fen)
     }
@@ -61,26 +68,16 @@ export class LegalPolicyValidator {
   }
 
   /**
-   * Strict validation: Full chess legality via chess.js
+   * Strict validation: Full chess legality under the variant's rules
    */
   private validateStrict(from: Square, to: Square, promo?: 'q' | 'r' | 'b' | 'n'): ValidationResult {
     try {
-      const move = this.chess.move({
-        from,
-        to,
-        promotion: promo || 'q'
-      })
+      const move = applyMove(this.fen, { from, to, promotion: promo || 'q' }, this.variant)
+      this.updateBoard(move.after)
 
-      if (move) {
-        return {
-          isValid: true,
-          san: move.san
-        }
-      } else {
-        return {
-          isValid: false,
-          error: 'Invalid move according to chess rules'
-        }
+      return {
+        isValid: true,
+        san: move.san
       }
     } catch (error) {
       return {
@@ -129,11 +126,7 @@ export class LegalPolicyValidator {
     // Try to generate SAN if possible (for display purposes)
     let san: string | undefined
     try {
-      const move = this.chess.move({ from, to, promotion: promo || 'q' })
-      if (move) {
-        san = move.san
-        this.chess.undo() // Undo the move since we're just validating
-      }
+      san = applyMove(this.fen, { from, to, promotion: promo || 'q' }, this.variant).san
     } catch {
       // If we can't generate SAN, that's okay in pieceLegal mode
     }
@@ -245,25 +238,26 @@ export class LegalPolicyValidator {
    * Get current board state
    */
   getBoardState(): BoardState {
+    const fen = normalizeFen(this.fen, this.variant)
     return {
-      fen: this.chess.fen(),
+      fen,
       turn: this.chess.turn(),
       castling: {
-        white: this.formatCastlingRights(this.chess.getCastlingRights('w')),
-        black: this.formatCastlingRights(this.chess.getCastlingRights('b'))
+        white: this.formatCastlingRights(fen, 'w'),
+        black: this.formatCastlingRights(fen, 'b')
       },
       enPassant: this.getEnPassantFromFen()
     }
   }
 
   /**
-   * Format castling rights object to string
+   * Format one side's castling rights from the FEN, e.g. 'KQ', or 'HB' for
+   * chess960 rooks that are not the outermost on their side
    */
-  private formatCastlingRights(rights: { k: boolean; q: boolean }): string {
-    let result = ''
-    if (rights.k) result += 'K'
-    if (rights.q) result += 'Q'
-    return result
+  private formatCastlingRights(fen: string, color: 'w' | 'b'): string {
+    const field = fen.split(' ')[2]
+    const letters = field.split('').filter((c) => c !== '-' && (c === c.toUpperCase()) === (color === 'w'))
+    return letters.join('').toUpperCase()
   }
 
   /**
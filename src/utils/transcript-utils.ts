@@ -1,4 +1,4 @@
-import { type WhisperXResponse, type EnhancedTextEvent, whisperXToTextEvents } from '@/lib/cmf';
+import { type WhisperXResponse, type EnhancedTextEvent, whisperXToTextEvents, validateWhisperXResponse } from '@/lib/cmf';
 
 /**
  * Save transcript data to a JSON file and return the URL
@@ -115,7 +115,10 @@ export async function loadTranscriptFromUrl(url: string): Promise<WhisperXRespon
     }
     
     const data = await response.json();
-    return data as WhisperXResponse;
+    if (!validateWhisperXResponse(data)) {
+      throw new Error('Invalid transcript format');
+    }
+    return data;
   } catch (error) {
     console.error('Error loading transcript:', error);
     return null;